@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "WorkflowStepTemplate" ADD COLUMN "control" JSONB;
+
+-- AlterTable
+ALTER TABLE "WorkflowStepExecution" ADD COLUMN "resumeAt" DATETIME;
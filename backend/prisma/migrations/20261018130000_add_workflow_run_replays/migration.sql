@@ -0,0 +1,50 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_WorkflowRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workflowId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "currentStep" INTEGER NOT NULL DEFAULT 0,
+    "currentStepId" TEXT,
+    "input" JSONB,
+    "output" JSONB,
+    "context" JSONB,
+    "variables" JSONB,
+    "startTime" DATETIME,
+    "endTime" DATETIME,
+    "estimatedEnd" DATETIME,
+    "actualDuration" INTEGER,
+    "totalSteps" INTEGER NOT NULL DEFAULT 0,
+    "completedSteps" INTEGER NOT NULL DEFAULT 0,
+    "failedSteps" INTEGER NOT NULL DEFAULT 0,
+    "skippedSteps" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "errorCode" TEXT,
+    "errorDetails" JSONB,
+    "priority" TEXT NOT NULL DEFAULT 'medium',
+    "executor" TEXT,
+    "executorType" TEXT,
+    "parentRunId" TEXT,
+    "replayMode" TEXT,
+    "replayStepId" TEXT,
+    "replayInput" JSONB,
+    "executionLog" JSONB,
+    "performanceLog" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "WorkflowRun_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "WorkflowTemplate" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "WorkflowRun_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "WorkflowRun_parentRunId_fkey" FOREIGN KEY ("parentRunId") REFERENCES "WorkflowRun" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_WorkflowRun" ("actualDuration", "completedSteps", "context", "createdAt", "currentStep", "currentStepId", "endTime", "error", "errorCode", "errorDetails", "estimatedEnd", "executionLog", "executor", "executorType", "failedSteps", "id", "input", "output", "performanceLog", "priority", "projectId", "skippedSteps", "startTime", "status", "totalSteps", "updatedAt", "variables", "workflowId") SELECT "actualDuration", "completedSteps", "context", "createdAt", "currentStep", "currentStepId", "endTime", "error", "errorCode", "errorDetails", "estimatedEnd", "executionLog", "executor", "executorType", "failedSteps", "id", "input", "output", "performanceLog", "priority", "projectId", "skippedSteps", "startTime", "status", "totalSteps", "updatedAt", "variables", "workflowId" FROM "WorkflowRun";
+DROP TABLE "WorkflowRun";
+ALTER TABLE "new_WorkflowRun" RENAME TO "WorkflowRun";
+CREATE INDEX "WorkflowRun_workflowId_status_idx" ON "WorkflowRun"("workflowId", "status");
+CREATE INDEX "WorkflowRun_projectId_idx" ON "WorkflowRun"("projectId");
+CREATE INDEX "WorkflowRun_status_createdAt_idx" ON "WorkflowRun"("status", "createdAt");
+CREATE INDEX "WorkflowRun_executor_idx" ON "WorkflowRun"("executor");
+CREATE INDEX "WorkflowRun_parentRunId_idx" ON "WorkflowRun"("parentRunId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
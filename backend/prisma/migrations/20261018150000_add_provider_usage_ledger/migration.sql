@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "provider_usage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT,
+    "agentType" TEXT,
+    "workflowRunId" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "cost" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "spending_budgets" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scope" TEXT NOT NULL,
+    "scopeId" TEXT NOT NULL,
+    "softLimit" REAL,
+    "hardLimit" REAL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "provider_usage_projectId_createdAt_idx" ON "provider_usage"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "provider_usage_workflowRunId_idx" ON "provider_usage"("workflowRunId");
+
+-- CreateIndex
+CREATE INDEX "provider_usage_agentType_createdAt_idx" ON "provider_usage"("agentType", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "spending_budgets_scope_scopeId_key" ON "spending_budgets"("scope", "scopeId");
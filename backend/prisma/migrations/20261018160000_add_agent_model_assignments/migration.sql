@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "agent_model_assignments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentType" TEXT NOT NULL,
+    "primaryProvider" TEXT NOT NULL,
+    "primaryModel" TEXT NOT NULL,
+    "fallbackProviders" TEXT NOT NULL,
+    "specializedConfigs" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "project_agent_model_assignments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "agentType" TEXT NOT NULL,
+    "primaryProvider" TEXT NOT NULL,
+    "primaryModel" TEXT NOT NULL,
+    "fallbackProviders" TEXT NOT NULL,
+    "specializedConfigs" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "project_agent_model_assignments_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "agent_model_assignment_history" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentType" TEXT NOT NULL,
+    "projectId" TEXT,
+    "action" TEXT NOT NULL,
+    "previous" TEXT,
+    "next" TEXT,
+    "changedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "agent_model_assignments_agentType_key" ON "agent_model_assignments"("agentType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_agent_model_assignments_projectId_agentType_key" ON "project_agent_model_assignments"("projectId", "agentType");
+
+-- CreateIndex
+CREATE INDEX "agent_model_assignment_history_agentType_createdAt_idx" ON "agent_model_assignment_history"("agentType", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "agent_model_assignment_history_projectId_createdAt_idx" ON "agent_model_assignment_history"("projectId", "createdAt");
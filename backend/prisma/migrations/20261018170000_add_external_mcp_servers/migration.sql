@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "external_mcp_servers" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "transport" TEXT NOT NULL,
+    "command" TEXT,
+    "args" TEXT,
+    "env" TEXT,
+    "url" TEXT,
+    "headers" TEXT,
+    "agentTypes" TEXT NOT NULL,
+    "includeTools" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "external_mcp_servers_name_key" ON "external_mcp_servers"("name");
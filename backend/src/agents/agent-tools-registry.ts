@@ -43,6 +43,26 @@ export class AgentToolsRegistry {
       },
     ],
 
+    // System Architect Agent
+    [
+      'system-architect',
+      {
+        agentType: 'system-architect',
+        availableTools: [
+          'read_workspace_file',
+          'search_workspace_files',
+          'analyze_code',
+        ],
+        toolPermissions: {
+          read_workspace_file: ['read'],
+          search_workspace_files: ['read'],
+          analyze_code: ['read'],
+        },
+        maxConcurrentTools: 3,
+        toolTimeout: 45000,
+      },
+    ],
+
     // Business Analyst Agent
     [
       'business-analyst',
@@ -235,6 +255,45 @@ export class AgentToolsRegistry {
     console.log(`📋 Registered tools for agent: ${config.agentType}`);
   }
 
+  /**
+   * Grant tools registered at runtime, e.g. from external MCP servers, to
+   * an agent type
+   */
+  static grantTools(
+    agentType: string,
+    toolPermissions: Record<string, string[]>
+  ): Result<boolean, { message: string }> {
+    const config = this.toolConfigs.get(agentType);
+
+    if (!config) {
+      return {
+        success: false,
+        error: { message: `Unknown agent type: ${agentType}` },
+      };
+    }
+
+    for (const [toolName, permissions] of Object.entries(toolPermissions)) {
+      if (!config.availableTools.includes(toolName)) {
+        config.availableTools.push(toolName);
+      }
+      config.toolPermissions[toolName] = permissions;
+    }
+
+    return { success: true, data: true };
+  }
+
+  /**
+   * Withdraw tools from every agent type
+   */
+  static revokeTools(toolNames: string[]): void {
+    for (const config of this.toolConfigs.values()) {
+      config.availableTools = config.availableTools.filter(
+        toolName => !toolNames.includes(toolName)
+      );
+      toolNames.forEach(toolName => delete config.toolPermissions[toolName]);
+    }
+  }
+
   /**
    * Get all registered agent types
    */
@@ -5,6 +5,8 @@
 
 import { Express, Request, Response } from 'express';
 import { unifiedAIChatService } from '../../services/unified-ai-chat.service';
+import { webSocketService } from '../../services/websocket.service';
+import { openEventStream } from '../../utils/event-stream';
 import {
   IAgentRoutes,
   AgentServerDependencies,
@@ -94,6 +96,10 @@ export class AgentRoutesManager implements IAgentRoutes {
       '/api/projects/:projectId/chat',
       this.handleSendMessage.bind(this)
     );
+    this.app.post(
+      '/api/projects/:projectId/chat/stream',
+      this.handleStreamMessage.bind(this)
+    );
   }
 
   /**
@@ -731,6 +737,7 @@ export class AgentRoutesManager implements IAgentRoutes {
           taskType: 'general',
           temperature: 0.7,
           maxTokens: 2000,
+          projectId: projectId as string,
         }
       );
 
@@ -772,6 +779,89 @@ export class AgentRoutesManager implements IAgentRoutes {
     }
   }
 
+  /**
+   * Stream an agent reply as server-sent events (delta, done, error); the
+   * same events are broadcast over WebSocket to the project room. When the
+   * client disconnects the provider stream is closed
+   */
+  private async handleStreamMessage(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const projectId = req.params.projectId as string;
+    const { message, agentType = 'project-manager' } = req.body;
+
+    if (!message?.trim()) {
+      res.status(400).json({
+        success: false,
+        error: 'Message content is required',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const messageId = `msg-${Date.now()}`;
+    const stream = openEventStream(res);
+    const broadcast = (
+      type: 'delta' | 'done' | 'error',
+      content?: string,
+      data?: any
+    ) =>
+      webSocketService.sendChatStream({
+        projectId,
+        messageId,
+        agentType,
+        type,
+        content,
+        data,
+        timestamp: new Date().toISOString(),
+      });
+
+    try {
+      for await (const event of unifiedAIChatService.chatStreamForAgent(
+        agentType,
+        [{ role: 'user', content: message }],
+        {
+          taskType: 'general',
+          temperature: 0.7,
+          maxTokens: 2000,
+          projectId,
+        }
+      )) {
+        if (stream.closed) break;
+
+        if (event.type === 'delta') {
+          stream.send('delta', { messageId, content: event.content });
+          broadcast('delta', event.content);
+        } else if (event.type === 'done') {
+          const aiResponse = {
+            id: messageId,
+            role: 'assistant',
+            content: event.response.content,
+            provider: event.response.provider,
+            model: event.response.model,
+            timestamp: new Date().toISOString(),
+            projectId,
+            agentType,
+            usage: event.response.usage,
+          };
+          stream.send('done', aiResponse);
+          broadcast('done', event.response.content, aiResponse);
+        } else {
+          console.error('Chat service error:', event.error);
+          const error = `AI service unavailable: ${event.error.message}`;
+          stream.send('error', { messageId, error });
+          broadcast('error', undefined, { error });
+        }
+      }
+    } catch (error) {
+      console.error('Error streaming message:', error);
+      stream.send('error', { messageId, error: 'Failed to send message' });
+    } finally {
+      stream.close();
+    }
+  }
+
   /**
    * Setup all routes
    */
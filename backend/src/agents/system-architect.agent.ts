@@ -5,7 +5,10 @@
 
 import { SystemArchitectPrompts } from './system-architect.prompts';
 import { SystemArchitectLogicService } from './services/system-architect.logic';
+import { unifiedAIChatService } from '../services/unified-ai-chat.service';
 import {
+  ArchitectureResponse,
+  architectureResponseSchema,
   SystemArchitecture,
   ProjectRequirement,
   ArchitectureConstraint,
@@ -18,7 +21,11 @@ export class SystemArchitectAgent {
   private readonly name: string;
   private readonly description: string;
 
-  constructor() {
+  /**
+   * @param workflowRunId - Run the agent works for; its calls are billed
+   * and budgeted to it
+   */
+  constructor(private readonly workflowRunId?: string) {
     this.agentId = 'system-architect';
     this.name = 'System Architect Agent';
     this.description = 'System Architecture Design and Analysis';
@@ -32,13 +39,6 @@ export class SystemArchitectAgent {
     console[level](`[${this.agentId}] ${message}`, meta || '');
   }
 
-  private async sendPrompt(): Promise<string> {
-    // REAL IMPLEMENTATION REQUIRED - NO MOCK ARCHITECTURE
-    throw new Error(
-      'Architecture generation not implemented. Real ML provider integration required.'
-    );
-  }
-
   /**
    * Design system architecture based on requirements and constraints
    */
@@ -58,14 +58,16 @@ export class SystemArchitectAgent {
       });
 
       // Generate architecture design prompt
-      SystemArchitectPrompts.buildArchitectureDesignPrompt(
+      const prompt = SystemArchitectPrompts.buildArchitectureDesignPrompt(
         request.requirements,
         request.constraints
       );
 
       // Get AI response
-      const response = await this.sendPrompt();
-      const architectureData = this.parseArchitectureResponse(response);
+      const architectureData = await this.generateArchitecture(
+        prompt,
+        request.projectId
+      );
 
       // Validate and enhance architecture
       const validation = SystemArchitectLogicService.validateArchitecture(
@@ -172,24 +174,43 @@ export class SystemArchitectAgent {
 
   // Private helper methods
 
-  private parseArchitectureResponse(response: string): SystemArchitecture {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in architecture response');
+  private async generateArchitecture(
+    prompt: string,
+    projectId: string
+  ): Promise<SystemArchitecture> {
+    const result = await unifiedAIChatService.generateStructuredForAgent(
+      this.agentId,
+      [{ role: 'user', content: prompt }],
+      architectureResponseSchema,
+      {
+        taskType: 'systemDesign',
+        projectId,
+        workflowRunId: this.workflowRunId,
+        name: 'system_architecture',
       }
+    );
 
-      const parsed = JSON.parse(jsonMatch[0]);
-      return this.buildSystemArchitectureFromParsed(parsed);
-    } catch (error: any) {
-      this.log('error', 'Failed to parse architecture response', {
-        error: error.message,
+    if (!result.success) {
+      this.log('error', 'Failed to generate architecture response', {
+        error: result.error.message,
+        details: result.error.details,
+      });
+      throw new Error(
+        `Architecture response parsing failed: ${result.error.message}`
+      );
+    }
+
+    if (result.data.attempts > 1) {
+      this.log('warn', 'Architecture response repaired', {
+        attempts: result.data.attempts,
       });
-      throw new Error(`Architecture response parsing failed: ${error.message}`);
     }
+    return this.buildSystemArchitectureFromParsed(result.data.data);
   }
 
-  private buildSystemArchitectureFromParsed(parsed: any): SystemArchitecture {
+  private buildSystemArchitectureFromParsed(
+    parsed: ArchitectureResponse
+  ): SystemArchitecture {
     const defaultQualityAttribute = {
       level: 'medium' as const,
       requirements: [],
@@ -3,6 +3,8 @@
  * Type definitions for System Architecture Agent
  */
 
+import { z } from 'zod';
+
 export interface SystemArchitecture {
   id: string;
   name: string;
@@ -253,3 +255,140 @@ export interface Recommendation {
   effort: string;
   benefits: string[];
 }
+
+const stringList = z.array(z.string()).default([]);
+
+const qualityAttributeSchema = z.object({
+  level: z.enum(['low', 'medium', 'high', 'critical']),
+  requirements: stringList,
+  strategies: stringList,
+  metrics: z
+    .array(
+      z.object({
+        name: z.string(),
+        target: z.string(),
+        measurement: z.string(),
+      })
+    )
+    .default([]),
+});
+
+const technologySchema = z.object({
+  name: z.string(),
+  version: z.string().optional(),
+  purpose: z.string(),
+  alternatives: z.array(z.string()).optional(),
+  justification: z.string(),
+});
+
+/**
+ * Shape of the model's architecture design response; validated before
+ * it is turned into a SystemArchitecture
+ */
+export const architectureResponseSchema = z.object({
+  architecture: z.object({
+    name: z.string(),
+    type: z.enum([
+      'microservices',
+      'monolith',
+      'serverless',
+      'hybrid',
+      'event_driven',
+    ]),
+    description: z.string(),
+    layers: z
+      .array(
+        z.object({
+          name: z.string(),
+          type: z.enum([
+            'presentation',
+            'business',
+            'data',
+            'integration',
+            'infrastructure',
+          ]),
+          description: z.string(),
+          technologies: stringList,
+          responsibilities: stringList,
+          components: stringList,
+        })
+      )
+      .default([]),
+    components: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          type: z.enum([
+            'service',
+            'database',
+            'api',
+            'ui',
+            'gateway',
+            'cache',
+            'queue',
+          ]),
+          description: z.string(),
+          layer: z.string(),
+          responsibilities: stringList,
+          interfaces: z.array(z.any()).default([]),
+          dependencies: stringList,
+          technologies: stringList,
+        })
+      )
+      .default([]),
+    integrations: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          type: z.enum(['api', 'event', 'database', 'file', 'messaging']),
+          description: z.string(),
+          sourceComponent: z.string(),
+          targetComponent: z.string(),
+          protocol: z.string(),
+          dataFormat: z.string(),
+          securityRequirements: stringList,
+        })
+      )
+      .default([]),
+  }),
+  qualityAttributes: z
+    .object({
+      scalability: qualityAttributeSchema.optional(),
+      performance: qualityAttributeSchema.optional(),
+      security: qualityAttributeSchema.optional(),
+      maintainability: qualityAttributeSchema.optional(),
+      availability: qualityAttributeSchema.optional(),
+    })
+    .optional(),
+  technologyStack: z
+    .object({
+      frontend: z.array(technologySchema).default([]),
+      backend: z.array(technologySchema).default([]),
+      database: z.array(technologySchema).default([]),
+      infrastructure: z.array(technologySchema).default([]),
+      monitoring: z.array(technologySchema).default([]),
+    })
+    .optional(),
+  deploymentStrategy: z
+    .object({
+      approach: z.enum(['containerized', 'serverless', 'vm', 'hybrid']),
+      environment: z.array(z.any()).default([]),
+      cicd: z.object({
+        pipeline: z.string(),
+        stages: stringList,
+        tools: stringList,
+        automation: stringList,
+      }),
+      scaling: z.object({
+        horizontal: z.boolean(),
+        vertical: z.boolean(),
+        autoScaling: z.boolean(),
+        triggers: stringList,
+      }),
+    })
+    .optional(),
+});
+
+export type ArchitectureResponse = z.infer<typeof architectureResponseSchema>;
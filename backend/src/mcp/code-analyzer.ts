@@ -0,0 +1,723 @@
+/**
+ * Code Analyzer
+ * Static analysis for the analyze_code MCP tool: TypeScript diagnostics,
+ * cyclomatic complexity, exported symbols, the import graph and exports
+ * nobody imports, plus ESLint findings where the workspace configures it
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { Result } from '../types/ai-provider.types';
+
+export interface CodeAnalyzerOptions {
+  workspaceRoot: string;
+  /** Files analyzed per request; the rest of a directory is skipped */
+  maxFiles: number;
+  /** Functions above this complexity are listed in the summary */
+  complexityThreshold: number;
+  /** Run ESLint when the workspace has a configuration */
+  eslint: boolean;
+}
+
+export interface CodeAnalysisRequest {
+  /** File or directory relative to the workspace root */
+  path?: string;
+  /** Inline code, analyzed as a single file */
+  code?: string;
+  language?: string;
+  complexityThreshold?: number;
+}
+
+export interface CodeDiagnostic {
+  source: 'typescript' | 'eslint';
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  line: number;
+  column: number;
+  code?: string;
+}
+
+export interface FunctionComplexity {
+  name: string;
+  line: number;
+  complexity: number;
+}
+
+export interface ExportedSymbol {
+  name: string;
+  kind: string;
+  line: number;
+}
+
+export interface ImportEdge {
+  from: string;
+  /** Workspace-relative file, or the package name for external modules */
+  to: string;
+  external: boolean;
+  names: string[];
+}
+
+export interface DeadExport {
+  file: string;
+  name: string;
+  line: number;
+}
+
+export interface FileAnalysis {
+  path: string;
+  lines: number;
+  diagnostics: CodeDiagnostic[];
+  functions: FunctionComplexity[];
+  exports: ExportedSymbol[];
+}
+
+export interface CodeAnalysisReport {
+  target: string;
+  files: FileAnalysis[];
+  imports: ImportEdge[];
+  /** Only computed for directories: exports no analyzed file imports */
+  deadExports: DeadExport[];
+  lint: { enabled: boolean; reason?: string };
+  /** More files matched than maxFiles */
+  truncated: boolean;
+  summary: {
+    files: number;
+    errors: number;
+    warnings: number;
+    functions: number;
+    maxComplexity: number;
+    averageComplexity: number;
+    complexFunctions: (FunctionComplexity & { file: string })[];
+  };
+}
+
+interface LintMessage {
+  ruleId: string | null;
+  severity: number;
+  message: string;
+  line: number;
+  column: number;
+}
+
+interface LintEngine {
+  lintFiles(
+    files: string[]
+  ): Promise<{ filePath: string; messages: LintMessage[] }[]>;
+  lintText(
+    code: string,
+    options: { filePath: string }
+  ): Promise<{ filePath: string; messages: LintMessage[] }[]>;
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  '.git',
+  'dist',
+  'build',
+  'coverage',
+]);
+/** Imports of a whole module count as using every export */
+const ALL_EXPORTS = '*';
+
+const DEFAULT_OPTIONS: CodeAnalyzerOptions = {
+  workspaceRoot: process.cwd(),
+  maxFiles: 200,
+  complexityThreshold: 10,
+  eslint: true,
+};
+
+export class CodeAnalyzer {
+  private readonly options: CodeAnalyzerOptions;
+
+  constructor(options: Partial<CodeAnalyzerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * The same analyzer confined to another root, e.g. a project workspace
+   */
+  withWorkspaceRoot(workspaceRoot: string): CodeAnalyzer {
+    return new CodeAnalyzer({ ...this.options, workspaceRoot });
+  }
+
+  async analyze(
+    request: CodeAnalysisRequest
+  ): Promise<Result<CodeAnalysisReport>> {
+    if (request.code !== undefined) {
+      return this.analyzeSource(request);
+    }
+    if (!request.path) {
+      return invalid('Either path or code is required');
+    }
+
+    const resolved = await this.resolveTarget(request.path);
+    if (!resolved.success) {
+      return resolved;
+    }
+
+    const target = resolved.data;
+    const stat = await fs.stat(target);
+
+    const files = stat.isDirectory()
+      ? await collectSourceFiles(target)
+      : [target];
+    if (files.length === 0) {
+      return invalid(`No source files in ${request.path}`);
+    }
+
+    const analyzed = files.slice(0, this.options.maxFiles);
+    const program = ts.createProgram(analyzed, compilerOptionsFor(target));
+    const report = this.buildReport(request, program, analyzed);
+    report.truncated = files.length > analyzed.length;
+    if (stat.isDirectory()) {
+      report.deadExports = findDeadExports(report);
+    }
+    await this.addLintFindings(report, lint => lint.lintFiles(analyzed));
+    return { success: true, data: report };
+  }
+
+  /**
+   * Real path of a workspace path; symlinks are followed before the
+   * workspace check because the analysis reads through them
+   */
+  private async resolveTarget(requestPath: string): Promise<Result<string>> {
+    const root = path.resolve(this.options.workspaceRoot);
+    if (!isInside(root, path.resolve(root, requestPath))) {
+      return invalid('Access denied: Path is outside workspace');
+    }
+
+    const realRoot = await fs.realpath(root).catch(() => root);
+    const target = await fs
+      .realpath(path.resolve(root, requestPath))
+      .catch(() => undefined);
+    if (!target) {
+      return invalid(`Path not found: ${requestPath}`);
+    }
+    if (!isInside(realRoot, target)) {
+      return invalid('Access denied: Path is outside workspace');
+    }
+    return { success: true, data: target };
+  }
+
+  private async analyzeSource(
+    request: CodeAnalysisRequest
+  ): Promise<Result<CodeAnalysisReport>> {
+    const fileName = path.join(
+      path.resolve(this.options.workspaceRoot),
+      `snippet${extensionFor(request.language)}`
+    );
+    const options = { ...compilerOptionsFor(this.options.workspaceRoot) };
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (name, languageVersion, ...rest) =>
+      name === fileName
+        ? ts.createSourceFile(name, request.code || '', languageVersion, true)
+        : getSourceFile(name, languageVersion, ...rest);
+    const fileExists = host.fileExists;
+    host.fileExists = name => name === fileName || fileExists(name);
+
+    const program = ts.createProgram([fileName], options, host);
+    const report = this.buildReport(request, program, [fileName]);
+    await this.addLintFindings(report, lint =>
+      lint.lintText(request.code || '', { filePath: fileName })
+    );
+    return { success: true, data: report };
+  }
+
+  private buildReport(
+    request: CodeAnalysisRequest,
+    program: ts.Program,
+    fileNames: string[]
+  ): CodeAnalysisReport {
+    const checker = program.getTypeChecker();
+    const files: FileAnalysis[] = [];
+    const imports: ImportEdge[] = [];
+
+    for (const fileName of fileNames) {
+      const sourceFile = program.getSourceFile(fileName);
+      if (!sourceFile) {
+        continue;
+      }
+      files.push({
+        path: this.relative(fileName),
+        lines:
+          sourceFile.getLineAndCharacterOfPosition(sourceFile.end).line + 1,
+        diagnostics: typeScriptDiagnostics(program, sourceFile),
+        functions: functionComplexities(sourceFile),
+        exports: exportedSymbols(checker, sourceFile),
+      });
+      imports.push(
+        ...importEdges(sourceFile, program.getCompilerOptions()).map(edge => ({
+          ...edge,
+          from: this.relative(fileName),
+          to: edge.external ? edge.to : this.relative(edge.to),
+        }))
+      );
+    }
+
+    return {
+      target: request.path || 'snippet',
+      files,
+      imports,
+      deadExports: [],
+      lint: { enabled: false },
+      truncated: false,
+      summary: summarize(
+        files,
+        request.complexityThreshold ?? this.options.complexityThreshold
+      ),
+    };
+  }
+
+  /**
+   * Merge ESLint messages into the file diagnostics; a workspace without
+   * an ESLint configuration (or without ESLint) only records why
+   */
+  private async addLintFindings(
+    report: CodeAnalysisReport,
+    run: (lint: LintEngine) => ReturnType<LintEngine['lintFiles']>
+  ): Promise<void> {
+    if (!this.options.eslint) {
+      report.lint = { enabled: false, reason: 'ESLint is disabled' };
+      return;
+    }
+
+    try {
+      const { ESLint } = require('eslint');
+      const results = await run(
+        new ESLint({ cwd: this.options.workspaceRoot }) as LintEngine
+      );
+      for (const result of results) {
+        const file = report.files.find(
+          analysis => analysis.path === this.relative(result.filePath)
+        );
+        file?.diagnostics.push(...result.messages.map(lintDiagnostic));
+      }
+      report.lint = { enabled: true };
+      Object.assign(report.summary, countDiagnostics(report.files));
+    } catch (error) {
+      report.lint = {
+        enabled: false,
+        reason: error instanceof Error ? error.message : 'ESLint unavailable',
+      };
+    }
+  }
+
+  private relative(fileName: string): string {
+    return path
+      .relative(this.options.workspaceRoot, fileName)
+      .split(path.sep)
+      .join('/');
+  }
+}
+
+/**
+ * Plain-text digest of a report for models reading tool results
+ */
+export function formatAnalysisReport(report: CodeAnalysisReport): string {
+  const { summary } = report;
+  const lines = [
+    `Analyzed ${summary.files} file(s) in ${report.target}: ${summary.errors} error(s), ${summary.warnings} warning(s)`,
+    `Functions: ${summary.functions}, max complexity ${summary.maxComplexity}, average ${summary.averageComplexity}`,
+  ];
+
+  for (const file of report.files) {
+    for (const diagnostic of file.diagnostics) {
+      lines.push(
+        `${file.path}:${diagnostic.line}:${diagnostic.column} ${
+          diagnostic.severity
+        } ${diagnostic.message} [${diagnostic.source}${
+          diagnostic.code ? ` ${diagnostic.code}` : ''
+        }]`
+      );
+    }
+  }
+  for (const fn of summary.complexFunctions) {
+    lines.push(
+      `${fn.file}:${fn.line} ${fn.name} has complexity ${fn.complexity}`
+    );
+  }
+  for (const dead of report.deadExports) {
+    lines.push(
+      `${dead.file}:${dead.line} export ${dead.name} is never imported`
+    );
+  }
+  if (!report.lint.enabled && report.lint.reason) {
+    lines.push(`ESLint not run: ${report.lint.reason}`);
+  }
+  return lines.join('\n');
+}
+
+function invalid<T>(message: string): Result<T> {
+  return {
+    success: false,
+    error: { code: 'INVALID_ANALYSIS_TARGET', message },
+  };
+}
+
+/**
+ * Whether an absolute target path is root itself or lies below it
+ */
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative !== '..' &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+async function collectSourceFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+      files.push(...(await collectSourceFiles(fullPath)));
+    } else if (
+      entry.isFile() &&
+      SOURCE_EXTENSIONS.includes(path.extname(entry.name)) &&
+      !entry.name.endsWith('.d.ts')
+    ) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Compiler options of the nearest tsconfig.json, without emitting
+ */
+function compilerOptionsFor(target: string): ts.CompilerOptions {
+  const configPath = ts.findConfigFile(target, ts.sys.fileExists);
+  const defaults: ts.CompilerOptions = {
+    allowJs: true,
+    noEmit: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+  };
+  if (!configPath) {
+    return defaults;
+  }
+
+  const config = ts.readConfigFile(configPath, ts.sys.readFile);
+  const parsed = ts.parseJsonConfigFileContent(
+    config.config || {},
+    ts.sys,
+    path.dirname(configPath)
+  );
+  return { ...parsed.options, ...defaults };
+}
+
+function extensionFor(language?: string): string {
+  switch ((language || 'typescript').toLowerCase()) {
+    case 'javascript':
+    case 'js':
+      return '.js';
+    case 'tsx':
+      return '.tsx';
+    case 'jsx':
+      return '.jsx';
+    default:
+      return '.ts';
+  }
+}
+
+function position(sourceFile: ts.SourceFile, offset: number) {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+  return { line: line + 1, column: character + 1 };
+}
+
+function typeScriptDiagnostics(
+  program: ts.Program,
+  sourceFile: ts.SourceFile
+): CodeDiagnostic[] {
+  return [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile),
+  ].map(diagnostic => ({
+    source: 'typescript',
+    severity:
+      diagnostic.category === ts.DiagnosticCategory.Error
+        ? 'error'
+        : diagnostic.category === ts.DiagnosticCategory.Warning
+        ? 'warning'
+        : 'info',
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: `TS${diagnostic.code}`,
+    ...position(sourceFile, diagnostic.start || 0),
+  }));
+}
+
+function lintDiagnostic(message: LintMessage): CodeDiagnostic {
+  return {
+    source: 'eslint',
+    severity: message.severity === 2 ? 'error' : 'warning',
+    message: message.message,
+    line: message.line,
+    column: message.column,
+    ...(message.ruleId && { code: message.ruleId }),
+  };
+}
+
+/**
+ * McCabe complexity of every function: 1 plus one per branch, loop, case,
+ * catch and short-circuit operator; nested functions count on their own
+ */
+function functionComplexities(sourceFile: ts.SourceFile): FunctionComplexity[] {
+  const functions: FunctionComplexity[] = [];
+
+  const visitFunction = (node: ts.FunctionLikeDeclaration) => {
+    let complexity = 1;
+    const count = (child: ts.Node): void => {
+      if (ts.isFunctionLike(child)) {
+        visitFunction(child as ts.FunctionLikeDeclaration);
+        return;
+      }
+      if (isDecisionPoint(child)) {
+        complexity++;
+      }
+      ts.forEachChild(child, count);
+    };
+    if (node.body) {
+      ts.forEachChild(node.body, count);
+    }
+    functions.push({
+      name: functionName(node),
+      line: position(sourceFile, node.getStart(sourceFile)).line,
+      complexity,
+    });
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isFunctionLike(node) && 'body' in node) {
+      visitFunction(node as ts.FunctionLikeDeclaration);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return functions.sort((a, b) => a.line - b.line);
+}
+
+function isDecisionPoint(node: ts.Node): boolean {
+  switch (node.kind) {
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.CaseClause:
+    case ts.SyntaxKind.CatchClause:
+      return true;
+    case ts.SyntaxKind.BinaryExpression:
+      return [
+        ts.SyntaxKind.AmpersandAmpersandToken,
+        ts.SyntaxKind.BarBarToken,
+        ts.SyntaxKind.QuestionQuestionToken,
+        ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+        ts.SyntaxKind.BarBarEqualsToken,
+        ts.SyntaxKind.QuestionQuestionEqualsToken,
+      ].includes((node as ts.BinaryExpression).operatorToken.kind);
+    default:
+      return false;
+  }
+}
+
+function functionName(node: ts.FunctionLikeDeclaration): string {
+  if (ts.isConstructorDeclaration(node)) {
+    return `${className(node)}constructor`;
+  }
+  if (node.name) {
+    const prefix =
+      ts.isMethodDeclaration(node) || ts.isAccessor(node)
+        ? className(node)
+        : '';
+    return `${prefix}${node.name.getText()}`;
+  }
+  const parent = node.parent;
+  if (
+    (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent)) &&
+    parent.name
+  ) {
+    return parent.name.getText();
+  }
+  if (ts.isPropertyDeclaration(parent)) {
+    return `${className(parent)}${parent.name.getText()}`;
+  }
+  return '<anonymous>';
+}
+
+function className(node: ts.Node): string {
+  const parent = node.parent;
+  return (ts.isClassDeclaration(parent) || ts.isClassExpression(parent)) &&
+    parent.name
+    ? `${parent.name.text}.`
+    : '';
+}
+
+function exportedSymbols(
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile
+): ExportedSymbol[] {
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) {
+    return [];
+  }
+
+  return checker.getExportsOfModule(moduleSymbol).map(symbol => {
+    const declaration = symbol.declarations?.[0];
+    return {
+      name: symbol.getName(),
+      kind: declaration ? declarationKind(declaration) : 'unknown',
+      line: declaration
+        ? position(declaration.getSourceFile(), declaration.getStart()).line
+        : 0,
+    };
+  });
+}
+
+function declarationKind(declaration: ts.Declaration): string {
+  if (ts.isFunctionDeclaration(declaration)) return 'function';
+  if (ts.isClassDeclaration(declaration)) return 'class';
+  if (ts.isInterfaceDeclaration(declaration)) return 'interface';
+  if (ts.isTypeAliasDeclaration(declaration)) return 'type';
+  if (ts.isEnumDeclaration(declaration)) return 'enum';
+  if (ts.isModuleDeclaration(declaration)) return 'namespace';
+  if (ts.isVariableDeclaration(declaration)) return 'variable';
+  return 'other';
+}
+
+/**
+ * Static imports and re-exports with the names they use; resolved files
+ * are absolute paths, unresolved or package imports stay specifiers
+ */
+function importEdges(
+  sourceFile: ts.SourceFile,
+  options: ts.CompilerOptions
+): ImportEdge[] {
+  const edges: ImportEdge[] = [];
+  for (const statement of sourceFile.statements) {
+    const specifier =
+      (ts.isImportDeclaration(statement) ||
+        ts.isExportDeclaration(statement)) &&
+      statement.moduleSpecifier &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+        ? statement.moduleSpecifier.text
+        : undefined;
+    if (!specifier) {
+      continue;
+    }
+
+    const resolved = ts.resolveModuleName(
+      specifier,
+      sourceFile.fileName,
+      options,
+      ts.sys
+    ).resolvedModule;
+    const external = !resolved || resolved.isExternalLibraryImport === true;
+    edges.push({
+      from: sourceFile.fileName,
+      to: external ? specifier : path.resolve(resolved.resolvedFileName),
+      external,
+      names: importedNames(statement as ts.ImportDeclaration),
+    });
+  }
+  return edges;
+}
+
+function importedNames(
+  statement: ts.ImportDeclaration | ts.ExportDeclaration
+): string[] {
+  if (ts.isExportDeclaration(statement)) {
+    const clause = statement.exportClause;
+    return clause && ts.isNamedExports(clause)
+      ? clause.elements.map(
+          element => (element.propertyName || element.name).text
+        )
+      : [ALL_EXPORTS];
+  }
+
+  const clause = statement.importClause;
+  if (!clause) {
+    return [];
+  }
+  const names = clause.name ? ['default'] : [];
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push(ALL_EXPORTS);
+  } else if (bindings) {
+    names.push(
+      ...bindings.elements.map(
+        element => (element.propertyName || element.name).text
+      )
+    );
+  }
+  return names;
+}
+
+/**
+ * Exports of analyzed files that no other analyzed file imports; entry
+ * points outside the analyzed directory may still use them
+ */
+function findDeadExports(report: CodeAnalysisReport): DeadExport[] {
+  const used = new Map<string, Set<string>>();
+  for (const edge of report.imports) {
+    if (edge.external || edge.from === edge.to) {
+      continue;
+    }
+    const names = used.get(edge.to) || new Set<string>();
+    edge.names.forEach(name => names.add(name));
+    used.set(edge.to, names);
+  }
+
+  return report.files.flatMap(file => {
+    const names = used.get(file.path);
+    if (names?.has(ALL_EXPORTS)) {
+      return [];
+    }
+    return file.exports
+      .filter(symbol => !names?.has(symbol.name))
+      .map(symbol => ({
+        file: file.path,
+        name: symbol.name,
+        line: symbol.line,
+      }));
+  });
+}
+
+function countDiagnostics(files: FileAnalysis[]) {
+  const diagnostics = files.flatMap(file => file.diagnostics);
+  return {
+    errors: diagnostics.filter(d => d.severity === 'error').length,
+    warnings: diagnostics.filter(d => d.severity === 'warning').length,
+  };
+}
+
+function summarize(
+  files: FileAnalysis[],
+  threshold: number
+): CodeAnalysisReport['summary'] {
+  const functions = files.flatMap(file =>
+    file.functions.map(fn => ({ ...fn, file: file.path }))
+  );
+  const total = functions.reduce((sum, fn) => sum + fn.complexity, 0);
+
+  return {
+    files: files.length,
+    ...countDiagnostics(files),
+    functions: functions.length,
+    maxComplexity: Math.max(0, ...functions.map(fn => fn.complexity)),
+    averageComplexity: functions.length
+      ? Math.round((total / functions.length) * 100) / 100
+      : 0,
+    complexFunctions: functions
+      .filter(fn => fn.complexity > threshold)
+      .sort((a, b) => b.complexity - a.complexity),
+  };
+}
@@ -0,0 +1,530 @@
+/**
+ * Command Sandbox
+ * Runs terminal commands for agents without a shell: only commands on the
+ * agent's allowlist, confined to the project workspace, with time, output
+ * and concurrency limits, a scrubbed environment and an AuditLog record
+ * for every attempt
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { Result } from '../types/ai-provider.types';
+
+export interface CommandSandboxOptions {
+  /** Workspace root for commands without a project */
+  workspaceRoot: string;
+  /** Directory holding one workspace per project id */
+  projectsRoot: string;
+  /** Allowed command prefixes per agent type, e.g. "npm test" */
+  agentAllowlists: Record<string, string[]>;
+  defaultTimeoutMs: number;
+  maxTimeoutMs: number;
+  /** Captured bytes per stream; the rest is discarded */
+  maxOutputBytes: number;
+  maxConcurrent: number;
+  /** Heap limit passed to Node-based commands (MB) */
+  maxMemoryMb: number;
+  /** Variables passed through from the server environment */
+  envAllowlist: string[];
+}
+
+export interface CommandRequest {
+  command: string;
+  /** Relative to the workspace root */
+  workingDirectory?: string;
+  timeoutMs?: number;
+  agentType?: string;
+  projectId?: string;
+  userId?: string;
+  sessionId?: string;
+}
+
+export interface CommandExecution {
+  command: string;
+  cwd: string;
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+export type AuditLogWriter = Pick<PrismaClient, 'auditLog'>;
+
+/** Executables no agent may run, whatever its allowlist says */
+const DENIED_EXECUTABLES = new Set([
+  'rm',
+  'rmdir',
+  'sudo',
+  'su',
+  'chmod',
+  'chown',
+  'dd',
+  'mkfs',
+  'shutdown',
+  'reboot',
+  'kill',
+  'killall',
+  'pkill',
+]);
+
+/** Pipes, redirects, substitutions and chaining need a shell; none is used */
+const SHELL_METACHARACTERS = /[;&|<>`$\\\n\r]/;
+
+const DEFAULT_OPTIONS: CommandSandboxOptions = {
+  workspaceRoot: process.cwd(),
+  projectsRoot: path.join(process.cwd(), 'projects'),
+  agentAllowlists: {
+    'qa-engineer': [
+      'npm test',
+      'npm run test',
+      'npm run lint',
+      'npx jest',
+      'npx tsc --noEmit',
+    ],
+    'senior-developer': [
+      'npm test',
+      'npm run test',
+      'npm run lint',
+      'npm run build',
+      'npx tsc --noEmit',
+      'git status',
+      'git diff',
+      'git log',
+    ],
+    'devops-engineer': [
+      'npm ci',
+      'npm run build',
+      'npm test',
+      'docker ps',
+      'docker build',
+      'git status',
+      'git log',
+    ],
+  },
+  defaultTimeoutMs: 30000,
+  maxTimeoutMs: 120000,
+  maxOutputBytes: 64 * 1024,
+  maxConcurrent: 2,
+  maxMemoryMb: 512,
+  envAllowlist: ['PATH', 'HOME', 'LANG', 'LC_ALL', 'TERM', 'TZ', 'TMPDIR'],
+};
+
+export class CommandSandbox {
+  private readonly options: CommandSandboxOptions;
+  private running = 0;
+
+  constructor(
+    private readonly audit: AuditLogWriter,
+    options: Partial<CommandSandboxOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Check the command against the agent's policy and run it; denied
+   * commands and executions alike are written to the audit log
+   */
+  async execute(request: CommandRequest): Promise<Result<CommandExecution>> {
+    const prepared = await this.prepare(request);
+    if (!prepared.success) {
+      await this.record(request, 'DENIED', { reason: prepared.error.message });
+      return prepared;
+    }
+
+    if (this.running >= this.options.maxConcurrent) {
+      const error = {
+        code: 'COMMAND_LIMIT_REACHED',
+        message: `At most ${this.options.maxConcurrent} commands may run at once`,
+      };
+      await this.record(request, 'DENIED', { reason: error.message });
+      return { success: false, error };
+    }
+
+    this.running++;
+    try {
+      const execution = await this.run(
+        prepared.data.argv,
+        prepared.data.cwd,
+        this.timeoutFor(request)
+      );
+      await this.record(request, 'EXECUTE', {
+        cwd: execution.cwd,
+        exitCode: execution.exitCode,
+        signal: execution.signal,
+        timedOut: execution.timedOut,
+        truncated: execution.truncated,
+        durationMs: execution.durationMs,
+        stdoutBytes: Buffer.byteLength(execution.stdout),
+        stderrBytes: Buffer.byteLength(execution.stderr),
+      });
+      return {
+        success: true,
+        data: { ...execution, command: request.command },
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Command execution failed';
+      await this.record(request, 'FAILED', { reason: message });
+      return {
+        success: false,
+        error: { code: 'COMMAND_FAILED', message },
+      };
+    } finally {
+      this.running--;
+    }
+  }
+
+  getAllowlist(agentType: string): string[] {
+    return [...(this.options.agentAllowlists[agentType] || [])];
+  }
+
+  private async prepare(
+    request: CommandRequest
+  ): Promise<Result<{ argv: string[]; cwd: string }>> {
+    if (!request.agentType) {
+      return denied('Terminal commands require an agent context');
+    }
+
+    const parsed = this.parse(request.agentType, request.command);
+    if (!parsed.success) {
+      return parsed;
+    }
+
+    const root = await this.resolveWorkspaceRoot(request.projectId);
+    if (!root.success) {
+      return root;
+    }
+
+    const cwd = await resolveInside(root.data, request.workingDirectory || '.');
+    if (!cwd) {
+      return denied('Working directory is outside the workspace');
+    }
+
+    const escaping = [];
+    for (const arg of parsed.data.slice(1)) {
+      const value = pathArgument(arg);
+      if (value && !(await resolveInside(cwd, value, root.data))) {
+        escaping.push(arg);
+      }
+    }
+    if (escaping.length > 0) {
+      return denied(`Paths outside the workspace: ${escaping.join(', ')}`);
+    }
+
+    return { success: true, data: { argv: parsed.data, cwd } };
+  }
+
+  private parse(agentType: string, command: string): Result<string[]> {
+    if (SHELL_METACHARACTERS.test(command)) {
+      return denied('Shell operators are not allowed in commands');
+    }
+
+    const argv = tokenize(command);
+    if (!argv || argv.length === 0) {
+      return denied('Command could not be parsed');
+    }
+
+    if (DENIED_EXECUTABLES.has(path.basename(argv[0]))) {
+      return denied(`${argv[0]} may not be run by any agent`);
+    }
+
+    const allowed = this.getAllowlist(agentType).some(entry => {
+      const prefix = entry.split(/\s+/);
+      return prefix.every((token, index) => argv[index] === token);
+    });
+    if (!allowed) {
+      return denied(`Command is not on the allowlist for ${agentType}`);
+    }
+
+    return { success: true, data: argv };
+  }
+
+  /**
+   * Real path of the project's workspace, or of the shared workspace when
+   * there is no project
+   */
+  async resolveWorkspaceRoot(projectId?: string): Promise<Result<string>> {
+    const root = projectId
+      ? path.join(this.options.projectsRoot, projectId)
+      : this.options.workspaceRoot;
+    const resolved = await fs.realpath(root).catch(() => undefined);
+    const insideProjects =
+      !projectId ||
+      (resolved &&
+        path.dirname(resolved) ===
+          (await fs.realpath(this.options.projectsRoot)));
+    if (!resolved || !insideProjects) {
+      return denied(
+        projectId
+          ? `No workspace for project ${projectId}`
+          : 'Workspace root does not exist'
+      );
+    }
+    return { success: true, data: resolved };
+  }
+
+  private timeoutFor(request: CommandRequest): number {
+    const requested = request.timeoutMs || this.options.defaultTimeoutMs;
+    return Math.min(requested, this.options.maxTimeoutMs);
+  }
+
+  private run(
+    argv: string[],
+    cwd: string,
+    timeoutMs: number
+  ): Promise<CommandExecution> {
+    const started = Date.now();
+    const stdout = new OutputBuffer(this.options.maxOutputBytes);
+    const stderr = new OutputBuffer(this.options.maxOutputBytes);
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(argv[0], argv.slice(1), {
+        cwd,
+        env: this.environment(),
+        shell: false,
+        // Own process group so the whole tree can be killed on timeout
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup(child.pid);
+      }, timeoutMs);
+
+      child.stdout?.on('data', (chunk: Buffer) => stdout.append(chunk));
+      child.stderr?.on('data', (chunk: Buffer) => stderr.append(chunk));
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        resolve({
+          command: argv.join(' '),
+          cwd,
+          exitCode,
+          signal,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          timedOut,
+          truncated: stdout.truncated || stderr.truncated,
+          durationMs: Date.now() - started,
+        });
+      });
+    });
+  }
+
+  /**
+   * Only allowlisted variables reach the command, so provider keys and
+   * database URLs never do
+   */
+  private environment(): Record<string, string | undefined> {
+    const env: Record<string, string | undefined> = {
+      CI: '1',
+      NODE_OPTIONS: `--max-old-space-size=${this.options.maxMemoryMb}`,
+    };
+    for (const name of this.options.envAllowlist) {
+      if (process.env[name] !== undefined) {
+        env[name] = process.env[name];
+      }
+    }
+    return env;
+  }
+
+  private async record(
+    request: CommandRequest,
+    outcome: 'EXECUTE' | 'DENIED' | 'FAILED',
+    details: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.audit.auditLog.create({
+        data: {
+          action: outcome === 'EXECUTE' ? 'EXECUTE' : `EXECUTE_${outcome}`,
+          entity: 'TerminalCommand',
+          entityId: request.projectId || 'workspace',
+          userId: request.userId,
+          details: JSON.parse(
+            JSON.stringify({
+              command: request.command,
+              workingDirectory: request.workingDirectory,
+              agentType: request.agentType,
+              sessionId: request.sessionId,
+              ...details,
+            })
+          ),
+        },
+      });
+    } catch (error) {
+      console.error('❌ Failed to write terminal command audit log:', error);
+    }
+  }
+}
+
+/**
+ * Sandbox settings from TERMINAL_* environment variables; allowlists are
+ * given as "agent=command|command" pairs separated by ";", e.g.
+ * "qa-engineer=npm test|npm run lint;devops-engineer=npm ci"
+ */
+export function commandSandboxOptionsFromEnv(): Partial<CommandSandboxOptions> {
+  const env = process.env;
+  const agentAllowlists = Object.fromEntries(
+    (env.TERMINAL_COMMAND_ALLOWLISTS || '')
+      .split(';')
+      .map(pair => pair.split('=').map(part => part.trim()))
+      .filter(([agent, commands]) => agent && commands)
+      .map(([agent, commands]) => [
+        agent,
+        commands
+          .split('|')
+          .map(command => command.trim())
+          .filter(Boolean),
+      ])
+  );
+
+  return {
+    ...(Object.keys(agentAllowlists).length > 0 && { agentAllowlists }),
+    ...(env.TERMINAL_WORKSPACE_ROOT && {
+      workspaceRoot: env.TERMINAL_WORKSPACE_ROOT,
+    }),
+    ...(env.TERMINAL_PROJECTS_ROOT && {
+      projectsRoot: env.TERMINAL_PROJECTS_ROOT,
+    }),
+    ...(env.TERMINAL_COMMAND_TIMEOUT_MS && {
+      maxTimeoutMs: Number(env.TERMINAL_COMMAND_TIMEOUT_MS),
+    }),
+    ...(env.TERMINAL_COMMAND_MAX_OUTPUT_BYTES && {
+      maxOutputBytes: Number(env.TERMINAL_COMMAND_MAX_OUTPUT_BYTES),
+    }),
+  };
+}
+
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private readonly limit: number) {}
+
+  append(chunk: Buffer): void {
+    const room = this.limit - this.size;
+    if (chunk.length > room) {
+      this.truncated = true;
+    }
+    if (room > 0) {
+      const kept = chunk.subarray(0, room);
+      this.chunks.push(kept);
+      this.size += kept.length;
+    }
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf8');
+  }
+}
+
+function denied<T>(message: string): Result<T> {
+  return { success: false, error: { code: 'COMMAND_DENIED', message } };
+}
+
+/**
+ * Split a command into arguments, honouring single and double quotes;
+ * undefined for unbalanced quotes
+ */
+function tokenize(command: string): string[] | undefined {
+  const tokens: string[] = [];
+  let current: string | undefined;
+  let quote: string | undefined;
+  for (const char of command) {
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current = current ?? '';
+    } else if (/\s/.test(char)) {
+      if (current !== undefined) {
+        tokens.push(current);
+      }
+      current = undefined;
+    } else {
+      current = (current ?? '') + char;
+    }
+  }
+
+  if (quote) {
+    return undefined;
+  }
+  if (current !== undefined) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+/**
+ * The path in an argument (or in the value of --flag=value) when it could
+ * point outside the working directory
+ */
+function pathArgument(arg: string): string | undefined {
+  const value = arg.startsWith('-') ? arg.slice(arg.indexOf('=') + 1) : arg;
+  const escapes =
+    path.isAbsolute(value) ||
+    value.startsWith('~') ||
+    value.split(/[\\/]/).includes('..');
+  return escapes ? value : undefined;
+}
+
+/**
+ * Real path of target resolved from base, or undefined when it (or, for
+ * paths that do not exist yet, its nearest existing parent) leaves root
+ */
+async function resolveInside(
+  base: string,
+  target: string,
+  root: string = base
+): Promise<string | undefined> {
+  if (target.startsWith('~')) {
+    return undefined;
+  }
+
+  let resolved = path.resolve(base, target);
+  let suffix = '';
+  for (;;) {
+    try {
+      resolved = path.join(await fs.realpath(resolved), suffix);
+      break;
+    } catch {
+      const parent = path.dirname(resolved);
+      if (parent === resolved) {
+        return undefined;
+      }
+      suffix = path.join(path.basename(resolved), suffix);
+      resolved = parent;
+    }
+  }
+
+  const relative = path.relative(root, resolved);
+  return relative.startsWith('..') || path.isAbsolute(relative)
+    ? undefined
+    : resolved;
+}
+
+function killGroup(pid?: number): void {
+  if (!pid) {
+    return;
+  }
+  try {
+    process.kill(-pid, 'SIGKILL');
+  } catch {
+    // Already exited
+  }
+}
@@ -0,0 +1,607 @@
+/**
+ * MCP Client Registry
+ * External MCP servers (stdio or streamable HTTP) configured by admins.
+ * Their tools join the tool catalog as `<server>__<tool>` for the agent
+ * types each server is granted to, so the function-calling loop can call
+ * them like built-in tools. Only commands and hosts the operator allows
+ * can be configured
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolResult,
+  Tool,
+  TextContent,
+  ImageContent,
+  EmbeddedResource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ExternalMcpServer as ServerRow, PrismaClient } from '@prisma/client';
+import { AgentToolsRegistry } from '../agents/agent-tools-registry';
+import { Result } from '../types/ai-provider.types';
+import { CopilotTool, MCPServer, ToolResult } from './mcp-server';
+
+export type ExternalServerStore = Pick<PrismaClient, 'externalMcpServer'>;
+export type ToolCatalog = Pick<MCPServer, 'registerTool' | 'unregisterTool'>;
+
+export interface ExternalServerConfig {
+  /** Tool namespace: lowercase letters, digits and dashes */
+  name: string;
+  transport: 'stdio' | 'http';
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  agentTypes: string[];
+  /** Tools to expose; all when unset */
+  includeTools?: string[];
+  isActive: boolean;
+}
+
+export interface ExternalServerStatus {
+  connected: boolean;
+  tools: string[];
+  /** Tools whose namespaced name is not a valid function name */
+  skippedTools: string[];
+  connectedAt?: Date;
+  error?: string;
+}
+
+export interface ExternalServer extends ExternalServerConfig {
+  id: string;
+  status: ExternalServerStatus;
+}
+
+export interface MCPClientRegistryOptions {
+  connectTimeoutMs: number;
+  callTimeoutMs: number;
+  /** Commands stdio servers may run; none when empty */
+  allowedCommands: string[];
+  /** Hosts (`host` or `host:port`) http servers may use; none when empty */
+  allowedHosts: string[];
+  createTransport: (config: ExternalServerConfig) => Transport;
+}
+
+const DEFAULT_OPTIONS: MCPClientRegistryOptions = {
+  connectTimeoutMs: 15000,
+  callTimeoutMs: 60000,
+  allowedCommands: [],
+  allowedHosts: [],
+  createTransport: createClientTransport,
+};
+
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+const SERVER_NAME = /^[a-z0-9][a-z0-9-]{0,31}$/;
+/** Function names accepted by the providers' tool calling APIs */
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+const REDACTED = '***';
+/** Variables that make an allowed command load other code */
+const BLOCKED_ENV = /^(LD_|DYLD_)|^(NODE_OPTIONS|NODE_PATH|PATH)$/i;
+
+interface Connection {
+  client: Client;
+  tools: string[];
+}
+
+export class MCPClientRegistry {
+  private options: MCPClientRegistryOptions;
+  private connections: Map<string, Connection> = new Map();
+  private statuses: Map<string, ExternalServerStatus> = new Map();
+
+  constructor(
+    private readonly store: ExternalServerStore,
+    private readonly catalog: ToolCatalog,
+    options: Partial<MCPClientRegistryOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Connect every active server; one that fails stays listed with its
+   * error and can be reconnected later
+   */
+  async initialize(): Promise<Result<ExternalServer[]>> {
+    try {
+      const rows = await this.store.externalMcpServer.findMany({
+        where: { isActive: true },
+      });
+      await Promise.all(rows.map(row => this.connect(row.id, fromRow(row))));
+      return { success: true, data: rows.map(row => this.present(row)) };
+    } catch (error) {
+      return failure('MCP_REGISTRY_INIT_ERROR', error);
+    }
+  }
+
+  async listServers(): Promise<Result<ExternalServer[]>> {
+    try {
+      const rows = await this.store.externalMcpServer.findMany({
+        orderBy: { name: 'asc' },
+      });
+      return { success: true, data: rows.map(row => this.present(row)) };
+    } catch (error) {
+      return failure('MCP_SERVER_LIST_ERROR', error);
+    }
+  }
+
+  async createServer(
+    config: ExternalServerConfig
+  ): Promise<Result<ExternalServer>> {
+    const invalid = validateConfig(config, this.options);
+    if (invalid) {
+      return invalid;
+    }
+
+    try {
+      const existing = await this.store.externalMcpServer.findUnique({
+        where: { name: config.name },
+      });
+      if (existing) {
+        return {
+          success: false,
+          error: {
+            code: 'MCP_SERVER_EXISTS',
+            message: `MCP server ${config.name} already exists`,
+          },
+        };
+      }
+
+      const row = await this.store.externalMcpServer.create({
+        data: toRow(config),
+      });
+      if (row.isActive) {
+        await this.connect(row.id, config);
+      }
+      return { success: true, data: this.present(row) };
+    } catch (error) {
+      return failure('MCP_SERVER_CREATE_ERROR', error);
+    }
+  }
+
+  /**
+   * Change a server's configuration; it reconnects with the new one
+   */
+  async updateServer(
+    id: string,
+    changes: Partial<Omit<ExternalServerConfig, 'name'>>
+  ): Promise<Result<ExternalServer>> {
+    try {
+      const row = await this.store.externalMcpServer.findUnique({
+        where: { id },
+      });
+      if (!row) {
+        return notFound(id);
+      }
+
+      const stored = fromRow(row);
+      const merged = { ...stored, ...changes };
+      const config = {
+        ...merged,
+        env: keepRedacted(merged.env, stored.env),
+        headers: keepRedacted(merged.headers, stored.headers),
+      };
+      const invalid = validateConfig(config, this.options);
+      if (invalid) {
+        return invalid;
+      }
+
+      const updated = await this.store.externalMcpServer.update({
+        where: { id },
+        data: toRow(config),
+      });
+      await this.disconnect(id);
+      if (updated.isActive) {
+        await this.connect(id, config);
+      }
+      return { success: true, data: this.present(updated) };
+    } catch (error) {
+      return failure('MCP_SERVER_UPDATE_ERROR', error);
+    }
+  }
+
+  async deleteServer(id: string): Promise<Result<boolean>> {
+    try {
+      const row = await this.store.externalMcpServer.findUnique({
+        where: { id },
+      });
+      if (!row) {
+        return notFound(id);
+      }
+
+      await this.disconnect(id);
+      this.statuses.delete(id);
+      await this.store.externalMcpServer.delete({ where: { id } });
+      return { success: true, data: true };
+    } catch (error) {
+      return failure('MCP_SERVER_DELETE_ERROR', error);
+    }
+  }
+
+  /**
+   * Reconnect, e.g. after the server restarted or changed its tools
+   */
+  async reconnectServer(id: string): Promise<Result<ExternalServer>> {
+    try {
+      const row = await this.store.externalMcpServer.findUnique({
+        where: { id },
+      });
+      if (!row) {
+        return notFound(id);
+      }
+
+      await this.disconnect(id);
+      if (row.isActive) {
+        await this.connect(id, fromRow(row));
+      }
+      return { success: true, data: this.present(row) };
+    } catch (error) {
+      return failure('MCP_SERVER_CONNECT_ERROR', error);
+    }
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(
+      Array.from(this.connections.keys()).map(id => this.disconnect(id))
+    );
+  }
+
+  private async connect(id: string, config: ExternalServerConfig) {
+    const client = new Client({ name: 'thinkcode-ai', version: '1.0.0' });
+    try {
+      // Stored servers are checked again in case the allowlists changed
+      const refused = policyError(config, this.options);
+      if (refused) {
+        throw new Error(refused);
+      }
+      await client.connect(this.options.createTransport(config), {
+        timeout: this.options.connectTimeoutMs,
+      });
+      const tools = await listAllTools(client, this.options.connectTimeoutMs);
+      const connection: Connection = { client, tools: [] };
+      const skippedTools = this.registerTools(connection, config, tools);
+
+      this.connections.set(id, connection);
+      this.statuses.set(id, {
+        connected: true,
+        tools: connection.tools,
+        skippedTools,
+        connectedAt: new Date(),
+      });
+      client.onclose = () => {
+        if (this.connections.get(id) === connection) {
+          this.dropTools(id, connection, 'Connection closed');
+        }
+      };
+      console.log(
+        `🔌 Connected MCP server ${config.name} (${connection.tools.length} tools)`
+      );
+    } catch (error) {
+      await client.close().catch(() => undefined);
+      this.statuses.set(id, {
+        connected: false,
+        tools: [],
+        skippedTools: [],
+        error: error instanceof Error ? error.message : 'Connection failed',
+      });
+      console.warn(`⚠️ Could not connect MCP server ${config.name}:`, error);
+    }
+  }
+
+  private async disconnect(id: string): Promise<void> {
+    const connection = this.connections.get(id);
+    if (!connection) {
+      return;
+    }
+
+    this.dropTools(id, connection);
+    await connection.client.close().catch(() => undefined);
+  }
+
+  private dropTools(id: string, connection: Connection, error?: string) {
+    this.connections.delete(id);
+    connection.tools.forEach(name => this.catalog.unregisterTool(name));
+    AgentToolsRegistry.revokeTools(connection.tools);
+    this.statuses.set(id, {
+      connected: false,
+      tools: [],
+      skippedTools: [],
+      error,
+    });
+  }
+
+  /**
+   * Add the server's tools to the catalog and grant them to its agent
+   * types; returns the names of tools that were skipped
+   */
+  private registerTools(
+    connection: Connection,
+    config: ExternalServerConfig,
+    tools: Tool[]
+  ): string[] {
+    const skipped: string[] = [];
+    const grants: Record<string, string[]> = {};
+
+    for (const tool of tools) {
+      if (config.includeTools && !config.includeTools.includes(tool.name)) {
+        continue;
+      }
+      const name = `${config.name}${TOOL_NAMESPACE_SEPARATOR}${tool.name}`;
+      if (!TOOL_NAME.test(name)) {
+        skipped.push(tool.name);
+        continue;
+      }
+
+      const permission = tool.annotations?.readOnlyHint ? 'read' : 'execute';
+      this.catalog.registerTool(
+        this.toCopilotTool(connection.client, config, tool, name, permission)
+      );
+      connection.tools.push(name);
+      grants[name] = [permission];
+    }
+
+    config.agentTypes.forEach(agentType =>
+      AgentToolsRegistry.grantTools(agentType, grants)
+    );
+    return skipped;
+  }
+
+  private toCopilotTool(
+    client: Client,
+    config: ExternalServerConfig,
+    tool: Tool,
+    name: string,
+    permission: 'read' | 'execute'
+  ): CopilotTool {
+    return {
+      name,
+      description: `[${config.name}] ${tool.description || tool.name}`,
+      category: 'integration',
+      agentTypes: config.agentTypes,
+      permissions: [{ type: permission, resource: `mcp:${config.name}` }],
+      inputSchema: {
+        type: 'object',
+        properties: tool.inputSchema.properties || {},
+        required: tool.inputSchema.required,
+      },
+      handler: input => this.callTool(client, config.name, tool.name, input),
+    };
+  }
+
+  private async callTool(
+    client: Client,
+    server: string,
+    name: string,
+    input: Record<string, unknown> = {}
+  ): Promise<ToolResult> {
+    // Drop the context arguments (_agentId etc.) local MCP callers send
+    const args = Object.fromEntries(
+      Object.entries(input).filter(([key]) => !key.startsWith('_'))
+    );
+
+    try {
+      const result = (await client.callTool(
+        { name, arguments: args },
+        undefined,
+        { timeout: this.options.callTimeoutMs }
+      )) as CallToolResult;
+      const text = result.content
+        .flatMap(item => (item.type === 'text' ? [item.text] : []))
+        .join('\n');
+
+      if (result.isError) {
+        return { success: false, error: text || `${name} failed` };
+      }
+      return {
+        success: true,
+        data: result.structuredContent ?? text,
+        content: result.content.filter(
+          (item): item is TextContent | ImageContent | EmbeddedResource =>
+            ['text', 'image', 'resource'].includes(item.type)
+        ),
+        metadata: { mcpServer: server, tool: name },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `${name} failed`,
+      };
+    }
+  }
+
+  /**
+   * Row with its connection status; env and header values are secrets
+   */
+  private present(row: ServerRow): ExternalServer {
+    const config = fromRow(row);
+    return {
+      id: row.id,
+      ...config,
+      env: config.env && redact(config.env),
+      headers: config.headers && redact(config.headers),
+      status: this.statuses.get(row.id) || {
+        connected: false,
+        tools: [],
+        skippedTools: [],
+      },
+    };
+  }
+}
+
+function createClientTransport(config: ExternalServerConfig): Transport {
+  if (config.transport === 'stdio') {
+    return new StdioClientTransport({
+      command: config.command as string,
+      args: config.args,
+      env: config.env,
+    });
+  }
+  return new StreamableHTTPClientTransport(new URL(config.url as string), {
+    requestInit: { headers: config.headers },
+  });
+}
+
+async function listAllTools(client: Client, timeout: number): Promise<Tool[]> {
+  const tools: Tool[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await client.listTools({ cursor }, { timeout });
+    tools.push(...page.tools);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return tools;
+}
+
+function validateConfig(
+  config: ExternalServerConfig,
+  options: MCPClientRegistryOptions
+): Result<never> | null {
+  const known = AgentToolsRegistry.getRegisteredAgentTypes();
+  const unknownAgents = config.agentTypes.filter(type => !known.includes(type));
+  let message: string | undefined;
+
+  if (!SERVER_NAME.test(config.name)) {
+    message =
+      'Name must be up to 32 lowercase letters, digits or dashes, e.g. "github"';
+  } else if (config.transport === 'stdio' && !config.command) {
+    message = 'A stdio server needs a command';
+  } else if (config.transport === 'http' && !isHttpUrl(config.url)) {
+    message = 'An http server needs an http(s) url';
+  } else if (unknownAgents.length > 0) {
+    message = `Unknown agent types: ${unknownAgents.join(', ')}`;
+  } else {
+    message = policyError(config, options);
+  }
+
+  return message
+    ? { success: false, error: { code: 'MCP_SERVER_INVALID', message } }
+    : null;
+}
+
+/**
+ * Why the operator's allowlists refuse a server, if they do
+ */
+function policyError(
+  config: ExternalServerConfig,
+  options: MCPClientRegistryOptions
+): string | undefined {
+  if (config.transport === 'stdio') {
+    const blocked = Object.keys(config.env || {}).filter(name =>
+      BLOCKED_ENV.test(name)
+    );
+    if (!options.allowedCommands.includes(config.command || '')) {
+      return `Command ${config.command} is not an allowed stdio command`;
+    }
+    return blocked.length > 0
+      ? `Environment variables not allowed: ${blocked.join(', ')}`
+      : undefined;
+  }
+
+  const url = new URL(config.url || '');
+  return options.allowedHosts.includes(url.host) ||
+    options.allowedHosts.includes(url.hostname)
+    ? undefined
+    : `Host ${url.host} is not an allowed http host`;
+}
+
+function isHttpUrl(url?: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url || '').protocol);
+  } catch {
+    return false;
+  }
+}
+
+function fromRow(row: ServerRow): ExternalServerConfig {
+  return {
+    name: row.name,
+    transport: row.transport === 'stdio' ? 'stdio' : 'http',
+    command: row.command || undefined,
+    args: row.args ? JSON.parse(row.args) : undefined,
+    env: row.env ? JSON.parse(row.env) : undefined,
+    url: row.url || undefined,
+    headers: row.headers ? JSON.parse(row.headers) : undefined,
+    agentTypes: JSON.parse(row.agentTypes),
+    includeTools: row.includeTools ? JSON.parse(row.includeTools) : undefined,
+    isActive: row.isActive,
+  };
+}
+
+function toRow(config: ExternalServerConfig) {
+  const json = (value: unknown) =>
+    value === undefined ? null : JSON.stringify(value);
+  return {
+    name: config.name,
+    transport: config.transport,
+    command: config.command ?? null,
+    args: json(config.args),
+    env: json(config.env),
+    url: config.url ?? null,
+    headers: json(config.headers),
+    agentTypes: JSON.stringify(config.agentTypes),
+    includeTools: json(config.includeTools),
+    isActive: config.isActive,
+  };
+}
+
+/**
+ * Allowlists from MCP_CLIENT_STDIO_COMMANDS and MCP_CLIENT_HTTP_HOSTS,
+ * both comma-separated
+ */
+export function mcpClientRegistryOptionsFromEnv(): Partial<MCPClientRegistryOptions> {
+  const list = (value?: string) =>
+    (value || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+
+  return {
+    allowedCommands: list(process.env.MCP_CLIENT_STDIO_COMMANDS),
+    allowedHosts: list(process.env.MCP_CLIENT_HTTP_HOSTS).map(host =>
+      host.toLowerCase()
+    ),
+  };
+}
+
+function redact(values: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.keys(values).map(key => [key, REDACTED]));
+}
+
+/**
+ * Values sent back as the redacted placeholder keep their stored secret
+ */
+function keepRedacted(
+  values: Record<string, string> | undefined,
+  stored: Record<string, string> = {}
+): Record<string, string> | undefined {
+  return (
+    values &&
+    Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [
+        key,
+        value === REDACTED && key in stored ? stored[key] : value,
+      ])
+    )
+  );
+}
+
+function notFound<T>(id: string): Result<T> {
+  return {
+    success: false,
+    error: {
+      code: 'MCP_SERVER_NOT_FOUND',
+      message: `MCP server ${id} not found`,
+    },
+  };
+}
+
+function failure<T>(code: string, error: unknown): Result<T> {
+  return {
+    success: false,
+    error: {
+      code,
+      message: error instanceof Error ? error.message : 'MCP registry error',
+    },
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * MCP over HTTP
+ * Streamable HTTP sessions (responses and notifications over SSE) for
+ * remote MCP clients such as team members' IDE assistants. Each client
+ * authenticates with its API key and acts as a fixed agent type, user and
+ * optionally project
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Result } from '../types/ai-provider.types';
+import { ToolExecutionContext } from './mcp-server';
+
+export interface MCPHttpClient {
+  name: string;
+  /**
+   * Agent type whose tools and permissions the client gets, or `admin` for
+   * a key that manages the API's admin routes and opens no MCP sessions
+   */
+  agentType: string;
+  /** sha256 hex digest of the client's API key; keys are never stored */
+  keyHash: string;
+  userId?: string;
+  /** Restricts project resources to this project */
+  projectId?: string;
+}
+
+export interface MCPHttpOptions {
+  clients: MCPHttpClient[];
+  maxSessions: number;
+  /** Sessions without requests for this long are closed */
+  sessionIdleMs: number;
+}
+
+export const ADMIN_ROLE = 'admin';
+
+const DEFAULT_OPTIONS: MCPHttpOptions = {
+  clients: [],
+  maxSessions: 50,
+  sessionIdleMs: 30 * 60 * 1000,
+};
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  clientId: string;
+  lastSeen: number;
+}
+
+export type ProtocolServerFactory = () => Pick<Server, 'connect'>;
+
+export class MCPHttpSessions {
+  private options: MCPHttpOptions;
+  private sessions: Map<string, Session> = new Map();
+  private sweeper?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly createServer: ProtocolServerFactory,
+    options: Partial<MCPHttpOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Resolve the client from `Authorization: Bearer <key>` or `X-API-Key`
+   * into the auth info the SDK passes to request handlers. Agent keys and
+   * admin keys only authenticate for their own role
+   */
+  authenticate(
+    headers: IncomingHttpHeaders,
+    role: 'agent' | typeof ADMIN_ROLE = 'agent'
+  ): Result<AuthInfo> {
+    const key = apiKeyFrom(headers);
+    if (!key) {
+      return {
+        success: false,
+        error: { code: 'MCP_UNAUTHORIZED', message: 'API key required' },
+      };
+    }
+
+    const digest = createHash('sha256').update(key).digest();
+    const client = this.options.clients.find(candidate => {
+      if ((candidate.agentType === ADMIN_ROLE) !== (role === ADMIN_ROLE)) {
+        return false;
+      }
+      const expected = Buffer.from(candidate.keyHash, 'hex');
+      return (
+        expected.length === digest.length && timingSafeEqual(expected, digest)
+      );
+    });
+    if (!client) {
+      return {
+        success: false,
+        error: { code: 'MCP_UNAUTHORIZED', message: 'Invalid API key' },
+      };
+    }
+
+    const context: ToolExecutionContext = {
+      agentId: client.agentType,
+      userId: client.userId,
+      projectId: client.projectId,
+      clientId: client.name,
+    };
+    return {
+      success: true,
+      data: {
+        token: key,
+        clientId: client.name,
+        scopes: [client.agentType],
+        extra: { context },
+      },
+    };
+  }
+
+  /**
+   * Transport for a request: the caller's existing session, or a new one
+   * when the request is an initialize
+   */
+  async resolve(
+    auth: AuthInfo,
+    sessionId: string | undefined,
+    body: unknown
+  ): Promise<Result<StreamableHTTPServerTransport>> {
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      // Another client's session is reported as missing, not forbidden
+      if (!session || session.clientId !== auth.clientId) {
+        return {
+          success: false,
+          error: {
+            code: 'MCP_SESSION_NOT_FOUND',
+            message: `Session not found: ${sessionId}`,
+          },
+        };
+      }
+      session.lastSeen = Date.now();
+      return { success: true, data: session.transport };
+    }
+
+    if (!isInitializeRequest(body)) {
+      return {
+        success: false,
+        error: {
+          code: 'MCP_SESSION_REQUIRED',
+          message: 'Mcp-Session-Id header required outside initialize',
+        },
+      };
+    }
+    if (this.sessions.size >= this.options.maxSessions) {
+      return {
+        success: false,
+        error: {
+          code: 'MCP_SESSION_LIMIT_REACHED',
+          message: `At most ${this.options.maxSessions} MCP sessions can be open`,
+        },
+      };
+    }
+
+    return { success: true, data: await this.open(auth.clientId) };
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close idle sessions, e.g. of IDEs that went away without a DELETE
+   */
+  async sweep(now = Date.now()): Promise<void> {
+    const idle = Array.from(this.sessions.values()).filter(
+      session => now - session.lastSeen >= this.options.sessionIdleMs
+    );
+    await Promise.all(idle.map(session => session.transport.close()));
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+    await Promise.all(
+      Array.from(this.sessions.values()).map(session =>
+        session.transport.close()
+      )
+    );
+  }
+
+  private async open(clientId: string): Promise<StreamableHTTPServerTransport> {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        this.sessions.set(sessionId, {
+          transport,
+          clientId,
+          lastSeen: Date.now(),
+        });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await this.createServer().connect(transport);
+    if (!this.sweeper) {
+      this.sweeper = setInterval(
+        () => void this.sweep(),
+        Math.min(this.options.sessionIdleMs, 60 * 1000)
+      );
+      this.sweeper.unref?.();
+    }
+    return transport;
+  }
+}
+
+/**
+ * Clients from MCP_HTTP_CLIENTS:
+ * "name=agentType,keyHash[,userId[,projectId]];name2=..."
+ */
+export function mcpHttpOptionsFromEnv(): Partial<MCPHttpOptions> {
+  const env = process.env;
+  const clients = (env.MCP_HTTP_CLIENTS || '')
+    .split(';')
+    .map(entry => entry.split('='))
+    .filter(([name, spec]) => name?.trim() && spec)
+    .map(([name, spec]) => {
+      const [agentType, keyHash, userId, projectId] = spec
+        .split(',')
+        .map(part => part.trim());
+      return {
+        name: name.trim(),
+        agentType,
+        keyHash: (keyHash || '').toLowerCase(),
+        ...(userId && { userId }),
+        ...(projectId && { projectId }),
+      };
+    })
+    .filter(
+      client => client.agentType && /^[0-9a-f]{64}$/.test(client.keyHash)
+    );
+
+  return {
+    clients,
+    ...(env.MCP_HTTP_MAX_SESSIONS && {
+      maxSessions: Number(env.MCP_HTTP_MAX_SESSIONS),
+    }),
+    ...(env.MCP_HTTP_SESSION_IDLE_MS && {
+      sessionIdleMs: Number(env.MCP_HTTP_SESSION_IDLE_MS),
+    }),
+  };
+}
+
+function apiKeyFrom(headers: IncomingHttpHeaders): string | undefined {
+  const bearer = /^Bearer\s+(.+)$/i.exec(headers.authorization || '');
+  const apiKey = headers['x-api-key'];
+  return (
+    bearer?.[1].trim() || (typeof apiKey === 'string' ? apiKey : undefined)
+  );
+}
@@ -0,0 +1,417 @@
+/**
+ * MCP Prompts
+ * The agent prompt templates from agents/prompts exposed as MCP prompts.
+ * Arguments arrive as strings: structured ones are parsed as JSON, and a
+ * plain string passed for a list becomes a one-item list
+ */
+
+import { BackendDeveloperPrompts } from '../agents/prompts/backend-developer.prompts';
+import { BusinessAnalystPrompts } from '../agents/prompts/business-analyst.prompts';
+import { FrontendDeveloperPrompts } from '../agents/prompts/frontend-developer.prompts';
+import { MicrosoftReviewerPrompts } from '../agents/prompts/microsoft-reviewer.prompts';
+import { QAEngineerPrompts } from '../agents/prompts/qa-engineer.prompts';
+import { WorkflowAssistantPrompts } from '../agents/prompts/workflow-assistant.prompts';
+import { Result } from '../types/ai-provider.types';
+
+export type PromptArgumentKind = 'text' | 'object' | 'list';
+
+export interface PromptArgument {
+  name: string;
+  kind: PromptArgumentKind;
+  required: boolean;
+}
+
+export interface PromptTemplate {
+  name: string;
+  agentType: string;
+  description: string;
+  arguments: PromptArgument[];
+  build: (...args: any[]) => string;
+}
+
+export interface RenderedPrompt {
+  description: string;
+  text: string;
+}
+
+/**
+ * Argument list shorthand: "name:kind", optional ones end with "?"
+ */
+function template(
+  agentType: string,
+  name: string,
+  description: string,
+  args: string[],
+  build: (...args: any[]) => string
+): PromptTemplate {
+  return {
+    name: `${agentType}.${name}`,
+    agentType,
+    description,
+    arguments: args.map(spec => {
+      const [argName, kind] = spec.replace(/\?$/, '').split(':');
+      return {
+        name: argName,
+        kind: (kind || 'text') as PromptArgumentKind,
+        required: !spec.endsWith('?'),
+      };
+    }),
+    build,
+  };
+}
+
+const backend = BackendDeveloperPrompts;
+const analyst = BusinessAnalystPrompts;
+const frontend = FrontendDeveloperPrompts;
+const reviewer = MicrosoftReviewerPrompts;
+const qa = QAEngineerPrompts;
+const assistant = WorkflowAssistantPrompts;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  template(
+    'backend-developer',
+    'code-generation',
+    'Generate backend code for the given requirements and technology',
+    ['requirements:object', 'technology:text', 'constraints:object?'],
+    backend.buildCodeGenerationPrompt.bind(backend)
+  ),
+  template(
+    'backend-developer',
+    'database-design',
+    'Design a database schema from requirements and data models',
+    ['requirements:object', 'dataModels:list', 'constraints:object?'],
+    backend.buildDatabaseDesignPrompt.bind(backend)
+  ),
+  template(
+    'backend-developer',
+    'api-design',
+    'Design an API for the given functionality',
+    ['functionality:object', 'requirements:object', 'constraints:object?'],
+    backend.buildAPIDesignPrompt.bind(backend)
+  ),
+  template(
+    'backend-developer',
+    'performance-optimization',
+    'Propose backend performance optimizations',
+    ['currentMetrics:object', 'requirements:object', 'bottlenecks:list'],
+    backend.buildPerformanceOptimizationPrompt.bind(backend)
+  ),
+  template(
+    'backend-developer',
+    'security-assessment',
+    'Assess the security of an application against threats',
+    ['application:object', 'threats:list', 'compliance:object?'],
+    backend.buildSecurityAssessmentPrompt.bind(backend)
+  ),
+  template(
+    'backend-developer',
+    'deployment-strategy',
+    'Plan a deployment strategy for an environment',
+    ['application:object', 'environment:object', 'requirements:object'],
+    backend.buildDeploymentStrategyPrompt.bind(backend)
+  ),
+  template(
+    'backend-developer',
+    'microservices',
+    'Design or review a microservices decomposition',
+    ['requirements:object', 'services:list', 'constraints:object?'],
+    backend.buildMicroservicesPrompt.bind(backend)
+  ),
+  template(
+    'backend-developer',
+    'code-review',
+    'Review backend code against standards',
+    ['codebase:object', 'standards:object', 'focus:list'],
+    backend.buildCodeReviewPrompt.bind(backend)
+  ),
+  template(
+    'business-analyst',
+    'requirements-analysis',
+    'Analyze a list of requirements',
+    ['requirements:list', 'context:object?'],
+    analyst.buildRequirementsAnalysisPrompt.bind(analyst)
+  ),
+  template(
+    'business-analyst',
+    'stakeholder-analysis',
+    'Analyze project stakeholders',
+    ['stakeholders:list'],
+    analyst.buildStakeholderAnalysisPrompt.bind(analyst)
+  ),
+  template(
+    'business-analyst',
+    'user-stories',
+    'Write user stories for requirements and personas',
+    ['requirements:list', 'personas:list'],
+    analyst.buildUserStoryPrompt.bind(analyst)
+  ),
+  template(
+    'business-analyst',
+    'business-case',
+    'Build a business case comparing alternatives',
+    ['projectInfo:object', 'alternatives:list', 'constraints:object?'],
+    analyst.buildBusinessCasePrompt.bind(analyst)
+  ),
+  template(
+    'business-analyst',
+    'process-optimization',
+    'Optimize a business process',
+    ['currentProcess:object', 'painPoints:list', 'objectives:list'],
+    analyst.buildProcessOptimizationPrompt.bind(analyst)
+  ),
+  template(
+    'business-analyst',
+    'gap-analysis',
+    'Compare the current state with a future vision',
+    ['currentState:object', 'futureVision:object', 'capabilities:list'],
+    analyst.buildGapAnalysisPrompt.bind(analyst)
+  ),
+  template(
+    'business-analyst',
+    'prioritization',
+    'Prioritize requirements by criteria and stakeholders',
+    ['requirements:list', 'criteria:object', 'stakeholders:list'],
+    analyst.buildPrioritizationPrompt.bind(analyst)
+  ),
+  template(
+    'frontend-developer',
+    'component-generation',
+    'Generate a UI component',
+    ['componentName:text', 'requirements:object', 'designSystem:object?'],
+    frontend.buildComponentGenerationPrompt.bind(frontend)
+  ),
+  template(
+    'frontend-developer',
+    'architecture-design',
+    'Design a frontend architecture',
+    ['requirements:list', 'constraints:object'],
+    frontend.buildArchitectureDesignPrompt.bind(frontend)
+  ),
+  template(
+    'frontend-developer',
+    'performance-optimization',
+    'Optimize a component for performance',
+    ['componentCode:text', 'performanceMetrics:object'],
+    frontend.buildPerformanceOptimizationPrompt.bind(frontend)
+  ),
+  template(
+    'frontend-developer',
+    'accessibility',
+    'Review a component for accessibility',
+    ['componentCode:text', 'accessibilityRequirements:object'],
+    frontend.buildAccessibilityPrompt.bind(frontend)
+  ),
+  template(
+    'frontend-developer',
+    'component-review',
+    'Review a component against requirements',
+    ['componentCode:text', 'requirements:object'],
+    frontend.buildComponentReviewPrompt.bind(frontend)
+  ),
+  template(
+    'frontend-developer',
+    'responsive-design',
+    'Plan a responsive layout for breakpoints',
+    ['designSpecs:object', 'breakpoints:object'],
+    frontend.buildResponsiveDesignPrompt.bind(frontend)
+  ),
+  template(
+    'microsoft-reviewer',
+    'code-review',
+    'Review code changes against Microsoft standards',
+    ['codeChanges:list', 'reviewType:text'],
+    reviewer.buildCodeReviewPrompt.bind(reviewer)
+  ),
+  template(
+    'microsoft-reviewer',
+    'security-analysis',
+    'Analyze security in a given context',
+    ['securityContext:object'],
+    reviewer.buildSecurityAnalysisPrompt.bind(reviewer)
+  ),
+  template(
+    'microsoft-reviewer',
+    'performance-analysis',
+    'Analyze performance data',
+    ['performanceData:object'],
+    reviewer.buildPerformanceAnalysisPrompt.bind(reviewer)
+  ),
+  template(
+    'microsoft-reviewer',
+    'architecture-review',
+    'Review an architecture',
+    ['architectureContext:object'],
+    reviewer.buildArchitectureReviewPrompt.bind(reviewer)
+  ),
+  template(
+    'qa-engineer',
+    'test-plan',
+    'Write a test plan for requirements',
+    ['requirements:object', 'constraints:object'],
+    qa.buildTestPlanPrompt.bind(qa)
+  ),
+  template(
+    'qa-engineer',
+    'test-suite',
+    'Design a test suite for a feature',
+    ['feature:text', 'specifications:object'],
+    qa.buildTestSuitePrompt.bind(qa)
+  ),
+  template(
+    'qa-engineer',
+    'automation',
+    'Automate a test case in a framework',
+    ['testCase:object', 'framework:text'],
+    qa.buildAutomationPrompt.bind(qa)
+  ),
+  template(
+    'qa-engineer',
+    'quality-assessment',
+    'Assess code quality from metrics',
+    ['metrics:object', 'codebase:object'],
+    qa.buildQualityAssessmentPrompt.bind(qa)
+  ),
+  template(
+    'qa-engineer',
+    'defect-analysis',
+    'Analyze reported defects',
+    ['defects:list', 'context:object'],
+    qa.buildDefectAnalysisPrompt.bind(qa)
+  ),
+  template(
+    'qa-engineer',
+    'performance-testing',
+    'Design performance tests',
+    ['requirements:object', 'environment:object'],
+    qa.buildPerformanceTestingPrompt.bind(qa)
+  ),
+  template(
+    'qa-engineer',
+    'security-testing',
+    'Design security tests against threats',
+    ['application:object', 'threats:object'],
+    qa.buildSecurityTestingPrompt.bind(qa)
+  ),
+  template(
+    'workflow-assistant',
+    'analysis',
+    'Analyze the current workflow context',
+    ['context:object'],
+    assistant.buildAnalysisPrompt.bind(assistant)
+  ),
+  template(
+    'workflow-assistant',
+    'welcome',
+    'Welcome a user with an analysis of their project',
+    ['context:object', 'analysis:object'],
+    assistant.buildWelcomePrompt.bind(assistant)
+  ),
+  template(
+    'workflow-assistant',
+    'recommendations',
+    'Recommend next steps',
+    ['context:object'],
+    assistant.buildRecommendationsPrompt.bind(assistant)
+  ),
+  template(
+    'workflow-assistant',
+    'troubleshooting',
+    'Troubleshoot a workflow issue',
+    ['issue:text', 'context:object'],
+    assistant.buildTroubleshootingPrompt.bind(assistant)
+  ),
+  template(
+    'workflow-assistant',
+    'guidance',
+    'Answer a question about the workflow',
+    ['query:text', 'context:object'],
+    assistant.buildGuidancePrompt.bind(assistant)
+  ),
+  template(
+    'workflow-assistant',
+    'decision-support',
+    'Support a decision between options',
+    ['decision:text', 'options:list', 'context:object'],
+    assistant.buildDecisionSupportPrompt.bind(assistant)
+  ),
+  template(
+    'workflow-assistant',
+    'optimization',
+    'Optimize a workflow from its metrics',
+    ['metrics:object', 'context:object'],
+    assistant.buildOptimizationPrompt.bind(assistant)
+  ),
+];
+
+export function getPromptTemplate(name: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find(prompt => prompt.name === name);
+}
+
+/**
+ * Fill a template from string arguments; missing required arguments are
+ * an error, missing optional ones get an empty value of their kind
+ */
+export function renderPrompt(
+  name: string,
+  args: Record<string, string> = {}
+): Result<RenderedPrompt> {
+  const prompt = getPromptTemplate(name);
+  if (!prompt) {
+    return {
+      success: false,
+      error: { code: 'PROMPT_NOT_FOUND', message: `Unknown prompt: ${name}` },
+    };
+  }
+
+  const missing = prompt.arguments
+    .filter(arg => arg.required && !args[arg.name])
+    .map(arg => arg.name);
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: {
+        code: 'PROMPT_ARGUMENTS_MISSING',
+        message: `Missing required arguments: ${missing.join(', ')}`,
+      },
+    };
+  }
+
+  try {
+    const values = prompt.arguments.map(arg =>
+      parseArgument(arg.kind, args[arg.name])
+    );
+    return {
+      success: true,
+      data: { description: prompt.description, text: prompt.build(...values) },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        code: 'PROMPT_RENDER_FAILED',
+        message:
+          error instanceof Error ? error.message : 'Failed to render prompt',
+      },
+    };
+  }
+}
+
+function parseArgument(kind: PromptArgumentKind, value?: string): unknown {
+  if (kind === 'text') {
+    return value || '';
+  }
+  if (!value) {
+    return kind === 'list' ? [] : {};
+  }
+
+  let parsed: unknown = value;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    // Free text stays a string
+  }
+  if (kind === 'list' && !Array.isArray(parsed)) {
+    return [parsed];
+  }
+  return parsed;
+}
@@ -0,0 +1,430 @@
+/**
+ * MCP Resources
+ * Project context exposed to MCP clients under thinkcode:// URIs: project
+ * files, step conversations, approved step artifacts and mockups, and
+ * knowledge entries; subscribed resources are polled for changes
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { PrismaClient } from '@prisma/client';
+import { Result } from '../types/ai-provider.types';
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType?: string;
+}
+
+export type MCPResourceContents =
+  | { uri: string; mimeType: string; text: string }
+  | { uri: string; mimeType: string; blob: string };
+
+export type ResourceStore = Pick<
+  PrismaClient,
+  | 'projectFile'
+  | 'workflowStepApproval'
+  | 'workflowStepExecution'
+  | 'mockupApproval'
+  | 'knowledgeEntry'
+>;
+
+export const RESOURCE_SCHEME = 'thinkcode://';
+
+/** Resources of each kind returned by resources/list, newest first */
+const LIST_LIMIT = 50;
+/** Larger files are listed but not returned */
+const MAX_FILE_BYTES = 1024 * 1024;
+const TEXT_MIME_TYPES = /^text\/|json|xml|yaml|javascript|typescript|markdown/;
+
+export const RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}projects/{projectId}/files/{fileId}`,
+    name: 'Project file',
+    description: 'An uploaded or generated project file',
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}projects/{projectId}/steps/{approvalId}/conversation`,
+    name: 'Step conversation',
+    description: 'Messages exchanged with agents on a workflow step',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}projects/{projectId}/artifacts/{approvalId}`,
+    name: 'Approved artifact',
+    description:
+      'Output of an approved workflow step, e.g. requirements or architecture',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}projects/{projectId}/mockups/{mockupId}`,
+    name: 'Approved mockup',
+    description: 'A mockup approved for the project',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}knowledge/{entryId}`,
+    name: 'Knowledge entry',
+    description: 'An active entry from a knowledge feed',
+    mimeType: 'text/markdown',
+  },
+];
+
+type ResourceRef =
+  | {
+      kind: 'file' | 'conversation' | 'artifact' | 'mockup';
+      projectId: string;
+      id: string;
+    }
+  | { kind: 'knowledge'; id: string };
+
+export class MCPResourceProvider {
+  constructor(private readonly store: ResourceStore) {}
+
+  async listResources(): Promise<MCPResource[]> {
+    const [files, approvals, mockups, entries] = await Promise.all([
+      this.store.projectFile.findMany({
+        orderBy: { updatedAt: 'desc' },
+        take: LIST_LIMIT,
+      }),
+      this.store.workflowStepApproval.findMany({
+        orderBy: { updatedAt: 'desc' },
+        take: LIST_LIMIT,
+      }),
+      this.store.mockupApproval.findMany({
+        where: { status: 'approved' },
+        orderBy: { updatedAt: 'desc' },
+        take: LIST_LIMIT,
+      }),
+      this.store.knowledgeEntry.findMany({
+        where: { status: 'active' },
+        orderBy: { updatedAt: 'desc' },
+        take: LIST_LIMIT,
+      }),
+    ]);
+
+    return [
+      ...files.map(file => ({
+        uri: projectUri(file.projectId, `files/${file.id}`),
+        name: file.originalName,
+        description: `${file.category} file`,
+        mimeType: file.mimeType,
+      })),
+      ...approvals.map(approval => ({
+        uri: projectUri(
+          approval.projectId,
+          `steps/${approval.id}/conversation`
+        ),
+        name: `${approval.stepName} conversation`,
+        mimeType: 'application/json',
+      })),
+      ...approvals
+        .filter(approval => approval.status === 'approved')
+        .map(approval => ({
+          uri: projectUri(approval.projectId, `artifacts/${approval.id}`),
+          name: approval.stepName,
+          description: 'Approved step artifact',
+          mimeType: 'application/json',
+        })),
+      ...mockups.map(mockup => ({
+        uri: projectUri(mockup.projectId, `mockups/${mockup.id}`),
+        name: mockup.name,
+        description: mockup.description || 'Approved mockup',
+        mimeType: 'application/json',
+      })),
+      ...entries.map(entry => ({
+        uri: `${RESOURCE_SCHEME}knowledge/${entry.id}`,
+        name: entry.title,
+        description: entry.category || undefined,
+        mimeType: 'text/markdown',
+      })),
+    ];
+  }
+
+  async readResource(uri: string): Promise<Result<MCPResourceContents>> {
+    const ref = parseResourceUri(uri);
+    if (!ref) {
+      return notFound(uri);
+    }
+
+    try {
+      switch (ref.kind) {
+        case 'file':
+          return await this.readFile(uri, ref.projectId, ref.id);
+        case 'conversation':
+          return await this.readConversation(uri, ref.projectId, ref.id);
+        case 'artifact':
+          return await this.readArtifact(uri, ref.projectId, ref.id);
+        case 'mockup':
+          return await this.readMockup(uri, ref.projectId, ref.id);
+        case 'knowledge':
+          return await this.readKnowledge(uri, ref.id);
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'RESOURCE_READ_FAILED',
+          message:
+            error instanceof Error ? error.message : 'Failed to read resource',
+        },
+      };
+    }
+  }
+
+  /**
+   * Fingerprint of the current contents; undefined once it is gone
+   */
+  async getVersion(uri: string): Promise<string | undefined> {
+    const result = await this.readResource(uri);
+    return result.success
+      ? createHash('sha256').update(JSON.stringify(result.data)).digest('hex')
+      : undefined;
+  }
+
+  private async readFile(
+    uri: string,
+    projectId: string,
+    id: string
+  ): Promise<Result<MCPResourceContents>> {
+    const file = await this.store.projectFile.findFirst({
+      where: { id, projectId },
+    });
+    if (!file) {
+      return notFound(uri);
+    }
+
+    if (file.size <= MAX_FILE_BYTES) {
+      const content = await fs.readFile(file.fullPath).catch(() => undefined);
+      if (content) {
+        return TEXT_MIME_TYPES.test(file.mimeType)
+          ? text(uri, file.mimeType, content.toString('utf8'))
+          : {
+              success: true,
+              data: {
+                uri,
+                mimeType: file.mimeType,
+                blob: content.toString('base64'),
+              },
+            };
+      }
+    }
+
+    if (file.extractedText) {
+      return text(uri, 'text/plain', file.extractedText);
+    }
+    return {
+      success: false,
+      error: {
+        code: 'RESOURCE_UNAVAILABLE',
+        message: `File ${file.originalName} is too large or missing on disk`,
+      },
+    };
+  }
+
+  private async readConversation(
+    uri: string,
+    projectId: string,
+    id: string
+  ): Promise<Result<MCPResourceContents>> {
+    const approval = await this.store.workflowStepApproval.findFirst({
+      where: { id, projectId },
+      include: { conversations: { orderBy: { timestamp: 'asc' } } },
+    });
+    if (!approval) {
+      return notFound(uri);
+    }
+
+    return json(uri, {
+      step: approval.stepName,
+      status: approval.status,
+      messages: approval.conversations.map(message => ({
+        role: message.role,
+        agentType: message.agentType,
+        messageType: message.messageType,
+        content: message.content,
+        timestamp: message.timestamp,
+      })),
+    });
+  }
+
+  private async readArtifact(
+    uri: string,
+    projectId: string,
+    id: string
+  ): Promise<Result<MCPResourceContents>> {
+    const approval = await this.store.workflowStepApproval.findFirst({
+      where: { id, projectId, status: 'approved' },
+    });
+    if (!approval) {
+      return notFound(uri);
+    }
+
+    const execution = await this.store.workflowStepExecution.findFirst({
+      where: {
+        workflowRunId: approval.workflowRunId,
+        stepId: approval.stepId,
+        status: 'completed',
+      },
+      orderBy: { endTime: 'desc' },
+    });
+    return json(uri, {
+      step: approval.stepName,
+      approvedBy: approval.approvedBy,
+      approvedAt: approval.approvedAt,
+      comments: approval.comments,
+      output: execution?.output ?? null,
+    });
+  }
+
+  private async readMockup(
+    uri: string,
+    projectId: string,
+    id: string
+  ): Promise<Result<MCPResourceContents>> {
+    const mockup = await this.store.mockupApproval.findFirst({
+      where: { id, projectId, status: 'approved' },
+    });
+    if (!mockup) {
+      return notFound(uri);
+    }
+
+    return json(uri, {
+      name: mockup.name,
+      description: mockup.description,
+      iteration: mockup.currentIteration,
+      mockup: mockup.mockupData,
+    });
+  }
+
+  private async readKnowledge(
+    uri: string,
+    id: string
+  ): Promise<Result<MCPResourceContents>> {
+    const entry = await this.store.knowledgeEntry.findFirst({
+      where: { id, status: 'active' },
+    });
+    if (!entry) {
+      return notFound(uri);
+    }
+
+    const source = entry.url ? `\n\nSource: ${entry.url}` : '';
+    return text(
+      uri,
+      'text/markdown',
+      `# ${entry.title}\n\n${entry.content}${source}`
+    );
+  }
+}
+
+/**
+ * Polls subscribed resources and reports the ones whose contents changed
+ * or disappeared; the timer only runs while something is subscribed
+ */
+export class ResourceSubscriptions {
+  private versions: Map<string, string | undefined> = new Map();
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly getVersion: (uri: string) => Promise<string | undefined>,
+    private readonly onUpdated: (uri: string) => Promise<void> | void,
+    private readonly intervalMs = 15000
+  ) {}
+
+  async subscribe(uri: string): Promise<void> {
+    this.versions.set(uri, await this.getVersion(uri));
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref?.();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.versions.delete(uri);
+    if (this.versions.size === 0) {
+      this.stop();
+    }
+  }
+
+  async poll(): Promise<void> {
+    for (const [uri, previous] of this.versions) {
+      const current = await this.getVersion(uri).catch(() => previous);
+      if (current !== previous && this.versions.has(uri)) {
+        this.versions.set(uri, current);
+        await this.onUpdated(uri);
+      }
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+export function parseResourceUri(uri: string): ResourceRef | undefined {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    return undefined;
+  }
+
+  const parts = uri.slice(RESOURCE_SCHEME.length).split('/');
+  if (parts[0] === 'knowledge' && parts.length === 2 && parts[1]) {
+    return { kind: 'knowledge', id: parts[1] };
+  }
+  if (parts[0] !== 'projects' || !parts[1] || !parts[3]) {
+    return undefined;
+  }
+
+  const [, projectId, collection, id, ...rest] = parts;
+  const suffix = rest.join('/');
+  if (collection === 'steps' && suffix === 'conversation') {
+    return { kind: 'conversation', projectId, id };
+  }
+  if (suffix) {
+    return undefined;
+  }
+  switch (collection) {
+    case 'files':
+      return { kind: 'file', projectId, id };
+    case 'artifacts':
+      return { kind: 'artifact', projectId, id };
+    case 'mockups':
+      return { kind: 'mockup', projectId, id };
+    default:
+      return undefined;
+  }
+}
+
+function projectUri(projectId: string, path: string): string {
+  return `${RESOURCE_SCHEME}projects/${projectId}/${path}`;
+}
+
+function text(
+  uri: string,
+  mimeType: string,
+  content: string
+): Result<MCPResourceContents> {
+  return { success: true, data: { uri, mimeType, text: content } };
+}
+
+function json(uri: string, value: unknown): Result<MCPResourceContents> {
+  return text(uri, 'application/json', JSON.stringify(value, null, 2));
+}
+
+function notFound<T>(uri: string): Result<T> {
+  return {
+    success: false,
+    error: {
+      code: 'RESOURCE_NOT_FOUND',
+      message: `Resource not found: ${uri}`,
+    },
+  };
+}
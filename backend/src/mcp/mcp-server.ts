@@ -5,16 +5,47 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import {
   CallToolRequestSchema,
   CallToolResult,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   Tool,
   TextContent,
   ImageContent,
   EmbeddedResource,
 } from '@modelcontextprotocol/sdk/types.js';
 import { PrismaClient } from '@prisma/client';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AgentToolsRegistry } from '../agents/agent-tools-registry';
+import {
+  CommandSandbox,
+  commandSandboxOptionsFromEnv,
+} from './command-sandbox';
+import { CodeAnalyzer, formatAnalysisReport } from './code-analyzer';
+import {
+  MCPResourceProvider,
+  RESOURCE_TEMPLATES,
+  ResourceSubscriptions,
+  parseResourceUri,
+} from './mcp-resources';
+import {
+  PROMPT_TEMPLATES,
+  PromptArgumentKind,
+  renderPrompt,
+} from './mcp-prompts';
+import { readOnlyQueryError } from '../utils/read-only-query';
 
 /**
  * Copilot Tool Definition
@@ -31,6 +62,7 @@ export interface CopilotTool {
   category: 'workspace' | 'analysis' | 'generation' | 'integration' | 'system';
   agentTypes?: string[]; // Which agent types can use this tool
   permissions: ToolPermission[];
+  localOnly?: boolean; // Not offered to remote (HTTP) clients
 }
 
 export interface ToolExecutionContext {
@@ -39,6 +71,7 @@ export interface ToolExecutionContext {
   workspaceId?: string;
   sessionId?: string;
   userId?: string;
+  clientId?: string; // Remote (HTTP) client; confined to its project workspace
   metadata?: Record<string, any>;
 }
 
@@ -50,6 +83,35 @@ export interface ToolResult {
   content?: (TextContent | ImageContent | EmbeddedResource)[];
 }
 
+/**
+ * Implementations behind the built-in tools and resources; defaults are
+ * created from the environment
+ */
+export interface MCPServerServices {
+  commandSandbox?: CommandSandbox;
+  codeAnalyzer?: CodeAnalyzer;
+  resourceProvider?: MCPResourceProvider;
+}
+
+const REMOTE_PROJECT_REQUIRED =
+  'Access denied: remote clients need a project workspace';
+const MAX_QUERY_ROWS = 1000;
+
+const PROMPT_ARGUMENT_HINTS: Record<PromptArgumentKind, string> = {
+  text: 'Text',
+  object: 'JSON object',
+  list: 'JSON array, or a single item',
+};
+
+/**
+ * Request details the SDK hands to handlers; authInfo is set for
+ * authenticated remote clients (see mcp-http.ts)
+ */
+interface RequestExtra {
+  authInfo?: AuthInfo;
+  sessionId?: string;
+}
+
 export interface ToolPermission {
   type: 'read' | 'write' | 'execute' | 'admin';
   resource: string; // file, database, api, system
@@ -64,10 +126,30 @@ export class MCPServer {
   private prisma: PrismaClient;
   private tools: Map<string, CopilotTool> = new Map();
   private transport: StdioServerTransport;
+  private commandSandbox: CommandSandbox;
+  private codeAnalyzer: CodeAnalyzer;
+  private resources: MCPResourceProvider;
+  private subscriptions: Set<ResourceSubscriptions> = new Set();
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, services: MCPServerServices = {}) {
     this.prisma = prisma;
-    this.server = new Server(
+    this.commandSandbox =
+      services.commandSandbox ||
+      new CommandSandbox(prisma, commandSandboxOptionsFromEnv());
+    this.codeAnalyzer = services.codeAnalyzer || new CodeAnalyzer();
+    this.resources =
+      services.resourceProvider || new MCPResourceProvider(prisma);
+    this.server = this.createProtocolServer();
+    this.transport = new StdioServerTransport();
+    this.registerBuiltinTools();
+  }
+
+  /**
+   * Create an SDK server with the tool, resource and prompt handlers. An
+   * SDK server serves a single transport, so every HTTP session gets one
+   */
+  createProtocolServer(): Server {
+    const server = new Server(
       {
         name: 'thinkcode-ai-mcp-server',
         version: '1.0.0',
@@ -75,35 +157,136 @@ export class MCPServer {
       {
         capabilities: {
           tools: {},
-          resources: {},
+          resources: { subscribe: true },
           prompts: {},
         },
       }
     );
+    const subscriptions = new ResourceSubscriptions(
+      uri => this.resources.getVersion(uri),
+      uri => server.sendResourceUpdated({ uri })
+    );
+    this.subscriptions.add(subscriptions);
+    server.onclose = () => {
+      subscriptions.stop();
+      this.subscriptions.delete(subscriptions);
+    };
 
-    this.transport = new StdioServerTransport();
-    this.setupToolHandlers();
-    this.registerBuiltinTools();
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server, subscriptions);
+    this.setupPromptHandlers(server);
+    return server;
   }
 
   /**
    * Setup MCP tool request handlers
    */
-  private setupToolHandlers(): void {
-    // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools: Tool[] = Array.from(this.tools.values()).map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.inputSchema,
-      }));
+  private setupToolHandlers(server: Server): void {
+    // List available tools; authenticated clients only see their agent's
+    server.setRequestHandler(ListToolsRequestSchema, async (_, extra) => {
+      const client = clientContext(extra);
+      const tools: Tool[] = Array.from(this.tools.values())
+        .filter(tool => !client || !this.permissionError(tool, client))
+        .map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+        }));
 
       return { tools };
     });
 
     // Execute tool
-    this.server.setRequestHandler(CallToolRequestSchema, async request => {
-      return this.handleToolExecution(request);
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      return this.handleToolExecution(request, clientContext(extra));
+    });
+  }
+
+  /**
+   * Setup MCP resource handlers: project context under thinkcode:// URIs.
+   * Clients bound to a project only see that project's resources
+   */
+  private setupResourceHandlers(
+    server: Server,
+    subscriptions: ResourceSubscriptions
+  ): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async (_, extra) => {
+      const client = clientContext(extra);
+      const resources = await this.resources.listResources();
+      return {
+        resources: resources.filter(resource =>
+          isResourceVisible(resource.uri, client)
+        ),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request, extra) => {
+        const { uri } = request.params;
+        assertResourceVisible(uri, clientContext(extra));
+        const result = await this.resources.readResource(uri);
+        if (!result.success) {
+          throw new McpError(
+            result.error.code === 'RESOURCE_NOT_FOUND'
+              ? ErrorCode.InvalidParams
+              : ErrorCode.InternalError,
+            result.error.message
+          );
+        }
+        return { contents: [result.data] };
+      }
+    );
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      assertResourceVisible(request.params.uri, clientContext(extra));
+      await subscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Setup MCP prompt handlers: the agent prompt templates
+   */
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPT_TEMPLATES.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments.map(arg => ({
+          name: arg.name,
+          description: PROMPT_ARGUMENT_HINTS[arg.kind],
+          required: arg.required,
+        })),
+      })),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async request => {
+      const result = renderPrompt(
+        request.params.name,
+        request.params.arguments
+      );
+      if (!result.success) {
+        throw new McpError(ErrorCode.InvalidParams, result.error.message);
+      }
+      return {
+        description: result.data.description,
+        messages: [
+          {
+            role: 'user' as const,
+            content: { type: 'text' as const, text: result.data.text },
+          },
+        ],
+      };
     });
   }
 
@@ -155,7 +338,10 @@ export class MCPServer {
   /**
    * Handle tool execution request - extracted to reduce complexity
    */
-  private async handleToolExecution(request: any): Promise<CallToolResult> {
+  private async handleToolExecution(
+    request: any,
+    client?: ToolExecutionContext
+  ): Promise<CallToolResult> {
     const { name, arguments: args } = request.params;
 
     const tool = this.tools.get(name);
@@ -167,8 +353,10 @@ export class MCPServer {
       // Validate input schema
       this.validateToolInput(args, tool.inputSchema);
 
-      // Execute tool with context
-      const context = this.createExecutionContext(args);
+      // Execute tool with context; an authenticated client's identity
+      // cannot be overridden from the arguments
+      const context = client || this.createExecutionContext(args);
+      this.checkPermissions(tool, context);
       const result = await tool.handler(args, context);
 
       if (!result.success) {
@@ -225,8 +413,8 @@ export class MCPServer {
         },
         required: ['filePath'],
       },
-      handler: async input => {
-        return await this.handleReadWorkspaceFile(input);
+      handler: async (input, context) => {
+        return await this.handleReadWorkspaceFile(input, context);
       },
     });
 
@@ -253,8 +441,8 @@ export class MCPServer {
           maxResults: { type: 'number', default: 50 },
         },
       },
-      handler: async input => {
-        return await this.handleSearchWorkspaceFiles(input);
+      handler: async (input, context) => {
+        return await this.handleSearchWorkspaceFiles(input, context);
       },
     });
   }
@@ -265,7 +453,8 @@ export class MCPServer {
   private registerAnalysisTools(): void {
     this.registerTool({
       name: 'analyze_code',
-      description: 'Analyze code for quality, patterns, and potential issues',
+      description:
+        'Static analysis of a file or directory (or inline code): TypeScript diagnostics, ESLint findings, cyclomatic complexity, exported symbols, import graph and unused exports',
       category: 'analysis',
       permissions: [{ type: 'read', resource: 'file' }],
       inputSchema: {
@@ -273,23 +462,20 @@ export class MCPServer {
         properties: {
           filePath: {
             type: 'string',
-            description: 'Path to code file to analyze',
+            description: 'File or directory to analyze (relative to workspace)',
           },
           code: {
             type: 'string',
             description: 'Code content to analyze (alternative to filePath)',
           },
-          language: { type: 'string', description: 'Programming language' },
-          analysisType: {
+          language: {
             type: 'string',
-            enum: [
-              'quality',
-              'security',
-              'performance',
-              'maintainability',
-              'all',
-            ],
-            default: 'all',
+            description: 'Language of inline code: typescript or javascript',
+          },
+          complexityThreshold: {
+            type: 'number',
+            default: 10,
+            description: 'Report functions above this cyclomatic complexity',
           },
         },
       },
@@ -344,7 +530,8 @@ export class MCPServer {
   private registerSystemTools(): void {
     this.registerTool({
       name: 'execute_terminal_command',
-      description: 'Execute a terminal command in the workspace context',
+      description:
+        "Run an allowlisted command (no shell operators) in the project workspace; only commands on the agent's allowlist are permitted",
       category: 'system',
       permissions: [{ type: 'execute', resource: 'system' }],
       inputSchema: {
@@ -364,8 +551,8 @@ export class MCPServer {
         },
         required: ['command'],
       },
-      handler: async input => {
-        return await this.handleExecuteTerminalCommand(input);
+      handler: async (input, context) => {
+        return await this.handleExecuteTerminalCommand(input, context);
       },
     });
   }
@@ -376,14 +563,22 @@ export class MCPServer {
   private registerIntegrationTools(): void {
     this.registerTool({
       name: 'query_database',
-      description: 'Execute database queries for project data',
+      description:
+        'Run one read-only SELECT query on project data; pass values as parameters',
       category: 'integration',
       permissions: [{ type: 'read', resource: 'database' }],
+      localOnly: true,
       inputSchema: {
         type: 'object',
         properties: {
-          query: { type: 'string', description: 'SQL query to execute' },
-          params: { type: 'array', description: 'Query parameters' },
+          query: {
+            type: 'string',
+            description: 'A single SELECT (or WITH ... SELECT) statement',
+          },
+          params: {
+            type: 'array',
+            description: 'Values for the ? placeholders in the query',
+          },
           maxRows: { type: 'number', default: 100 },
         },
         required: ['query'],
@@ -458,34 +653,68 @@ export class MCPServer {
     );
   }
 
+  /**
+   * Execute a tool in-process (e.g. for provider tool calling) with the
+   * same input validation as MCP requests; failures become error results
+   */
+  async executeTool(
+    name: string,
+    input: any,
+    context: ToolExecutionContext = {}
+  ): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { success: false, error: `Unknown tool: ${name}` };
+    }
+
+    try {
+      this.validateToolInput(input, tool.inputSchema);
+      this.checkPermissions(tool, context);
+      return await tool.handler(input, context);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Tool execution failed',
+      };
+    }
+  }
+
   /**
    * Start MCP server
    */
   async start(): Promise<void> {
-    await this.server.connect(this.transport);
+    await this.connect(this.transport);
     console.log('🚀 MCP Server started successfully');
   }
 
+  /**
+   * Serve over another transport, e.g. an in-memory one in tests
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
   /**
    * Stop MCP server
    */
   async stop(): Promise<void> {
+    this.subscriptions.forEach(subscriptions => subscriptions.stop());
     await this.transport.close();
     console.log('🛑 MCP Server stopped');
   }
 
   // === Tool Handlers ===
 
-  private async handleReadWorkspaceFile(input: any): Promise<ToolResult> {
+  private async handleReadWorkspaceFile(
+    input: any,
+    context?: ToolExecutionContext
+  ): Promise<ToolResult> {
     try {
-      const fs = require('fs/promises');
-      const path = require('path');
-
-      const workspaceRoot = process.cwd();
-      const fullPath = path.resolve(workspaceRoot, input.filePath);
+      const workspaceRoot = await this.workspaceRootFor(context);
+      const fullPath = await realPathInside(workspaceRoot, input.filePath);
 
-      // Security check: ensure file is within workspace
-      if (!fullPath.startsWith(workspaceRoot)) {
+      // Security check: ensure file (symlinks resolved) is within workspace
+      if (!fullPath) {
         throw new Error('Access denied: File is outside workspace');
       }
 
@@ -522,19 +751,25 @@ export class MCPServer {
     }
   }
 
-  private async handleSearchWorkspaceFiles(input: any): Promise<ToolResult> {
+  private async handleSearchWorkspaceFiles(
+    input: any,
+    context?: ToolExecutionContext
+  ): Promise<ToolResult> {
     try {
       const { glob } = require('glob');
-      const fs = require('fs/promises');
 
-      const workspaceRoot = process.cwd();
+      const workspaceRoot = await this.workspaceRootFor(context);
       const results: any[] = [];
 
       if (input.pattern) {
-        const files = await glob(input.pattern, { cwd: workspaceRoot });
-        results.push(
-          ...files.map((file: string) => ({ type: 'file', path: file }))
-        );
+        const files: string[] = await glob(input.pattern, {
+          cwd: workspaceRoot,
+        });
+        for (const file of files) {
+          if (await realPathInside(workspaceRoot, file)) {
+            results.push({ type: 'file', path: file });
+          }
+        }
       }
 
       if (input.content) {
@@ -546,10 +781,11 @@ export class MCPServer {
 
         for (const file of searchFiles.slice(0, input.maxResults || 50)) {
           try {
-            const content = await fs.readFile(
-              `${workspaceRoot}/${file}`,
-              'utf8'
-            );
+            const fullPath = await realPathInside(workspaceRoot, file);
+            if (!fullPath) {
+              continue;
+            }
+            const content = await fs.readFile(fullPath, 'utf8');
             if (content.includes(input.content)) {
               results.push({
                 type: 'content_match',
@@ -587,12 +823,26 @@ export class MCPServer {
     input: any,
     context?: ToolExecutionContext
   ): Promise<ToolResult> {
-    // REAL IMPLEMENTATION REQUIRED - NO MOCK RESPONSES
-    throw new Error(
-      `Code analysis not implemented for agent: ${
-        context?.agentId || 'unknown'
-      }. Real static analysis integration required.`
-    );
+    const analyzer = context?.clientId
+      ? this.codeAnalyzer.withWorkspaceRoot(
+          await this.workspaceRootFor(context)
+        )
+      : this.codeAnalyzer;
+    const result = await analyzer.analyze({
+      path: input.filePath,
+      code: input.code,
+      language: input.language,
+      complexityThreshold: input.complexityThreshold,
+    });
+    if (!result.success) {
+      return { success: false, error: result.error.message };
+    }
+
+    return {
+      success: true,
+      data: result.data,
+      content: [{ type: 'text', text: formatAnalysisReport(result.data) }],
+    };
   }
 
   private async handleGenerateCode(
@@ -606,52 +856,70 @@ export class MCPServer {
   }
 
   private async handleExecuteTerminalCommand(
-    input: any
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    input: any,
+    context?: ToolExecutionContext
   ): Promise<ToolResult> {
-    try {
-      const { exec } = await import('child_process');
-      const { promisify } = await import('util');
-      const execAsync = promisify(exec);
+    if (context?.clientId && !context.projectId) {
+      return { success: false, error: REMOTE_PROJECT_REQUIRED };
+    }
 
-      const result = await execAsync(input.command, {
-        cwd: input.workingDirectory || process.cwd(),
-        timeout: input.timeout || 30000,
-      });
+    const result = await this.commandSandbox.execute({
+      command: input.command,
+      workingDirectory: input.workingDirectory,
+      timeoutMs: input.timeout,
+      agentType: context?.agentId || undefined,
+      projectId: context?.projectId || undefined,
+      userId: context?.userId,
+      sessionId: context?.sessionId,
+    });
+    if (!result.success) {
+      return { success: false, error: result.error.message };
+    }
 
-      return {
-        success: true,
-        data: {
-          stdout: result.stdout,
-          stderr: result.stderr,
-          command: input.command,
-        },
-        content: [
-          {
-            type: 'text',
-            text: `Command: ${input.command}\nOutput:\n${result.stdout}${
-              result.stderr ? '\nErrors:\n' + result.stderr : ''
-            }`,
-          },
-        ],
-      };
-    } catch (error) {
+    const execution = result.data;
+    const output = `${execution.stdout}${
+      execution.stderr ? '\nErrors:\n' + execution.stderr : ''
+    }${execution.truncated ? '\n[output truncated]' : ''}`;
+    if (execution.timedOut || execution.exitCode !== 0) {
       return {
         success: false,
-        error:
-          error instanceof Error ? error.message : 'Command execution failed',
+        error: `${
+          execution.timedOut
+            ? 'Command timed out'
+            : `Command exited with code ${execution.exitCode}`
+        }\nOutput:\n${output}`,
+        data: execution,
       };
     }
+
+    return {
+      success: true,
+      data: execution,
+      content:
+        input.captureOutput === false
+          ? [{ type: 'text', text: `Command: ${input.command} succeeded` }]
+          : [
+              {
+                type: 'text',
+                text: `Command: ${input.command}\nOutput:\n${output}`,
+              },
+            ],
+    };
   }
 
-  private async handleQueryDatabase(
-    input: any
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  ): Promise<ToolResult> {
+  private async handleQueryDatabase(input: any): Promise<ToolResult> {
+    const query = String(input.query).trim().replace(/;\s*$/, '');
+    const params: unknown[] = input.params || [];
+    const invalid = readOnlyQueryError(query, params);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
     try {
+      const maxRows = Math.min(Number(input.maxRows) || 100, MAX_QUERY_ROWS);
       const result = await this.prisma.$queryRawUnsafe(
-        input.query,
-        ...(input.params || [])
+        `SELECT * FROM (${query}) LIMIT ${maxRows}`,
+        ...params
       );
 
       return {
@@ -686,6 +954,72 @@ export class MCPServer {
     );
   }
 
+  /**
+   * Calls made on behalf of an agent need the tool to be open to the agent
+   * type and every permission it declares granted in AgentToolsRegistry
+   */
+  private checkPermissions(
+    tool: CopilotTool,
+    context?: ToolExecutionContext
+  ): void {
+    const error = context && this.permissionError(tool, context);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  private permissionError(
+    tool: CopilotTool,
+    context: ToolExecutionContext
+  ): string | undefined {
+    if (tool.localOnly && context.clientId) {
+      return `Tool ${tool.name} is not available to remote clients`;
+    }
+
+    const agentType = context.agentId;
+    if (!agentType) {
+      return undefined;
+    }
+    if (tool.agentTypes && !tool.agentTypes.includes(agentType)) {
+      return `Tool ${tool.name} not available for agent ${agentType}`;
+    }
+
+    for (const permission of tool.permissions) {
+      const validation = AgentToolsRegistry.validateToolUsage(
+        agentType,
+        tool.name,
+        permission.type
+      );
+      if (!validation.success) {
+        return validation.error.message;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Root the workspace tools work in: a remote client's project workspace,
+   * so it cannot reach the backend's own files, else the backend workspace
+   */
+  private async workspaceRootFor(
+    context?: ToolExecutionContext
+  ): Promise<string> {
+    if (!context?.clientId) {
+      return fs.realpath(process.cwd());
+    }
+    if (!context.projectId) {
+      throw new Error(REMOTE_PROJECT_REQUIRED);
+    }
+
+    const root = await this.commandSandbox.resolveWorkspaceRoot(
+      context.projectId
+    );
+    if (!root.success) {
+      throw new Error(root.error.message);
+    }
+    return root.data;
+  }
+
   /**
    * Validate tool input against schema
    */
@@ -701,4 +1035,52 @@ export class MCPServer {
   }
 }
 
+/**
+ * Real path of target resolved from root (a real path), or undefined when
+ * it does not exist or leaves root, e.g. through a symlink
+ */
+async function realPathInside(
+  root: string,
+  target: string
+): Promise<string | undefined> {
+  const resolved = await fs
+    .realpath(path.resolve(root, target))
+    .catch(() => undefined);
+  return resolved && (resolved === root || resolved.startsWith(root + path.sep))
+    ? resolved
+    : undefined;
+}
+
+/**
+ * Context of an authenticated remote client, or undefined for local
+ * (stdio or in-process) callers
+ */
+function clientContext(extra: RequestExtra): ToolExecutionContext | undefined {
+  const context = extra.authInfo?.extra?.context as
+    | ToolExecutionContext
+    | undefined;
+  return context && { ...context, sessionId: extra.sessionId };
+}
+
+/**
+ * Local callers see every resource; a remote client sees project resources
+ * only of its own project, and none without one
+ */
+function isResourceVisible(
+  uri: string,
+  client?: ToolExecutionContext
+): boolean {
+  const ref = parseResourceUri(uri);
+  if (!client || !ref || !('projectId' in ref)) {
+    return true;
+  }
+  return !!client.projectId && ref.projectId === client.projectId;
+}
+
+function assertResourceVisible(uri: string, client?: ToolExecutionContext) {
+  if (!isResourceVisible(uri, client)) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+  }
+}
+
 export default MCPServer;
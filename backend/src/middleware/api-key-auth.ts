@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { ADMIN_ROLE, MCPHttpSessions } from '../mcp/mcp-http';
+
+/**
+ * Middleware admitting only callers with an admin API key, configured like
+ * the MCP clients' keys (MCP_HTTP_CLIENTS with agent type `admin`)
+ */
+export function requireAdminApiKey(
+  sessions: Pick<MCPHttpSessions, 'authenticate'>
+) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const auth = sessions.authenticate(req.headers, ADMIN_ROLE);
+    if (!auth.success) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="admin"');
+      return res.status(401).json({
+        success: false,
+        error: auth.error.message,
+        code: auth.error.code,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    Object.assign(req, { auth: auth.data });
+    next();
+  };
+}
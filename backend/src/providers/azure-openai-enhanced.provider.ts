@@ -9,10 +9,19 @@ import {
   ModelInfo,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
   HealthStatus,
   ProviderConfig,
   Result,
 } from '../types/ai-provider.types';
+import { streamOpenAICompatible, toChatStreamEvents } from './streaming';
+import { parseRetryAfter } from './rate-limit';
+import {
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './tool-calling';
+import { toOpenAIResponseFormat } from './structured-output';
 
 export class AzureOpenAIProvider implements AIProvider {
   readonly id = 'azure-openai';
@@ -127,6 +136,87 @@ export class AzureOpenAIProvider implements AIProvider {
   }
 
   async chat(request: ChatRequest): Promise<Result<ChatResponse>> {
+    try {
+      const sent = await this.sendCompletion(request, false);
+      if (!sent.success) {
+        return sent;
+      }
+
+      const { response, model } = sent.data;
+      const data = await response.json();
+
+      return {
+        success: true,
+        data: {
+          content: data.choices[0].message.content || '',
+          model,
+          provider: this.id,
+          toolCalls: fromOpenAIToolCalls(data.choices[0].message),
+          usage: data.usage
+            ? {
+                promptTokens: data.usage.prompt_tokens,
+                completionTokens: data.usage.completion_tokens,
+                totalTokens: data.usage.total_tokens,
+                cost: this.calculateCost(data.usage, model),
+              }
+            : undefined,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'CHAT_REQUEST_ERROR',
+          message: 'Error making chat request to Azure OpenAI',
+          provider: this.id,
+          details: error,
+        },
+      };
+    }
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const sent = await this.sendCompletion(request, true);
+    if (!sent.success) {
+      yield { type: 'error', error: sent.error };
+      return;
+    }
+
+    const { response, model } = sent.data;
+    yield* toChatStreamEvents(
+      streamOpenAICompatible(response),
+      (content, usage) => ({
+        content,
+        model,
+        provider: this.id,
+        usage: usage
+          ? {
+              ...usage,
+              totalTokens: usage.promptTokens + usage.completionTokens,
+              cost: this.calculateCost(
+                {
+                  prompt_tokens: usage.promptTokens,
+                  completion_tokens: usage.completionTokens,
+                },
+                model
+              ),
+            }
+          : undefined,
+      }),
+      { provider: this.id, model }
+    );
+  }
+
+  /**
+   * POST a chat completion; failed requests are returned as errors so
+   * chat and chatStream only handle successful responses
+   */
+  private async sendCompletion(
+    request: ChatRequest,
+    stream: boolean
+  ): Promise<Result<{ response: Response; model: string }>> {
+    const model = request.model || 'gpt-4o';
+
     try {
       if (!this.initialized || !this.apiKey || !this.endpoint) {
         const initResult = await this.initialize({} as any);
@@ -135,7 +225,6 @@ export class AzureOpenAIProvider implements AIProvider {
         }
       }
 
-      const model = request.model || 'gpt-4o';
       const deploymentId = this.getDeploymentId(model);
 
       const url = `${this.endpoint}/openai/deployments/${deploymentId}/chat/completions?api-version=${this.apiVersion}`;
@@ -147,10 +236,13 @@ export class AzureOpenAIProvider implements AIProvider {
           'api-key': this.apiKey!,
         },
         body: JSON.stringify({
-          messages: request.messages,
+          messages: toOpenAIMessages(request.messages),
           temperature: request.temperature || 0.1,
           max_tokens: request.maxTokens || 2048,
-          stream: request.stream || false,
+          stream,
+          ...(stream && { stream_options: { include_usage: true } }),
+          ...(!stream && toOpenAITools(request)),
+          ...toOpenAIResponseFormat(request, true),
         }),
       });
 
@@ -164,28 +256,12 @@ export class AzureOpenAIProvider implements AIProvider {
             provider: this.id,
             model,
             details: errorData,
+            retryAfterMs: parseRetryAfter(response.headers),
           },
         };
       }
 
-      const data = await response.json();
-
-      return {
-        success: true,
-        data: {
-          content: data.choices[0].message.content,
-          model,
-          provider: this.id,
-          usage: data.usage
-            ? {
-                promptTokens: data.usage.prompt_tokens,
-                completionTokens: data.usage.completion_tokens,
-                totalTokens: data.usage.total_tokens,
-                cost: this.calculateCost(data.usage, model),
-              }
-            : undefined,
-        },
-      };
+      return { success: true, data: { response, model } };
     } catch (error) {
       return {
         success: false,
@@ -193,6 +269,7 @@ export class AzureOpenAIProvider implements AIProvider {
           code: 'CHAT_REQUEST_ERROR',
           message: 'Error making chat request to Azure OpenAI',
           provider: this.id,
+          model,
           details: error,
         },
       };
@@ -9,10 +9,18 @@ import {
   ModelInfo,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
   HealthStatus,
   ProviderConfig,
   Result,
 } from '../types/ai-provider.types';
+import { streamAnthropic, toChatStreamEvents } from './streaming';
+import { parseRetryAfter } from './rate-limit';
+import {
+  fromAnthropicContent,
+  toAnthropicMessages,
+  toAnthropicTools,
+} from './tool-calling';
 
 export class ClaudeProvider implements AIProvider {
   readonly id = 'anthropic-claude';
@@ -128,6 +136,88 @@ export class ClaudeProvider implements AIProvider {
   }
 
   async chat(request: ChatRequest): Promise<Result<ChatResponse>> {
+    try {
+      const sent = await this.sendMessages(request, false);
+      if (!sent.success) {
+        return sent;
+      }
+
+      const { response, model } = sent.data;
+      const data = await response.json();
+      const { text, toolCalls } = fromAnthropicContent(data.content);
+
+      return {
+        success: true,
+        data: {
+          content: text,
+          model,
+          provider: this.id,
+          toolCalls,
+          usage: data.usage
+            ? {
+                promptTokens: data.usage.input_tokens,
+                completionTokens: data.usage.output_tokens,
+                totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+                cost: this.calculateCost(data.usage, model),
+              }
+            : undefined,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'CHAT_REQUEST_ERROR',
+          message: 'Error making chat request to Claude',
+          provider: this.id,
+          details: error,
+        },
+      };
+    }
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const sent = await this.sendMessages(request, true);
+    if (!sent.success) {
+      yield { type: 'error', error: sent.error };
+      return;
+    }
+
+    const { response, model } = sent.data;
+    yield* toChatStreamEvents(
+      streamAnthropic(response),
+      (content, usage) => ({
+        content,
+        model,
+        provider: this.id,
+        usage: usage
+          ? {
+              ...usage,
+              totalTokens: usage.promptTokens + usage.completionTokens,
+              cost: this.calculateCost(
+                {
+                  input_tokens: usage.promptTokens,
+                  output_tokens: usage.completionTokens,
+                },
+                model
+              ),
+            }
+          : undefined,
+      }),
+      { provider: this.id, model }
+    );
+  }
+
+  /**
+   * POST to the Messages API; failed requests are returned as errors so
+   * chat and chatStream only handle successful responses
+   */
+  private async sendMessages(
+    request: ChatRequest,
+    stream: boolean
+  ): Promise<Result<{ response: Response; model: string }>> {
+    const model = request.model || 'claude-3-5-sonnet-20241022';
+
     try {
       if (!this.initialized || !this.apiKey) {
         const initResult = await this.initialize({} as any);
@@ -136,13 +226,8 @@ export class ClaudeProvider implements AIProvider {
         }
       }
 
-      const model = request.model || 'claude-3-5-sonnet-20241022';
-
       // Convert messages format for Claude API
-      const messages = request.messages.filter(m => m.role !== 'system');
-      const systemMessage = request.messages.find(
-        m => m.role === 'system'
-      )?.content;
+      const { system, messages } = toAnthropicMessages(request.messages);
 
       const response = await fetch(`${this.endpoint}/v1/messages`, {
         method: 'POST',
@@ -154,10 +239,11 @@ export class ClaudeProvider implements AIProvider {
         body: JSON.stringify({
           model,
           messages,
-          system: systemMessage || request.systemPrompt,
+          system: system || request.systemPrompt,
           max_tokens: request.maxTokens || 4096,
           temperature: request.temperature || 0.1,
-          stream: request.stream || false,
+          stream,
+          ...(!stream && toAnthropicTools(request)),
         }),
       });
 
@@ -171,28 +257,12 @@ export class ClaudeProvider implements AIProvider {
             provider: this.id,
             model,
             details: errorData,
+            retryAfterMs: parseRetryAfter(response.headers),
           },
         };
       }
 
-      const data = await response.json();
-
-      return {
-        success: true,
-        data: {
-          content: data.content[0].text,
-          model,
-          provider: this.id,
-          usage: data.usage
-            ? {
-                promptTokens: data.usage.input_tokens,
-                completionTokens: data.usage.output_tokens,
-                totalTokens: data.usage.input_tokens + data.usage.output_tokens,
-                cost: this.calculateCost(data.usage, model),
-              }
-            : undefined,
-        },
-      };
+      return { success: true, data: { response, model } };
     } catch (error) {
       return {
         success: false,
@@ -200,6 +270,7 @@ export class ClaudeProvider implements AIProvider {
           code: 'CHAT_REQUEST_ERROR',
           message: 'Error making chat request to Claude',
           provider: this.id,
+          model,
           details: error,
         },
       };
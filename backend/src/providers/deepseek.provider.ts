@@ -9,10 +9,19 @@ import {
   ModelInfo,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
   HealthStatus,
   ProviderConfig,
   Result,
 } from '../types/ai-provider.types';
+import { streamOpenAICompatible, toChatStreamEvents } from './streaming';
+import { parseRetryAfter } from './rate-limit';
+import {
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './tool-calling';
+import { toOpenAIResponseFormat } from './structured-output';
 
 export class DeepSeekProvider implements AIProvider {
   readonly id = 'deepseek';
@@ -107,6 +116,87 @@ export class DeepSeekProvider implements AIProvider {
   }
 
   async chat(request: ChatRequest): Promise<Result<ChatResponse>> {
+    try {
+      const sent = await this.sendCompletion(request, false);
+      if (!sent.success) {
+        return sent;
+      }
+
+      const { response, model } = sent.data;
+      const data = await response.json();
+
+      return {
+        success: true,
+        data: {
+          content: data.choices[0].message.content || '',
+          model,
+          provider: this.id,
+          toolCalls: fromOpenAIToolCalls(data.choices[0].message),
+          usage: data.usage
+            ? {
+                promptTokens: data.usage.prompt_tokens,
+                completionTokens: data.usage.completion_tokens,
+                totalTokens: data.usage.total_tokens,
+                cost: this.calculateCost(data.usage, model),
+              }
+            : undefined,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'CHAT_REQUEST_ERROR',
+          message: 'Error making chat request to DeepSeek',
+          provider: this.id,
+          details: error,
+        },
+      };
+    }
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const sent = await this.sendCompletion(request, true);
+    if (!sent.success) {
+      yield { type: 'error', error: sent.error };
+      return;
+    }
+
+    const { response, model } = sent.data;
+    yield* toChatStreamEvents(
+      streamOpenAICompatible(response),
+      (content, usage) => ({
+        content,
+        model,
+        provider: this.id,
+        usage: usage
+          ? {
+              ...usage,
+              totalTokens: usage.promptTokens + usage.completionTokens,
+              cost: this.calculateCost(
+                {
+                  prompt_tokens: usage.promptTokens,
+                  completion_tokens: usage.completionTokens,
+                },
+                model
+              ),
+            }
+          : undefined,
+      }),
+      { provider: this.id, model }
+    );
+  }
+
+  /**
+   * POST a chat completion; failed requests are returned as errors so
+   * chat and chatStream only handle successful responses
+   */
+  private async sendCompletion(
+    request: ChatRequest,
+    stream: boolean
+  ): Promise<Result<{ response: Response; model: string }>> {
+    const model = request.model || 'deepseek-coder-v3';
+
     try {
       if (!this.initialized || !this.apiKey) {
         const initResult = await this.initialize({} as any);
@@ -115,8 +205,6 @@ export class DeepSeekProvider implements AIProvider {
         }
       }
 
-      const model = request.model || 'deepseek-coder-v3';
-
       const response = await fetch(`${this.endpoint}/v1/chat/completions`, {
         method: 'POST',
         headers: {
@@ -125,10 +213,13 @@ export class DeepSeekProvider implements AIProvider {
         },
         body: JSON.stringify({
           model,
-          messages: request.messages,
+          messages: toOpenAIMessages(request.messages),
           temperature: request.temperature || 0.1,
           max_tokens: request.maxTokens || 2048,
-          stream: request.stream || false,
+          stream,
+          ...(stream && { stream_options: { include_usage: true } }),
+          ...(!stream && toOpenAITools(request)),
+          ...toOpenAIResponseFormat(request),
         }),
       });
 
@@ -142,28 +233,12 @@ export class DeepSeekProvider implements AIProvider {
             provider: this.id,
             model,
             details: errorData,
+            retryAfterMs: parseRetryAfter(response.headers),
           },
         };
       }
 
-      const data = await response.json();
-
-      return {
-        success: true,
-        data: {
-          content: data.choices[0].message.content,
-          model,
-          provider: this.id,
-          usage: data.usage
-            ? {
-                promptTokens: data.usage.prompt_tokens,
-                completionTokens: data.usage.completion_tokens,
-                totalTokens: data.usage.total_tokens,
-                cost: this.calculateCost(data.usage, model),
-              }
-            : undefined,
-        },
-      };
+      return { success: true, data: { response, model } };
     } catch (error) {
       return {
         success: false,
@@ -171,6 +246,7 @@ export class DeepSeekProvider implements AIProvider {
           code: 'CHAT_REQUEST_ERROR',
           message: 'Error making chat request to DeepSeek',
           provider: this.id,
+          model,
           details: error,
         },
       };
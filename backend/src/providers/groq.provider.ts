@@ -9,11 +9,20 @@ import {
   ModelInfo,
   ChatRequest,
   ChatResponse,
+  ChatStreamEvent,
   HealthStatus,
   ProviderConfig,
   Result,
   ServiceError,
 } from '../types/ai-provider.types';
+import { streamOpenAICompatible, toChatStreamEvents } from './streaming';
+import { parseRetryAfter } from './rate-limit';
+import {
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './tool-calling';
+import { toOpenAIResponseFormat } from './structured-output';
 
 export class GroqProvider implements AIProvider {
   readonly id = 'groq';
@@ -110,19 +119,95 @@ export class GroqProvider implements AIProvider {
 
   async chat(request: ChatRequest): Promise<Result<ChatResponse>> {
     try {
-      if (!this.apiKey) {
+      const sent = await this.sendCompletion(request, false);
+      if (!sent.success) {
+        return sent;
+      }
+
+      const { response, model } = sent.data;
+      const data = await response.json();
+
+      const message = data.choices?.[0]?.message;
+      if (!message?.content && !message?.tool_calls?.length) {
         return {
           success: false,
           error: {
-            code: 'NOT_INITIALIZED',
-            message: 'Groq provider not initialized',
+            code: 'EMPTY_RESPONSE',
+            message: 'Groq returned empty response',
             provider: this.id,
           },
         };
       }
 
-      const model = request.model || 'llama-3.1-70b-versatile';
+      const chatResponse: ChatResponse = {
+        content: message.content || '',
+        model: data.model || model,
+        provider: this.id,
+        toolCalls: fromOpenAIToolCalls(message),
+        usage: {
+          promptTokens: data.usage?.prompt_tokens || 0,
+          completionTokens: data.usage?.completion_tokens || 0,
+          totalTokens: data.usage?.total_tokens || 0,
+        },
+      };
+
+      return { success: true, data: chatResponse };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'CHAT_FAILED',
+          message: `Groq chat failed: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+          provider: this.id,
+        },
+      };
+    }
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const sent = await this.sendCompletion(request, true);
+    if (!sent.success) {
+      yield { type: 'error', error: sent.error };
+      return;
+    }
+
+    const { response, model } = sent.data;
+    yield* toChatStreamEvents(
+      streamOpenAICompatible(response),
+      (content, usage) => ({
+        content,
+        model,
+        provider: this.id,
+        usage: {
+          promptTokens: usage?.promptTokens || 0,
+          completionTokens: usage?.completionTokens || 0,
+          totalTokens: usage ? usage.promptTokens + usage.completionTokens : 0,
+        },
+      }),
+      { provider: this.id, model }
+    );
+  }
+
+  private async sendCompletion(
+    request: ChatRequest,
+    stream: boolean
+  ): Promise<Result<{ response: Response; model: string }>> {
+    if (!this.apiKey) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_INITIALIZED',
+          message: 'Groq provider not initialized',
+          provider: this.id,
+        },
+      };
+    }
+
+    const model = request.model || 'llama-3.1-70b-versatile';
 
+    try {
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
         headers: {
@@ -131,10 +216,13 @@ export class GroqProvider implements AIProvider {
         },
         body: JSON.stringify({
           model,
-          messages: request.messages,
+          messages: toOpenAIMessages(request.messages),
           temperature: request.temperature || 0.7,
           max_tokens: request.maxTokens || 4096,
-          stream: false,
+          stream,
+          ...(stream && { stream_options: { include_usage: true } }),
+          ...(!stream && toOpenAITools(request)),
+          ...toOpenAIResponseFormat(request),
         }),
       });
 
@@ -146,35 +234,12 @@ export class GroqProvider implements AIProvider {
             code: `HTTP_${response.status}`,
             message: `Groq API error: ${response.statusText} - ${errorText}`,
             provider: this.id,
+            retryAfterMs: parseRetryAfter(response.headers),
           },
         };
       }
 
-      const data = await response.json();
-
-      if (!data.choices || !data.choices[0]?.message?.content) {
-        return {
-          success: false,
-          error: {
-            code: 'EMPTY_RESPONSE',
-            message: 'Groq returned empty response',
-            provider: this.id,
-          },
-        };
-      }
-
-      const chatResponse: ChatResponse = {
-        content: data.choices[0].message.content,
-        model: data.model || model,
-        provider: this.id,
-        usage: {
-          promptTokens: data.usage?.prompt_tokens || 0,
-          completionTokens: data.usage?.completion_tokens || 0,
-          totalTokens: data.usage?.total_tokens || 0,
-        },
-      };
-
-      return { success: true, data: chatResponse };
+      return { success: true, data: { response, model } };
     } catch (error) {
       return {
         success: false,
@@ -0,0 +1,468 @@
+/**
+ * Local AI Provider
+ * Self-hosted OpenAI-compatible endpoints (Ollama, llama.cpp server,
+ * vLLM) so prompts and code never leave the machine or network
+ */
+
+import {
+  AIProvider,
+  ProviderType,
+  ModelInfo,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  HealthStatus,
+  ProviderConfig,
+  Result,
+} from '../types/ai-provider.types';
+import {
+  IMLProvider,
+  GenerationOptions,
+  EmbeddingOptions,
+  MLError,
+  GenerationResult,
+  EmbeddingResult,
+  AnalysisResult,
+  Result as MLResult,
+} from './ml-provider.interface';
+import { streamOpenAICompatible, toChatStreamEvents } from './streaming';
+import {
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './tool-calling';
+import { toOpenAIResponseFormat } from './structured-output';
+
+export interface LocalProviderOptions {
+  /** Base URL of the OpenAI-compatible API, including /v1 */
+  endpoint?: string;
+  /** Only needed when the server sits behind an authenticating proxy */
+  apiKey?: string;
+  model?: string;
+  embeddingModel?: string;
+  timeoutMs?: number;
+  contextWindow?: number;
+}
+
+/** Ollama's OpenAI-compatible API on its default port */
+const DEFAULT_ENDPOINT = 'http://localhost:11434/v1';
+
+export class LocalProvider implements AIProvider, IMLProvider {
+  readonly id = 'local';
+  readonly name = 'Local LLM';
+  readonly version = '1.0.0';
+  readonly type: ProviderType = 'local';
+
+  /** Filled from the server's model list on initialize */
+  supportedModels: ModelInfo[] = [];
+
+  private endpoint: string;
+  private apiKey?: string;
+  private model?: string;
+  private embeddingModel?: string;
+  private timeoutMs: number;
+  private contextWindow: number;
+
+  constructor(options: LocalProviderOptions = {}) {
+    this.endpoint = (
+      options.endpoint ||
+      process.env.LOCAL_LLM_ENDPOINT ||
+      DEFAULT_ENDPOINT
+    ).replace(/\/+$/, '');
+    this.apiKey = options.apiKey || process.env.LOCAL_LLM_API_KEY;
+    this.model = options.model || process.env.LOCAL_LLM_MODEL;
+    this.embeddingModel =
+      options.embeddingModel || process.env.LOCAL_LLM_EMBEDDING_MODEL;
+    this.timeoutMs = options.timeoutMs || 120000;
+    this.contextWindow = options.contextWindow || 8192;
+  }
+
+  async initialize(config: ProviderConfig): Promise<Result<boolean>> {
+    if (config.endpoint) this.endpoint = config.endpoint.replace(/\/+$/, '');
+    if (config.apiKey) this.apiKey = config.apiKey;
+    if (config.model) this.model = config.model;
+    if (config.timeout) this.timeoutMs = config.timeout;
+
+    const models = await this.discoverModels();
+    if (!models.success) {
+      return {
+        success: false,
+        error: {
+          code: 'INITIALIZATION_FAILED',
+          message: `Local model server at ${this.endpoint} is not reachable`,
+          provider: this.id,
+          details: models.error,
+        },
+      };
+    }
+
+    this.supportedModels = models.data
+      .filter(id => !isEmbeddingModel(id))
+      .map(id => this.toModelInfo(id));
+    return { success: true, data: true };
+  }
+
+  async chat(request: ChatRequest): Promise<Result<ChatResponse>> {
+    const sent = await this.sendCompletion(request, false);
+    if (!sent.success) {
+      return sent;
+    }
+
+    try {
+      const { response, model } = sent.data;
+      const data = await response.json();
+
+      return {
+        success: true,
+        data: {
+          content: data.choices[0].message.content || '',
+          model,
+          provider: this.id,
+          toolCalls: fromOpenAIToolCalls(data.choices[0].message),
+          usage: data.usage
+            ? {
+                promptTokens: data.usage.prompt_tokens,
+                completionTokens: data.usage.completion_tokens,
+                totalTokens: data.usage.total_tokens,
+                cost: 0,
+              }
+            : undefined,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'CHAT_REQUEST_ERROR',
+          message: 'Invalid chat response from local model server',
+          provider: this.id,
+          model: sent.data.model,
+          details: error,
+        },
+      };
+    }
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const sent = await this.sendCompletion(request, true);
+    if (!sent.success) {
+      yield { type: 'error', error: sent.error };
+      return;
+    }
+
+    const { response, model } = sent.data;
+    yield* toChatStreamEvents(
+      streamOpenAICompatible(response),
+      (content, usage) => ({
+        content,
+        model,
+        provider: this.id,
+        usage: usage
+          ? {
+              ...usage,
+              totalTokens: usage.promptTokens + usage.completionTokens,
+              cost: 0,
+            }
+          : undefined,
+      }),
+      { provider: this.id, model }
+    );
+  }
+
+  async checkHealth(): Promise<Result<HealthStatus>> {
+    const startTime = Date.now();
+    const models = await this.discoverModels();
+    const latency = Date.now() - startTime;
+
+    return {
+      success: true,
+      data: {
+        status: models.success ? 'healthy' : 'unhealthy',
+        provider: this.id,
+        details: models.success
+          ? { latency }
+          : { latency, lastError: models.error.message },
+      },
+    };
+  }
+
+  async getAvailableModels(): Promise<Result<ModelInfo[]>> {
+    return { success: true, data: [...this.supportedModels] };
+  }
+
+  /**
+   * IMLProvider: the server answers its model list
+   */
+  async isAvailable(): Promise<boolean> {
+    return (await this.discoverModels()).success;
+  }
+
+  async generateText(
+    prompt: string,
+    options: GenerationOptions = {}
+  ): Promise<MLResult<GenerationResult, MLError>> {
+    const result = await this.chat({
+      messages: [{ role: 'user', content: prompt }],
+      model: options.model,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+    });
+    if (!result.success) {
+      return { success: false, error: toMLError(result.error) };
+    }
+
+    return {
+      success: true,
+      data: {
+        text: result.data.content,
+        usage: result.data.usage,
+        metadata: { model: result.data.model },
+      },
+    };
+  }
+
+  async generateEmbedding(
+    text: string,
+    options: EmbeddingOptions = {}
+  ): Promise<MLResult<EmbeddingResult, MLError>> {
+    const model = options.model || this.embeddingModel || this.defaultModel();
+    const response = await this.send('/embeddings', {
+      method: 'POST',
+      body: JSON.stringify({
+        model,
+        input: text,
+        ...(options.dimensions && { dimensions: options.dimensions }),
+      }),
+    });
+    if (!response.success) {
+      return { success: false, error: toMLError(response.error) };
+    }
+
+    const data = await response.data.json().catch(() => ({}));
+    const embedding: number[] | undefined = data.data?.[0]?.embedding;
+    if (!embedding) {
+      return {
+        success: false,
+        error: {
+          code: 'EMPTY_EMBEDDING',
+          message: `Local model ${model} returned no embedding`,
+          retryable: false,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        embedding,
+        usage: data.usage ? { tokens: data.usage.total_tokens } : undefined,
+        metadata: { model },
+      },
+    };
+  }
+
+  async analyzeDocument(
+    content: string,
+    context: Record<string, any> = {}
+  ): Promise<MLResult<AnalysisResult, MLError>> {
+    const textResult = await this.generateText(
+      `Analyze this document and respond with valid JSON only, with the fields summary (string), complexity (1-10), suggestions (string array) and confidence (0-1).
+
+DOCUMENT CONTENT:
+${content}
+
+CONTEXT:
+${JSON.stringify(context, null, 2)}`,
+      { temperature: 0.3, maxTokens: 1500 }
+    );
+    if (!textResult.success) {
+      return textResult;
+    }
+
+    try {
+      const analysis = JSON.parse(textResult.data.text);
+      return {
+        success: true,
+        data: {
+          summary: analysis.summary || 'No summary available',
+          complexity: analysis.complexity || 5,
+          suggestions: analysis.suggestions || [],
+          confidence: analysis.confidence || 0.5,
+          metadata: { usage: textResult.data.usage },
+        },
+      };
+    } catch (parseError) {
+      return {
+        success: false,
+        error: {
+          code: 'PARSE_ERROR',
+          message: 'Failed to parse analysis response',
+          details: { parseError, rawResponse: textResult.data.text },
+          retryable: true,
+        },
+      };
+    }
+  }
+
+  async healthCheck(): Promise<
+    MLResult<
+      { status: 'healthy' | 'degraded' | 'unhealthy'; details?: string },
+      MLError
+    >
+  > {
+    const models = await this.discoverModels();
+    if (!models.success) {
+      return { success: false, error: toMLError(models.error) };
+    }
+
+    return {
+      success: true,
+      data: {
+        status: models.data.length > 0 ? 'healthy' : 'degraded',
+        details: `${models.data.length} models at ${this.endpoint}`,
+      },
+    };
+  }
+
+  async getSupportedModels(): Promise<MLResult<string[], MLError>> {
+    const models = await this.discoverModels();
+    return models.success
+      ? models
+      : { success: false, error: toMLError(models.error) };
+  }
+
+  /**
+   * Model ids served by the endpoint (GET /models)
+   */
+  private async discoverModels(): Promise<Result<string[]>> {
+    const response = await this.send('/models', { method: 'GET' });
+    if (!response.success) {
+      return response;
+    }
+
+    try {
+      const data = await response.data.json();
+      const ids: string[] = (data.data || []).map(
+        (model: { id: string }) => model.id
+      );
+      return { success: true, data: ids.sort() };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'MODELS_RETRIEVAL_ERROR',
+          message: `Invalid model list from ${this.endpoint}`,
+          provider: this.id,
+          details: error,
+        },
+      };
+    }
+  }
+
+  private async sendCompletion(
+    request: ChatRequest,
+    stream: boolean
+  ): Promise<Result<{ response: Response; model: string }>> {
+    const model = request.model || this.defaultModel();
+    const response = await this.send('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({
+        model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? 0.2,
+        max_tokens: request.maxTokens || 2048,
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+        ...(!stream && toOpenAITools(request)),
+        ...toOpenAIResponseFormat(request),
+      }),
+    });
+
+    return response.success
+      ? { success: true, data: { response: response.data, model } }
+      : { success: false, error: { ...response.error, model } };
+  }
+
+  /**
+   * Request against the endpoint; connection failures, timeouts and
+   * non-2xx responses are returned as errors
+   */
+  private async send(
+    path: string,
+    init: { method: string; body?: string }
+  ): Promise<Result<Response>> {
+    try {
+      const response = await fetch(`${this.endpoint}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: {
+            code: `HTTP_${response.status}`,
+            message: `Local model server returned ${response.status} for ${path}`,
+            provider: this.id,
+            details: await response.text(),
+          },
+        };
+      }
+
+      return { success: true, data: response };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'CONNECTION_ERROR',
+          message: `Cannot reach local model server at ${this.endpoint}`,
+          provider: this.id,
+          details: error,
+        },
+      };
+    }
+  }
+
+  private defaultModel(): string {
+    return this.model || this.supportedModels[0]?.id || 'llama3.1';
+  }
+
+  private toModelInfo(id: string): ModelInfo {
+    const coder = /code|coder|starcoder|deepseek/i.test(id);
+    return {
+      id,
+      name: id,
+      provider: this.id,
+      capabilities: coder
+        ? ['chat', 'code-completion', 'code-review', 'analysis']
+        : ['chat', 'text-generation', 'analysis'],
+      contextWindow: this.contextWindow,
+      maxTokens: 4096,
+      costPer1kTokens: { input: 0, output: 0 },
+      specializations: coder
+        ? ['backend-development', 'frontend-development', 'code-review']
+        : ['general-purpose'],
+    };
+  }
+}
+
+function isEmbeddingModel(id: string): boolean {
+  return /embed/i.test(id);
+}
+
+function toMLError(error: {
+  code: string;
+  message: string;
+  details?: unknown;
+}): MLError {
+  return {
+    code: error.code,
+    message: error.message,
+    details: error.details,
+    retryable: error.code === 'CONNECTION_ERROR' || /^HTTP_5/.test(error.code),
+  };
+}
@@ -11,6 +11,11 @@ import {
   Result,
 } from './ml-provider.interface';
 import { OpenAIProvider } from './openai.provider';
+import { LocalProvider } from './local.provider';
+import {
+  RecordReplayMLProvider,
+  recordReplayOptionsFromEnv,
+} from './record-replay.provider';
 
 // NO MORE MOCK PROVIDERS - REMOVED COMPLETELY!
 
@@ -66,7 +71,8 @@ export class MLProviderFactory implements IMLProviderFactory {
           throw new Error('Anthropic provider not implemented yet');
 
         case 'local':
-          throw new Error('Local provider not implemented yet');
+          provider = new LocalProvider(config);
+          break;
 
         case 'azure':
           throw new Error('Azure OpenAI provider not implemented yet');
@@ -85,6 +91,12 @@ export class MLProviderFactory implements IMLProviderFactory {
           };
       }
 
+      // Deterministic test runs: serve recorded responses (AI_REPLAY_MODE)
+      const replay = recordReplayOptionsFromEnv();
+      if (replay) {
+        provider = new RecordReplayMLProvider(provider, replay);
+      }
+
       // Validate provider availability
       const isAvailable = await provider.isAvailable();
       if (!isAvailable) {
@@ -208,6 +220,16 @@ export const getDefaultProviderConfigs = (): MLProviderConfig[] => {
       retryAttempts: 2,
       timeoutMs: 20000,
     },
+    {
+      name: 'local',
+      type: 'local',
+      endpoint: process.env.LOCAL_LLM_ENDPOINT,
+      model: process.env.LOCAL_LLM_MODEL,
+      enabled: !!process.env.LOCAL_LLM_ENDPOINT,
+      priority: 3,
+      retryAttempts: 1,
+      timeoutMs: 120000,
+    },
     // NO MORE MOCK FALLBACKS - REMOVED!
   ];
 };
@@ -0,0 +1,32 @@
+/**
+ * Provider Rate Limit Helpers
+ * Reading the throttling hints that APIs send with 429 responses
+ */
+
+/**
+ * Delay requested by a throttled response, in ms. Supports the standard
+ * Retry-After header (seconds or HTTP date) and the retry-after-ms header
+ * sent by OpenAI-compatible APIs; undefined when no usable hint is present.
+ */
+export function parseRetryAfter(
+  headers: Headers,
+  now = Date.now()
+): number | undefined {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds > 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) || date <= now ? undefined : date - now;
+}
@@ -0,0 +1,452 @@
+/**
+ * Record/Replay AI Provider
+ * Captures real request/response pairs of a provider to fixture files
+ * keyed by a hash of the normalized request, and replays them without
+ * network access so agents and workflows can be tested deterministically;
+ * chat providers and the ML providers agents use are both covered
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  AIProvider,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  HealthStatus,
+  ModelInfo,
+  ProviderConfig,
+  Result,
+} from '../types/ai-provider.types';
+import {
+  AnalysisResult,
+  EmbeddingOptions,
+  EmbeddingResult,
+  GenerationOptions,
+  GenerationResult,
+  IMLProvider,
+  MLError,
+  Result as MLResult,
+} from './ml-provider.interface';
+
+/**
+ * record - always call the real provider and (over)write the fixture
+ * replay - serve recorded fixtures, record the ones that are missing
+ * strict - serve recorded fixtures only; unrecorded requests fail
+ */
+export type ReplayMode = 'record' | 'replay' | 'strict';
+
+export interface RecordReplayOptions {
+  mode: ReplayMode;
+  /** Fixture root; files live at <dir>/<provider>/<key>.json */
+  fixturesDir: string;
+}
+
+export interface ReplayFixture {
+  key: string;
+  provider: string;
+  request: NormalizedRequest;
+  response: ChatResponse;
+  recordedAt: string;
+}
+
+export interface MLReplayFixture {
+  key: string;
+  provider: string;
+  request: { model?: string; prompt: string };
+  response: GenerationResult;
+  recordedAt: string;
+}
+
+export interface NormalizedRequest {
+  model?: string;
+  systemPrompt?: string;
+  messages: Array<Pick<ChatMessage, 'role' | 'content' | 'toolCallId'>>;
+  tools?: string[];
+  toolChoice?: ChatRequest['toolChoice'];
+}
+
+/** Repository-level tests/fixtures/ai, from src/ and dist/ alike */
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, '../../../tests/fixtures/ai');
+
+const REPLAY_MODES: ReplayMode[] = ['record', 'replay', 'strict'];
+
+export class RecordReplayProvider implements AIProvider {
+  private liveInitialized = false;
+  private liveConfig?: ProviderConfig;
+
+  constructor(
+    private readonly provider: AIProvider,
+    private readonly options: RecordReplayOptions
+  ) {}
+
+  get id() {
+    return this.provider.id;
+  }
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get type() {
+    return this.provider.type;
+  }
+
+  get supportedModels() {
+    return this.provider.supportedModels;
+  }
+
+  /**
+   * Replay modes work without credentials; the real provider is only
+   * initialized once a request actually has to reach it
+   */
+  async initialize(config: ProviderConfig): Promise<Result<boolean>> {
+    this.liveConfig = config;
+    return this.options.mode === 'record'
+      ? this.initializeLive()
+      : { success: true, data: true };
+  }
+
+  async chat(request: ChatRequest): Promise<Result<ChatResponse>> {
+    const key = fixtureKey(this.id, request);
+    const replayed = await this.replay(key, request);
+    if (replayed) {
+      return replayed;
+    }
+
+    const live = await this.initializeLive();
+    if (!live.success) {
+      return live;
+    }
+
+    const result = await this.provider.chat(request);
+    if (result.success) {
+      await this.record(key, request, result.data);
+    }
+    return result;
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const key = fixtureKey(this.id, request);
+    const replayed = await this.replay(key, request);
+    if (replayed) {
+      yield* replayedEvents(replayed);
+      return;
+    }
+
+    const live = await this.initializeLive();
+    if (!live.success) {
+      yield { type: 'error', error: live.error };
+      return;
+    }
+
+    for await (const event of this.provider.chatStream(request)) {
+      if (event.type === 'done') {
+        await this.record(key, request, event.response);
+      }
+      yield event;
+    }
+  }
+
+  async checkHealth(): Promise<Result<HealthStatus>> {
+    if (this.options.mode === 'record') {
+      return this.provider.checkHealth();
+    }
+    return {
+      success: true,
+      data: {
+        status: 'healthy',
+        provider: this.id,
+        details: { latency: 0 },
+      },
+    };
+  }
+
+  async getAvailableModels(): Promise<Result<ModelInfo[]>> {
+    if (this.options.mode === 'record') {
+      return this.provider.getAvailableModels();
+    }
+    return { success: true, data: [...this.provider.supportedModels] };
+  }
+
+  /**
+   * Recorded response for the request, a strict-mode miss as an error,
+   * or undefined when the real provider has to be called
+   */
+  private async replay(
+    key: string,
+    request: ChatRequest
+  ): Promise<Result<ChatResponse> | undefined> {
+    if (this.options.mode === 'record') {
+      return undefined;
+    }
+
+    const fixture = await this.readFixture(key);
+    if (fixture) {
+      return { success: true, data: fixture.response };
+    }
+    if (this.options.mode === 'strict') {
+      return {
+        success: false,
+        error: {
+          code: 'REPLAY_FIXTURE_MISSING',
+          message: `No recorded response for ${this.id} request ${key}; record it with AI_REPLAY_MODE=record`,
+          provider: this.id,
+          model: request.model,
+          details: { key, request: normalizeRequest(request) },
+        },
+      };
+    }
+    return undefined;
+  }
+
+  private async record(
+    key: string,
+    request: ChatRequest,
+    response: ChatResponse
+  ): Promise<void> {
+    await writeFixture(this.options.fixturesDir, {
+      key,
+      provider: this.id,
+      request: normalizeRequest(request),
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+  }
+
+  private readFixture(key: string): Promise<ReplayFixture | undefined> {
+    return readFixture(this.options.fixturesDir, this.id, key);
+  }
+
+  private async initializeLive(): Promise<Result<boolean>> {
+    if (this.liveInitialized) {
+      return { success: true, data: true };
+    }
+
+    const result = await this.provider.initialize(
+      this.liveConfig || ({} as ProviderConfig)
+    );
+    this.liveInitialized = result.success;
+    return result;
+  }
+}
+
+/**
+ * Record/replay for the ML providers agents are created with; only text
+ * generation is recorded, the other calls go to the real provider
+ */
+export class RecordReplayMLProvider implements IMLProvider {
+  constructor(
+    private readonly provider: IMLProvider,
+    private readonly options: RecordReplayOptions
+  ) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get version() {
+    return this.provider.version;
+  }
+
+  /**
+   * Replay modes do not need a reachable provider
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.options.mode !== 'record' || this.provider.isAvailable();
+  }
+
+  async generateText(
+    prompt: string,
+    options?: GenerationOptions
+  ): Promise<MLResult<GenerationResult, MLError>> {
+    const key = mlFixtureKey(this.name, prompt, options?.model);
+
+    if (this.options.mode !== 'record') {
+      const fixture = await readFixture<MLReplayFixture>(
+        this.options.fixturesDir,
+        this.name,
+        key
+      );
+      if (fixture) {
+        return { success: true, data: fixture.response };
+      }
+      if (this.options.mode === 'strict') {
+        return {
+          success: false,
+          error: {
+            code: 'REPLAY_FIXTURE_MISSING',
+            message: `No recorded response for ${this.name} prompt ${key}; record it with AI_REPLAY_MODE=record`,
+            details: { key, model: options?.model },
+          },
+        };
+      }
+    }
+
+    const result = await this.provider.generateText(prompt, options);
+    if (result.success) {
+      await writeFixture(this.options.fixturesDir, {
+        key,
+        provider: this.name,
+        request: { model: options?.model, prompt: normalizeText(prompt) },
+        response: result.data,
+        recordedAt: new Date().toISOString(),
+      });
+    }
+    return result;
+  }
+
+  generateEmbedding(
+    text: string,
+    options?: EmbeddingOptions
+  ): Promise<MLResult<EmbeddingResult, MLError>> {
+    return this.provider.generateEmbedding(text, options);
+  }
+
+  analyzeDocument(
+    content: string,
+    context?: Record<string, any>
+  ): Promise<MLResult<AnalysisResult, MLError>> {
+    return this.provider.analyzeDocument(content, context);
+  }
+
+  healthCheck() {
+    return this.options.mode === 'record'
+      ? this.provider.healthCheck()
+      : Promise.resolve({
+          success: true as const,
+          data: { status: 'healthy' as const },
+        });
+  }
+
+  getSupportedModels(): Promise<MLResult<string[], MLError>> {
+    return this.provider.getSupportedModels();
+  }
+}
+
+/**
+ * Record/replay settings from AI_REPLAY_MODE and AI_REPLAY_FIXTURES, or
+ * undefined when providers should be used directly
+ */
+export function recordReplayOptionsFromEnv(): RecordReplayOptions | undefined {
+  const mode = process.env.AI_REPLAY_MODE as ReplayMode | undefined;
+  if (!mode || !REPLAY_MODES.includes(mode)) {
+    return undefined;
+  }
+
+  return {
+    mode,
+    fixturesDir: process.env.AI_REPLAY_FIXTURES
+      ? path.resolve(process.env.AI_REPLAY_FIXTURES)
+      : DEFAULT_FIXTURES_DIR,
+  };
+}
+
+/**
+ * Stable fixture key: the same prompt gives the same key regardless of
+ * whitespace, timestamps, ids or per-call settings like maxTokens
+ */
+export function fixtureKey(providerId: string, request: ChatRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ providerId, ...normalizeRequest(request) }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Fixture key of an ML provider prompt, normalized like chat requests
+ */
+export function mlFixtureKey(
+  providerName: string,
+  prompt: string,
+  model?: string
+): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({ providerName, model, prompt: normalizeText(prompt) })
+    )
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * The parts of a request that decide the response, with volatile text
+ * (whitespace, timestamps, ids) normalized
+ */
+export function normalizeRequest(request: ChatRequest): NormalizedRequest {
+  return {
+    model: request.model,
+    systemPrompt: request.systemPrompt
+      ? normalizeText(request.systemPrompt)
+      : undefined,
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: normalizeText(message.content),
+      toolCallId: message.toolCallId,
+    })),
+    tools: request.tools?.map(tool => tool.name).sort(),
+    toolChoice: request.toolChoice,
+  };
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(
+      /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?/g,
+      '<timestamp>'
+    )
+    .replace(
+      /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+      '<uuid>'
+    )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+async function* replayedEvents(
+  result: Result<ChatResponse>
+): AsyncGenerator<ChatStreamEvent> {
+  if (!result.success) {
+    yield { type: 'error', error: result.error };
+    return;
+  }
+  if (result.data.content) {
+    yield { type: 'delta', content: result.data.content };
+  }
+  yield { type: 'done', response: result.data };
+}
+
+function fixturePath(fixturesDir: string, provider: string, key: string) {
+  return path.join(fixturesDir, provider, `${key}.json`);
+}
+
+async function readFixture<T = ReplayFixture>(
+  fixturesDir: string,
+  provider: string,
+  key: string
+): Promise<T | undefined> {
+  try {
+    const content = await fs.readFile(
+      fixturePath(fixturesDir, provider, key),
+      'utf-8'
+    );
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeFixture(
+  fixturesDir: string,
+  fixture: ReplayFixture | MLReplayFixture
+): Promise<void> {
+  const file = fixturePath(fixturesDir, fixture.provider, fixture.key);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8');
+  } catch (error) {
+    console.warn(`⚠️ Could not record AI fixture ${fixture.key}:`, error);
+  }
+}
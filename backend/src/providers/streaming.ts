@@ -0,0 +1,176 @@
+/**
+ * Provider Streaming Helpers
+ * Server-sent event parsing for the streaming chat APIs and conversion of
+ * the parsed chunks into ChatStreamEvents
+ */
+
+import { ChatResponse, ChatStreamEvent } from '../types/ai-provider.types';
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+export interface StreamUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface StreamChunk {
+  content?: string;
+  usage?: Partial<StreamUsage>;
+}
+
+/**
+ * Parse a text/event-stream body into events; comments and keep-alive
+ * lines are skipped and multi-line data fields are joined. A consumer that
+ * stops early cancels the body so the upstream response is not left open
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+  let finished = false;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = undefined;
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) break;
+    }
+
+    finished = true;
+    if (data.length > 0) yield { event, data: data.join('\n') };
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Chunks of an OpenAI-compatible chat completion stream (OpenAI, Azure
+ * OpenAI, DeepSeek, Groq); the stream ends with a [DONE] sentinel
+ */
+export async function* streamOpenAICompatible(
+  response: Response
+): AsyncGenerator<StreamChunk> {
+  for await (const { data } of readServerSentEvents(response.body!)) {
+    if (data === '[DONE]') return;
+
+    const payload = JSON.parse(data);
+    yield {
+      content: payload.choices?.[0]?.delta?.content || undefined,
+      usage: payload.usage
+        ? {
+            promptTokens: payload.usage.prompt_tokens,
+            completionTokens: payload.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Chunks of an Anthropic Messages stream; input tokens arrive with
+ * message_start and output tokens with message_delta
+ */
+export async function* streamAnthropic(
+  response: Response
+): AsyncGenerator<StreamChunk> {
+  for await (const { data } of readServerSentEvents(response.body!)) {
+    const payload = JSON.parse(data);
+
+    switch (payload.type) {
+      case 'message_start':
+        yield {
+          usage: { promptTokens: payload.message?.usage?.input_tokens },
+        };
+        break;
+      case 'content_block_delta':
+        yield { content: payload.delta?.text || undefined };
+        break;
+      case 'message_delta':
+        yield {
+          usage: { completionTokens: payload.usage?.output_tokens },
+        };
+        break;
+      case 'error':
+        throw new Error(payload.error?.message || 'Anthropic stream error');
+      case 'message_stop':
+        return;
+    }
+  }
+}
+
+/**
+ * Relay content chunks as delta events and finish with one done event
+ * built from the assembled text, or an error event if the stream breaks
+ */
+export async function* toChatStreamEvents(
+  chunks: AsyncIterable<StreamChunk>,
+  finish: (content: string, usage?: StreamUsage) => ChatResponse,
+  source: { provider: string; model: string }
+): AsyncGenerator<ChatStreamEvent> {
+  let content = '';
+  let usage: Partial<StreamUsage> | undefined;
+
+  try {
+    for await (const chunk of chunks) {
+      if (chunk.usage) {
+        usage = { ...usage, ...definedFields(chunk.usage) };
+      }
+      if (chunk.content) {
+        content += chunk.content;
+        yield { type: 'delta', content: chunk.content };
+      }
+    }
+  } catch (error) {
+    yield {
+      type: 'error',
+      error: {
+        code: 'STREAM_ERROR',
+        message: `Chat stream from ${source.provider} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        ...source,
+        details: error,
+      },
+    };
+    return;
+  }
+
+  const complete =
+    usage?.promptTokens !== undefined && usage.completionTokens !== undefined
+      ? (usage as StreamUsage)
+      : undefined;
+  yield { type: 'done', response: finish(content, complete) };
+}
+
+function definedFields<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as Partial<T>;
+}
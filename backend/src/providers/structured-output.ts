@@ -0,0 +1,184 @@
+/**
+ * Structured Output
+ * JSON responses validated against a zod schema, using the provider's
+ * native JSON mode where available and a bounded repair loop that feeds
+ * validation errors back to the model
+ */
+
+import { z } from 'zod';
+import {
+  AIProvider,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  Result,
+} from '../types/ai-provider.types';
+
+export interface StructuredOutputOptions {
+  /** Extra attempts after the first invalid response (default 2) */
+  maxRepairs?: number;
+  /** Schema name for providers with structured outputs */
+  name?: string;
+}
+
+export interface StructuredResponse<T> {
+  data: T;
+  response: ChatResponse;
+  /** Model calls it took, including repairs */
+  attempts: number;
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Ask for JSON matching the schema and validate it; invalid JSON or
+ * schema violations are sent back to the model up to maxRepairs times
+ * before STRUCTURED_OUTPUT_INVALID is returned
+ */
+export async function generateStructured<T>(
+  provider: Pick<AIProvider, 'chat'>,
+  request: ChatRequest,
+  schema: z.ZodType<T>,
+  options: StructuredOutputOptions = {}
+): Promise<Result<StructuredResponse<T>>> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const jsonSchema = toJsonSchema(schema);
+  const messages: ChatMessage[] = [
+    { role: 'system', content: jsonInstruction(jsonSchema) },
+    ...request.messages,
+  ];
+  let problems: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const result = await provider.chat({
+      ...request,
+      messages,
+      responseFormat: { type: 'json', name: options.name, schema: jsonSchema },
+    });
+    if (!result.success) {
+      return result;
+    }
+
+    const validated = validateJson(result.data.content, schema);
+    if (validated.success) {
+      return {
+        success: true,
+        data: {
+          data: validated.data,
+          response: result.data,
+          attempts: attempt,
+        },
+      };
+    }
+
+    problems = validated.problems;
+    messages.push(
+      { role: 'assistant', content: result.data.content },
+      { role: 'user', content: repairInstruction(problems) }
+    );
+  }
+
+  return {
+    success: false,
+    error: {
+      code: 'STRUCTURED_OUTPUT_INVALID',
+      message: `No valid structured response after ${maxRepairs + 1} attempts`,
+      details: { problems },
+    },
+  };
+}
+
+/**
+ * response_format for OpenAI-compatible APIs; json_schema only where the
+ * API supports structured outputs, plain JSON mode otherwise
+ */
+export function toOpenAIResponseFormat(
+  request: ChatRequest,
+  supportsJsonSchema = false
+): Record<string, any> {
+  if (!request.responseFormat) {
+    return {};
+  }
+  if (supportsJsonSchema && request.responseFormat.schema) {
+    return {
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: request.responseFormat.name || 'response',
+          schema: request.responseFormat.schema,
+        },
+      },
+    };
+  }
+  return { response_format: { type: 'json_object' } };
+}
+
+/**
+ * The JSON value in a model response; tolerates markdown code fences and
+ * text around a single object or array
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(
+      candidate.lastIndexOf('}'),
+      candidate.lastIndexOf(']')
+    );
+    if (start === -1 || end <= start) {
+      throw error;
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+function validateJson<T>(
+  content: string,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; problems: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(content);
+  } catch (error) {
+    return {
+      success: false,
+      problems: [`Response is not valid JSON: ${(error as Error).message}`],
+    };
+  }
+
+  const validated = schema.safeParse(parsed);
+  return validated.success
+    ? { success: true, data: validated.data }
+    : {
+        success: false,
+        problems: validated.error.issues.map(
+          issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+        ),
+      };
+}
+
+function toJsonSchema(schema: z.ZodType): Record<string, any> | undefined {
+  try {
+    return z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+  } catch {
+    return undefined;
+  }
+}
+
+function jsonInstruction(jsonSchema?: Record<string, any>): string {
+  return jsonSchema
+    ? `Respond with a single JSON value only, without any other text, that conforms to this JSON Schema:\n${JSON.stringify(
+        jsonSchema
+      )}`
+    : 'Respond with a single JSON value only, without any other text.';
+}
+
+function repairInstruction(problems: string[]): string {
+  return `Your previous response was rejected:\n${problems
+    .map(problem => `- ${problem}`)
+    .join('\n')}\nRespond again with the corrected JSON only.`;
+}
@@ -0,0 +1,185 @@
+/**
+ * Provider Tool Calling Helpers
+ * Conversion of provider-neutral messages, tool definitions and tool calls
+ * to and from the OpenAI-compatible and Anthropic wire formats
+ */
+
+import {
+  ChatMessage,
+  ChatRequest,
+  ToolCall,
+  ToolDefinition,
+} from '../types/ai-provider.types';
+
+/**
+ * Messages for an OpenAI-compatible chat completion (OpenAI, Azure OpenAI,
+ * DeepSeek, Groq); tool calls carry their arguments as JSON strings
+ */
+export function toOpenAIMessages(messages: ChatMessage[]): any[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * tools/tool_choice request fields; empty when the request has no tools
+ */
+export function toOpenAITools(request: ChatRequest): Record<string, any> {
+  if (!request.tools?.length) {
+    return {};
+  }
+
+  return {
+    tools: request.tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema,
+      },
+    })),
+    tool_choice: request.toolChoice || 'auto',
+  };
+}
+
+/**
+ * Tool calls of a completion message; arguments that are not valid JSON
+ * are passed on empty so the tool reports the missing input
+ */
+export function fromOpenAIToolCalls(message: any): ToolCall[] | undefined {
+  if (!message?.tool_calls?.length) {
+    return undefined;
+  }
+
+  return message.tool_calls.map((call: any) => ({
+    id: call.id,
+    name: call.function?.name,
+    arguments: parseArguments(call.function?.arguments),
+  }));
+}
+
+/**
+ * Messages for the Anthropic Messages API. System messages are returned
+ * separately; consecutive tool results are merged into one user message
+ * because Anthropic expects all results of a turn together.
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): {
+  system?: string;
+  messages: any[];
+} {
+  const system = messages.find(m => m.role === 'system')?.content;
+  const converted: any[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const block = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: message.content,
+      };
+      const previous = converted[converted.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        converted.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          })),
+        ],
+      });
+      continue;
+    }
+
+    converted.push({ role: message.role, content: message.content });
+  }
+
+  return { system, messages: converted };
+}
+
+/**
+ * tools/tool_choice request fields for Anthropic. 'none' sends no tools at
+ * all, which older API versions require to stop the model calling them.
+ */
+export function toAnthropicTools(request: ChatRequest): Record<string, any> {
+  if (!request.tools?.length || request.toolChoice === 'none') {
+    return {};
+  }
+
+  return {
+    tools: request.tools.map((tool: ToolDefinition) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    })),
+    tool_choice: { type: request.toolChoice === 'required' ? 'any' : 'auto' },
+  };
+}
+
+/**
+ * Text and tool calls of an Anthropic response content array
+ */
+export function fromAnthropicContent(content: any[] = []): {
+  text: string;
+  toolCalls?: ToolCall[];
+} {
+  const text = content
+    .filter(block => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+  const toolCalls = content
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({ id: block.id, name: block.name, arguments: block.input }));
+
+  return { text, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+}
+
+function parseArguments(raw: unknown): Record<string, any> {
+  if (typeof raw !== 'string') {
+    return (raw as Record<string, any>) || {};
+  }
+
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Usage Recording ML Provider
+ * Wraps an ML provider so its text generation is checked against the
+ * spending budgets and recorded on the usage ledger with the project,
+ * agent and workflow run it was made for
+ */
+
+import {
+  AnalysisResult,
+  EmbeddingOptions,
+  EmbeddingResult,
+  GenerationOptions,
+  GenerationResult,
+  IMLProvider,
+  MLError,
+  Result,
+} from './ml-provider.interface';
+import { UsageLedgerService } from '../services/usage-ledger.service';
+
+export interface UsageContext {
+  projectId?: string;
+  agentType?: string;
+  workflowRunId?: string;
+}
+
+export class UsageRecordingProvider implements IMLProvider {
+  constructor(
+    private readonly provider: IMLProvider,
+    private readonly ledger: UsageLedgerService,
+    private readonly context: UsageContext
+  ) {}
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get version() {
+    return this.provider.version;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  /**
+   * Refuse the call over a hard spending cap; soft limits are not applied
+   * because an ML provider cannot move the call to another model
+   */
+  async generateText(
+    prompt: string,
+    options?: GenerationOptions
+  ): Promise<Result<GenerationResult, MLError>> {
+    const budget = await this.ledger.applyBudget(
+      { provider: this.provider.name, model: options?.model || 'default' },
+      {
+        projectId: this.context.projectId,
+        workflowRunId: this.context.workflowRunId,
+      }
+    );
+    if (!budget.success) {
+      return {
+        success: false,
+        error: {
+          code: budget.error.code,
+          message: budget.error.message,
+          details: budget.error.details,
+        },
+      };
+    }
+
+    const result = await this.provider.generateText(prompt, options);
+    if (result.success && result.data.usage) {
+      await this.recordUsage(result.data, options);
+    }
+    return result;
+  }
+
+  generateEmbedding(
+    text: string,
+    options?: EmbeddingOptions
+  ): Promise<Result<EmbeddingResult, MLError>> {
+    return this.provider.generateEmbedding(text, options);
+  }
+
+  analyzeDocument(
+    content: string,
+    context?: Record<string, any>
+  ): Promise<Result<AnalysisResult, MLError>> {
+    return this.provider.analyzeDocument(content, context);
+  }
+
+  healthCheck() {
+    return this.provider.healthCheck();
+  }
+
+  getSupportedModels(): Promise<Result<string[], MLError>> {
+    return this.provider.getSupportedModels();
+  }
+
+  private async recordUsage(
+    data: GenerationResult,
+    options?: GenerationOptions
+  ): Promise<void> {
+    const recorded = await this.ledger.record({
+      ...this.context,
+      provider: this.provider.name,
+      model: data.metadata?.model || options?.model || 'default',
+      promptTokens: data.usage?.promptTokens ?? 0,
+      completionTokens: data.usage?.completionTokens ?? 0,
+    });
+    if (!recorded.success) {
+      console.warn('⚠️ Failed to record AI usage:', recorded.error.message);
+    }
+  }
+}
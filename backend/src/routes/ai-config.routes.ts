@@ -4,10 +4,23 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateRequestBody } from '../middleware/validation';
 import { agentModelAssignmentService } from '../services/agent-model-assignment.service';
+import { providerRegistry } from '../services/provider-registry.service';
+import { ServiceError } from '../types/ai-provider.types';
 
 export const aiConfigRoutes = Router();
 
+function sendServiceError(res: Response, error: ServiceError) {
+  res.status(error.code === 'INVALID_PROVIDER' ? 400 : 500).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    timestamp: new Date().toISOString(),
+  });
+}
+
 /**
  * Get current AI configuration
  */
@@ -264,6 +277,51 @@ aiConfigRoutes.get(
   }
 );
 
+/**
+ * Get registry statistics: rate limit queues and circuit breaker state
+ * per provider and model
+ */
+aiConfigRoutes.get('/providers/stats', async (req: Request, res: Response) => {
+  const result = await providerRegistry.getProviderStats();
+  if (!result.success) {
+    return sendServiceError(res, result.error);
+  }
+
+  res.json({
+    success: true,
+    data: result.data,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+const assignmentSchema = z.object({
+  primaryProvider: z.string().min(1),
+  primaryModel: z.string().min(1),
+  fallbackProviders: z
+    .array(
+      z.object({
+        provider: z.string().min(1),
+        model: z.string().min(1),
+        priority: z.number().int(),
+      })
+    )
+    .default([]),
+  specializedConfigs: z
+    .record(z.string(), z.object({ provider: z.string(), model: z.string() }))
+    .optional(),
+});
+
+const updateAssignmentsSchema = z.object({
+  assignments: z.array(
+    assignmentSchema.extend({ agentType: z.string().min(1) })
+  ),
+  changedBy: z.string().optional(),
+});
+
+const projectOverrideSchema = assignmentSchema.extend({
+  changedBy: z.string().optional(),
+});
+
 /**
  * Get agent-provider assignments
  */
@@ -271,19 +329,14 @@ aiConfigRoutes.get(
   '/agent-assignments',
   async (req: Request, res: Response) => {
     try {
-      const assignments = agentModelAssignmentService.getAllAssignments();
-
-      const formattedAssignments = Object.entries(assignments).map(
-        ([agentType, assignment]) => ({
-          agentType,
-          primaryProvider: assignment.primaryProvider,
-          fallbackProviders: assignment.fallbackProviders || [],
-        })
-      );
+      const result = await agentModelAssignmentService.getAllAssignments();
+      if (!result.success) {
+        return sendServiceError(res, result.error);
+      }
 
       res.json({
         success: true,
-        data: formattedAssignments,
+        data: result.data,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -302,45 +355,27 @@ aiConfigRoutes.get(
  */
 aiConfigRoutes.put(
   '/agent-assignments',
+  validateRequestBody(updateAssignmentsSchema),
   async (req: Request, res: Response) => {
     try {
-      const { assignments } = req.body;
-
-      if (!Array.isArray(assignments)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Assignments must be an array',
-          timestamp: new Date().toISOString(),
-        });
-      }
+      const { assignments, changedBy } = req.body as z.infer<
+        typeof updateAssignmentsSchema
+      >;
 
-      // Validate assignment format
       for (const assignment of assignments) {
-        if (!assignment.agentType || !assignment.primaryProvider) {
-          return res.status(400).json({
-            success: false,
-            error: 'Each assignment must have agentType and primaryProvider',
-            timestamp: new Date().toISOString(),
-          });
-        }
-
-        // Validate provider exists
-        const validProviders = ['groq', 'openai', 'anthropic', 'google'];
-        if (!validProviders.includes(assignment.primaryProvider)) {
-          return res.status(400).json({
-            success: false,
-            error: `Primary provider '${assignment.primaryProvider}' not supported`,
-            timestamp: new Date().toISOString(),
-          });
+        const result = await agentModelAssignmentService.updateAssignment(
+          assignment.agentType,
+          assignment,
+          changedBy
+        );
+        if (!result.success) {
+          return sendServiceError(res, result.error);
         }
       }
 
-      // TODO: Update assignments in agent model assignment service
-      // For now, just return success
-
       res.json({
         success: true,
-        data: { updated: true },
+        data: { updated: assignments.length },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -354,4 +389,118 @@ aiConfigRoutes.put(
   }
 );
 
+/**
+ * Get the audit history of assignment changes
+ */
+aiConfigRoutes.get(
+  '/agent-assignments/history',
+  async (req: Request, res: Response) => {
+    const limit = Number(req.query.limit);
+    const result = await agentModelAssignmentService.getAssignmentHistory({
+      agentType: req.query.agentType as string | undefined,
+      projectId: req.query.projectId as string | undefined,
+      limit: Number.isInteger(limit) && limit > 0 ? limit : undefined,
+    });
+    if (!result.success) {
+      return sendServiceError(res, result.error);
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    });
+  }
+);
+
+/**
+ * Get the effective assignments of a project, with its overrides applied
+ */
+aiConfigRoutes.get(
+  '/projects/:projectId/agent-assignments',
+  async (req: Request, res: Response) => {
+    const projectId = req.params.projectId as string;
+    const [assignments, overrides] = await Promise.all([
+      agentModelAssignmentService.getAllAssignments(),
+      agentModelAssignmentService.getProjectOverrides(projectId),
+    ]);
+    if (!assignments.success) {
+      return sendServiceError(res, assignments.error);
+    }
+    if (!overrides.success) {
+      return sendServiceError(res, overrides.error);
+    }
+
+    const effective = [];
+    for (const { agentType } of assignments.data) {
+      const result = await agentModelAssignmentService.getAssignmentForAgent(
+        agentType,
+        projectId
+      );
+      if (result.success) {
+        effective.push(result.data);
+      }
+    }
+
+    res.json({
+      success: true,
+      data: { assignments: effective, overrides: overrides.data },
+      timestamp: new Date().toISOString(),
+    });
+  }
+);
+
+/**
+ * Pin an agent to a different model within a project
+ */
+aiConfigRoutes.put(
+  '/projects/:projectId/agent-assignments/:agentType',
+  validateRequestBody(projectOverrideSchema),
+  async (req: Request, res: Response) => {
+    const { changedBy, ...assignment } = req.body as z.infer<
+      typeof projectOverrideSchema
+    >;
+    const agentType = req.params.agentType as string;
+
+    const result = await agentModelAssignmentService.setProjectOverride(
+      req.params.projectId as string,
+      agentType,
+      { ...assignment, agentType },
+      changedBy
+    );
+    if (!result.success) {
+      return sendServiceError(res, result.error);
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    });
+  }
+);
+
+/**
+ * Remove a project override so the global assignment applies again
+ */
+aiConfigRoutes.delete(
+  '/projects/:projectId/agent-assignments/:agentType',
+  async (req: Request, res: Response) => {
+    const result = await agentModelAssignmentService.removeProjectOverride(
+      req.params.projectId as string,
+      req.params.agentType as string,
+      req.query.changedBy as string | undefined
+    );
+    if (!result.success) {
+      return sendServiceError(res, result.error);
+    }
+
+    res.json({
+      success: true,
+      data: { deleted: result.data },
+      timestamp: new Date().toISOString(),
+    });
+  }
+);
+
 export default aiConfigRoutes;
@@ -11,6 +11,8 @@ import {
   ChatMessageRequest,
 } from '../types/api.types';
 import { chatMessageSchema } from '../schemas/validation.schemas';
+import { ChatRequest } from '../../../services/types/chat-integration.types';
+import { openEventStream } from '../../../utils/event-stream';
 
 export class ChatRoutesHandler {
   private deps: EnhancedApiDependencies;
@@ -72,26 +74,9 @@ export class ChatRoutesHandler {
    */
   async sendMessage(req: Request, res: Response): Promise<void> {
     try {
-      const { sessionId } = req.params;
-      const validatedData = chatMessageSchema.parse(
-        req.body
-      ) as ChatMessageRequest;
-
-      // Dodaj ID do attachments jeśli istnieją
-      const attachments = validatedData.attachments?.map(att => ({
-        ...att,
-        id: `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      }));
-
-      const result = await this.deps.chatService.processMessage({
-        sessionId,
-        message: validatedData.message,
-        contextId: validatedData.contextId,
-        provider: validatedData.provider,
-        agentId: validatedData.agentId,
-        attachments,
-        settings: validatedData.settings,
-      });
+      const result = await this.deps.chatService.processMessage(
+        this.parseChatRequest(req)
+      );
 
       if (!result.success) {
         res.status(400).json({
@@ -132,6 +117,49 @@ export class ChatRoutesHandler {
     }
   }
 
+  /**
+   * POST /api/enhanced/chat/sessions/:sessionId/message/stream
+   * Wysyła wiadomość i strumieniuje odpowiedź jako server-sent events:
+   * delta (fragment tekstu), done (pełna odpowiedź) lub error
+   */
+  async streamMessage(req: Request, res: Response): Promise<void> {
+    let chatRequest: ChatRequest;
+    try {
+      chatRequest = this.parseChatRequest(req);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: 'Błąd walidacji',
+        details: error instanceof z.ZodError ? error.issues : undefined,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const stream = openEventStream(res);
+    try {
+      const result = await this.deps.chatService.processMessage(chatRequest, {
+        onDelta: (content: string) => stream.send('delta', { content }),
+      });
+
+      if (result.success) {
+        stream.send('done', result.data);
+      } else {
+        stream.send('error', {
+          error: result.error.message,
+          code: result.error.code,
+        });
+      }
+    } catch (error) {
+      stream.send('error', {
+        error: 'Błąd przetwarzania wiadomości',
+        message: error instanceof Error ? error.message : 'Nieznany błąd',
+      });
+    } finally {
+      stream.close();
+    }
+  }
+
   /**
    * GET /api/enhanced/chat/sessions/:sessionId/messages
    * Pobiera wiadomości z sesji chatu
@@ -248,4 +276,26 @@ export class ChatRoutesHandler {
       res.status(500).json(response);
     }
   }
+
+  private parseChatRequest(req: Request): ChatRequest {
+    const validatedData = chatMessageSchema.parse(
+      req.body
+    ) as ChatMessageRequest;
+
+    // Dodaj ID do attachments jeśli istnieją
+    const attachments = validatedData.attachments?.map(att => ({
+      ...att,
+      id: `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    }));
+
+    return {
+      sessionId: req.params.sessionId as string,
+      message: validatedData.message,
+      contextId: validatedData.contextId,
+      provider: validatedData.provider,
+      agentId: validatedData.agentId,
+      attachments,
+      settings: validatedData.settings,
+    };
+  }
 }
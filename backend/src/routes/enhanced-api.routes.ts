@@ -105,6 +105,7 @@ class EnhancedApiRoutes {
     // === Chat Management Routes ===
     this.router.post('/chat/sessions', this.chatHandler.createChatSession.bind(this.chatHandler));
     this.router.post('/chat/sessions/:sessionId/message', this.chatHandler.sendMessage.bind(this.chatHandler));
+    this.router.post('/chat/sessions/:sessionId/message/stream', this.chatHandler.streamMessage.bind(this.chatHandler));
     this.router.get('/chat/sessions/:sessionId/messages', this.chatHandler.getMessages.bind(this.chatHandler));
     this.router.get('/chat/sessions/:sessionId', this.chatHandler.getSession.bind(this.chatHandler));
     this.router.delete('/chat/sessions/:sessionId', this.chatHandler.deleteSession.bind(this.chatHandler));
@@ -0,0 +1,115 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateRequestBody } from '../middleware/validation';
+import { MCPClientRegistry } from '../mcp/mcp-client-registry';
+import { ServiceError } from '../types/ai-provider.types';
+
+const serverChangesSchema = z.object({
+  transport: z.enum(['stdio', 'http']),
+  command: z.string().min(1).optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+  url: z.string().url().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  agentTypes: z.array(z.string().min(1)),
+  includeTools: z.array(z.string().min(1)).optional(),
+  isActive: z.boolean(),
+});
+
+const createServerSchema = serverChangesSchema.extend({
+  name: z.string().min(1),
+  isActive: z.boolean().default(true),
+});
+
+const ERROR_STATUS: Record<string, number> = {
+  MCP_SERVER_INVALID: 400,
+  MCP_SERVER_NOT_FOUND: 404,
+  MCP_SERVER_EXISTS: 409,
+};
+
+function sendError(res: Response, error: ServiceError) {
+  res.status(ERROR_STATUS[error.code] || 500).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function sendData(res: Response, data: unknown, status = 200) {
+  res
+    .status(status)
+    .json({ success: true, data, timestamp: new Date().toISOString() });
+}
+
+/**
+ * Create admin routes for the external MCP servers agents can use; mount
+ * them behind requireAdminApiKey
+ */
+export function createMCPServerRoutes(registry: MCPClientRegistry): Router {
+  const router = Router();
+
+  /**
+   * GET /mcp/servers - Configured servers with connection status and tools;
+   * env and header values are redacted
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    const result = await registry.listServers();
+    if (!result.success) return sendError(res, result.error);
+
+    sendData(res, result.data);
+  });
+
+  /**
+   * POST /mcp/servers - Add a server and connect it when active
+   */
+  router.post(
+    '/',
+    validateRequestBody(createServerSchema),
+    async (req: Request, res: Response) => {
+      const result = await registry.createServer(req.body);
+      if (!result.success) return sendError(res, result.error);
+
+      sendData(res, result.data, 201);
+    }
+  );
+
+  /**
+   * PATCH /mcp/servers/:id - Change a server; it reconnects
+   */
+  router.patch(
+    '/:id',
+    validateRequestBody(serverChangesSchema.partial()),
+    async (req: Request, res: Response) => {
+      const result = await registry.updateServer(
+        req.params.id as string,
+        req.body
+      );
+      if (!result.success) return sendError(res, result.error);
+
+      sendData(res, result.data);
+    }
+  );
+
+  /**
+   * POST /mcp/servers/:id/reconnect - Reconnect and reload its tools
+   */
+  router.post('/:id/reconnect', async (req: Request, res: Response) => {
+    const result = await registry.reconnectServer(req.params.id as string);
+    if (!result.success) return sendError(res, result.error);
+
+    sendData(res, result.data);
+  });
+
+  /**
+   * DELETE /mcp/servers/:id - Disconnect and remove its tools
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    const result = await registry.deleteServer(req.params.id as string);
+    if (!result.success) return sendError(res, result.error);
+
+    sendData(res, { deleted: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,57 @@
+import { Router, Request, Response } from 'express';
+import { MCPHttpSessions } from '../mcp/mcp-http';
+import { ServiceError } from '../types/ai-provider.types';
+
+const SESSION_ERROR_STATUS: Record<string, number> = {
+  MCP_UNAUTHORIZED: 401,
+  MCP_SESSION_NOT_FOUND: 404,
+  MCP_SESSION_LIMIT_REACHED: 503,
+};
+
+/**
+ * MCP clients expect JSON-RPC errors, not the API's error envelope
+ */
+function sendError(res: Response, error: ServiceError) {
+  const status = SESSION_ERROR_STATUS[error.code] || 400;
+  if (status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="mcp"');
+  }
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message: error.message, data: { code: error.code } },
+    id: null,
+  });
+}
+
+/**
+ * Create the MCP streamable HTTP endpoint for remote clients
+ */
+export function createMCPRoutes(sessions: MCPHttpSessions): Router {
+  const router = Router();
+
+  /**
+   * POST /mcp - JSON-RPC messages; answered as JSON or an SSE stream
+   * GET /mcp - SSE stream for server notifications
+   * DELETE /mcp - End the session
+   */
+  const handle = async (req: Request, res: Response) => {
+    const auth = sessions.authenticate(req.headers);
+    if (!auth.success) return sendError(res, auth.error);
+
+    const sessionId = req.header('mcp-session-id');
+    const transport = await sessions.resolve(auth.data, sessionId, req.body);
+    if (!transport.success) return sendError(res, transport.error);
+
+    await transport.data.handleRequest(
+      Object.assign(req, { auth: auth.data }),
+      res,
+      req.body
+    );
+  };
+
+  router.post('/', handle);
+  router.get('/', handle);
+  router.delete('/', handle);
+
+  return router;
+}
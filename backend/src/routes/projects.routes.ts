@@ -8,6 +8,7 @@ import { AgentChatCoordinator } from '../services/agent-chat-coordinator.service
 import { ChatIntegrationService } from '../services/chat-integration.service';
 import ContextManager from '../services/context-manager';
 import { ProjectInitializationService } from '../services/project-initialization.service';
+import { ProjectRunAttempt, WorkflowReplay } from '../services/workflow/replay';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -23,6 +24,38 @@ const projectInitializationService = new ProjectInitializationService(
   chatService,
   null as any // DocumentProcessor will be injected when implemented
 );
+const workflowReplay = new WorkflowReplay(prisma);
+
+/**
+ * Project history event for a workflow run; replays link the run they retry
+ */
+function attemptToHistoryEvent(run: ProjectRunAttempt) {
+  const startedByUser = run.executorType === 'user';
+  return {
+    id: run.id,
+    type: 'workflow',
+    action: run.parentRunId ? 'Ponowienie workflow' : 'Uruchomienie workflow',
+    description: `${run.workflowName}: ${run.status}`,
+    actor: {
+      id: run.executor || 'system',
+      name: run.executor || 'System',
+      type: startedByUser ? 'user' : 'system',
+    },
+    timestamp: (run.startTime || run.createdAt).toISOString(),
+    metadata: { status: run.status, ...(run.error && { error: run.error }) },
+    relatedEntity: {
+      id: run.workflowId,
+      name: run.workflowName,
+      type: 'workflow',
+    },
+    replay: run.parentRunId && {
+      parentRunId: run.parentRunId,
+      mode: run.replayMode,
+      stepId: run.replayStepId,
+      attempt: run.attempt,
+    },
+  };
+}
 
 // Multer configuration for file uploads
 const storage = multer.diskStorage({
@@ -207,6 +240,20 @@ router.get('/:id/chat/history', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/projects/:id/history - Historia projektu, najnowsze najpierw
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const attempts = await workflowReplay.listProjectAttempts(
+      req.params.id as string
+    );
+
+    return res.status(200).json(attempts.map(attemptToHistoryEvent).reverse());
+  } catch (error) {
+    console.error('Error fetching project history:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /api/projects/:id/chat/message - Wysłanie wiadomości do chat
 router.post('/:id/chat/message', async (req: Request, res: Response) => {
   try {
@@ -6,6 +6,7 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { ProviderConfigurationService } from '../services/provider-configuration.service';
+import { LocalProvider } from '../providers/local.provider';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -145,6 +146,36 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/provider-config/discover-models
+ * Pobiera listę modeli z lokalnego serwera zgodnego z OpenAI API
+ */
+router.post('/discover-models', async (req, res) => {
+  try {
+    const { apiUrl, apiKey } = req.body;
+    const provider = new LocalProvider({ endpoint: apiUrl, apiKey });
+    const result = await provider.getSupportedModels();
+
+    if (!result.success) {
+      return res.status(502).json({
+        success: false,
+        error: result.error.message,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Error discovering local models:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to discover models',
+    });
+  }
+});
+
 /**
  * POST /api/provider-config/init-defaults
  * Inicjalizuje defaultowe konfiguracje
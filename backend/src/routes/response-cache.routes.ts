@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateRequestBody } from '../middleware/validation';
+import { ResponseCacheService } from '../services/response-cache.service';
+import { ServiceError } from '../types/ai-provider.types';
+
+const agentTtlSchema = z.object({
+  ttlMs: z.number().int().nonnegative(),
+});
+
+function sendError(res: Response, error: ServiceError, status = 400) {
+  res.status(status).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function sendData(res: Response, data: unknown) {
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}
+
+/**
+ * Create response cache metrics and management routes
+ */
+export function createResponseCacheRoutes(cache: ResponseCacheService): Router {
+  const router = Router();
+
+  /**
+   * GET /ai/cache/stats - Hit/miss counters, hit rate and saved cost
+   */
+  router.get('/stats', (req: Request, res: Response) => {
+    sendData(res, cache.getStats());
+  });
+
+  /**
+   * GET /ai/cache/agents - Per-agent TTLs (0 = not cached)
+   */
+  router.get('/agents', (req: Request, res: Response) => {
+    sendData(res, cache.getAgentTtls());
+  });
+
+  /**
+   * PUT /ai/cache/agents/:agentType - Set an agent's TTL; 0 opts it out
+   */
+  router.put(
+    '/agents/:agentType',
+    validateRequestBody(agentTtlSchema),
+    (req: Request, res: Response) => {
+      const result = cache.setAgentTtl(
+        req.params.agentType as string,
+        req.body.ttlMs
+      );
+      if (!result.success) return sendError(res, result.error);
+
+      sendData(res, cache.getAgentTtls());
+    }
+  );
+
+  /**
+   * DELETE /ai/cache?agentType= - Invalidate one agent's entries or all,
+   * e.g. after its prompt templates changed
+   */
+  router.delete('/', (req: Request, res: Response) => {
+    const agentType =
+      typeof req.query.agentType === 'string' ? req.query.agentType : undefined;
+    sendData(res, { removed: cache.invalidate({ agentType }) });
+  });
+
+  return router;
+}
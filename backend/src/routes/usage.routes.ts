@@ -0,0 +1,197 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateRequestBody } from '../middleware/validation';
+import {
+  BudgetScope,
+  UsageGroupBy,
+  UsageLedgerService,
+} from '../services/usage-ledger.service';
+import { ServiceError } from '../types/ai-provider.types';
+
+const GROUP_BY_FIELDS: UsageGroupBy[] = [
+  'projectId',
+  'agentType',
+  'workflowRunId',
+  'provider',
+  'model',
+];
+
+const BUDGET_SCOPES: BudgetScope[] = ['project', 'workflow-run'];
+
+const budgetSchema = z
+  .object({
+    softLimit: z.number().nonnegative().nullable().optional(),
+    hardLimit: z.number().nonnegative().nullable().optional(),
+  })
+  .refine(
+    ({ softLimit, hardLimit }) =>
+      softLimit === null ||
+      softLimit === undefined ||
+      hardLimit === null ||
+      hardLimit === undefined ||
+      softLimit <= hardLimit,
+    { message: 'softLimit must not exceed hardLimit' }
+  );
+
+function sendError(res: Response, error: ServiceError, status = 500) {
+  res.status(status).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function sendData(res: Response, data: unknown) {
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}
+
+function optionalDate(value: unknown): Date | undefined {
+  return typeof value === 'string' && value ? new Date(value) : undefined;
+}
+
+/**
+ * Budget scope from the route, or undefined when it is not supported
+ */
+function budgetScope(req: Request): BudgetScope | undefined {
+  const scope = req.params.scope as BudgetScope;
+  return BUDGET_SCOPES.includes(scope) ? scope : undefined;
+}
+
+function invalidScope(res: Response) {
+  sendError(
+    res,
+    {
+      code: 'INVALID_BUDGET_SCOPE',
+      message: `Budget scope must be one of: ${BUDGET_SCOPES.join(', ')}`,
+    },
+    400
+  );
+}
+
+/**
+ * Register usage aggregation routes
+ */
+function registerSummaryRoutes(router: Router, ledger: UsageLedgerService) {
+  /**
+   * GET /usage/summary - Totals for the filtered calls, optionally grouped
+   * by projectId, agentType, workflowRunId, provider or model
+   */
+  router.get('/summary', async (req: Request, res: Response) => {
+    const groupBy = req.query.groupBy as UsageGroupBy | undefined;
+    if (groupBy && !GROUP_BY_FIELDS.includes(groupBy)) {
+      return sendError(
+        res,
+        {
+          code: 'INVALID_GROUP_BY',
+          message: `groupBy must be one of: ${GROUP_BY_FIELDS.join(', ')}`,
+        },
+        400
+      );
+    }
+
+    const result = await ledger.getSummary(
+      {
+        projectId: req.query.projectId as string | undefined,
+        agentType: req.query.agentType as string | undefined,
+        workflowRunId: req.query.workflowRunId as string | undefined,
+        provider: req.query.provider as string | undefined,
+        from: optionalDate(req.query.from),
+        to: optionalDate(req.query.to),
+      },
+      groupBy
+    );
+    if (!result.success) return sendError(res, result.error);
+
+    sendData(res, result.data);
+  });
+}
+
+/**
+ * Register budget routes
+ */
+function registerBudgetRoutes(router: Router, ledger: UsageLedgerService) {
+  /**
+   * GET /usage/budgets - List budgets, optionally of one scope
+   */
+  router.get('/budgets', async (req: Request, res: Response) => {
+    const result = await ledger.listBudgets(
+      req.query.scope as BudgetScope | undefined
+    );
+    if (!result.success) return sendError(res, result.error);
+
+    sendData(res, result.data);
+  });
+
+  /**
+   * GET /usage/budgets/:scope/:scopeId - Spend against the budget
+   */
+  router.get(
+    '/budgets/:scope/:scopeId',
+    async (req: Request, res: Response) => {
+      const scope = budgetScope(req);
+      if (!scope) return invalidScope(res);
+
+      const result = await ledger.getBudgetStatus(
+        scope,
+        req.params.scopeId as string
+      );
+      if (!result.success) return sendError(res, result.error);
+
+      sendData(res, result.data);
+    }
+  );
+
+  /**
+   * PUT /usage/budgets/:scope/:scopeId - Set soft and hard limits (USD)
+   */
+  router.put(
+    '/budgets/:scope/:scopeId',
+    validateRequestBody(budgetSchema),
+    async (req: Request, res: Response) => {
+      const scope = budgetScope(req);
+      if (!scope) return invalidScope(res);
+
+      const result = await ledger.setBudget({
+        scope,
+        scopeId: req.params.scopeId as string,
+        softLimit: req.body.softLimit,
+        hardLimit: req.body.hardLimit,
+      });
+      if (!result.success) return sendError(res, result.error);
+
+      sendData(res, result.data);
+    }
+  );
+
+  /**
+   * DELETE /usage/budgets/:scope/:scopeId - Remove the budget
+   */
+  router.delete(
+    '/budgets/:scope/:scopeId',
+    async (req: Request, res: Response) => {
+      const scope = budgetScope(req);
+      if (!scope) return invalidScope(res);
+
+      const result = await ledger.deleteBudget(
+        scope,
+        req.params.scopeId as string
+      );
+      if (!result.success) return sendError(res, result.error);
+
+      sendData(res, { deleted: result.data });
+    }
+  );
+}
+
+/**
+ * Create AI usage and budget routes
+ */
+export function createUsageRoutes(ledger: UsageLedgerService): Router {
+  const router = Router();
+
+  registerSummaryRoutes(router, ledger);
+  registerBudgetRoutes(router, ledger);
+
+  return router;
+}
@@ -8,6 +8,7 @@ import { PrismaClient } from '@prisma/client';
 import WorkflowAdminPanel from '../services/workflow-admin-panel';
 import ChatIntegrationService from '../services/chat-integration.service';
 import ContextManager from '../services/context-manager';
+import { openEventStream } from '../utils/event-stream';
 // import { EnhancedMultiProviderSystem } from '../services/enhanced-multi-provider-system';
 
 const router = Router();
@@ -250,6 +251,46 @@ router.post(
   }
 );
 
+/**
+ * POST /api/admin/workflow/chat/message/stream
+ * Jak /chat/message, ale odpowiedź AI jest strumieniowana jako
+ * server-sent events: delta (fragment), done (wynik) lub error
+ */
+router.post(
+  '/chat/message/stream',
+  async (req: Request, res: Response): Promise<Response | void> => {
+    const { sessionId, message }: SendMessageRequest = req.body;
+
+    if (!sessionId?.trim() || !message?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Session ID and message are required',
+      });
+    }
+
+    const stream = openEventStream(res);
+    try {
+      const adminPanel = await initializeAdminPanel();
+      const result = await adminPanel.processWorkflowCreationMessage(
+        sessionId,
+        message,
+        { onDelta: content => stream.send('delta', { content }) }
+      );
+
+      if (result.success) {
+        stream.send('done', result.data);
+      } else {
+        stream.send('error', { error: result.error.message });
+      }
+    } catch (error) {
+      console.error('Failed to stream chat message:', error);
+      stream.send('error', { error: 'Failed to process chat message' });
+    } finally {
+      stream.close();
+    }
+  }
+);
+
 // === Workflow Generation Routes ===
 
 /**
@@ -1,12 +1,98 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateRequestBody } from '../middleware/validation';
 import { RealWorkflowService } from '../services/real-workflow-service';
+import { WorkflowEngineService } from '../services/workflow-engine.service';
+import { WorkflowEngineError } from '../services/workflow/types';
+
+const replaySchema = z.object({
+  stepId: z.string().min(1),
+  mode: z.enum(['step', 'from']).default('from'),
+  input: z.record(z.string(), z.any()).optional(),
+  executor: z.string().optional(),
+});
+
+/**
+ * Map replay error codes to HTTP status
+ */
+function errorStatus(error: WorkflowEngineError): number {
+  if (error.code === 'EXECUTION_NOT_FOUND') return 404;
+  if (error.code === 'TEMPLATE_NOT_FOUND') return 404;
+  if (error.code === 'REPLAY_STEP_NOT_FOUND') return 400;
+  if (error.code === 'REPLAY_DEPENDENCIES_INCOMPLETE') return 409;
+  if (error.code === 'REPLAY_RUN_ACTIVE') return 409;
+  if (error.code === 'MAX_CONCURRENT_EXECUTIONS_REACHED') return 429;
+  return 500;
+}
+
+function sendError(res: Response, error: WorkflowEngineError) {
+  res.status(errorStatus(error)).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Register step re-run / resume-from-step routes
+ */
+function registerReplayRoutes(
+  router: Router,
+  workflowEngine: WorkflowEngineService
+) {
+  /**
+   * POST /executions/:id/replay - Re-run a step or resume from a step
+   */
+  router.post(
+    '/:id/replay',
+    validateRequestBody(replaySchema),
+    async (req: Request, res: Response) => {
+      const { stepId, mode, input, executor } = req.body;
+      const result = await workflowEngine.replayExecution(
+        req.params.id as string,
+        { stepId, mode, input },
+        { executor, executorType: 'user' }
+      );
+      if (!result.success) return sendError(res, result.error);
+
+      res.status(202).json({
+        success: true,
+        data: { executionId: result.data, parentRunId: req.params.id },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  );
+
+  /**
+   * GET /executions/:id/attempts - Original run and its linked replays
+   */
+  router.get('/:id/attempts', async (req: Request, res: Response) => {
+    const result = await workflowEngine.getExecutionAttempts(
+      req.params.id as string
+    );
+    if (!result.success) return sendError(res, result.error);
+
+    res.json({
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    });
+  });
+}
 
 /**
  * Create workflow execution routes using real workflow service
  */
-export function createExecutionRoutes(): Router {
+export function createExecutionRoutes(
+  workflowEngine?: WorkflowEngineService
+): Router {
   const router = Router();
 
+  if (workflowEngine?.replayExecution) {
+    registerReplayRoutes(router, workflowEngine);
+  }
+
   // Use real workflow service
   const workflowService = new RealWorkflowService();
 
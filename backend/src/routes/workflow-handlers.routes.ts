@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { WorkflowEngineService } from '../services/workflow-engine.service';
+
+/**
+ * Create workflow handler discovery routes
+ */
+export function createHandlerRoutes(
+  workflowEngine: WorkflowEngineService
+): Router {
+  const router = Router();
+
+  /**
+   * GET /handlers - List registered handlers with their schemas
+   */
+  router.get('/', (req: Request, res: Response) => {
+    const category = req.query.category as string | undefined;
+    const handlers = workflowEngine
+      .getHandlerInfo()
+      .filter(handler => !category || handler.category === category);
+
+    res.json({
+      success: true,
+      data: handlers,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * GET /handlers/:name - Get handler schemas
+   */
+  router.get('/:name', (req: Request, res: Response) => {
+    const name = req.params.name as string;
+    if (!workflowEngine.getHandlers().includes(name)) {
+      return res.status(404).json({
+        success: false,
+        error: `Handler not found: ${name}`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    res.json({
+      success: true,
+      data: workflowEngine.getHandlerInfo(name)[0],
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  return router;
+}
@@ -8,6 +8,8 @@ import { PrismaClient } from '@prisma/client';
 import { WorkflowEngineService } from '../services/workflow-engine.service';
 import { createTemplateRoutes } from './workflow-templates.routes';
 import { createExecutionRoutes } from './workflow-executions.routes';
+import { createScheduleRoutes } from './workflow-schedules.routes';
+import { createHandlerRoutes } from './workflow-handlers.routes';
 
 /**
  * Create complete workflow routes
@@ -30,8 +32,15 @@ export function createWorkflowRoutes(
   }
 
   // Mount sub-routes
-  router.use('/templates', createTemplateRoutes());
-  router.use('/executions', createExecutionRoutes());
+  router.use('/templates', createTemplateRoutes(workflowEngine));
+  router.use('/executions', createExecutionRoutes(workflowEngine));
+  if (workflowEngine?.getScheduler) {
+    router.use(
+      '/schedules',
+      createScheduleRoutes(workflowEngine.getScheduler())
+    );
+    router.use('/handlers', createHandlerRoutes(workflowEngine));
+  }
 
   // Health check endpoint
   router.get('/health', async (req: express.Request, res: express.Response) => {
@@ -54,16 +63,23 @@ export function createWorkflowRoutes(
   });
 
   // Global error handler
-  router.use((error: any, req: express.Request, res: express.Response) => {
-    console.error('Workflow API Error:', error);
-
-    res.status(500).json({
-      success: false,
-      error: 'INTERNAL_SERVER_ERROR',
-      message: 'An unexpected error occurred',
-      ...(process.env.NODE_ENV === 'development' && { stack: error.stack }),
-    });
-  });
+  router.use(
+    (
+      error: any,
+      req: express.Request,
+      res: express.Response,
+      _next: express.NextFunction
+    ) => {
+      console.error('Workflow API Error:', error);
+
+      res.status(500).json({
+        success: false,
+        error: 'INTERNAL_SERVER_ERROR',
+        message: 'An unexpected error occurred',
+        ...(process.env.NODE_ENV === 'development' && { stack: error.stack }),
+      });
+    }
+  );
 
   return router;
 }
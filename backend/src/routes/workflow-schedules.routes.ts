@@ -0,0 +1,200 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateRequestBody } from '../middleware/validation';
+import { WorkflowScheduler } from '../services/workflow/scheduler';
+import { WorkflowEngineError } from '../services/workflow/types';
+
+const scheduleFields = {
+  name: z.string().min(1),
+  description: z.string().optional(),
+  enabled: z.boolean().optional(),
+  scheduleType: z.enum(['cron', 'interval', 'once', 'manual']),
+  cronExpression: z.string().optional(),
+  interval: z.number().int().positive().optional(),
+  scheduledAt: z.iso.datetime({ offset: true }).optional(),
+  input: z.record(z.string(), z.any()).optional(),
+  context: z.record(z.string(), z.any()).optional(),
+  priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+};
+
+const createScheduleSchema = z.object({
+  workflowId: z.string().min(1),
+  ...scheduleFields,
+});
+
+const updateScheduleSchema = z.object(scheduleFields).partial();
+
+/**
+ * Map scheduler error codes to HTTP status
+ */
+function errorStatus(error: WorkflowEngineError): number {
+  if (error.code === 'SCHEDULE_NOT_FOUND') return 404;
+  if (error.code === 'TEMPLATE_NOT_FOUND') return 404;
+  if (error.code === 'SCHEDULE_VALIDATION_FAILED') return 400;
+  if (error.code === 'SCHEDULE_EXPIRED') return 409;
+  return 500;
+}
+
+function sendError(res: Response, error: WorkflowEngineError) {
+  res.status(errorStatus(error)).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Register schedule lookup routes
+ */
+function registerReadRoutes(router: Router, scheduler: WorkflowScheduler) {
+  /**
+   * GET /schedules - List schedules
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    const enabled = req.query.enabled as string | undefined;
+    const result = await scheduler.listSchedules({
+      workflowId: req.query.workflowId as string | undefined,
+      enabled: enabled === undefined ? undefined : enabled === 'true',
+    });
+    if (!result.success) return sendError(res, result.error);
+
+    res.json({
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * GET /schedules/:id - Get schedule
+   */
+  router.get('/:id', async (req: Request, res: Response) => {
+    const result = await scheduler.getSchedule(req.params.id as string);
+    if (!result.success) return sendError(res, result.error);
+
+    res.json({
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    });
+  });
+}
+
+/**
+ * Register schedule create/update/delete routes
+ */
+function registerWriteRoutes(router: Router, scheduler: WorkflowScheduler) {
+  /**
+   * POST /schedules - Create schedule
+   */
+  router.post(
+    '/',
+    validateRequestBody(createScheduleSchema),
+    async (req: Request, res: Response) => {
+      const result = await scheduler.createSchedule(req.body);
+      if (!result.success) return sendError(res, result.error);
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  );
+
+  /**
+   * PUT /schedules/:id - Update schedule
+   */
+  router.put(
+    '/:id',
+    validateRequestBody(updateScheduleSchema),
+    async (req: Request, res: Response) => {
+      const result = await scheduler.updateSchedule(
+        req.params.id as string,
+        req.body
+      );
+      if (!result.success) return sendError(res, result.error);
+
+      res.json({
+        success: true,
+        data: result.data,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  );
+
+  /**
+   * DELETE /schedules/:id - Delete schedule
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    const result = await scheduler.deleteSchedule(req.params.id as string);
+    if (!result.success) return sendError(res, result.error);
+
+    res.json({
+      success: true,
+      data: { deleted: true },
+      timestamp: new Date().toISOString(),
+    });
+  });
+}
+
+/**
+ * Register run now / pause / resume routes
+ */
+function registerControlRoutes(router: Router, scheduler: WorkflowScheduler) {
+  /**
+   * POST /schedules/:id/run - Trigger schedule now
+   */
+  router.post('/:id/run', async (req: Request, res: Response) => {
+    const result = await scheduler.runNow(req.params.id as string);
+    if (!result.success) return sendError(res, result.error);
+
+    res.status(202).json({
+      success: true,
+      data: { executionId: result.data },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * POST /schedules/:id/pause - Pause schedule
+   */
+  router.post('/:id/pause', async (req: Request, res: Response) => {
+    const result = await scheduler.pauseSchedule(req.params.id as string);
+    if (!result.success) return sendError(res, result.error);
+
+    res.json({
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * POST /schedules/:id/resume - Resume paused schedule
+   */
+  router.post('/:id/resume', async (req: Request, res: Response) => {
+    const result = await scheduler.resumeSchedule(req.params.id as string);
+    if (!result.success) return sendError(res, result.error);
+
+    res.json({
+      success: true,
+      data: result.data,
+      timestamp: new Date().toISOString(),
+    });
+  });
+}
+
+/**
+ * Create workflow schedule routes
+ */
+export function createScheduleRoutes(scheduler: WorkflowScheduler): Router {
+  const router = Router();
+
+  registerReadRoutes(router, scheduler);
+  registerWriteRoutes(router, scheduler);
+  registerControlRoutes(router, scheduler);
+
+  return router;
+}
@@ -1,5 +1,57 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateRequestBody } from '../middleware/validation';
 import { RealWorkflowService } from '../services/real-workflow-service';
+import { WorkflowEngineService } from '../services/workflow-engine.service';
+import { WorkflowEngineError } from '../services/workflow/types';
+import { EnhancedWorkflowTemplates } from '../services/workflow-templates/enhanced-workflow-templates';
+import { getTemplateFileJsonSchema } from '../services/workflow/template-file-schema';
+import {
+  TemplateFileFormat,
+  exportEnhancedTemplate,
+  exportWorkflowTemplate,
+  parseTemplateFile,
+} from '../services/workflow/template-file';
+
+const importSchema = z.object({
+  content: z.string().min(1),
+  dryRun: z.boolean().optional(),
+});
+
+const migrateSchema = z.object({
+  toVersion: z.string().min(1),
+  runIds: z.array(z.string()).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+/**
+ * Map versioning error codes to HTTP status
+ */
+function errorStatus(error: WorkflowEngineError): number {
+  if (error.code === 'TEMPLATE_NOT_FOUND') return 404;
+  if (error.code === 'TEMPLATE_VERSION_NOT_FOUND') return 404;
+  if (error.code === 'TEMPLATE_VERSION_EXISTS') return 409;
+  if (error.code === 'TEMPLATE_FILE_INVALID') return 422;
+  return 500;
+}
+
+function sendError(res: Response, error: WorkflowEngineError) {
+  res.status(errorStatus(error)).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    ...(error.details?.issues && { issues: error.details.issues }),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function sendData(res: Response, data: unknown) {
+  res.json({
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  });
+}
 
 /**
  * Handle GET /templates - List all workflow templates
@@ -71,12 +123,190 @@ async function handleGetTemplate(req: Request, res: Response) {
   }
 }
 
+/**
+ * Export an engine template, falling back to the built-in enhanced
+ * templates
+ */
+async function exportTemplateFile(
+  id: string,
+  format: TemplateFileFormat,
+  workflowEngine?: WorkflowEngineService
+): Promise<string | null> {
+  if (workflowEngine?.getWorkflowTemplate) {
+    const result = await workflowEngine.getWorkflowTemplate(id);
+    if (result.success) return exportWorkflowTemplate(result.data, format);
+  }
+
+  const enhanced = EnhancedWorkflowTemplates.getTemplate(id);
+  return enhanced ? exportEnhancedTemplate(enhanced, format) : null;
+}
+
+/**
+ * Register YAML/JSON template file routes
+ */
+function registerFileRoutes(
+  router: Router,
+  workflowEngine?: WorkflowEngineService
+) {
+  /**
+   * GET /templates/schema - JSON Schema of the template file format
+   */
+  router.get('/schema', (req: Request, res: Response) => {
+    res.json(getTemplateFileJsonSchema());
+  });
+
+  /**
+   * POST /templates/import - Validate and import a YAML or JSON template
+   */
+  router.post(
+    '/import',
+    validateRequestBody(importSchema),
+    async (req: Request, res: Response) => {
+      const { content, dryRun } = req.body;
+      const parsed = parseTemplateFile(
+        content,
+        workflowEngine?.getHandlerInfo?.()
+      );
+      if (!parsed.success) return sendError(res, parsed.error);
+      if (dryRun) return sendData(res, parsed.data);
+
+      if (parsed.data.kind === 'enhanced') {
+        EnhancedWorkflowTemplates.registerTemplate(parsed.data.template);
+        return res.status(201).json({
+          success: true,
+          data: parsed.data,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (!workflowEngine?.importTemplate) {
+        return res.status(503).json({
+          success: false,
+          error: 'Workflow engine is not available',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const created = await workflowEngine.importTemplate(parsed.data.template);
+      if (!created.success) return sendError(res, created.error);
+
+      res.status(201).json({
+        success: true,
+        data: { ...parsed.data, template: created.data },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  );
+
+  /**
+   * GET /templates/:id/export?format=yaml|json - Download a template file
+   */
+  router.get('/:id/export', async (req: Request, res: Response) => {
+    const format: TemplateFileFormat =
+      req.query.format === 'json' ? 'json' : 'yaml';
+    const id = req.params.id as string;
+    const content = await exportTemplateFile(id, format, workflowEngine);
+
+    if (content === null) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow template not found',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    res
+      .type(format === 'json' ? 'application/json' : 'application/yaml')
+      .attachment(`${id}.template.${format}`)
+      .send(content);
+  });
+}
+
+/**
+ * Register published version, diff and run migration routes
+ */
+function registerVersionRoutes(
+  router: Router,
+  workflowEngine: WorkflowEngineService
+) {
+  /**
+   * GET /templates/:id/versions - Published versions, newest first
+   */
+  router.get('/:id/versions', async (req: Request, res: Response) => {
+    const result = await workflowEngine.listTemplateVersions(
+      req.params.id as string
+    );
+    if (!result.success) return sendError(res, result.error);
+    sendData(res, result.data);
+  });
+
+  /**
+   * GET /templates/:id/versions/:version - Definition of one version
+   */
+  router.get('/:id/versions/:version', async (req: Request, res: Response) => {
+    const result = await workflowEngine.getTemplateVersion(
+      req.params.id as string,
+      req.params.version as string
+    );
+    if (!result.success) return sendError(res, result.error);
+    sendData(res, result.data);
+  });
+
+  /**
+   * GET /templates/:id/diff?from=&to= - Structural diff of two versions
+   */
+  router.get('/:id/diff', async (req: Request, res: Response) => {
+    const { from, to } = req.query;
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Query parameters "from" and "to" are required',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const result = await workflowEngine.diffTemplateVersions(
+      req.params.id as string,
+      from,
+      to
+    );
+    if (!result.success) return sendError(res, result.error);
+    sendData(res, result.data);
+  });
+
+  /**
+   * POST /templates/:id/migrate - Move unfinished runs to a version
+   */
+  router.post(
+    '/:id/migrate',
+    validateRequestBody(migrateSchema),
+    async (req: Request, res: Response) => {
+      const { toVersion, runIds, dryRun } = req.body;
+      const result = await workflowEngine.migrateExecutions(
+        req.params.id as string,
+        toVersion,
+        { runIds, dryRun }
+      );
+      if (!result.success) return sendError(res, result.error);
+      sendData(res, result.data);
+    }
+  );
+}
+
 /**
  * Create workflow template routes using real workflow service
  */
-export function createTemplateRoutes(): Router {
+export function createTemplateRoutes(
+  workflowEngine?: WorkflowEngineService
+): Router {
   const router = Router();
 
+  registerFileRoutes(router, workflowEngine);
+
+  if (workflowEngine?.listTemplateVersions) {
+    registerVersionRoutes(router, workflowEngine);
+  }
+
   /**
    * GET /templates - List all workflow templates (workflows)
    */
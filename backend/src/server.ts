@@ -18,6 +18,26 @@ import { apiRoutes } from './routes/index';
 
 // Import unified AI chat service for initialization
 import { unifiedAIChatService } from './services/unified-ai-chat.service';
+import { UsageLedgerService } from './services/usage-ledger.service';
+import { createUsageRoutes } from './routes/usage.routes';
+import {
+  ResponseCacheService,
+  responseCacheOptionsFromEnv,
+} from './services/response-cache.service';
+import { createResponseCacheRoutes } from './routes/response-cache.routes';
+import { MCPServer } from './mcp/mcp-server';
+import { MCPHttpSessions, mcpHttpOptionsFromEnv } from './mcp/mcp-http';
+import { createMCPRoutes } from './routes/mcp.routes';
+import {
+  MCPClientRegistry,
+  mcpClientRegistryOptionsFromEnv,
+} from './mcp/mcp-client-registry';
+import { createMCPServerRoutes } from './routes/mcp-servers.routes';
+import { requireAdminApiKey } from './middleware/api-key-auth';
+
+// Import workflow engine for run recovery, scheduling and API routes
+import { WorkflowEngineService } from './services/workflow-engine.service';
+import { createWorkflowRoutes } from './routes/workflow-main.routes';
 
 const app = express();
 const PORT = process.env.PORT || 3002;
@@ -115,6 +135,20 @@ const documentProcessor = new DocumentProcessor(
 const taskService = new RealTaskService();
 const integrationService = new RealIntegrationService();
 const workflowService = new RealWorkflowService();
+const prisma = new PrismaClient();
+const workflowEngine = new WorkflowEngineService(prisma);
+const usageLedger = new UsageLedgerService(prisma);
+const responseCache = new ResponseCacheService(responseCacheOptionsFromEnv());
+const mcpServer = new MCPServer(prisma);
+const mcpSessions = new MCPHttpSessions(
+  () => mcpServer.createProtocolServer(),
+  mcpHttpOptionsFromEnv()
+);
+const mcpClients = new MCPClientRegistry(
+  prisma,
+  mcpServer,
+  mcpClientRegistryOptionsFromEnv()
+);
 
 // Configure API Routes
 apiRoutes.forEach(route => {
@@ -122,6 +156,25 @@ apiRoutes.forEach(route => {
   console.log(`✅ Configured API route: ${route.path}`);
 });
 
+// Workflow engine routes (templates, executions, schedules)
+app.use('/api/workflow', createWorkflowRoutes(prisma, workflowEngine));
+
+// AI usage ledger and spending budgets
+app.use('/api/usage', createUsageRoutes(usageLedger));
+
+// Response cache metrics and invalidation
+app.use('/api/ai/cache', createResponseCacheRoutes(responseCache));
+
+// External MCP servers whose tools agents can call
+app.use(
+  '/api/mcp/servers',
+  requireAdminApiKey(mcpSessions),
+  createMCPServerRoutes(mcpClients)
+);
+
+// MCP tools, resources and prompts for remote clients (streamable HTTP)
+app.use('/api/mcp', createMCPRoutes(mcpSessions));
+
 /**
  * Health check endpoint
  */
@@ -684,7 +737,6 @@ async function startServer() {
 
     // Initialize Provider Configuration Service
     console.log('⚙️ Initializing Provider Configuration...');
-    const prisma = new PrismaClient();
     const { ProviderConfigService } = await import(
       './services/provider-config.service'
     );
@@ -692,8 +744,39 @@ async function startServer() {
     await providerConfigService.initializeDefaultConfigs();
     console.log('✅ Provider Configuration initialized with defaults');
 
-    // Initialize AI chat service
+    // Initialize AI chat service; agent chats may call the MCP tools
     console.log('🤖 Initializing AI Chat Service...');
+    const { AgentToolLoop } = await import(
+      './services/agent-tool-loop.service'
+    );
+    unifiedAIChatService.configureTools(new AgentToolLoop(mcpServer));
+    const mcpClientsResult = await mcpClients.initialize();
+    if (mcpClientsResult.success) {
+      console.log(
+        `✅ Loaded ${mcpClientsResult.data.length} external MCP server(s)`
+      );
+    } else {
+      console.error(
+        '❌ Failed to load external MCP servers:',
+        mcpClientsResult.error
+      );
+    }
+    unifiedAIChatService.configureUsageLedger(usageLedger);
+    unifiedAIChatService.configureResponseCache(responseCache);
+    if (process.env.LOCAL_LLM_EMBEDDING_MODEL) {
+      const { LocalProvider } = await import('./providers/local.provider');
+      responseCache.configureEmbeddings(new LocalProvider());
+    }
+    const { agentModelAssignmentService } = await import(
+      './services/agent-model-assignment.service'
+    );
+    agentModelAssignmentService.configurePersistence(prisma);
+    const { providerRegistry } = await import(
+      './services/provider-registry.service'
+    );
+    providerRegistry.onCircuitStateChange(change =>
+      webSocketService.sendProviderCircuitState(change)
+    );
     const initResult = await unifiedAIChatService.initialize();
     if (!initResult.success) {
       console.error(
@@ -705,6 +788,37 @@ async function startServer() {
       console.log('✅ AI Chat Service initialized successfully');
     }
 
+    // Resume workflow runs interrupted by a previous shutdown or crash
+    console.log('🔁 Recovering interrupted workflow runs...');
+    const recoveryResult = await workflowEngine.recoverInterruptedExecutions();
+    if (recoveryResult.success) {
+      console.log(
+        `✅ Resumed ${recoveryResult.data.recoveredRuns.length} workflow run(s), ${recoveryResult.data.interruptedSteps} interrupted step(s)`
+      );
+    } else {
+      console.error(
+        '❌ Failed to recover workflow runs:',
+        recoveryResult.error.message
+      );
+    }
+
+    // Persist registered workflow handler schemas for discovery
+    const handlerSync = await workflowEngine.syncHandlerCatalog();
+    if (handlerSync.success) {
+      console.log(
+        `✅ Synced ${handlerSync.data} workflow handler definition(s)`
+      );
+    } else {
+      console.error(
+        '❌ Failed to sync workflow handlers:',
+        handlerSync.error.message
+      );
+    }
+
+    // Fire due workflow schedules (cron, interval, one-time)
+    workflowEngine.startScheduler();
+    console.log('⏰ Workflow scheduler started');
+
     const server = app.listen(PORT, () => {
       console.log('='.repeat(80));
       console.log('🚀 THINKCODE AI BACKEND SERVER STARTED');
@@ -745,6 +859,9 @@ async function startServer() {
     // Graceful shutdown
     process.on('SIGTERM', () => {
       console.log('SIGTERM received, shutting down gracefully');
+      workflowEngine.getScheduler().stop();
+      void mcpSessions.close();
+      void mcpClients.close();
       server.close(() => {
         console.log('Server closed');
         process.exit(0);
@@ -753,6 +870,9 @@ async function startServer() {
 
     process.on('SIGINT', () => {
       console.log('\nSIGINT received, shutting down gracefully');
+      workflowEngine.getScheduler().stop();
+      void mcpSessions.close();
+      void mcpClients.close();
       server.close(() => {
         console.log('Server closed');
         process.exit(0);
@@ -3,18 +3,40 @@
  * Database-backed service for managing AI model assignments to agents
  */
 
+import { PrismaClient } from '@prisma/client';
 import {
   AgentModelAssignment,
+  AgentModelAssignmentChange,
   AgentModelAssignmentEntity,
   ModelSpecialization,
   Result,
 } from '../types/ai-provider.types';
 import { providerRegistry } from './provider-registry.service';
 
+type AssignmentRow = Pick<
+  AgentModelAssignmentEntity,
+  | 'agentType'
+  | 'primaryProvider'
+  | 'primaryModel'
+  | 'fallbackProviders'
+  | 'specializedConfigs'
+>;
+
 export class AgentModelAssignmentService {
   private assignments: Map<string, AgentModelAssignment> = new Map();
+  /** Project overrides keyed by `${projectId}:${agentType}` */
+  private projectOverrides: Map<string, AgentModelAssignment> = new Map();
+  private prisma?: PrismaClient;
   private initialized = false;
 
+  /**
+   * Store assignments, project overrides and their history in the
+   * database; without it changes are lost on restart
+   */
+  configurePersistence(prisma: PrismaClient): void {
+    this.prisma = prisma;
+  }
+
   /**
    * Initialize service with optimal assignments based on your recommendations
    */
@@ -124,8 +146,8 @@ export class AgentModelAssignmentService {
         this.assignments.set(assignment.agentType, assignment);
       }
 
-      // TODO: In production, load from database
-      // await this.loadFromDatabase();
+      // Stored assignments replace the defaults above
+      await this.loadFromDatabase();
 
       this.initialized = true;
       console.log(
@@ -146,38 +168,29 @@ export class AgentModelAssignmentService {
   }
 
   /**
-   * Get model assignment for specific agent
+   * Get model assignment for specific agent; a project override takes
+   * precedence over the global assignment
    */
   async getAssignmentForAgent(
-    agentType: string
+    agentType: string,
+    projectId?: string
   ): Promise<Result<AgentModelAssignment>> {
     try {
       if (!this.initialized) {
         await this.initialize();
       }
 
-      const assignment = this.assignments.get(agentType);
-
-      if (!assignment) {
-        // Return default assignment
-        return {
-          success: true,
-          data: {
-            agentType,
-            primaryProvider: 'azure-openai',
-            primaryModel: 'gpt-4o',
-            fallbackProviders: [
-              {
-                provider: 'anthropic-claude',
-                model: 'claude-3-5-sonnet-20241022',
-                priority: 1,
-              },
-            ],
-          },
-        };
-      }
+      // Fall back to a default assignment for unknown agent types
+      const assignment =
+        this.assignments.get(agentType) || defaultAssignment(agentType);
+      const override = projectId
+        ? this.projectOverrides.get(overrideKey(projectId, agentType))
+        : undefined;
 
-      return { success: true, data: assignment };
+      return {
+        success: true,
+        data: override ? applyOverride(assignment, override) : assignment,
+      };
     } catch (error) {
       return {
         success: false,
@@ -195,7 +208,8 @@ export class AgentModelAssignmentService {
    */
   async updateAssignment(
     agentType: string,
-    assignment: AgentModelAssignment
+    assignment: AgentModelAssignment,
+    changedBy?: string
   ): Promise<Result<boolean>> {
     try {
       if (!this.initialized) {
@@ -203,25 +217,20 @@ export class AgentModelAssignmentService {
       }
 
       // Validate that providers and models exist
-      const providerResult = await providerRegistry.getProvider(
-        assignment.primaryProvider
-      );
-      if (!providerResult.success) {
-        return {
-          success: false,
-          error: {
-            code: 'INVALID_PROVIDER',
-            message: `Primary provider ${assignment.primaryProvider} not found`,
-            details: providerResult.error,
-          },
-        };
+      const validation = await this.validatePrimaryProvider(assignment);
+      if (!validation.success) {
+        return validation;
       }
 
-      // Update in memory
-      this.assignments.set(agentType, assignment);
+      const next = { ...assignment, agentType };
+      await this.saveToDatabase(
+        next,
+        this.assignments.get(agentType),
+        changedBy
+      );
 
-      // TODO: Save to database
-      // await this.saveToDatabase(assignment);
+      // Update in memory
+      this.assignments.set(agentType, next);
 
       console.log(
         `✅ Updated assignment for ${agentType}: ${assignment.primaryProvider}/${assignment.primaryModel}`
@@ -240,6 +249,169 @@ export class AgentModelAssignmentService {
     }
   }
 
+  /**
+   * Pin an agent to a different model within one project; fallbacks left
+   * empty are inherited from the global assignment
+   */
+  async setProjectOverride(
+    projectId: string,
+    agentType: string,
+    assignment: AgentModelAssignment,
+    changedBy?: string
+  ): Promise<Result<AgentModelAssignment>> {
+    try {
+      if (!this.initialized) {
+        await this.initialize();
+      }
+
+      const validation = await this.validatePrimaryProvider(assignment);
+      if (!validation.success) {
+        return validation;
+      }
+
+      const key = overrideKey(projectId, agentType);
+      const next = { ...assignment, agentType };
+      await this.saveOverrideToDatabase(
+        projectId,
+        next,
+        this.projectOverrides.get(key),
+        changedBy
+      );
+      this.projectOverrides.set(key, next);
+
+      console.log(
+        `✅ Project ${projectId} pins ${agentType} to ${next.primaryProvider}/${next.primaryModel}`
+      );
+
+      return { success: true, data: next };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'PROJECT_OVERRIDE_ERROR',
+          message: `Failed to override assignment for ${agentType} in project ${projectId}`,
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Remove a project override; the global assignment applies again
+   */
+  async removeProjectOverride(
+    projectId: string,
+    agentType: string,
+    changedBy?: string
+  ): Promise<Result<boolean>> {
+    try {
+      if (!this.initialized) {
+        await this.initialize();
+      }
+
+      const key = overrideKey(projectId, agentType);
+      const previous = this.projectOverrides.get(key);
+      if (!previous) {
+        return { success: true, data: false };
+      }
+
+      if (this.prisma) {
+        await this.prisma.$transaction([
+          this.prisma.projectAgentModelAssignment.deleteMany({
+            where: { projectId, agentType },
+          }),
+          this.prisma.agentModelAssignmentChange.create({
+            data: {
+              agentType,
+              projectId,
+              action: 'remove-override',
+              previous: JSON.stringify(previous),
+              changedBy,
+            },
+          }),
+        ]);
+      }
+      this.projectOverrides.delete(key);
+
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'PROJECT_OVERRIDE_REMOVE_ERROR',
+          message: `Failed to remove override for ${agentType} in project ${projectId}`,
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Overrides configured for a project
+   */
+  async getProjectOverrides(
+    projectId: string
+  ): Promise<Result<AgentModelAssignment[]>> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const prefix = overrideKey(projectId, '');
+    const overrides = Array.from(this.projectOverrides.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, override]) => override);
+
+    return { success: true, data: overrides };
+  }
+
+  /**
+   * Audit history of assignment changes, newest first
+   */
+  async getAssignmentHistory(
+    filter: { agentType?: string; projectId?: string; limit?: number } = {}
+  ): Promise<Result<AgentModelAssignmentChange[]>> {
+    if (!this.prisma) {
+      return {
+        success: false,
+        error: {
+          code: 'ASSIGNMENT_PERSISTENCE_DISABLED',
+          message: 'Assignment history requires database persistence',
+        },
+      };
+    }
+
+    try {
+      const rows = await this.prisma.agentModelAssignmentChange.findMany({
+        where: { agentType: filter.agentType, projectId: filter.projectId },
+        orderBy: { createdAt: 'desc' },
+        take: filter.limit || 100,
+      });
+
+      return {
+        success: true,
+        data: rows.map(row => ({
+          id: row.id,
+          agentType: row.agentType,
+          projectId: row.projectId || undefined,
+          action: row.action as AgentModelAssignmentChange['action'],
+          previous: row.previous ? JSON.parse(row.previous) : undefined,
+          next: row.next ? JSON.parse(row.next) : undefined,
+          changedBy: row.changedBy || undefined,
+          createdAt: row.createdAt,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'ASSIGNMENT_HISTORY_ERROR',
+          message: 'Failed to load assignment history',
+          details: error,
+        },
+      };
+    }
+  }
+
   /**
    * Get all assignments
    */
@@ -268,10 +440,14 @@ export class AgentModelAssignmentService {
    */
   async getOptimalProviderForTask(
     agentType: string,
-    taskType: 'general' | 'codeReview' | 'systemDesign' = 'general'
+    taskType: 'general' | 'codeReview' | 'systemDesign' = 'general',
+    projectId?: string
   ): Promise<Result<{ provider: string; model: string }>> {
     try {
-      const assignmentResult = await this.getAssignmentForAgent(agentType);
+      const assignmentResult = await this.getAssignmentForAgent(
+        agentType,
+        projectId
+      );
 
       if (!assignmentResult.success) {
         return assignmentResult as any;
@@ -317,16 +493,20 @@ export class AgentModelAssignmentService {
    * Get fallback providers in priority order
    */
   async getFallbackProvidersForAgent(
-    agentType: string
+    agentType: string,
+    projectId?: string
   ): Promise<Result<Array<{ provider: string; model: string }>>> {
     try {
-      const assignmentResult = await this.getAssignmentForAgent(agentType);
+      const assignmentResult = await this.getAssignmentForAgent(
+        agentType,
+        projectId
+      );
 
       if (!assignmentResult.success) {
         return assignmentResult as any;
       }
 
-      const fallbacks = assignmentResult.data.fallbackProviders
+      const fallbacks = [...assignmentResult.data.fallbackProviders]
         .sort((a, b) => a.priority - b.priority)
         .map(f => ({ provider: f.provider, model: f.model }));
 
@@ -393,20 +573,180 @@ export class AgentModelAssignmentService {
     }
   }
 
+  private async validatePrimaryProvider(
+    assignment: AgentModelAssignment
+  ): Promise<Result<boolean>> {
+    const providerResult = await providerRegistry.getProvider(
+      assignment.primaryProvider
+    );
+    if (!providerResult.success) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_PROVIDER',
+          message: `Primary provider ${assignment.primaryProvider} not found`,
+          details: providerResult.error,
+        },
+      };
+    }
+    return { success: true, data: true };
+  }
+
   /**
-   * TODO: Database persistence methods
+   * Load stored assignments and project overrides; a database that cannot
+   * be read leaves the defaults in place
    */
   private async loadFromDatabase(): Promise<void> {
-    // Implementation for loading from database
-    // This would use Prisma or your chosen ORM
+    if (!this.prisma) {
+      return;
+    }
+
+    try {
+      const [assignments, overrides] = await Promise.all([
+        this.prisma.agentModelAssignment.findMany({
+          where: { isActive: true },
+        }),
+        this.prisma.projectAgentModelAssignment.findMany(),
+      ]);
+
+      for (const row of assignments) {
+        this.assignments.set(row.agentType, fromRow(row));
+      }
+      this.projectOverrides.clear();
+      for (const row of overrides) {
+        this.projectOverrides.set(
+          overrideKey(row.projectId, row.agentType),
+          fromRow(row)
+        );
+      }
+
+      console.log(
+        `✅ Loaded ${assignments.length} stored agent assignments and ${overrides.length} project overrides`
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to load stored agent assignments:', error);
+    }
   }
 
   private async saveToDatabase(
-    assignment: AgentModelAssignment
+    assignment: AgentModelAssignment,
+    previous?: AgentModelAssignment,
+    changedBy?: string
   ): Promise<void> {
-    // Implementation for saving to database
-    // This would use Prisma or your chosen ORM
+    if (!this.prisma) {
+      return;
+    }
+
+    const fields = toRow(assignment);
+    await this.prisma.$transaction([
+      this.prisma.agentModelAssignment.upsert({
+        where: { agentType: assignment.agentType },
+        create: fields,
+        update: { ...fields, isActive: true },
+      }),
+      this.prisma.agentModelAssignmentChange.create({
+        data: {
+          agentType: assignment.agentType,
+          action: 'update',
+          previous: previous ? JSON.stringify(previous) : null,
+          next: JSON.stringify(assignment),
+          changedBy,
+        },
+      }),
+    ]);
   }
+
+  private async saveOverrideToDatabase(
+    projectId: string,
+    assignment: AgentModelAssignment,
+    previous?: AgentModelAssignment,
+    changedBy?: string
+  ): Promise<void> {
+    if (!this.prisma) {
+      return;
+    }
+
+    const fields = toRow(assignment);
+    await this.prisma.$transaction([
+      this.prisma.projectAgentModelAssignment.upsert({
+        where: {
+          projectId_agentType: { projectId, agentType: assignment.agentType },
+        },
+        create: { ...fields, projectId },
+        update: fields,
+      }),
+      this.prisma.agentModelAssignmentChange.create({
+        data: {
+          agentType: assignment.agentType,
+          projectId,
+          action: 'override',
+          previous: previous ? JSON.stringify(previous) : null,
+          next: JSON.stringify(assignment),
+          changedBy,
+        },
+      }),
+    ]);
+  }
+}
+
+function defaultAssignment(agentType: string): AgentModelAssignment {
+  return {
+    agentType,
+    primaryProvider: 'azure-openai',
+    primaryModel: 'gpt-4o',
+    fallbackProviders: [
+      {
+        provider: 'anthropic-claude',
+        model: 'claude-3-5-sonnet-20241022',
+        priority: 1,
+      },
+    ],
+  };
+}
+
+function overrideKey(projectId: string, agentType: string): string {
+  return `${projectId}:${agentType}`;
+}
+
+/**
+ * Project override on top of the global assignment; specialized configs
+ * are not inherited so a pinned model also serves specialized tasks
+ */
+function applyOverride(
+  assignment: AgentModelAssignment,
+  override: AgentModelAssignment
+): AgentModelAssignment {
+  return {
+    ...override,
+    fallbackProviders:
+      override.fallbackProviders.length > 0
+        ? override.fallbackProviders
+        : assignment.fallbackProviders,
+  };
+}
+
+function toRow(assignment: AgentModelAssignment): AssignmentRow {
+  return {
+    agentType: assignment.agentType,
+    primaryProvider: assignment.primaryProvider,
+    primaryModel: assignment.primaryModel,
+    fallbackProviders: JSON.stringify(assignment.fallbackProviders),
+    specializedConfigs: assignment.specializedConfigs
+      ? JSON.stringify(assignment.specializedConfigs)
+      : null,
+  };
+}
+
+function fromRow(row: AssignmentRow): AgentModelAssignment {
+  return {
+    agentType: row.agentType,
+    primaryProvider: row.primaryProvider,
+    primaryModel: row.primaryModel,
+    fallbackProviders: JSON.parse(row.fallbackProviders),
+    ...(row.specializedConfigs && {
+      specializedConfigs: JSON.parse(row.specializedConfigs),
+    }),
+  };
 }
 
 export const agentModelAssignmentService = new AgentModelAssignmentService();
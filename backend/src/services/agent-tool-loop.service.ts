@@ -0,0 +1,197 @@
+/**
+ * Agent Tool Loop
+ * Runs provider-native tool calling against MCP tools: the model is offered
+ * the tools its agent type may use, requested calls are executed and their
+ * results fed back until the model answers in text
+ */
+
+import {
+  AgentToolConfig,
+  AgentToolsRegistry,
+} from '../agents/agent-tools-registry';
+import { CopilotTool, MCPServer, ToolResult } from '../mcp/mcp-server';
+import {
+  AIProvider,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  Result,
+  ToolCall,
+  ToolDefinition,
+} from '../types/ai-provider.types';
+
+export type ToolSource = Pick<MCPServer, 'getToolsForAgent' | 'executeTool'>;
+
+/** Model turns that may request tools before an answer is forced */
+const MAX_TOOL_TURNS = 5;
+
+export class AgentToolLoop {
+  constructor(private readonly toolSource: ToolSource) {}
+
+  /**
+   * Tools the agent type may call: registered for the agent and granted
+   * every permission the tool declares in AgentToolsRegistry
+   */
+  getToolsForAgent(agentType: string): CopilotTool[] {
+    return this.toolSource
+      .getToolsForAgent(agentType)
+      .filter(tool =>
+        tool.permissions.every(
+          permission =>
+            AgentToolsRegistry.validateToolUsage(
+              agentType,
+              tool.name,
+              permission.type
+            ).success
+        )
+      );
+  }
+
+  /**
+   * Chat with tool calling; agents without tools get a plain chat
+   */
+  async run(
+    provider: AIProvider,
+    request: ChatRequest,
+    agentType: string
+  ): Promise<Result<ChatResponse>> {
+    const tools = this.getToolsForAgent(agentType);
+    if (tools.length === 0 || request.toolChoice === 'none') {
+      return provider.chat(request);
+    }
+
+    const definitions: ToolDefinition[] = tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+    }));
+    const messages = [...request.messages];
+    const toolsUsed: string[] = [];
+    const usage = {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+    };
+
+    for (let turn = 0; ; turn++) {
+      const result = await provider.chat({
+        ...request,
+        messages: [...messages],
+        tools: definitions,
+        toolChoice: turn < MAX_TOOL_TURNS ? request.toolChoice : 'none',
+      });
+      if (!result.success) {
+        return result;
+      }
+
+      usage.promptTokens += result.data.usage?.promptTokens || 0;
+      usage.completionTokens += result.data.usage?.completionTokens || 0;
+      usage.totalTokens += result.data.usage?.totalTokens || 0;
+      usage.cost += result.data.usage?.cost || 0;
+
+      const toolCalls = result.data.toolCalls || [];
+      if (toolCalls.length === 0 || turn >= MAX_TOOL_TURNS) {
+        return {
+          success: true,
+          data: {
+            ...result.data,
+            usage: toolsUsed.length > 0 ? usage : result.data.usage,
+            metadata: { ...result.data.metadata, toolsUsed },
+          },
+        };
+      }
+
+      messages.push(
+        { role: 'assistant', content: result.data.content, toolCalls },
+        ...(await this.executeToolCalls(toolCalls, agentType, request))
+      );
+      toolsUsed.push(...toolCalls.map(call => call.name));
+    }
+  }
+
+  /**
+   * Execute one turn's calls, at most maxConcurrentTools at a time; results
+   * keep the order of the calls
+   */
+  private async executeToolCalls(
+    toolCalls: ToolCall[],
+    agentType: string,
+    request: ChatRequest
+  ): Promise<ChatMessage[]> {
+    const config = AgentToolsRegistry.getToolConfig(agentType);
+    const allowed = new Set(
+      this.getToolsForAgent(agentType).map(tool => tool.name)
+    );
+    const results: ChatMessage[] = new Array(toolCalls.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < toolCalls.length) {
+        const index = next++;
+        const call = toolCalls[index];
+        const result = allowed.has(call.name)
+          ? await this.executeWithTimeout(call, agentType, request, config)
+          : {
+              success: false,
+              error: `Tool ${call.name} is not available for agent ${agentType}`,
+            };
+        results[index] = {
+          role: 'tool',
+          toolCallId: call.id,
+          content: this.formatToolResult(result),
+        };
+      }
+    };
+
+    const workers = Math.min(config?.maxConcurrentTools || 1, toolCalls.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+  }
+
+  private async executeWithTimeout(
+    call: ToolCall,
+    agentType: string,
+    request: ChatRequest,
+    config?: AgentToolConfig
+  ): Promise<ToolResult> {
+    const timeout = config?.toolTimeout;
+    const execution = this.toolSource.executeTool(call.name, call.arguments, {
+      agentId: agentType,
+      projectId: request.context?.projectId,
+      sessionId: request.context?.conversationId,
+    });
+    if (!timeout) {
+      return execution;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<ToolResult>(resolve => {
+      timer = setTimeout(
+        () =>
+          resolve({
+            success: false,
+            error: `Tool ${call.name} timed out after ${timeout}ms`,
+          }),
+        timeout
+      );
+    });
+
+    try {
+      return await Promise.race([execution, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private formatToolResult(result: ToolResult): string {
+    if (!result.success) {
+      return `Error: ${result.error || 'Tool execution failed'}`;
+    }
+
+    const text = result.content
+      ?.flatMap(item => (item.type === 'text' ? [item.text] : []))
+      .join('\n');
+    return text || JSON.stringify(result.data ?? null);
+  }
+}
@@ -15,11 +15,18 @@ import {
   ChatResponse,
   ChatConfig,
   IChatSessionManager,
+  ProcessMessageOptions,
 } from './types/chat-integration.types';
 
 import { ChatSessionManager } from './managers/chat-session.manager';
 import { Result, ServiceError, createServiceError } from '../utils/result';
 
+interface GeneratedText {
+  text: string;
+  provider: string;
+  tokensUsed: number;
+}
+
 /**
  * Main Chat Integration Service - Refactored Architecture
  */
@@ -132,7 +139,8 @@ export class ChatIntegrationService {
    * Process chat message
    */
   async processMessage(
-    request: ChatRequest
+    request: ChatRequest,
+    options: ProcessMessageOptions = {}
   ): Promise<Result<ChatResponse, ServiceError>> {
     try {
       // Get or validate session
@@ -150,27 +158,6 @@ export class ChatIntegrationService {
 
       const session = sessionResult.data;
 
-      // Get provider
-      const providerName =
-        request.provider ||
-        session.activeProviders[0] ||
-        this.config.defaultProvider;
-      const provider = this.providers.get(providerName);
-
-      if (!provider) {
-        return {
-          success: false,
-          error: createServiceError(
-            'PROVIDER_NOT_FOUND',
-            `Provider ${providerName} nie jest dostępny`,
-            {
-              provider: providerName,
-              availableProviders: Array.from(this.providers.keys()),
-            }
-          ),
-        };
-      }
-
       // Build context if needed
       let contextMessages: any[] = [];
       if (
@@ -183,46 +170,21 @@ export class ChatIntegrationService {
         );
       }
 
-      // Prepare generation prompt
-      let prompt = request.message;
-      if (contextMessages.length > 0) {
-        const contextText = contextMessages
-          .map((msg: any) => `${msg.role}: ${msg.content}`)
-          .join('\n');
-        prompt = `${contextText}\n\nuser: ${request.message}`;
-      }
-
-      const generationOptions = {
-        temperature: request.settings?.temperature || 0.7,
-        maxTokens: request.settings?.maxTokens || 4000,
-        ...request.settings,
-      };
-
       // Generate response
-      const generationResult = await provider.generateText(
-        prompt,
-        generationOptions
-      );
+      const generationResult = options.onDelta
+        ? await this.streamText(request, contextMessages, options.onDelta)
+        : await this.generateText(request, session, contextMessages);
 
       if (!generationResult.success) {
-        return {
-          success: false,
-          error: createServiceError(
-            'GENERATION_ERROR',
-            `Nie udało się wygenerować odpowiedzi: ${
-              generationResult.error?.message || 'Nieznany błąd'
-            }`,
-            { provider: providerName, originalError: generationResult.error }
-          ),
-        };
+        return generationResult;
       }
 
       // Create response
       const response: ChatResponse = {
         messageId: this.generateMessageId(),
         sessionId: request.sessionId,
-        content: generationResult.data.text || '',
-        provider: providerName,
+        content: generationResult.data.text,
+        provider: generationResult.data.provider,
         agentId: request.agentId,
         toolsUsed: [], // No tools used for basic generation
         contextUsed:
@@ -230,8 +192,9 @@ export class ChatIntegrationService {
             ? { messagesCount: contextMessages.length }
             : undefined,
         metadata: {
-          tokensUsed: generationResult.data.usage?.totalTokens || 0,
+          tokensUsed: generationResult.data.tokensUsed,
           processingTime: 0, // Not available from provider
+          streamed: Boolean(options.onDelta),
         },
         timestamp: new Date(),
       };
@@ -269,6 +232,138 @@ export class ChatIntegrationService {
     }
   }
 
+  /**
+   * Generate the whole reply with the session's ML provider
+   */
+  private async generateText(
+    request: ChatRequest,
+    session: ChatSession,
+    contextMessages: any[]
+  ): Promise<Result<GeneratedText, ServiceError>> {
+    const providerName =
+      request.provider ||
+      session.activeProviders[0] ||
+      this.config.defaultProvider;
+    const provider = this.providers.get(providerName);
+
+    if (!provider) {
+      return {
+        success: false,
+        error: createServiceError(
+          'PROVIDER_NOT_FOUND',
+          `Provider ${providerName} nie jest dostępny`,
+          {
+            provider: providerName,
+            availableProviders: Array.from(this.providers.keys()),
+          }
+        ),
+      };
+    }
+
+    // Prepare generation prompt
+    let prompt = request.message;
+    if (contextMessages.length > 0) {
+      const contextText = contextMessages
+        .map((msg: any) => `${msg.role}: ${msg.content}`)
+        .join('\n');
+      prompt = `${contextText}\n\nuser: ${request.message}`;
+    }
+
+    const generationOptions = {
+      temperature: request.settings?.temperature || 0.7,
+      maxTokens: request.settings?.maxTokens || 4000,
+      ...request.settings,
+    };
+
+    const generationResult = await provider.generateText(
+      prompt,
+      generationOptions
+    );
+
+    if (!generationResult.success) {
+      return {
+        success: false,
+        error: createServiceError(
+          'GENERATION_ERROR',
+          `Nie udało się wygenerować odpowiedzi: ${
+            generationResult.error?.message || 'Nieznany błąd'
+          }`,
+          { provider: providerName, originalError: generationResult.error }
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        text: generationResult.data.text || '',
+        provider: providerName,
+        tokensUsed: generationResult.data.usage?.totalTokens || 0,
+      },
+    };
+  }
+
+  /**
+   * Stream the reply through the unified AI chat service, which routes
+   * the request and falls back between providers before the first token
+   */
+  private async streamText(
+    request: ChatRequest,
+    contextMessages: any[],
+    onDelta: (content: string) => void
+  ): Promise<Result<GeneratedText, ServiceError>> {
+    const stream = unifiedAIChatService.chatStream({
+      messages: [
+        ...contextMessages.map((msg: any) => ({
+          role: msg.role,
+          content: msg.content,
+        })),
+        { role: 'user', content: request.message },
+      ],
+      temperature: request.settings?.temperature || 0.7,
+      maxTokens: request.settings?.maxTokens || 4000,
+      context: request.agentId
+        ? {
+            agentType: request.agentId,
+            taskType: 'general',
+            conversationId: request.sessionId,
+          }
+        : undefined,
+    });
+
+    for await (const event of stream) {
+      if (event.type === 'delta') {
+        onDelta(event.content);
+      } else if (event.type === 'done') {
+        return {
+          success: true,
+          data: {
+            text: event.response.content,
+            provider: event.response.provider,
+            tokensUsed: event.response.usage?.totalTokens || 0,
+          },
+        };
+      } else {
+        return {
+          success: false,
+          error: createServiceError(
+            'GENERATION_ERROR',
+            `Nie udało się wygenerować odpowiedzi: ${event.error.message}`,
+            { provider: event.error.provider, originalError: event.error }
+          ),
+        };
+      }
+    }
+
+    return {
+      success: false,
+      error: createServiceError(
+        'GENERATION_ERROR',
+        'Strumień odpowiedzi zakończył się bez odpowiedzi'
+      ),
+    };
+  }
+
   /**
    * List user sessions
    */
@@ -0,0 +1,393 @@
+/**
+ * Provider Circuit Breaker
+ * Per provider/model breakers that open on a high error rate or slow
+ * responses, fail calls fast while open and let one trial call through
+ * (half-open) once the cool-down has passed
+ */
+
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  ProviderConfig,
+  Result,
+  ServiceError,
+} from '../types/ai-provider.types';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Share of failed calls in the window that opens the circuit */
+  failureRateThreshold: number;
+  /** Calls slower than this count as slow (ms) */
+  slowCallThresholdMs: number;
+  /** Share of slow calls in the window that opens the circuit */
+  slowCallRateThreshold: number;
+  /** Calls needed in the window before the rates are evaluated */
+  minimumCalls: number;
+  /** Number of most recent calls the rates are computed over */
+  windowSize: number;
+  /** How long an open circuit rejects calls before a trial call (ms) */
+  openDurationMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  calls: number;
+  failureRate: number;
+  slowCallRate: number;
+  averageLatencyMs: number;
+  openedAt?: number;
+  retryAt?: number;
+}
+
+export interface CircuitStateChange {
+  provider: string;
+  model: string;
+  from: CircuitState;
+  to: CircuitState;
+  status: CircuitBreakerStatus;
+  timestamp: string;
+}
+
+interface CallOutcome {
+  failed: boolean;
+  latencyMs: number;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  slowCallThresholdMs: 20000,
+  slowCallRateThreshold: 0.5,
+  minimumCalls: 5,
+  windowSize: 20,
+  openDurationMs: 30000,
+};
+
+/**
+ * Errors raised in front of the provider say nothing about its health
+ */
+const IGNORED_ERROR_CODES = ['RATE_LIMITED', 'CIRCUIT_OPEN'];
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: CallOutcome[] = [];
+  private openedAt?: number;
+  private trialInFlight = false;
+  private readonly options: CircuitBreakerOptions;
+
+  constructor(
+    options: Partial<CircuitBreakerOptions> = {},
+    private readonly onStateChange?: (
+      from: CircuitState,
+      to: CircuitState
+    ) => void,
+    private readonly now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether a call would be let through right now, without reserving
+   * the half-open trial slot
+   */
+  isCallPermitted(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return this.coolDownElapsed();
+      case 'half-open':
+        return !this.trialInFlight;
+    }
+  }
+
+  /**
+   * Admit one call; an open circuit past its cool-down turns half-open
+   * and admits a single trial call
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && this.coolDownElapsed()) {
+      this.transition('half-open');
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.record({ failed: false, latencyMs });
+  }
+
+  recordFailure(latencyMs: number): void {
+    this.record({ failed: true, latencyMs });
+  }
+
+  /**
+   * End an admitted call whose outcome says nothing about the provider
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const calls = this.outcomes.length;
+    return {
+      state: this.state,
+      calls,
+      failureRate: this.rate(outcome => outcome.failed),
+      slowCallRate: this.rate(outcome => this.isSlow(outcome)),
+      averageLatencyMs: calls
+        ? Math.round(
+            this.outcomes.reduce((sum, outcome) => sum + outcome.latencyMs, 0) /
+              calls
+          )
+        : 0,
+      ...(this.openedAt !== undefined && {
+        openedAt: this.openedAt,
+        retryAt: this.openedAt + this.options.openDurationMs,
+      }),
+    };
+  }
+
+  private record(outcome: CallOutcome): void {
+    if (this.state === 'half-open') {
+      this.trialInFlight = false;
+      if (outcome.failed || this.isSlow(outcome)) {
+        this.open();
+      } else {
+        this.outcomes = [];
+        this.openedAt = undefined;
+        this.transition('closed');
+      }
+      return;
+    }
+
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+
+    if (
+      this.state === 'closed' &&
+      this.outcomes.length >= this.options.minimumCalls &&
+      (this.rate(o => o.failed) >= this.options.failureRateThreshold ||
+        this.rate(o => this.isSlow(o)) >= this.options.slowCallRateThreshold)
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = this.now();
+    this.transition('open');
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    if (from !== to) {
+      this.onStateChange?.(from, to);
+    }
+  }
+
+  private coolDownElapsed(): boolean {
+    return (
+      this.openedAt !== undefined &&
+      this.now() >= this.openedAt + this.options.openDurationMs
+    );
+  }
+
+  private isSlow(outcome: CallOutcome): boolean {
+    return outcome.latencyMs >= this.options.slowCallThresholdMs;
+  }
+
+  private rate(matches: (outcome: CallOutcome) => boolean): number {
+    return this.outcomes.length
+      ? this.outcomes.filter(matches).length / this.outcomes.length
+      : 0;
+  }
+}
+
+/**
+ * The breakers of one provider, one per model
+ */
+export class ProviderCircuits {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  constructor(
+    readonly providerId: string,
+    private readonly options: Partial<CircuitBreakerOptions> = {},
+    private readonly onStateChange?: (change: CircuitStateChange) => void,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get(model = 'default'): CircuitBreaker {
+    let breaker = this.breakers.get(model);
+    if (!breaker) {
+      const created = new CircuitBreaker(
+        this.options,
+        (from, to) =>
+          this.onStateChange?.({
+            provider: this.providerId,
+            model,
+            from,
+            to,
+            status: created.getStatus(),
+            timestamp: new Date(this.now()).toISOString(),
+          }),
+        this.now
+      );
+      breaker = created;
+      this.breakers.set(model, breaker);
+    }
+    return breaker;
+  }
+
+  isCallPermitted(model?: string): boolean {
+    const breaker = this.breakers.get(model || 'default');
+    return !breaker || breaker.isCallPermitted();
+  }
+
+  getStatuses(): Record<string, CircuitBreakerStatus> {
+    return Object.fromEntries(
+      Array.from(this.breakers.entries()).map(([model, breaker]) => [
+        model,
+        breaker.getStatus(),
+      ])
+    );
+  }
+}
+
+/**
+ * AIProvider wrapper that fails calls fast with CIRCUIT_OPEN while the
+ * breaker of the requested model is open, and feeds it the outcome and
+ * latency of every call; for streams latency runs to the first event.
+ * Thrown errors count as failures and abandoned streams end the call
+ */
+export class CircuitBreakingProvider implements AIProvider {
+  constructor(
+    private readonly provider: AIProvider,
+    readonly circuits: ProviderCircuits,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get id() {
+    return this.provider.id;
+  }
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get type() {
+    return this.provider.type;
+  }
+
+  get supportedModels() {
+    return this.provider.supportedModels;
+  }
+
+  initialize(config: ProviderConfig) {
+    return this.provider.initialize(config);
+  }
+
+  checkHealth() {
+    return this.provider.checkHealth();
+  }
+
+  getAvailableModels() {
+    return this.provider.getAvailableModels();
+  }
+
+  async chat(request: ChatRequest): Promise<Result<ChatResponse>> {
+    const breaker = this.circuits.get(request.model);
+    if (!breaker.tryAcquire()) {
+      return { success: false, error: this.circuitOpenError(request) };
+    }
+
+    const startedAt = this.now();
+    let result: Result<ChatResponse> | undefined;
+    try {
+      result = await this.provider.chat(request);
+      return result;
+    } finally {
+      if (result) {
+        this.record(
+          breaker,
+          result.success ? undefined : result.error,
+          this.now() - startedAt
+        );
+      } else {
+        breaker.recordFailure(this.now() - startedAt);
+      }
+    }
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const breaker = this.circuits.get(request.model);
+    if (!breaker.tryAcquire()) {
+      yield { type: 'error', error: this.circuitOpenError(request) };
+      return;
+    }
+
+    const startedAt = this.now();
+    let recorded = false;
+    try {
+      for await (const event of this.provider.chatStream(request)) {
+        if (!recorded) {
+          recorded = true;
+          this.record(
+            breaker,
+            event.type === 'error' ? event.error : undefined,
+            this.now() - startedAt
+          );
+        }
+        yield event;
+      }
+    } catch (error) {
+      if (!recorded) {
+        recorded = true;
+        breaker.recordFailure(this.now() - startedAt);
+      }
+      throw error;
+    } finally {
+      // Streams that ended or were abandoned before an event say nothing
+      if (!recorded) {
+        breaker.release();
+      }
+    }
+  }
+
+  private record(
+    breaker: CircuitBreaker,
+    error: ServiceError | undefined,
+    latencyMs: number
+  ): void {
+    if (!error) {
+      breaker.recordSuccess(latencyMs);
+    } else if (IGNORED_ERROR_CODES.includes(error.code)) {
+      breaker.release();
+    } else {
+      breaker.recordFailure(latencyMs);
+    }
+  }
+
+  private circuitOpenError(request: ChatRequest): ServiceError {
+    return {
+      code: 'CIRCUIT_OPEN',
+      message: `Circuit for ${this.provider.id}/${
+        request.model || 'default'
+      } is open`,
+      provider: this.provider.id,
+      model: request.model,
+      details: this.circuits.get(request.model).getStatus(),
+    };
+  }
+}
@@ -105,6 +105,22 @@ export class ProviderConfigService {
         config: { stream: true },
         metadata: { description: 'Anthropic Claude Models' },
       },
+      {
+        providerId: 'local',
+        name: 'Local LLM',
+        apiKey: '',
+        apiUrl: 'http://localhost:11434/v1',
+        modelName: 'llama3.1',
+        isEnabled: false,
+        priority: 5,
+        maxTokens: 4096,
+        temperature: 0.2,
+        config: { stream: true },
+        metadata: {
+          description:
+            'Self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM) - code stays on premises',
+        },
+      },
     ];
 
     for (const config of defaultConfigs) {
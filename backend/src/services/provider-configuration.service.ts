@@ -187,6 +187,16 @@ export class ProviderConfigurationService {
         maxTokens: 4096,
         temperature: 0.3,
       },
+      {
+        providerId: 'local',
+        name: 'Local LLM (Ollama / llama.cpp / vLLM)',
+        priority: 5,
+        isEnabled: false,
+        apiUrl: 'http://localhost:11434/v1',
+        modelName: 'llama3.1',
+        maxTokens: 4096,
+        temperature: 0.2,
+      },
     ];
 
     for (const config of defaultConfigs) {
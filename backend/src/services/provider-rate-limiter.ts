@@ -0,0 +1,271 @@
+/**
+ * Provider Rate Limiter
+ * Token buckets for requests and tokens per minute in front of an
+ * AIProvider; requests wait in FIFO order for capacity and are rejected
+ * (so the caller can reroute) when the wait would be too long
+ */
+
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  ProviderConfig,
+  Result,
+  ServiceError,
+} from '../types/ai-provider.types';
+
+export type RateLimits = NonNullable<ProviderConfig['rateLimits']>;
+
+export interface RateLimitStatus {
+  queueDepth: number;
+  requestsAvailable: number;
+  tokensAvailable: number;
+  pausedUntil?: number;
+}
+
+interface QueuedRequest {
+  tokens: number;
+  resolve: () => void;
+}
+
+/** Longest a request may queue before it is rejected for rerouting */
+const DEFAULT_MAX_WAIT_MS = 30000;
+
+export class TokenBucketLimiter {
+  private requests: number;
+  private tokens: number;
+  private refilledAt: number;
+  private pausedUntil = 0;
+  private queue: QueuedRequest[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly limits: RateLimits,
+    private readonly maxWaitMs = DEFAULT_MAX_WAIT_MS,
+    private readonly now: () => number = Date.now
+  ) {
+    this.requests = limits.requestsPerMinute;
+    this.tokens = limits.tokensPerMinute;
+    this.refilledAt = now();
+  }
+
+  /**
+   * Wait for capacity for one request of the estimated size; resolves
+   * false without queueing when the wait would exceed maxWaitMs
+   */
+  async acquire(tokens: number): Promise<boolean> {
+    const cost = Math.min(tokens, this.limits.tokensPerMinute);
+    if (this.estimateWait(cost) > this.maxWaitMs) {
+      return false;
+    }
+
+    await new Promise<void>(resolve => {
+      this.queue.push({ tokens: cost, resolve });
+      this.drain();
+    });
+    return true;
+  }
+
+  /**
+   * Correct the token bucket once the actual usage is known; overspending
+   * leaves it negative so following requests wait longer
+   */
+  record(estimatedTokens: number, actualTokens: number): void {
+    this.refill();
+    const charged = Math.min(estimatedTokens, this.limits.tokensPerMinute);
+    this.tokens = Math.min(
+      this.limits.tokensPerMinute,
+      this.tokens + charged - actualTokens
+    );
+    this.drain();
+  }
+
+  /**
+   * Hold all requests for the given time (Retry-After from the provider)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+    this.reschedule();
+  }
+
+  getStatus(): RateLimitStatus {
+    this.refill();
+    return {
+      queueDepth: this.queue.length,
+      requestsAvailable: Math.floor(this.requests),
+      tokensAvailable: Math.floor(this.tokens),
+      ...(this.pausedUntil > this.now() && { pausedUntil: this.pausedUntil }),
+    };
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = now - this.refilledAt;
+    this.refilledAt = now;
+    this.requests = Math.min(
+      this.limits.requestsPerMinute,
+      this.requests + (elapsed * this.limits.requestsPerMinute) / 60000
+    );
+    this.tokens = Math.min(
+      this.limits.tokensPerMinute,
+      this.tokens + (elapsed * this.limits.tokensPerMinute) / 60000
+    );
+  }
+
+  /**
+   * Time until a new request could start behind everything already queued
+   */
+  private estimateWait(tokens: number): number {
+    this.refill();
+    const queuedTokens = this.queue.reduce((sum, item) => sum + item.tokens, 0);
+    const requestDeficit = this.queue.length + 1 - this.requests;
+    const tokenDeficit = queuedTokens + tokens - this.tokens;
+
+    return Math.max(
+      this.pausedUntil - this.now(),
+      (requestDeficit * 60000) / this.limits.requestsPerMinute,
+      (tokenDeficit * 60000) / this.limits.tokensPerMinute,
+      0
+    );
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.now() >= this.pausedUntil) {
+      const next = this.queue[0];
+      if (this.requests < 1 || this.tokens < next.tokens) {
+        break;
+      }
+
+      this.requests -= 1;
+      this.tokens -= next.tokens;
+      this.queue.shift();
+      next.resolve();
+    }
+
+    this.reschedule();
+  }
+
+  private reschedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const next = this.queue[0];
+    const delay = Math.max(
+      this.pausedUntil - this.now(),
+      ((1 - this.requests) * 60000) / this.limits.requestsPerMinute,
+      ((next.tokens - this.tokens) * 60000) / this.limits.tokensPerMinute,
+      0
+    );
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.ceil(delay));
+  }
+}
+
+/**
+ * AIProvider wrapper that passes chat and chatStream through a limiter and
+ * feeds back actual token usage and Retry-After hints
+ */
+export class RateLimitedProvider implements AIProvider {
+  constructor(
+    private readonly provider: AIProvider,
+    readonly limiter: TokenBucketLimiter
+  ) {}
+
+  get id() {
+    return this.provider.id;
+  }
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get type() {
+    return this.provider.type;
+  }
+
+  get supportedModels() {
+    return this.provider.supportedModels;
+  }
+
+  initialize(config: ProviderConfig) {
+    return this.provider.initialize(config);
+  }
+
+  checkHealth() {
+    return this.provider.checkHealth();
+  }
+
+  getAvailableModels() {
+    return this.provider.getAvailableModels();
+  }
+
+  async chat(request: ChatRequest): Promise<Result<ChatResponse>> {
+    const estimate = estimateTokens(request);
+    if (!(await this.limiter.acquire(estimate))) {
+      return { success: false, error: this.rateLimitedError(request) };
+    }
+
+    const result = await this.provider.chat(request);
+    if (result.success) {
+      this.recordUsage(estimate, result.data);
+    } else if (result.error.retryAfterMs) {
+      this.limiter.pause(result.error.retryAfterMs);
+    }
+    return result;
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const estimate = estimateTokens(request);
+    if (!(await this.limiter.acquire(estimate))) {
+      yield { type: 'error', error: this.rateLimitedError(request) };
+      return;
+    }
+
+    for await (const event of this.provider.chatStream(request)) {
+      if (event.type === 'done') {
+        this.recordUsage(estimate, event.response);
+      } else if (event.type === 'error' && event.error.retryAfterMs) {
+        this.limiter.pause(event.error.retryAfterMs);
+      }
+      yield event;
+    }
+  }
+
+  private recordUsage(estimate: number, response: ChatResponse): void {
+    if (response.usage) {
+      this.limiter.record(estimate, response.usage.totalTokens);
+    }
+  }
+
+  private rateLimitedError(request: ChatRequest): ServiceError {
+    return {
+      code: 'RATE_LIMITED',
+      message: `Rate limit for ${this.provider.id} exhausted`,
+      provider: this.provider.id,
+      model: request.model,
+      details: this.limiter.getStatus(),
+    };
+  }
+}
+
+/**
+ * Rough prompt size (about four characters per token) plus the completion
+ * budget; corrected with the reported usage after the response
+ */
+export function estimateTokens(request: ChatRequest): number {
+  const characters = request.messages.reduce(
+    (sum, message) => sum + message.content.length,
+    request.systemPrompt?.length || 0
+  );
+  return Math.ceil(characters / 4) + (request.maxTokens || 1024);
+}
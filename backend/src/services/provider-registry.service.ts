@@ -10,9 +10,34 @@ import {
   ModelInfo,
   ModelSpecialization,
   HealthStatus,
+  ProviderConfig,
   Result,
   ServiceError,
 } from '../types/ai-provider.types';
+import {
+  RateLimitedProvider,
+  RateLimits,
+  RateLimitStatus,
+  TokenBucketLimiter,
+} from './provider-rate-limiter';
+import {
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  CircuitBreakingProvider,
+  CircuitStateChange,
+  ProviderCircuits,
+} from './provider-circuit-breaker';
+
+/**
+ * Limits applied when registration passes none; entry-tier quotas of each
+ * API so parallel agents queue instead of being throttled upstream
+ */
+const DEFAULT_RATE_LIMITS: Record<string, RateLimits> = {
+  groq: { requestsPerMinute: 30, tokensPerMinute: 6000 },
+  'anthropic-claude': { requestsPerMinute: 50, tokensPerMinute: 40000 },
+  'azure-openai': { requestsPerMinute: 60, tokensPerMinute: 60000 },
+  deepseek: { requestsPerMinute: 60, tokensPerMinute: 100000 },
+};
 
 export class UniversalProviderRegistry implements ProviderRegistry {
   private providers: Map<string, AIProvider> = new Map();
@@ -21,14 +46,26 @@ export class UniversalProviderRegistry implements ProviderRegistry {
     { status: HealthStatus; timestamp: number }
   > = new Map();
   private readonly HEALTH_CACHE_TTL = 30000; // 30 seconds
+  private limiters: Map<string, TokenBucketLimiter> = new Map();
+  private circuits: Map<string, ProviderCircuits> = new Map();
+  private circuitListeners: Array<(change: CircuitStateChange) => void> = [];
+
+  constructor(
+    private readonly circuitOptions: Partial<CircuitBreakerOptions> = {}
+  ) {}
 
   /**
-   * Register a new AI provider
+   * Register a new AI provider; chat requests go through a circuit
+   * breaker per model and a rate limiter built from config.rateLimits or
+   * the provider's default limits
    */
-  async registerProvider(provider: AIProvider): Promise<Result<boolean>> {
+  async registerProvider(
+    provider: AIProvider,
+    config: Partial<ProviderConfig> = {}
+  ): Promise<Result<boolean>> {
     try {
       // Initialize the provider
-      const initResult = await provider.initialize({} as any); // Will be configured later
+      const initResult = await provider.initialize(config as ProviderConfig);
 
       if (!initResult.success) {
         return {
@@ -42,7 +79,23 @@ export class UniversalProviderRegistry implements ProviderRegistry {
         };
       }
 
-      this.providers.set(provider.id, provider);
+      // The breaker sits inside the limiter so queueing for rate limits
+      // does not count as slow calls
+      const circuits = new ProviderCircuits(
+        provider.id,
+        this.circuitOptions,
+        change => this.notifyCircuitChange(change)
+      );
+      this.circuits.set(provider.id, circuits);
+      let wrapped: AIProvider = new CircuitBreakingProvider(provider, circuits);
+
+      const rateLimits = config.rateLimits || DEFAULT_RATE_LIMITS[provider.id];
+      if (rateLimits) {
+        const limiter = new TokenBucketLimiter(rateLimits);
+        this.limiters.set(provider.id, limiter);
+        wrapped = new RateLimitedProvider(wrapped, limiter);
+      }
+      this.providers.set(provider.id, wrapped);
 
       console.log(
         `✅ Registered AI Provider: ${provider.name} (${provider.type})`
@@ -80,6 +133,8 @@ export class UniversalProviderRegistry implements ProviderRegistry {
 
       this.providers.delete(providerId);
       this.healthCache.delete(providerId);
+      this.limiters.delete(providerId);
+      this.circuits.delete(providerId);
 
       console.log(`🗑️ Unregistered AI Provider: ${providerId}`);
 
@@ -129,6 +184,31 @@ export class UniversalProviderRegistry implements ProviderRegistry {
     }
   }
 
+  /**
+   * Whether calls to a provider/model should be routed there now: its
+   * circuit is not open and its last health check did not report it
+   * unhealthy; registration is left to getProvider
+   */
+  isAvailable(providerId: string, model?: string): boolean {
+    const cached = this.healthCache.get(providerId);
+    if (
+      cached &&
+      Date.now() - cached.timestamp < this.HEALTH_CACHE_TTL &&
+      cached.status.status === 'unhealthy'
+    ) {
+      return false;
+    }
+
+    return this.circuits.get(providerId)?.isCallPermitted(model) ?? true;
+  }
+
+  /**
+   * Subscribe to circuit breaker state changes of all providers
+   */
+  onCircuitStateChange(listener: (change: CircuitStateChange) => void): void {
+    this.circuitListeners.push(listener);
+  }
+
   /**
    * Get all registered providers
    */
@@ -256,22 +336,19 @@ export class UniversalProviderRegistry implements ProviderRegistry {
 
         // Get fresh health status
         const healthResult = await provider.checkHealth();
-
-        if (healthResult.success) {
-          healthStatuses[providerId] = healthResult.data;
-          this.healthCache.set(providerId, {
-            status: healthResult.data,
-            timestamp: now,
-          });
-        } else {
-          healthStatuses[providerId] = {
-            status: 'unhealthy',
-            provider: providerId,
-            details: {
-              lastError: healthResult.error.message,
-            },
-          };
-        }
+        const status: HealthStatus = healthResult.success
+          ? healthResult.data
+          : {
+              status: 'unhealthy',
+              provider: providerId,
+              details: {
+                lastError: healthResult.error.message,
+              },
+            };
+
+        // Failed checks are cached too, so routing skips the provider
+        healthStatuses[providerId] = status;
+        this.healthCache.set(providerId, { status, timestamp: now });
       }
 
       return { success: true, data: healthStatuses };
@@ -296,6 +373,8 @@ export class UniversalProviderRegistry implements ProviderRegistry {
       providersByType: Record<ProviderType, number>;
       totalModels: number;
       healthyProviders: number;
+      rateLimits: Record<string, RateLimitStatus>;
+      circuitBreakers: Record<string, Record<string, CircuitBreakerStatus>>;
     }>
   > {
     try {
@@ -322,6 +401,13 @@ export class UniversalProviderRegistry implements ProviderRegistry {
           providersByType,
           totalModels: modelsResult.success ? modelsResult.data.length : 0,
           healthyProviders: healthyCount,
+          rateLimits: Object.fromEntries(
+            Array.from(this.limiters.entries()).map(([id, limiter]) => [
+              id,
+              limiter.getStatus(),
+            ])
+          ),
+          circuitBreakers: this.getCircuitStatuses(),
         },
       };
     } catch (error) {
@@ -360,22 +446,11 @@ export class UniversalProviderRegistry implements ProviderRegistry {
         };
       }
 
-      // Filter by requirements
-      let candidates = modelsResult.data;
-
-      if (requirements?.contextWindow) {
-        candidates = candidates.filter(
-          model => model.contextWindow >= requirements.contextWindow!
-        );
-      }
-
-      if (requirements?.maxCost) {
-        candidates = candidates.filter(
-          model =>
-            model.costPer1kTokens.input <= requirements.maxCost! &&
-            model.costPer1kTokens.output <= requirements.maxCost!
-        );
-      }
+      // Filter by requirements, skipping models whose circuit is open
+      let candidates = this.filterByRequirements(
+        modelsResult.data,
+        requirements
+      ).filter(model => this.isAvailable(model.provider, model.id));
 
       if (requirements?.preferredProvider) {
         const preferred = candidates.filter(
@@ -422,6 +497,50 @@ export class UniversalProviderRegistry implements ProviderRegistry {
       };
     }
   }
+
+  /**
+   * Circuit breaker status per provider and model
+   */
+  getCircuitStatuses(): Record<string, Record<string, CircuitBreakerStatus>> {
+    return Object.fromEntries(
+      Array.from(this.circuits.entries()).map(([id, circuits]) => [
+        id,
+        circuits.getStatuses(),
+      ])
+    );
+  }
+
+  private filterByRequirements(
+    models: ModelInfo[],
+    requirements?: { contextWindow?: number; maxCost?: number }
+  ): ModelInfo[] {
+    let candidates = models;
+
+    if (requirements?.contextWindow) {
+      candidates = candidates.filter(
+        model => model.contextWindow >= requirements.contextWindow!
+      );
+    }
+
+    if (requirements?.maxCost) {
+      candidates = candidates.filter(
+        model =>
+          model.costPer1kTokens.input <= requirements.maxCost! &&
+          model.costPer1kTokens.output <= requirements.maxCost!
+      );
+    }
+
+    return candidates;
+  }
+
+  private notifyCircuitChange(change: CircuitStateChange): void {
+    console.log(
+      `⚡ Circuit ${change.provider}/${change.model}: ${change.from} → ${change.to}`
+    );
+    for (const listener of this.circuitListeners) {
+      listener(change);
+    }
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,412 @@
+/**
+ * Response Cache Service
+ * Serves repeated chat requests from memory: exact matches by a hash of
+ * the prompt and, when an embedding provider is configured, near-identical
+ * prompts by embedding similarity. Both only match within one project,
+ * prompt template and set of sampling and format settings. TTLs and
+ * opt-outs are set per agent
+ */
+
+import { createHash } from 'crypto';
+import { ChatRequest, ChatResponse, Result } from '../types/ai-provider.types';
+import { IMLProvider } from '../providers/ml-provider.interface';
+
+export interface ResponseCacheOptions {
+  enabled: boolean;
+  /** Lifetime of an entry unless the agent has its own TTL (ms) */
+  defaultTtlMs: number;
+  /** Per-agent TTL (ms); 0 opts the agent out of caching */
+  agentTtlMs: Record<string, number>;
+  maxEntries: number;
+  /** Minimum cosine similarity for a near-identical prompt to match */
+  similarityThreshold: number;
+}
+
+export interface ResponseCacheStats {
+  enabled: boolean;
+  entries: number;
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  bypassed: number;
+  hitRate: number;
+  /** Provider cost of the responses served from the cache (USD) */
+  savedCost: number;
+  byAgent: Record<string, { hits: number; misses: number }>;
+}
+
+export interface CacheInvalidation {
+  agentType?: string;
+}
+
+interface CacheEntry {
+  key: string;
+  agentType: string;
+  model: string;
+  /** Hash of the system prompt; similarity never crosses template changes */
+  template: string;
+  /** Hash of the project and sampling and format settings */
+  scope: string;
+  embedding?: number[];
+  response: ChatResponse;
+  expiresAt: number;
+}
+
+const DEFAULT_OPTIONS: ResponseCacheOptions = {
+  enabled: true,
+  defaultTtlMs: 60 * 60 * 1000,
+  agentTtlMs: {},
+  maxEntries: 1000,
+  similarityThreshold: 0.97,
+};
+
+const NO_AGENT = 'none';
+
+export class ResponseCacheService {
+  private entries: Map<string, CacheEntry> = new Map();
+  private embeddings?: Pick<IMLProvider, 'generateEmbedding'>;
+  private readonly options: ResponseCacheOptions;
+  private counters = { hits: 0, semanticHits: 0, misses: 0, bypassed: 0 };
+  private savedCost = 0;
+  private byAgent: Record<string, { hits: number; misses: number }> = {};
+
+  constructor(
+    options: Partial<ResponseCacheOptions> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Match near-identical prompts by embedding similarity; without this
+   * only exact prompt matches are served
+   */
+  configureEmbeddings(provider: Pick<IMLProvider, 'generateEmbedding'>): void {
+    this.embeddings = provider;
+  }
+
+  /**
+   * Cached response for the request, or undefined on a miss or when the
+   * request is not cacheable
+   */
+  async lookup(request: ChatRequest): Promise<ChatResponse | undefined> {
+    if (!this.isCacheable(request)) {
+      this.counters.bypassed++;
+      return undefined;
+    }
+
+    const agentType = agentOf(request);
+    const exact = this.entries.get(cacheKey(request));
+    if (exact && !this.isExpired(exact)) {
+      return this.hit(exact, false);
+    }
+
+    const similar = await this.findSimilar(request);
+    if (similar) {
+      return this.hit(similar, true);
+    }
+
+    this.counters.misses++;
+    this.agentCounters(agentType).misses++;
+    return undefined;
+  }
+
+  /**
+   * Remember a successful response; tool calls and answers built from tool
+   * results are never cached as they depend on the state the tools act on
+   */
+  async store(request: ChatRequest, response: ChatResponse): Promise<void> {
+    if (
+      !this.isCacheable(request) ||
+      response.toolCalls?.length ||
+      response.metadata?.toolsUsed?.length
+    ) {
+      return;
+    }
+
+    const entry: CacheEntry = {
+      key: cacheKey(request),
+      agentType: agentOf(request),
+      model: request.model || response.model,
+      template: templateOf(request),
+      scope: scopeOf(request),
+      embedding: await this.embed(request),
+      response,
+      expiresAt: this.now() + this.ttlFor(request),
+    };
+
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    this.evict();
+  }
+
+  /**
+   * Drop the entries of one agent, or all of them; returns the count
+   */
+  invalidate(filter: CacheInvalidation = {}): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!filter.agentType || entry.agentType === filter.agentType) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Change an agent's TTL at runtime; 0 opts it out and drops its entries
+   */
+  setAgentTtl(agentType: string, ttlMs: number): Result<boolean> {
+    if (!Number.isFinite(ttlMs) || ttlMs < 0) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_CACHE_TTL',
+          message: 'TTL must be a non-negative number of milliseconds',
+        },
+      };
+    }
+
+    this.options.agentTtlMs[agentType] = ttlMs;
+    if (ttlMs === 0) {
+      this.invalidate({ agentType });
+    }
+    return { success: true, data: true };
+  }
+
+  getStats(): ResponseCacheStats {
+    const { hits, semanticHits, misses, bypassed } = this.counters;
+    const lookups = hits + semanticHits + misses;
+    return {
+      enabled: this.options.enabled,
+      entries: this.entries.size,
+      hits,
+      semanticHits,
+      misses,
+      bypassed,
+      hitRate: lookups ? (hits + semanticHits) / lookups : 0,
+      savedCost: this.savedCost,
+      byAgent: JSON.parse(JSON.stringify(this.byAgent)),
+    };
+  }
+
+  getAgentTtls(): Record<string, number> {
+    return { ...this.options.agentTtlMs };
+  }
+
+  /**
+   * Tool-using and explicitly opted-out requests always reach a provider
+   */
+  private isCacheable(request: ChatRequest): boolean {
+    return (
+      this.options.enabled &&
+      request.cache !== false &&
+      !request.tools?.length &&
+      this.ttlFor(request) > 0
+    );
+  }
+
+  private ttlFor(request: ChatRequest): number {
+    return (
+      this.options.agentTtlMs[agentOf(request)] ?? this.options.defaultTtlMs
+    );
+  }
+
+  private hit(entry: CacheEntry, semantic: boolean): ChatResponse {
+    this.counters[semantic ? 'semanticHits' : 'hits']++;
+    this.agentCounters(entry.agentType).hits++;
+    this.savedCost += entry.response.usage?.cost || 0;
+
+    // Keep recently used entries away from eviction
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    return {
+      ...entry.response,
+      metadata: {
+        ...entry.response.metadata,
+        cached: true,
+        cacheMatch: semantic ? 'semantic' : 'exact',
+      },
+    };
+  }
+
+  private async findSimilar(
+    request: ChatRequest
+  ): Promise<CacheEntry | undefined> {
+    if (!this.embeddings) {
+      return undefined;
+    }
+
+    const embedding = await this.embed(request);
+    if (!embedding) {
+      return undefined;
+    }
+
+    const agentType = agentOf(request);
+    const template = templateOf(request);
+    const scope = scopeOf(request);
+    let best: { entry: CacheEntry; similarity: number } | undefined;
+    for (const entry of this.entries.values()) {
+      if (
+        !entry.embedding ||
+        this.isExpired(entry) ||
+        entry.agentType !== agentType ||
+        entry.template !== template ||
+        entry.scope !== scope ||
+        (request.model && entry.model !== request.model)
+      ) {
+        continue;
+      }
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (!best || similarity > best.similarity) {
+        best = { entry, similarity };
+      }
+    }
+
+    return best && best.similarity >= this.options.similarityThreshold
+      ? best.entry
+      : undefined;
+  }
+
+  private async embed(request: ChatRequest): Promise<number[] | undefined> {
+    if (!this.embeddings) {
+      return undefined;
+    }
+
+    try {
+      const result = await this.embeddings.generateEmbedding(
+        conversationOf(request)
+      );
+      return result.success ? result.data.embedding : undefined;
+    } catch (error) {
+      console.warn('⚠️ Response cache embedding failed:', error);
+      return undefined;
+    }
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    if (entry.expiresAt > this.now()) {
+      return false;
+    }
+    this.entries.delete(entry.key);
+    return true;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        return;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  private agentCounters(agentType: string) {
+    if (!this.byAgent[agentType]) {
+      this.byAgent[agentType] = { hits: 0, misses: 0 };
+    }
+    return this.byAgent[agentType];
+  }
+}
+
+/**
+ * Cache settings from RESPONSE_CACHE_* environment variables; agent TTLs
+ * are given as "agent=ms" pairs, e.g. "microsoft-reviewer=86400000,qa-engineer=0"
+ */
+export function responseCacheOptionsFromEnv(): Partial<ResponseCacheOptions> {
+  const env = process.env;
+  const agentTtlMs = Object.fromEntries(
+    (env.RESPONSE_CACHE_AGENT_TTLS || '')
+      .split(',')
+      .map(pair => pair.split('=').map(part => part.trim()))
+      .filter(([agent, ttl]) => agent && ttl && !isNaN(Number(ttl)))
+      .map(([agent, ttl]) => [agent, Number(ttl)])
+  );
+
+  return {
+    enabled: env.RESPONSE_CACHE_ENABLED === 'true',
+    agentTtlMs,
+    ...(env.RESPONSE_CACHE_TTL_MS && {
+      defaultTtlMs: Number(env.RESPONSE_CACHE_TTL_MS),
+    }),
+    ...(env.RESPONSE_CACHE_MAX_ENTRIES && {
+      maxEntries: Number(env.RESPONSE_CACHE_MAX_ENTRIES),
+    }),
+    ...(env.RESPONSE_CACHE_SIMILARITY && {
+      similarityThreshold: Number(env.RESPONSE_CACHE_SIMILARITY),
+    }),
+  };
+}
+
+function agentOf(request: ChatRequest): string {
+  return request.context?.agentType || NO_AGENT;
+}
+
+/**
+ * The exact prompt, unlike replay fixture keys which mask ids and
+ * timestamps, plus everything else that shapes the answer
+ */
+function cacheKey(request: ChatRequest): string {
+  return hash({
+    agentType: agentOf(request),
+    model: request.model,
+    scope: scopeOf(request),
+    systemPrompt: request.systemPrompt,
+    messages: request.messages.map(
+      ({ role, content, toolCalls, toolCallId }) => ({
+        role,
+        content,
+        toolCalls,
+        toolCallId,
+      })
+    ),
+  });
+}
+
+function scopeOf(request: ChatRequest): string {
+  return hash({
+    projectId: request.context?.projectId,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    responseFormat: request.responseFormat,
+  });
+}
+
+function templateOf(request: ChatRequest): string {
+  return hash({
+    systemPrompt: request.systemPrompt,
+    system: request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content),
+  });
+}
+
+function conversationOf(request: ChatRequest): string {
+  return request.messages
+    .filter(message => message.role !== 'system')
+    .map(message => `${message.role}: ${message.content}`)
+    .join('\n');
+}
+
+function hash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -81,6 +81,14 @@ export interface ChatRequestSettings {
   maxTokens?: number;
 }
 
+/**
+ * Options of ChatIntegrationService.processMessage; with onDelta the reply
+ * is streamed and each token chunk is passed on as it arrives
+ */
+export interface ProcessMessageOptions {
+  onDelta?: (content: string) => void;
+}
+
 export interface ChatResponse {
   messageId: string;
   sessionId: string;
@@ -3,18 +3,71 @@
  * Single interface for all AI providers with intelligent routing
  */
 
+import { z } from 'zod';
 import {
   ChatRequest,
   ChatResponse,
   ChatContext,
+  ChatMessage,
+  ChatStreamEvent,
   Result,
   AIProvider,
+  ResponseFormat,
+  ServiceError,
 } from '../types/ai-provider.types';
 import { providerRegistry } from './provider-registry.service';
 import { agentModelAssignmentService } from './agent-model-assignment.service';
+import { AgentToolLoop } from './agent-tool-loop.service';
+import { UsageLedgerService } from './usage-ledger.service';
+import { ResponseCacheService } from './response-cache.service';
+import {
+  RecordReplayProvider,
+  recordReplayOptionsFromEnv,
+} from '../providers/record-replay.provider';
+import {
+  StructuredOutputOptions,
+  StructuredResponse,
+  generateStructured,
+} from '../providers/structured-output';
+
+export interface AgentChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  taskType?: 'general' | 'codeReview' | 'systemDesign';
+  /** Scopes the call is billed and budgeted to */
+  projectId?: string;
+  workflowRunId?: string;
+  responseFormat?: ResponseFormat;
+  /** false bypasses the response cache */
+  cache?: boolean;
+}
 
 export class UnifiedAIChatService {
   private initialized = false;
+  private toolLoop?: AgentToolLoop;
+  private usageLedger?: UsageLedgerService;
+  private responseCache?: ResponseCacheService;
+
+  /**
+   * Let agent chats call MCP tools; without this providers only chat
+   */
+  configureTools(toolLoop: AgentToolLoop): void {
+    this.toolLoop = toolLoop;
+  }
+
+  /**
+   * Record every call in the usage ledger and enforce its budgets
+   */
+  configureUsageLedger(usageLedger: UsageLedgerService): void {
+    this.usageLedger = usageLedger;
+  }
+
+  /**
+   * Answer repeated prompts from the response cache instead of a provider
+   */
+  configureResponseCache(responseCache: ResponseCacheService): void {
+    this.responseCache = responseCache;
+  }
 
   /**
    * Initialize the unified chat service
@@ -70,11 +123,13 @@ export class UnifiedAIChatService {
       const { provider, model } = providerInfo.data;
 
       // Execute chat request with fallback handling
-      return await this.executeWithFallback(
-        provider.id,
-        model,
-        request,
-        request.context?.agentType
+      return await this.withResponseCache(request, () =>
+        this.executeWithFallback(
+          provider.id,
+          model,
+          request,
+          request.context?.agentType
+        )
       );
     } catch (error) {
       return {
@@ -93,19 +148,16 @@ export class UnifiedAIChatService {
    */
   async chatForAgent(
     agentType: string,
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
-    options?: {
-      temperature?: number;
-      maxTokens?: number;
-      taskType?: 'general' | 'codeReview' | 'systemDesign';
-    }
+    messages: ChatMessage[],
+    options?: AgentChatOptions
   ): Promise<Result<ChatResponse>> {
     try {
       // Get optimal provider for this agent and task type
       const optimalResult =
         await agentModelAssignmentService.getOptimalProviderForTask(
           agentType,
-          options?.taskType || 'general'
+          options?.taskType || 'general',
+          options?.projectId
         );
 
       if (!optimalResult.success) {
@@ -113,25 +165,16 @@ export class UnifiedAIChatService {
       }
 
       const { provider: providerId, model } = optimalResult.data;
-
-      // Build request
-      const request: ChatRequest = {
+      const request = this.buildAgentRequest(
+        agentType,
         messages,
         model,
-        temperature: options?.temperature || 0.1,
-        maxTokens: options?.maxTokens || 2048,
-        context: {
-          agentType,
-          taskType: options?.taskType || 'general',
-        },
-      };
+        options
+      );
 
       // Execute with fallback
-      return await this.executeWithFallback(
-        providerId,
-        model,
-        request,
-        agentType
+      return await this.withResponseCache(request, () =>
+        this.executeWithFallback(providerId, model, request, agentType)
       );
     } catch (error) {
       return {
@@ -145,6 +188,97 @@ export class UnifiedAIChatService {
     }
   }
 
+  /**
+   * Stream a chat request with the same routing as chat(); token deltas
+   * are yielded as they arrive, followed by one done or error event
+   */
+  async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    if (!this.initialized) {
+      const initResult = await this.initialize();
+      if (!initResult.success) {
+        yield { type: 'error', error: initResult.error };
+        return;
+      }
+    }
+
+    const providerInfo = await this.selectOptimalProvider(request);
+    if (!providerInfo.success) {
+      yield { type: 'error', error: providerInfo.error };
+      return;
+    }
+
+    yield* this.streamWithFallback(
+      providerInfo.data.provider.id,
+      providerInfo.data.model,
+      request,
+      request.context?.agentType
+    );
+  }
+
+  /**
+   * Streaming counterpart of chatForAgent
+   */
+  async *chatStreamForAgent(
+    agentType: string,
+    messages: ChatMessage[],
+    options?: AgentChatOptions
+  ): AsyncGenerator<ChatStreamEvent> {
+    const optimalResult =
+      await agentModelAssignmentService.getOptimalProviderForTask(
+        agentType,
+        options?.taskType || 'general',
+        options?.projectId
+      );
+
+    if (!optimalResult.success) {
+      yield { type: 'error', error: optimalResult.error };
+      return;
+    }
+
+    const { provider: providerId, model } = optimalResult.data;
+    yield* this.streamWithFallback(
+      providerId,
+      model,
+      this.buildAgentRequest(agentType, messages, model, options),
+      agentType
+    );
+  }
+
+  /**
+   * Chat whose JSON answer is validated against the schema, with invalid
+   * answers sent back to the model for repair
+   */
+  async generateStructured<T>(
+    request: ChatRequest,
+    schema: z.ZodType<T>,
+    options?: StructuredOutputOptions
+  ): Promise<Result<StructuredResponse<T>>> {
+    return generateStructured(this, request, schema, options);
+  }
+
+  /**
+   * Structured counterpart of chatForAgent
+   */
+  async generateStructuredForAgent<T>(
+    agentType: string,
+    messages: ChatMessage[],
+    schema: z.ZodType<T>,
+    options: AgentChatOptions & StructuredOutputOptions = {}
+  ): Promise<Result<StructuredResponse<T>>> {
+    return generateStructured(
+      {
+        chat: request =>
+          this.chatForAgent(agentType, request.messages, {
+            ...options,
+            responseFormat: request.responseFormat,
+          }),
+      },
+      { messages },
+      schema,
+      options
+    );
+  }
+
   /**
    * Get chat capabilities for agent
    */
@@ -218,11 +352,27 @@ export class UnifiedAIChatService {
     agentType?: string,
     attemptNumber = 1
   ): Promise<Result<ChatResponse>> {
+    if (attemptNumber === 1) {
+      const route = await this.routeWithinBudget(
+        providerId,
+        model,
+        request,
+        agentType
+      );
+      if (!route.success) {
+        return route;
+      }
+      ({ provider: providerId, model } = route.data);
+    }
+
     try {
       // Get provider
       const providerResult = await providerRegistry.getProvider(providerId);
       if (!providerResult.success) {
-        return await this.handleFallback(request, agentType, attemptNumber);
+        return await this.handleFallback(request, agentType, attemptNumber, {
+          provider: providerId,
+          model,
+        });
       }
 
       const provider = providerResult.data;
@@ -230,8 +380,11 @@ export class UnifiedAIChatService {
       // Set model in request
       const enhancedRequest = { ...request, model };
 
-      // Execute request
-      const chatResult = await provider.chat(enhancedRequest);
+      // Execute request, with a tool loop for agents that have tools
+      const chatResult =
+        this.toolLoop && agentType
+          ? await this.toolLoop.run(provider, enhancedRequest, agentType)
+          : await provider.chat(enhancedRequest);
 
       if (chatResult.success) {
         // Add metadata about routing
@@ -242,6 +395,7 @@ export class UnifiedAIChatService {
           attemptNumber,
           agentType,
         };
+        await this.recordUsage(chatResult.data, request, agentType);
 
         return chatResult;
       }
@@ -251,10 +405,16 @@ export class UnifiedAIChatService {
         `❌ Provider ${providerId} failed:`,
         chatResult.error.message
       );
-      return await this.handleFallback(request, agentType, attemptNumber);
+      return await this.handleFallback(request, agentType, attemptNumber, {
+        provider: providerId,
+        model,
+      });
     } catch (error) {
       console.warn(`❌ Unexpected error with provider ${providerId}:`, error);
-      return await this.handleFallback(request, agentType, attemptNumber);
+      return await this.handleFallback(request, agentType, attemptNumber, {
+        provider: providerId,
+        model,
+      });
     }
   }
 
@@ -264,8 +424,146 @@ export class UnifiedAIChatService {
   private async handleFallback(
     request: ChatRequest,
     agentType?: string,
-    attemptNumber = 1
+    attemptNumber = 1,
+    failed?: { provider: string; model: string }
   ): Promise<Result<ChatResponse>> {
+    const fallback = await this.nextFallback(
+      agentType,
+      attemptNumber,
+      request.context?.projectId,
+      failed
+    );
+    if (!fallback.success) {
+      return fallback;
+    }
+
+    return await this.executeWithFallback(
+      fallback.data.provider,
+      fallback.data.model,
+      request,
+      agentType,
+      attemptNumber + 1
+    );
+  }
+
+  /**
+   * Stream from a provider, falling back like executeWithFallback while no
+   * token has been delivered; once output has reached the caller a failure
+   * ends the stream, since retrying would duplicate the partial answer
+   */
+  private async *streamWithFallback(
+    providerId: string,
+    model: string,
+    request: ChatRequest,
+    agentType?: string
+  ): AsyncGenerator<ChatStreamEvent> {
+    const route = await this.routeWithinBudget(
+      providerId,
+      model,
+      request,
+      agentType
+    );
+    if (!route.success) {
+      yield { type: 'error', error: route.error };
+      return;
+    }
+    let candidate = { provider: route.data.provider, model: route.data.model };
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      const failure = yield* this.streamAttempt(
+        candidate.provider,
+        candidate.model,
+        request,
+        agentType,
+        attemptNumber
+      );
+      if (!failure) {
+        return;
+      }
+
+      console.warn(
+        `❌ Provider ${candidate.provider} failed:`,
+        failure.message
+      );
+      const fallback = await this.nextFallback(
+        agentType,
+        attemptNumber,
+        request.context?.projectId,
+        candidate
+      );
+      if (!fallback.success) {
+        yield { type: 'error', error: fallback.error };
+        return;
+      }
+      candidate = fallback.data;
+    }
+  }
+
+  /**
+   * One streaming attempt; returns the error when the provider failed
+   * before its first delta so the caller can fall back
+   */
+  private async *streamAttempt(
+    providerId: string,
+    model: string,
+    request: ChatRequest,
+    agentType: string | undefined,
+    attemptNumber: number
+  ): AsyncGenerator<ChatStreamEvent, ServiceError | undefined> {
+    const providerResult = await providerRegistry.getProvider(providerId);
+    if (!providerResult.success) {
+      return providerResult.error;
+    }
+
+    let streamed = false;
+    try {
+      for await (const event of providerResult.data.chatStream({
+        ...request,
+        model,
+      })) {
+        if (event.type === 'error' && !streamed) {
+          return event.error;
+        }
+        if (event.type === 'done') {
+          event.response.metadata = {
+            ...event.response.metadata,
+            routedProvider: providerId,
+            routedModel: model,
+            attemptNumber,
+            agentType,
+          };
+          await this.recordUsage(event.response, request, agentType);
+        }
+        streamed = streamed || event.type === 'delta';
+        yield event;
+      }
+    } catch (error) {
+      const streamError: ServiceError = {
+        code: 'STREAM_ERROR',
+        message: `Unexpected error streaming from ${providerId}`,
+        provider: providerId,
+        model,
+        details: error,
+      };
+      if (!streamed) {
+        return streamError;
+      }
+      yield { type: 'error', error: streamError };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Next provider/model to try after a failed attempt: the first fallback
+   * after the failed one whose circuit is not open
+   */
+  private async nextFallback(
+    agentType: string | undefined,
+    attemptNumber: number,
+    projectId?: string,
+    failed?: { provider: string; model: string }
+  ): Promise<Result<{ provider: string; model: string }>> {
     try {
       if (attemptNumber >= 4) {
         // Max 3 fallback attempts
@@ -279,23 +577,7 @@ export class UnifiedAIChatService {
         };
       }
 
-      if (!agentType) {
-        // Generic fallback - try Azure OpenAI
-        return await this.executeWithFallback(
-          'azure-openai',
-          'gpt-4o',
-          request,
-          agentType,
-          attemptNumber + 1
-        );
-      }
-
-      // Get fallback providers for agent
-      const fallbacksResult =
-        await agentModelAssignmentService.getFallbackProvidersForAgent(
-          agentType
-        );
-
+      const fallbacksResult = await this.fallbackRoutes(agentType, projectId);
       if (!fallbacksResult.success || fallbacksResult.data.length === 0) {
         return {
           success: false,
@@ -307,12 +589,17 @@ export class UnifiedAIChatService {
         };
       }
 
-      // Try next fallback (attempt number - 1 because we start from 1)
-      const fallbackIndex = Math.min(
-        attemptNumber - 1,
-        fallbacksResult.data.length - 1
-      );
-      const fallback = fallbacksResult.data[fallbackIndex];
+      const fallback = nextAvailableRoute(fallbacksResult.data, failed);
+      if (!fallback) {
+        return {
+          success: false,
+          error: {
+            code: 'ALL_PROVIDERS_FAILED',
+            message: 'All fallback providers are unavailable',
+            details: { attemptNumber, agentType },
+          },
+        };
+      }
 
       console.log(
         `🔄 Trying fallback provider: ${fallback.provider}/${
@@ -320,13 +607,10 @@ export class UnifiedAIChatService {
         } (attempt ${attemptNumber + 1})`
       );
 
-      return await this.executeWithFallback(
-        fallback.provider,
-        fallback.model,
-        request,
-        agentType,
-        attemptNumber + 1
-      );
+      return {
+        success: true,
+        data: { provider: fallback.provider, model: fallback.model },
+      };
     } catch (error) {
       return {
         success: false,
@@ -340,7 +624,135 @@ export class UnifiedAIChatService {
   }
 
   /**
-   * Select optimal provider based on request context
+   * Fallback routes of an agent; requests without an agent fall back to
+   * Azure OpenAI
+   */
+  private async fallbackRoutes(
+    agentType: string | undefined,
+    projectId?: string
+  ): Promise<Result<Array<{ provider: string; model: string }>>> {
+    if (!agentType) {
+      return {
+        success: true,
+        data: [{ provider: 'azure-openai', model: 'gpt-4o' }],
+      };
+    }
+
+    return await agentModelAssignmentService.getFallbackProvidersForAgent(
+      agentType,
+      projectId
+    );
+  }
+
+  private buildAgentRequest(
+    agentType: string,
+    messages: ChatMessage[],
+    model: string,
+    options?: AgentChatOptions
+  ): ChatRequest {
+    return {
+      messages,
+      model,
+      temperature: options?.temperature || 0.1,
+      maxTokens: options?.maxTokens || 2048,
+      context: {
+        agentType,
+        taskType: options?.taskType || 'general',
+        projectId: options?.projectId,
+        workflowRunId: options?.workflowRunId,
+      },
+      responseFormat: options?.responseFormat,
+      cache: options?.cache,
+    };
+  }
+
+  /**
+   * Serve the request from the response cache when configured, and cache
+   * the successful response of a miss. Agents the tool loop offers tools
+   * to always reach a provider, as their answers depend on tool results
+   */
+  private async withResponseCache(
+    request: ChatRequest,
+    execute: () => Promise<Result<ChatResponse>>
+  ): Promise<Result<ChatResponse>> {
+    const agentType = request.context?.agentType;
+    const offersTools =
+      this.toolLoop && agentType && request.toolChoice !== 'none'
+        ? this.toolLoop.getToolsForAgent(agentType).length > 0
+        : false;
+    if (!this.responseCache || offersTools) {
+      return execute();
+    }
+
+    const cached = await this.responseCache.lookup(request);
+    if (cached) {
+      return { success: true, data: cached };
+    }
+
+    const result = await execute();
+    if (result.success) {
+      await this.responseCache.store(request, result.data);
+    }
+    return result;
+  }
+
+  /**
+   * Apply the project and workflow run budgets before the first attempt;
+   * over a soft limit the call moves to a cheaper fallback model
+   */
+  private async routeWithinBudget(
+    providerId: string,
+    model: string,
+    request: ChatRequest,
+    agentType?: string
+  ): Promise<Result<{ provider: string; model: string }>> {
+    if (!this.usageLedger) {
+      return { success: true, data: { provider: providerId, model } };
+    }
+
+    const route = await this.usageLedger.applyBudget(
+      { provider: providerId, model },
+      {
+        projectId: request.context?.projectId,
+        workflowRunId: request.context?.workflowRunId,
+      },
+      agentType
+    );
+    if (route.success && route.data.downgradedFrom) {
+      console.warn(
+        `💸 Budget soft limit reached, downgrading ${providerId}/${model} to ${route.data.provider}/${route.data.model}`
+      );
+    }
+    return route;
+  }
+
+  private async recordUsage(
+    response: ChatResponse,
+    request: ChatRequest,
+    agentType?: string
+  ): Promise<void> {
+    if (!this.usageLedger || !response.usage) {
+      return;
+    }
+
+    const recorded = await this.usageLedger.record({
+      projectId: request.context?.projectId,
+      workflowRunId: request.context?.workflowRunId,
+      agentType,
+      provider: response.provider,
+      model: response.model,
+      promptTokens: response.usage.promptTokens,
+      completionTokens: response.usage.completionTokens,
+      cost: response.usage.cost,
+    });
+    if (!recorded.success) {
+      console.warn('⚠️ Failed to record AI usage:', recorded.error.message);
+    }
+  }
+
+  /**
+   * Select optimal provider based on request context; routes whose
+   * circuit is open or whose provider is unhealthy are skipped
    */
   private async selectOptimalProvider(request: ChatRequest): Promise<
     Result<{
@@ -349,71 +761,24 @@ export class UnifiedAIChatService {
     }>
   > {
     try {
-      // If context specifies agent, use agent assignment
-      if (request.context?.agentType) {
-        const optimalResult =
-          await agentModelAssignmentService.getOptimalProviderForTask(
-            request.context.agentType,
-            request.context.taskType as
-              | 'general'
-              | 'codeReview'
-              | 'systemDesign'
-          );
-
-        if (optimalResult.success) {
-          const providerResult = await providerRegistry.getProvider(
-            optimalResult.data.provider
-          );
-          if (providerResult.success) {
-            return {
-              success: true,
-              data: {
-                provider: providerResult.data,
-                model: optimalResult.data.model,
-              },
-            };
-          }
+      for (const candidate of await this.routeCandidates(request)) {
+        if (
+          !providerRegistry.isAvailable(candidate.provider, candidate.model)
+        ) {
+          continue;
         }
-      }
 
-      // If model is specified in request, find appropriate provider
-      if (request.model) {
-        const allModelsResult = await providerRegistry.getAvailableModels();
-        if (allModelsResult.success) {
-          const modelInfo = allModelsResult.data.find(
-            m => m.id === request.model
-          );
-          if (modelInfo) {
-            const providerResult = await providerRegistry.getProvider(
-              modelInfo.provider
-            );
-            if (providerResult.success) {
-              return {
-                success: true,
-                data: {
-                  provider: providerResult.data,
-                  model: request.model,
-                },
-              };
-            }
-          }
+        const providerResult = await providerRegistry.getProvider(
+          candidate.provider
+        );
+        if (providerResult.success) {
+          return {
+            success: true,
+            data: { provider: providerResult.data, model: candidate.model },
+          };
         }
       }
 
-      // Default fallback - use Azure OpenAI GPT-4o
-      const defaultProviderResult = await providerRegistry.getProvider(
-        'azure-openai'
-      );
-      if (defaultProviderResult.success) {
-        return {
-          success: true,
-          data: {
-            provider: defaultProviderResult.data,
-            model: 'gpt-4o',
-          },
-        };
-      }
-
       return {
         success: false,
         error: {
@@ -433,6 +798,53 @@ export class UnifiedAIChatService {
     }
   }
 
+  /**
+   * Routes for a request in order of preference: the agent assignment and
+   * its fallbacks, the provider of the requested model, then the default
+   */
+  private async routeCandidates(
+    request: ChatRequest
+  ): Promise<Array<{ provider: string; model: string }>> {
+    const candidates: Array<{ provider: string; model: string }> = [];
+
+    // If context specifies agent, use agent assignment
+    const agentType = request.context?.agentType;
+    if (agentType) {
+      const projectId = request.context?.projectId;
+      const optimalResult =
+        await agentModelAssignmentService.getOptimalProviderForTask(
+          agentType,
+          request.context?.taskType as
+            | 'general'
+            | 'codeReview'
+            | 'systemDesign',
+          projectId
+        );
+      const fallbacksResult =
+        await agentModelAssignmentService.getFallbackProvidersForAgent(
+          agentType,
+          projectId
+        );
+      if (optimalResult.success) candidates.push(optimalResult.data);
+      if (fallbacksResult.success) candidates.push(...fallbacksResult.data);
+    }
+
+    // If model is specified in request, find appropriate provider
+    if (request.model) {
+      const allModelsResult = await providerRegistry.getAvailableModels();
+      const modelInfo = allModelsResult.success
+        ? allModelsResult.data.find(m => m.id === request.model)
+        : undefined;
+      if (modelInfo) {
+        candidates.push({ provider: modelInfo.provider, model: request.model });
+      }
+    }
+
+    // Default fallback - use Azure OpenAI GPT-4o
+    candidates.push({ provider: 'azure-openai', model: 'gpt-4o' });
+    return candidates;
+  }
+
   /**
    * Initialize all available providers
    */
@@ -510,6 +922,16 @@ export class UnifiedAIChatService {
       console.warn('Azure OpenAI provider not available:', error);
     }
 
+    // Self-hosted OpenAI-compatible server, only when configured
+    if (process.env.LOCAL_LLM_ENDPOINT) {
+      try {
+        const { LocalProvider } = await import('../providers/local.provider');
+        providers.push(new LocalProvider());
+      } catch (error) {
+        console.warn('Local provider not available:', error);
+      }
+    }
+
     // Groq - Universal Free Fallback (ALWAYS AVAILABLE)
     try {
       const GroqProvider = (await import('../providers/groq.provider')).default;
@@ -519,8 +941,36 @@ export class UnifiedAIChatService {
       console.warn('Groq provider not available:', error);
     }
 
+    // Deterministic test runs: serve recorded responses (AI_REPLAY_MODE)
+    const replay = recordReplayOptionsFromEnv();
+    if (replay) {
+      console.log(
+        `🎞️ AI providers in ${replay.mode} mode (${replay.fixturesDir})`
+      );
+      return providers.map(
+        provider => new RecordReplayProvider(provider, replay)
+      );
+    }
+
     return providers;
   }
 }
 
+/**
+ * First route after the failed one whose provider is available; the
+ * primary route is not in the list, so after it the search starts at the top
+ */
+function nextAvailableRoute(
+  routes: Array<{ provider: string; model: string }>,
+  failed?: { provider: string; model: string }
+): { provider: string; model: string } | undefined {
+  const failedIndex = routes.findIndex(
+    route =>
+      route.provider === failed?.provider && route.model === failed?.model
+  );
+  return routes
+    .slice(failedIndex + 1)
+    .find(route => providerRegistry.isAvailable(route.provider, route.model));
+}
+
 export const unifiedAIChatService = new UnifiedAIChatService();
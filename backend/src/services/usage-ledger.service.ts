@@ -0,0 +1,466 @@
+/**
+ * Usage Ledger Service
+ * Records the tokens and cost of every provider call, aggregates them per
+ * project, agent, workflow run, provider or model, and enforces spending
+ * budgets per project and workflow run
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { ModelInfo, Result } from '../types/ai-provider.types';
+import { providerRegistry } from './provider-registry.service';
+import { agentModelAssignmentService } from './agent-model-assignment.service';
+
+export type BudgetScope = 'project' | 'workflow-run';
+
+export type UsageGroupBy =
+  | 'projectId'
+  | 'agentType'
+  | 'workflowRunId'
+  | 'provider'
+  | 'model';
+
+export interface UsageEntry {
+  projectId?: string;
+  agentType?: string;
+  workflowRunId?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost reported by the provider; computed from model pricing if absent */
+  cost?: number;
+}
+
+export interface UsageFilter {
+  projectId?: string;
+  agentType?: string;
+  workflowRunId?: string;
+  provider?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  groupBy?: UsageGroupBy;
+  groups: Array<UsageTotals & { key: string | null }>;
+}
+
+export interface SpendingBudget {
+  scope: BudgetScope;
+  scopeId: string;
+  /** Above this spend calls are downgraded to cheaper fallbacks (USD) */
+  softLimit?: number | null;
+  /** Above this spend calls are refused (USD) */
+  hardLimit?: number | null;
+}
+
+export interface BudgetStatus extends SpendingBudget {
+  spent: number;
+  state: 'ok' | 'soft-exceeded' | 'hard-exceeded';
+}
+
+export interface BudgetScopeContext {
+  projectId?: string;
+  workflowRunId?: string;
+}
+
+export interface BudgetedRoute {
+  provider: string;
+  model: string;
+  /** Set when a soft limit moved the call to a cheaper model */
+  downgradedFrom?: { provider: string; model: string };
+}
+
+const SCOPE_FIELDS: Record<BudgetScope, 'projectId' | 'workflowRunId'> = {
+  project: 'projectId',
+  'workflow-run': 'workflowRunId',
+};
+
+export class UsageLedgerService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Append one provider call to the ledger
+   */
+  async record(entry: UsageEntry): Promise<Result<{ cost: number }>> {
+    try {
+      const cost =
+        entry.cost ??
+        modelCost(
+          await this.findModel(entry.provider, entry.model),
+          entry.promptTokens,
+          entry.completionTokens
+        );
+
+      await this.prisma.providerUsage.create({
+        data: {
+          projectId: entry.projectId,
+          agentType: entry.agentType,
+          workflowRunId: entry.workflowRunId,
+          provider: entry.provider,
+          model: entry.model,
+          promptTokens: entry.promptTokens,
+          completionTokens: entry.completionTokens,
+          cost,
+        },
+      });
+
+      return { success: true, data: { cost } };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'USAGE_RECORD_ERROR',
+          message: 'Failed to record provider usage',
+          provider: entry.provider,
+          model: entry.model,
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Totals for the filtered calls, optionally broken down by one field
+   */
+  async getSummary(
+    filter: UsageFilter = {},
+    groupBy?: UsageGroupBy
+  ): Promise<Result<UsageSummary>> {
+    try {
+      const where = toWhere(filter);
+      const sums = {
+        _count: { _all: true },
+        _sum: { promptTokens: true, completionTokens: true, cost: true },
+      } as const;
+
+      const total = await this.prisma.providerUsage.aggregate({
+        where,
+        ...sums,
+      });
+      const groups = groupBy
+        ? await this.prisma.providerUsage.groupBy({
+            by: [groupBy],
+            where,
+            ...sums,
+          })
+        : [];
+
+      return {
+        success: true,
+        data: {
+          totals: toTotals(total),
+          groupBy,
+          groups: groups
+            .map(group => ({
+              key: (group as Record<string, any>)[groupBy!] ?? null,
+              ...toTotals(group),
+            }))
+            .sort((a, b) => b.cost - a.cost),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'USAGE_SUMMARY_ERROR',
+          message: 'Failed to summarize provider usage',
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create or replace the budget of a project or workflow run
+   */
+  async setBudget(budget: SpendingBudget): Promise<Result<SpendingBudget>> {
+    try {
+      const limits = {
+        softLimit: budget.softLimit ?? null,
+        hardLimit: budget.hardLimit ?? null,
+      };
+      const saved = await this.prisma.spendingBudget.upsert({
+        where: {
+          scope_scopeId: { scope: budget.scope, scopeId: budget.scopeId },
+        },
+        create: { scope: budget.scope, scopeId: budget.scopeId, ...limits },
+        update: limits,
+      });
+
+      return { success: true, data: toBudget(saved) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'BUDGET_SAVE_ERROR',
+          message: `Failed to save budget for ${budget.scope} ${budget.scopeId}`,
+          details: error,
+        },
+      };
+    }
+  }
+
+  async listBudgets(scope?: BudgetScope): Promise<Result<SpendingBudget[]>> {
+    try {
+      const budgets = await this.prisma.spendingBudget.findMany({
+        where: scope ? { scope } : undefined,
+        orderBy: { createdAt: 'asc' },
+      });
+      return { success: true, data: budgets.map(toBudget) };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'BUDGET_LIST_ERROR',
+          message: 'Failed to list budgets',
+          details: error,
+        },
+      };
+    }
+  }
+
+  async deleteBudget(
+    scope: BudgetScope,
+    scopeId: string
+  ): Promise<Result<boolean>> {
+    try {
+      const deleted = await this.prisma.spendingBudget.deleteMany({
+        where: { scope, scopeId },
+      });
+      return { success: true, data: deleted.count > 0 };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'BUDGET_DELETE_ERROR',
+          message: `Failed to delete budget for ${scope} ${scopeId}`,
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Spend against the budget of one project or workflow run; scopes
+   * without a budget report their spend with state 'ok'
+   */
+  async getBudgetStatus(
+    scope: BudgetScope,
+    scopeId: string
+  ): Promise<Result<BudgetStatus>> {
+    try {
+      const [budget, spent] = await Promise.all([
+        this.prisma.spendingBudget.findUnique({
+          where: { scope_scopeId: { scope, scopeId } },
+        }),
+        this.prisma.providerUsage.aggregate({
+          where: { [SCOPE_FIELDS[scope]]: scopeId },
+          _sum: { cost: true },
+        }),
+      ]);
+
+      return {
+        success: true,
+        data: toStatus(
+          budget ? toBudget(budget) : { scope, scopeId },
+          spent._sum.cost || 0
+        ),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'BUDGET_STATUS_ERROR',
+          message: `Failed to read budget status for ${scope} ${scopeId}`,
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Route a call within the budgets of its project and workflow run: a
+   * hard limit refuses it, a soft limit moves it to the cheapest fallback
+   * of the agent that costs less than the requested model
+   */
+  async applyBudget(
+    route: { provider: string; model: string },
+    context: BudgetScopeContext,
+    agentType?: string
+  ): Promise<Result<BudgetedRoute>> {
+    const statuses: BudgetStatus[] = [];
+    for (const scope of Object.keys(SCOPE_FIELDS) as BudgetScope[]) {
+      const scopeId = context[SCOPE_FIELDS[scope]];
+      if (!scopeId) continue;
+
+      const status = await this.getBudgetStatus(scope, scopeId);
+      if (!status.success) return status;
+      statuses.push(status.data);
+    }
+
+    const exceeded = statuses.find(status => status.state === 'hard-exceeded');
+    if (exceeded) {
+      return {
+        success: false,
+        error: {
+          code: 'BUDGET_EXCEEDED',
+          message: `Spending cap of ${exceeded.hardLimit} USD reached for ${exceeded.scope} ${exceeded.scopeId}`,
+          provider: route.provider,
+          model: route.model,
+          details: exceeded,
+        },
+      };
+    }
+
+    if (
+      !agentType ||
+      !statuses.some(status => status.state === 'soft-exceeded')
+    ) {
+      return { success: true, data: route };
+    }
+
+    const cheaper = await this.findCheaperFallback(
+      route,
+      agentType,
+      context.projectId
+    );
+    return {
+      success: true,
+      data: cheaper ? { ...cheaper, downgradedFrom: route } : route,
+    };
+  }
+
+  private async findCheaperFallback(
+    route: { provider: string; model: string },
+    agentType: string,
+    projectId?: string
+  ): Promise<{ provider: string; model: string } | undefined> {
+    const fallbacks =
+      await agentModelAssignmentService.getFallbackProvidersForAgent(
+        agentType,
+        projectId
+      );
+    if (!fallbacks.success) return undefined;
+
+    let best: { provider: string; model: string } | undefined;
+    let bestPrice = unitPrice(
+      await this.findModel(route.provider, route.model)
+    );
+
+    for (const fallback of fallbacks.data) {
+      const price = unitPrice(
+        await this.findModel(fallback.provider, fallback.model)
+      );
+      if (price < bestPrice) {
+        best = fallback;
+        bestPrice = price;
+      }
+    }
+
+    return best;
+  }
+
+  private async findModel(
+    provider: string,
+    model: string
+  ): Promise<ModelInfo | undefined> {
+    const providerResult = await providerRegistry.getProvider(provider);
+    return providerResult.success
+      ? providerResult.data.supportedModels.find(info => info.id === model)
+      : undefined;
+  }
+}
+
+/**
+ * Cost of a call from the model's per-1k token prices; unknown models
+ * are recorded at zero cost
+ */
+function modelCost(
+  model: ModelInfo | undefined,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  if (!model) return 0;
+  return (
+    (promptTokens / 1000) * model.costPer1kTokens.input +
+    (completionTokens / 1000) * model.costPer1kTokens.output
+  );
+}
+
+/**
+ * Price used to compare models; unknown models never count as cheaper
+ */
+function unitPrice(model: ModelInfo | undefined): number {
+  return model
+    ? model.costPer1kTokens.input + model.costPer1kTokens.output
+    : Infinity;
+}
+
+function toWhere(filter: UsageFilter) {
+  return {
+    projectId: filter.projectId,
+    agentType: filter.agentType,
+    workflowRunId: filter.workflowRunId,
+    provider: filter.provider,
+    ...((filter.from || filter.to) && {
+      createdAt: { gte: filter.from, lte: filter.to },
+    }),
+  };
+}
+
+function toTotals(aggregate: {
+  _count: { _all: number };
+  _sum: {
+    promptTokens: number | null;
+    completionTokens: number | null;
+    cost: number | null;
+  };
+}): UsageTotals {
+  const promptTokens = aggregate._sum.promptTokens || 0;
+  const completionTokens = aggregate._sum.completionTokens || 0;
+  return {
+    calls: aggregate._count._all,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    cost: aggregate._sum.cost || 0,
+  };
+}
+
+function toBudget(row: {
+  scope: string;
+  scopeId: string;
+  softLimit: number | null;
+  hardLimit: number | null;
+}): SpendingBudget {
+  return {
+    scope: row.scope as BudgetScope,
+    scopeId: row.scopeId,
+    softLimit: row.softLimit,
+    hardLimit: row.hardLimit,
+  };
+}
+
+function toStatus(budget: SpendingBudget, spent: number): BudgetStatus {
+  const over = (limit?: number | null) =>
+    limit !== null && limit !== undefined && spent >= limit;
+  return {
+    ...budget,
+    spent,
+    state: over(budget.hardLimit)
+      ? 'hard-exceeded'
+      : over(budget.softLimit)
+      ? 'soft-exceeded'
+      : 'ok',
+  };
+}
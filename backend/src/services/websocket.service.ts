@@ -6,6 +6,7 @@
 import { Server as HttpServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import type { Socket } from 'socket.io';
+import type { CircuitStateChange } from './provider-circuit-breaker';
 
 export interface WorkflowUpdate {
   workflowId: string;
@@ -28,6 +29,16 @@ export interface AgentMessage {
   data?: any;
 }
 
+export interface ChatStreamUpdate {
+  projectId: string;
+  messageId: string;
+  agentType?: string;
+  type: 'delta' | 'done' | 'error';
+  content?: string;
+  timestamp: string;
+  data?: any;
+}
+
 class WebSocketService {
   private io: SocketIOServer | null = null;
   private connectedClients = new Map<string, Socket>();
@@ -102,6 +113,29 @@ class WebSocketService {
     );
   }
 
+  /**
+   * Send a streamed chat token chunk (or the end of the stream) to all
+   * clients watching the project; not logged, as there is one per token
+   */
+  sendChatStream(update: ChatStreamUpdate): void {
+    if (!this.io) {
+      return;
+    }
+
+    this.io.to(`project-${update.projectId}`).emit('chat-stream', update);
+  }
+
+  /**
+   * Broadcast a provider circuit breaker state change to all clients
+   */
+  sendProviderCircuitState(change: CircuitStateChange): void {
+    if (!this.io) {
+      return;
+    }
+
+    this.io.emit('provider-circuit', change);
+  }
+
   /**
    * Send project status update
    */
@@ -15,6 +15,7 @@ import {
   ApprovalStep,
 } from './enhanced-workflow-templates';
 import ChatIntegrationService from './chat-integration.service';
+import { ProcessMessageOptions } from './types/chat-integration.types';
 import ContextManager from './context-manager';
 
 export interface WorkflowCreationSession {
@@ -208,7 +209,8 @@ Please describe your project and what you want to achieve with the workflow.`;
    */
   async processWorkflowCreationMessage(
     sessionId: string,
-    userMessage: string
+    userMessage: string,
+    options: ProcessMessageOptions = {}
   ): Promise<
     Result<
       {
@@ -247,16 +249,19 @@ Please describe your project and what you want to achieve with the workflow.`;
       const contextualPrompt = this.buildContextualPrompt(session, userMessage);
 
       // Wyślij do chat service
-      const chatResponse = await this.chatService.processMessage({
-        sessionId: session.chatSessionId,
-        message: contextualPrompt,
-        provider: 'github-copilot',
-        settings: {
-          includeContext: true,
-          maxTokens: 2000,
-          temperature: 0.7,
+      const chatResponse = await this.chatService.processMessage(
+        {
+          sessionId: session.chatSessionId,
+          message: contextualPrompt,
+          provider: 'github-copilot',
+          settings: {
+            includeContext: true,
+            maxTokens: 2000,
+            temperature: 0.7,
+          },
         },
-      });
+        options
+      );
 
       if (!chatResponse.success) {
         return chatResponse;
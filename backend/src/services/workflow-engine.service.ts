@@ -10,13 +10,32 @@ import {
   WorkflowExecution,
   WorkflowEngineError,
   WorkflowStatus,
+  RunReplay,
 } from './workflow/types';
 import { WorkflowValidator } from './workflow/validator';
 import { HandlerRegistry } from './workflow/registry';
 import { WorkflowMonitor } from './workflow/monitor';
 import { TemplateManager } from './workflow/template-manager';
-import { WorkflowExecutionManager } from './workflow/execution-manager';
+import {
+  WorkflowExecutionManager,
+  ExecutionOptions,
+} from './workflow/execution-manager';
 import { WorkflowStepExecutor } from './workflow/step-executor';
+import { RecoveryReport } from './workflow/recovery';
+import { ReplayOptions, RunAttempt } from './workflow/replay';
+import {
+  TemplateVersioning,
+  TemplateVersionInfo,
+  PublishOptions,
+  MigrationReport,
+} from './workflow/versioning';
+import { TemplateDiff } from './workflow/template-diff';
+import { WorkflowScheduler } from './workflow/scheduler';
+import { HandlerInfo } from './workflow/registry';
+import {
+  registerStepHandlers,
+  persistHandlerDefinitions,
+} from './workflow/handlers';
 
 export interface WorkflowEngineConfig {
   maxConcurrentExecutions?: number;
@@ -41,8 +60,10 @@ export class WorkflowEngineService {
   private handlerRegistry!: HandlerRegistry;
   private monitor!: WorkflowMonitor;
   private templateManager!: TemplateManager;
+  private templateVersioning!: TemplateVersioning;
   private executionManager!: WorkflowExecutionManager;
   private stepExecutor!: WorkflowStepExecutor;
+  private scheduler!: WorkflowScheduler;
 
   // Runtime state
   private runningExecutions = new Map<string, Promise<void>>();
@@ -71,17 +92,23 @@ export class WorkflowEngineService {
     this.handlerRegistry = new HandlerRegistry();
     this.monitor = new WorkflowMonitor();
 
-    this.templateManager = new TemplateManager(this.prisma);
-    this.executionManager = new WorkflowExecutionManager(
+    this.templateManager = new TemplateManager(
       this.prisma,
-      this.monitor,
       this.handlerRegistry
     );
+    this.templateVersioning = new TemplateVersioning(this.prisma);
     this.stepExecutor = new WorkflowStepExecutor(
       this.prisma,
       this.handlerRegistry,
       this.monitor
     );
+    this.executionManager = new WorkflowExecutionManager(
+      this.prisma,
+      this.monitor,
+      this.handlerRegistry,
+      this.stepExecutor
+    );
+    this.scheduler = new WorkflowScheduler(this.prisma, this);
 
     this.registerDefaultHandlers();
     this.initialized = true;
@@ -96,11 +123,16 @@ export class WorkflowEngineService {
       name: 'delay',
       version: '1.0.0',
       description: 'Delays execution for specified duration',
+      category: 'utility',
+      inputSchema: {
+        type: 'object',
+        properties: { duration: { type: 'number' } },
+      },
       execute: async (input: { duration: number }) => {
         await new Promise(resolve =>
           setTimeout(resolve, input.duration || 1000)
         );
-        return { success: true, output: { delayed: input.duration } };
+        return { success: true, data: { delayed: input.duration } };
       },
     });
 
@@ -108,10 +140,16 @@ export class WorkflowEngineService {
       name: 'log',
       version: '1.0.0',
       description: 'Logs message to console',
+      category: 'utility',
+      inputSchema: {
+        type: 'object',
+        required: ['message'],
+        properties: { message: { type: 'string' }, level: { type: 'string' } },
+      },
       execute: async (input: { message: string; level?: string }) => {
         const level = input.level || 'info';
         (console as any)[level]?.(input.message) || console.log(input.message);
-        return { success: true, output: { logged: input.message } };
+        return { success: true, data: { logged: input.message } };
       },
     });
 
@@ -119,14 +157,22 @@ export class WorkflowEngineService {
       name: 'transform',
       version: '1.0.0',
       description: 'Transforms input data using provided mapping',
+      category: 'transform',
+      inputSchema: {
+        type: 'object',
+        required: ['mapping'],
+        properties: { data: {}, mapping: { type: 'object' } },
+      },
       execute: async (input: { data: any; mapping: Record<string, any> }) => {
         const result: any = {};
         for (const [key, path] of Object.entries(input.mapping)) {
           result[key] = this.getNestedValue(input.data, path as string);
         }
-        return { success: true, output: result };
+        return { success: true, data: result };
       },
     });
+
+    registerStepHandlers(this.handlerRegistry, this.prisma);
   }
 
   // ===== TEMPLATE MANAGEMENT API =====
@@ -155,14 +201,106 @@ export class WorkflowEngineService {
   }
 
   /**
-   * Update workflow template
+   * Create workflow template from a complete definition, e.g. an imported
+   * template file
+   */
+  async importTemplate(
+    template: WorkflowTemplate
+  ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
+    this.ensureInitialized();
+    return this.templateManager.createWorkflowTemplate({
+      ...template,
+      id: undefined,
+      active: template.active ?? true,
+    });
+  }
+
+  /**
+   * Update workflow template; definition changes publish a new version
    */
   async updateTemplate(
     templateId: string,
-    updates: Partial<WorkflowTemplate>
+    updates: Partial<WorkflowTemplate>,
+    options: PublishOptions = {}
   ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
     this.ensureInitialized();
-    return this.templateManager.updateWorkflowTemplate(templateId, updates);
+    return this.templateManager.updateWorkflowTemplate(
+      templateId,
+      updates,
+      options
+    );
+  }
+
+  /**
+   * List published versions of a template, newest first
+   */
+  async listTemplateVersions(
+    templateId: string
+  ): Promise<Result<TemplateVersionInfo[], WorkflowEngineError>> {
+    this.ensureInitialized();
+    return this.templateVersioning.listVersions(templateId);
+  }
+
+  /**
+   * Get the definition of a published template version
+   */
+  async getTemplateVersion(
+    templateId: string,
+    version: string
+  ): Promise<
+    Result<
+      { info: TemplateVersionInfo; template: WorkflowTemplate },
+      WorkflowEngineError
+    >
+  > {
+    this.ensureInitialized();
+    return this.templateVersioning.getVersion(templateId, version);
+  }
+
+  /**
+   * Structural diff between two published template versions
+   */
+  async diffTemplateVersions(
+    templateId: string,
+    fromVersion: string,
+    toVersion: string
+  ): Promise<Result<TemplateDiff, WorkflowEngineError>> {
+    this.ensureInitialized();
+    return this.templateVersioning.diffVersions(
+      templateId,
+      fromVersion,
+      toVersion
+    );
+  }
+
+  /**
+   * Move unfinished executions of a template to another version
+   */
+  async migrateExecutions(
+    templateId: string,
+    version: string,
+    options: { runIds?: string[]; dryRun?: boolean } = {}
+  ): Promise<Result<MigrationReport, WorkflowEngineError>> {
+    this.ensureInitialized();
+    const result = await this.executionManager.migrateExecutions(
+      templateId,
+      version,
+      options
+    );
+
+    if (result.success) {
+      // Runs paused for migration were restarted by the execution manager
+      for (const runId of result.data.migrated) {
+        if (
+          this.executionManager.isRunning(runId) &&
+          !this.runningExecutions.has(runId)
+        ) {
+          this.runningExecutions.set(runId, this.runWorkflowExecution(runId));
+        }
+      }
+    }
+
+    return result;
   }
 
   /**
@@ -182,8 +320,8 @@ export class WorkflowEngineService {
           'error' in result
             ? result.error
             : new WorkflowEngineError(
-                'DELETE_FAILED',
-                'Failed to delete template'
+                'Failed to delete template',
+                'DELETE_FAILED'
               ),
       };
     }
@@ -225,7 +363,8 @@ export class WorkflowEngineService {
    */
   async startExecution(
     templateId: string,
-    input: Record<string, any>
+    input: Record<string, any>,
+    options: ExecutionOptions = {}
   ): Promise<Result<string, WorkflowEngineError>> {
     this.ensureInitialized();
 
@@ -234,15 +373,16 @@ export class WorkflowEngineService {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'MAX_CONCURRENT_EXECUTIONS_REACHED',
-          `Maximum concurrent executions (${this.config.maxConcurrentExecutions}) reached`
+          `Maximum concurrent executions (${this.config.maxConcurrentExecutions}) reached`,
+          'MAX_CONCURRENT_EXECUTIONS_REACHED'
         ),
       };
     }
 
     const result = await this.executionManager.startExecution(
       templateId,
-      input
+      input,
+      options
     );
 
     if (result.success) {
@@ -260,7 +400,7 @@ export class WorkflowEngineService {
       error:
         'error' in result
           ? result.error
-          : new WorkflowEngineError('EXECUTION_FAILED', 'Execution failed'),
+          : new WorkflowEngineError('Execution failed', 'EXECUTION_FAILED'),
     };
   }
 
@@ -334,6 +474,92 @@ export class WorkflowEngineService {
     );
   }
 
+  /**
+   * Re-run a step of a finished execution, or resume it from a step, as a
+   * new attempt linked to the original run
+   */
+  async replayExecution(
+    executionId: string,
+    replay: RunReplay,
+    options: ReplayOptions = {}
+  ): Promise<Result<string, WorkflowEngineError>> {
+    this.ensureInitialized();
+
+    if (this.runningExecutions.size >= this.config.maxConcurrentExecutions) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Maximum concurrent executions (${this.config.maxConcurrentExecutions}) reached`,
+          'MAX_CONCURRENT_EXECUTIONS_REACHED'
+        ),
+      };
+    }
+
+    const result = await this.executionManager.replayExecution(
+      executionId,
+      replay,
+      options
+    );
+    if (!result.success) return result;
+
+    const replayId = result.data.executionId;
+    this.runningExecutions.set(replayId, this.runWorkflowExecution(replayId));
+    return { success: true, data: replayId };
+  }
+
+  /**
+   * Get the attempts (original run and replays) linked to an execution
+   */
+  async getExecutionAttempts(
+    executionId: string
+  ): Promise<Result<RunAttempt[], WorkflowEngineError>> {
+    this.ensureInitialized();
+    return this.executionManager.getExecutionAttempts(executionId);
+  }
+
+  /**
+   * Resume executions interrupted by a backend restart
+   */
+  async recoverInterruptedExecutions(): Promise<
+    Result<RecoveryReport, WorkflowEngineError>
+  > {
+    this.ensureInitialized();
+    const result = await this.executionManager.recoverInterruptedExecutions();
+
+    if (result.success) {
+      for (const runId of result.data.recoveredRuns) {
+        this.runningExecutions.set(runId, this.runWorkflowExecution(runId));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Wait until a running execution settles
+   */
+  async waitForExecution(executionId: string): Promise<void> {
+    await this.runningExecutions.get(executionId);
+  }
+
+  // ===== SCHEDULING API =====
+
+  /**
+   * Get workflow scheduler
+   */
+  getScheduler(): WorkflowScheduler {
+    this.ensureInitialized();
+    return this.scheduler;
+  }
+
+  /**
+   * Start firing due workflow schedules
+   */
+  startScheduler(): void {
+    this.ensureInitialized();
+    this.scheduler.start();
+  }
+
   // ===== HANDLER MANAGEMENT API =====
 
   /**
@@ -352,6 +578,24 @@ export class WorkflowEngineService {
     return this.handlerRegistry.list();
   }
 
+  /**
+   * Get registered handlers with their schemas
+   */
+  getHandlerInfo(name?: string): HandlerInfo[] {
+    this.ensureInitialized();
+    return name
+      ? [this.handlerRegistry.getInfo(name)]
+      : this.handlerRegistry.listWithInfo();
+  }
+
+  /**
+   * Persist registered handler definitions to the WorkflowHandler table
+   */
+  async syncHandlerCatalog(): Promise<Result<number, WorkflowEngineError>> {
+    this.ensureInitialized();
+    return persistHandlerDefinitions(this.handlerRegistry, this.prisma);
+  }
+
   // ===== MONITORING & STATISTICS API =====
 
   /**
@@ -377,59 +621,12 @@ export class WorkflowEngineService {
   // ===== PRIVATE EXECUTION LOGIC =====
 
   /**
-   * Execute workflow steps in sequence
+   * Track background DAG execution driven by the execution manager
    */
   private async runWorkflowExecution(executionId: string): Promise<void> {
     try {
-      const statusResult = await this.executionManager.getExecutionStatus(
-        executionId
-      );
-      if (!statusResult.success) return;
-
-      const execution = statusResult.data;
-      const templateResult = await this.templateManager.getWorkflowTemplate(
-        execution.workflowId
-      );
-      if (!templateResult.success) return;
-
-      const template = templateResult.data;
-
-      // Execute steps sequentially
-      for (const step of template.steps) {
-        const stepResult = await this.stepExecutor.executeStep(
-          step,
-          {
-            stepId: step.stepId,
-            workflowRunId: executionId,
-            input: execution.input,
-            variables: execution.variables || {},
-            metadata: (execution as any).metadata || {},
-            attempt: 1,
-            maxAttempts: step.retries || this.config.retryDefaults.maxAttempts,
-          },
-          {
-            timeout: step.timeout || this.config.defaultTimeout,
-            retryDelay: this.config.retryDefaults.backoffMs,
-          }
-        );
-
-        if (!stepResult.success || !stepResult.data.shouldContinue) {
-          break;
-        }
-
-        // Update execution variables
-        if (stepResult.data.updatedVariables) {
-          await this.updateExecutionVariables(
-            executionId,
-            stepResult.data.updatedVariables
-          );
-        }
-      }
-    } catch (error) {
-      console.error(`Workflow execution failed: ${executionId}`, error);
-      await this.executionManager.cancelExecution(executionId);
+      await this.executionManager.waitForCompletion(executionId);
     } finally {
-      // Cleanup
       this.runningExecutions.delete(executionId);
     }
   }
@@ -491,23 +688,6 @@ export class WorkflowEngineService {
     }
   }
 
-  /**
-   * Update execution variables
-   */
-  private async updateExecutionVariables(
-    executionId: string,
-    variables: Record<string, any>
-  ): Promise<void> {
-    try {
-      await this.prisma.workflowRun.update({
-        where: { id: executionId },
-        data: { variables: variables as any },
-      });
-    } catch (error) {
-      console.error('Failed to update execution variables:', error);
-    }
-  }
-
   /**
    * Get nested value from object by path
    */
@@ -521,8 +701,8 @@ export class WorkflowEngineService {
   private ensureInitialized(): void {
     if (!this.initialized) {
       throw new WorkflowEngineError(
-        'SERVICE_NOT_INITIALIZED',
-        'Workflow engine service not initialized'
+        'Workflow engine service not initialized',
+        'SERVICE_NOT_INITIALIZED'
       );
     }
   }
@@ -531,6 +711,8 @@ export class WorkflowEngineService {
    * Cleanup and shutdown service
    */
   async shutdown(): Promise<void> {
+    this.scheduler.stop();
+
     // Wait for all running executions to complete or timeout
     const shutdownPromises = Array.from(this.runningExecutions.values());
     await Promise.allSettled(shutdownPromises);
@@ -24,8 +24,8 @@ export class EnhancedWorkflowTemplates {
     string,
     () => WorkflowTemplateEnhanced
   >([
-    ['new-project-development', NewProjectTemplate.create],
-    ['existing-project-enhancement', ExistingProjectTemplate.create],
+    ['new-project-development', () => NewProjectTemplate.create()],
+    ['existing-project-enhancement', () => ExistingProjectTemplate.create()],
   ]);
 
   /**
@@ -57,6 +57,14 @@ export class EnhancedWorkflowTemplates {
     return factory ? factory() : null;
   }
 
+  /**
+   * Rejestruje szablon zaimportowany z pliku YAML/JSON
+   */
+  static registerTemplate(template: WorkflowTemplateEnhanced): void {
+    const snapshot = JSON.stringify(template);
+    this.templates.set(template.id, () => JSON.parse(snapshot));
+  }
+
   /**
    * Wyszukuje szablony według kryteriów
    */
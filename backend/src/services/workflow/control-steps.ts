@@ -0,0 +1,473 @@
+/**
+ * Workflow Control Steps
+ * LOOP, PARALLEL, DELAY and CONDITION step semantics for the step executor
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { StepType, WorkflowEngineError, WorkflowStep } from './types';
+import { Result } from '../../providers/ml-provider.interface';
+import type {
+  StepExecutionContext,
+  StepExecutorOptions,
+} from './step-executor';
+import {
+  ExpressionScope,
+  createExpressionScope,
+  evaluateConditions,
+  evaluateExpression,
+  resolveMappingValue,
+} from './expression';
+
+/** Longest single wait of a delay step; stop requests are checked between */
+const DELAY_CHUNK_MS = 1000;
+
+export interface StepBodyResult {
+  output?: any;
+  variables?: Record<string, any>;
+}
+
+/**
+ * Runs a step body; nested bodies (loop items, parallel children) have no
+ * step execution record of their own
+ */
+export type StepBodyRunner = (
+  step: WorkflowStep,
+  context: StepExecutionContext,
+  options: StepExecutorOptions,
+  nested: boolean
+) => Promise<Result<StepBodyResult, WorkflowEngineError>>;
+
+export interface LoopItemResult {
+  index: number;
+  success: boolean;
+  output?: any;
+  error?: string;
+}
+
+export interface ParallelChildResult {
+  stepId: string;
+  status: 'completed' | 'failed' | 'skipped';
+  output?: any;
+  error?: string;
+}
+
+/**
+ * Step types handled here instead of by a single handler call
+ */
+export const CONTROL_STEP_TYPES: StepType[] = [
+  StepType.LOOP,
+  StepType.PARALLEL,
+  StepType.DELAY,
+  StepType.CONDITION,
+];
+
+/**
+ * Control step types that do not invoke a handler themselves
+ */
+export const HANDLERLESS_STEP_TYPES: StepType[] = [
+  StepType.PARALLEL,
+  StepType.DELAY,
+  StepType.CONDITION,
+];
+
+export function isControlStep(step: WorkflowStep): boolean {
+  return CONTROL_STEP_TYPES.includes(step.type);
+}
+
+/**
+ * Expression scope for a step: its input, run variables, upstream step
+ * outputs and run context
+ */
+export function createStepScope(
+  context: StepExecutionContext
+): ExpressionScope {
+  return createExpressionScope({
+    input: context.input,
+    variables: context.variables,
+    outputs: context.metadata?.steps,
+    context: context.metadata?.context,
+  });
+}
+
+/**
+ * Control step executor
+ */
+export class ControlStepExecutor {
+  constructor(
+    private prisma: PrismaClient,
+    private runHandler: StepBodyRunner,
+    private runStep: StepBodyRunner
+  ) {}
+
+  async execute(
+    step: WorkflowStep,
+    context: StepExecutionContext,
+    options: StepExecutorOptions,
+    nested: boolean
+  ): Promise<Result<StepBodyResult, WorkflowEngineError>> {
+    switch (step.type) {
+      case StepType.LOOP:
+        return this.executeLoop(step, context, options);
+      case StepType.PARALLEL:
+        return this.executeParallel(step, context, options);
+      case StepType.DELAY:
+        return this.executeDelay(step, context, options, nested);
+      case StepType.CONDITION:
+        return this.executeBranch(step, context);
+      default:
+        return this.runHandler(step, context, options, nested);
+    }
+  }
+
+  /**
+   * Run the step handler for each item with at most `concurrency` in flight
+   */
+  private async executeLoop(
+    step: WorkflowStep,
+    context: StepExecutionContext,
+    options: StepExecutorOptions
+  ): Promise<Result<StepBodyResult, WorkflowEngineError>> {
+    const config = step.loop;
+    const scope = createStepScope(context);
+    const items = config ? evaluateExpression(config.items, scope) : undefined;
+    if (!config || !Array.isArray(items)) {
+      return this.failure(
+        `Loop items of step ${step.stepId} did not evaluate to an array`,
+        'LOOP_ITEMS_INVALID',
+        step.stepId
+      );
+    }
+
+    const itemVariable = config.itemVariable || 'item';
+    const indexVariable = config.indexVariable || 'index';
+    const results: LoopItemResult[] = [];
+    let nextIndex = 0;
+    let aborted = false;
+
+    const runItem = async (index: number): Promise<LoopItemResult> => {
+      const bindings = { [itemVariable]: items[index], [indexVariable]: index };
+      const input = config.inputMapping
+        ? resolveMappingValue(config.inputMapping, { ...scope, ...bindings })
+        : { ...(context.input || {}), ...bindings };
+      const variables = { ...context.variables, ...bindings };
+
+      const result = await this.runHandler(
+        step,
+        { ...context, input, variables },
+        options,
+        true
+      );
+      return result.success
+        ? { index, success: true, output: result.data.output }
+        : { index, success: false, error: result.error.message };
+    };
+
+    const worker = async (): Promise<void> => {
+      while (!aborted && nextIndex < items.length) {
+        const result = await runItem(nextIndex++);
+        results[result.index] = result;
+        if (!result.success && !config.continueOnItemError) aborted = true;
+      }
+    };
+
+    const concurrency = Math.max(1, config.concurrency || 1);
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, items.length) }, worker)
+    );
+
+    const settled = results.filter(Boolean);
+    const failed = settled.filter(result => !result.success);
+    if (failed.length > 0 && !config.continueOnItemError) {
+      return this.failure(
+        `Loop item ${failed[0].index} of step ${step.stepId} failed: ${failed[0].error}`,
+        'LOOP_ITEM_FAILED',
+        step.stepId
+      );
+    }
+
+    return {
+      success: true,
+      data: {
+        output: {
+          items: results.map(result => result?.output ?? null),
+          results: settled,
+          count: items.length,
+          succeeded: settled.length - failed.length,
+          failed: failed.length,
+        },
+      },
+    };
+  }
+
+  /**
+   * Run nested child steps concurrently and join them
+   */
+  private async executeParallel(
+    step: WorkflowStep,
+    context: StepExecutionContext,
+    options: StepExecutorOptions
+  ): Promise<Result<StepBodyResult, WorkflowEngineError>> {
+    const children = step.parallel?.steps || [];
+    const join = step.parallel?.join || 'all';
+    if (children.length === 0) {
+      return this.failure(
+        `Parallel step ${step.stepId} has no child steps`,
+        'PARALLEL_CONFIG_INVALID',
+        step.stepId
+      );
+    }
+
+    const scope = createStepScope(context);
+    const promises = children.map(child =>
+      this.runChild(child, scope, context, options)
+    );
+    const results =
+      join === 'first-success'
+        ? await this.waitForFirstSuccess(promises)
+        : await Promise.all(promises);
+
+    const idsWith = (status: ParallelChildResult['status']) =>
+      results.filter(result => result.status === status).map(r => r.stepId);
+    const completed = idsWith('completed');
+    const failed = results.filter(result => result.status === 'failed');
+
+    if (join === 'all' ? failed.length > 0 : completed.length === 0) {
+      return this.failure(
+        `Parallel step ${step.stepId} failed (${join}): ${failed
+          .map(result => `${result.stepId}: ${result.error}`)
+          .join('; ')}`,
+        'PARALLEL_JOIN_FAILED',
+        step.stepId
+      );
+    }
+
+    return {
+      success: true,
+      data: {
+        output: {
+          join,
+          results: Object.fromEntries(
+            results.map(result => [result.stepId, result.output ?? null])
+          ),
+          completed,
+          failed: failed.map(result => result.stepId),
+          skipped: idsWith('skipped'),
+          ...(join === 'first-success' && { winner: completed[0] }),
+        },
+      },
+    };
+  }
+
+  private async runChild(
+    child: WorkflowStep,
+    scope: ExpressionScope,
+    context: StepExecutionContext,
+    options: StepExecutorOptions
+  ): Promise<ParallelChildResult> {
+    try {
+      if (
+        child.conditions?.length &&
+        !evaluateConditions(child.conditions, scope)
+      ) {
+        return { stepId: child.stepId, status: 'skipped' };
+      }
+
+      const input = child.inputMapping
+        ? resolveMappingValue(child.inputMapping, scope)
+        : context.input;
+      const result = await this.runStep(
+        child,
+        { ...context, input },
+        { ...options, timeout: child.timeout },
+        true
+      );
+
+      return result.success
+        ? {
+            stepId: child.stepId,
+            status: 'completed',
+            output: result.data.output,
+          }
+        : {
+            stepId: child.stepId,
+            status: 'failed',
+            error: result.error.message,
+          };
+    } catch (error) {
+      return {
+        stepId: child.stepId,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Resolve with the results settled so far once a child succeeds, or with
+   * all results once every child has settled
+   */
+  private waitForFirstSuccess(
+    promises: Promise<ParallelChildResult>[]
+  ): Promise<ParallelChildResult[]> {
+    return new Promise(resolve => {
+      const settled: ParallelChildResult[] = [];
+      promises.forEach(promise =>
+        promise.then(result => {
+          settled.push(result);
+          if (
+            result.status === 'completed' ||
+            settled.length === promises.length
+          ) {
+            resolve([...settled]);
+          }
+        })
+      );
+    });
+  }
+
+  /**
+   * Wait until the persisted wake-up time; a restarted run resumes the
+   * remaining wait instead of starting over. The wait ends early with
+   * STEP_INTERRUPTED when the run is paused or cancelled
+   */
+  private async executeDelay(
+    step: WorkflowStep,
+    context: StepExecutionContext,
+    options: StepExecutorOptions,
+    nested: boolean
+  ): Promise<Result<StepBodyResult, WorkflowEngineError>> {
+    const startedAt = Date.now();
+    const where = { workflowRunId: context.workflowRunId, stepId: step.stepId };
+    const record = nested
+      ? null
+      : await this.prisma.workflowStepExecution.findFirst({ where });
+
+    let resumeAt = record?.resumeAt || null;
+    if (!resumeAt) {
+      const computed = this.computeResumeAt(step, context, startedAt);
+      if (!computed.success) return computed;
+
+      resumeAt = computed.data;
+      if (!nested) {
+        await this.prisma.workflowStepExecution.updateMany({
+          where,
+          data: { resumeAt },
+        });
+      }
+    }
+
+    // Timers longer than 2^31-1 ms fire at once, so wait in chunks
+    for (;;) {
+      const remaining = resumeAt.getTime() - Date.now();
+      if (remaining <= 0) break;
+      await new Promise(resolve =>
+        setTimeout(resolve, Math.min(remaining, DELAY_CHUNK_MS))
+      );
+
+      const stopReason = options.getStopReason?.();
+      if (stopReason) {
+        return this.failure(
+          `Delay of step ${step.stepId} interrupted: run ${stopReason}`,
+          'STEP_INTERRUPTED',
+          step.stepId
+        );
+      }
+      if (!nested) {
+        // The stored wake-up time may have moved, e.g. to end the wait early
+        const current = await this.prisma.workflowStepExecution.findFirst({
+          where,
+        });
+        resumeAt = current?.resumeAt || resumeAt;
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        output: {
+          resumeAt: resumeAt.toISOString(),
+          waited: Date.now() - startedAt,
+        },
+      },
+    };
+  }
+
+  private computeResumeAt(
+    step: WorkflowStep,
+    context: StepExecutionContext,
+    now: number
+  ): Result<Date, WorkflowEngineError> {
+    const config = step.delay;
+
+    if (config?.until) {
+      const value = evaluateExpression(config.until, createStepScope(context));
+      const date = new Date(value);
+      return Number.isNaN(date.getTime())
+        ? this.failure(
+            `Delay step ${step.stepId} 'until' is not a valid date: ${value}`,
+            'DELAY_CONFIG_INVALID',
+            step.stepId
+          )
+        : { success: true, data: date };
+    }
+
+    if (typeof config?.duration === 'number' && config.duration >= 0) {
+      return { success: true, data: new Date(now + config.duration) };
+    }
+
+    return this.failure(
+      `Delay step ${step.stepId} requires a duration or until`,
+      'DELAY_CONFIG_INVALID',
+      step.stepId
+    );
+  }
+
+  /**
+   * Evaluate the branch expression; the workflow executor skips the steps of
+   * the branch not taken
+   */
+  private async executeBranch(
+    step: WorkflowStep,
+    context: StepExecutionContext
+  ): Promise<Result<StepBodyResult, WorkflowEngineError>> {
+    const branch = step.branch;
+    if (!branch?.expression) {
+      return this.failure(
+        `Condition step ${step.stepId} requires a branch expression`,
+        'BRANCH_CONFIG_INVALID',
+        step.stepId
+      );
+    }
+
+    const result = Boolean(
+      evaluateExpression(branch.expression, createStepScope(context))
+    );
+    const selected = (result ? branch.then : branch.else) || [];
+    const skipped = ((result ? branch.else : branch.then) || []).filter(
+      stepId => !selected.includes(stepId)
+    );
+
+    return {
+      success: true,
+      data: {
+        output: {
+          result,
+          branch: result ? 'then' : 'else',
+          selected,
+          skipped,
+        },
+      },
+    };
+  }
+
+  private failure<T>(
+    message: string,
+    code: string,
+    stepId: string
+  ): Result<T, WorkflowEngineError> {
+    return {
+      success: false,
+      error: new WorkflowEngineError(message, code, stepId),
+    };
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Cron Expression Module
+ * Parses standard five-field cron expressions and computes next run times
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Invalid cron expression error
+ */
+export class CronExpressionError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression '${expression}': ${reason}`);
+    this.name = 'CronExpressionError';
+  }
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  // 7 is accepted as Sunday and folded to 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 },
+];
+
+// Search horizon; covers leap-day schedules such as "0 0 29 2 *"
+const MAX_LOOKAHEAD_YEARS = 8;
+
+/**
+ * Parse cron expression (minute hour day-of-month month day-of-week)
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = expression.trim();
+  const source = MACROS[normalized.toLowerCase()] || normalized;
+  const parts = source.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new CronExpressionError(
+      expression,
+      `expected 5 fields, got ${parts.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseField(expression, part, FIELDS[index])
+  );
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*' && parts[2] !== '?',
+    dayOfWeekRestricted: parts[4] !== '*' && parts[4] !== '?',
+  };
+}
+
+/**
+ * Check whether expression is a valid cron expression
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compute the first run strictly after the given date (server local time)
+ */
+export function getNextCronRun(
+  expression: string | CronSchedule,
+  after: Date = new Date()
+): Date {
+  const schedule =
+    typeof expression === 'string'
+      ? parseCronExpression(expression)
+      : expression;
+
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_LOOKAHEAD_YEARS);
+
+  while (candidate <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  throw new Error(
+    `No cron occurrence within ${MAX_LOOKAHEAD_YEARS} years after ${after.toISOString()}`
+  );
+}
+
+/**
+ * Day matching follows Vixie cron: when both day fields are restricted
+ * either one matching is enough
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  if (schedule.dayOfMonthRestricted) return domMatch;
+  if (schedule.dayOfWeekRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * Parse single cron field supporting *, lists, ranges, steps and names
+ */
+function parseField(
+  expression: string,
+  field: string,
+  spec: FieldSpec
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = item.split('/');
+    if (rest.length > 0 || rangePart === '') {
+      throw new CronExpressionError(expression, `bad ${spec.name} '${item}'`);
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(
+        expression,
+        `bad ${spec.name} step '${stepPart}'`
+      );
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+    if (rangePart !== '*' && rangePart !== '?') {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(expression, from, spec);
+      end =
+        to !== undefined
+          ? parseValue(expression, to, spec)
+          : stepPart !== undefined
+          ? spec.max
+          : start;
+    }
+
+    if (start > end) {
+      throw new CronExpressionError(
+        expression,
+        `bad ${spec.name} range '${rangePart}'`
+      );
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(expression: string, raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  const nameIndex = spec.names ? spec.names.indexOf(upper) : -1;
+  const value =
+    nameIndex >= 0 ? nameIndex + (spec.namesOffset || 0) : Number(raw);
+
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new CronExpressionError(
+      expression,
+      `${spec.name} value '${raw}' out of range ${spec.min}-${spec.max}`
+    );
+  }
+
+  return value;
+}
@@ -9,11 +9,22 @@ import {
   WorkflowTemplate,
   WorkflowExecution,
   WorkflowEngineError,
+  RunReplay,
 } from './types';
 import { Result } from '../../providers/ml-provider.interface';
 import { WorkflowValidator } from './validator';
 import { WorkflowMonitor } from './monitor';
 import { HandlerRegistry } from './registry';
+import { WorkflowStepExecutor } from './step-executor';
+import { WorkflowExecutor, RunStopReason } from './workflow-executor';
+import { WorkflowRecovery, RecoveryReport } from './recovery';
+import { WorkflowReplay, ReplayOptions, RunAttempt } from './replay';
+import {
+  TemplateVersioning,
+  MigrationReport,
+  RunMigrationCheck,
+} from './versioning';
+import { createExpressionScope, interpolateValue } from './expression';
 import {
   mapPrismaToTemplate,
   mapPrismaToExecution,
@@ -46,6 +57,7 @@ export interface ExecutionOptions {
   continueOnError?: boolean;
   executor?: string;
   executorType?: 'user' | 'system' | 'schedule' | 'webhook';
+  context?: Record<string, any>;
 }
 
 /**
@@ -57,17 +69,33 @@ export class WorkflowExecutionManager {
   private validator: WorkflowValidator;
   private monitor: WorkflowMonitor;
   private handlerRegistry: HandlerRegistry;
+  private workflowExecutor: WorkflowExecutor;
+  private recovery: WorkflowRecovery;
+  private replay: WorkflowReplay;
+  private versioning: TemplateVersioning;
   private activeExecutions = new Map<string, ExecutionContext>();
+  private runningWorkflows = new Map<string, Promise<void>>();
+  private stopRequests = new Map<string, RunStopReason>();
 
   constructor(
     prisma: PrismaClient,
     monitor: WorkflowMonitor,
-    handlerRegistry: HandlerRegistry
+    handlerRegistry: HandlerRegistry,
+    stepExecutor?: WorkflowStepExecutor
   ) {
     this.prisma = prisma;
     this.validator = new WorkflowValidator();
     this.monitor = monitor;
     this.handlerRegistry = handlerRegistry;
+    this.workflowExecutor = new WorkflowExecutor(
+      prisma,
+      stepExecutor ||
+        new WorkflowStepExecutor(prisma, handlerRegistry, monitor),
+      monitor
+    );
+    this.recovery = new WorkflowRecovery(prisma);
+    this.replay = new WorkflowReplay(prisma);
+    this.versioning = new TemplateVersioning(prisma);
   }
 
   /**
@@ -75,12 +103,14 @@ export class WorkflowExecutionManager {
    */
   async startExecution(
     templateId: string,
-    input: any = {}
+    input: any = {},
+    options: ExecutionOptions = {}
   ): Promise<Result<ExecutionResult, WorkflowEngineError>> {
     try {
-      // Get workflow template with validation
-      const template = await this.getWorkflowTemplate(templateId);
-      if (!template.success) return template as any;
+      // New runs are pinned to the latest published template version
+      const pinned = await this.versioning.getLatestVersion(templateId);
+      if (!pinned.success) return pinned as any;
+      const template = { data: pinned.data.template };
 
       // Validate execution input
       const validation = await this.validateExecutionInput(
@@ -90,16 +120,19 @@ export class WorkflowExecutionManager {
       if (!validation.success) return validation as any;
 
       // Create execution record
-      const execution = await this.createExecution(template.data, input);
+      const execution = await this.createExecution(
+        template.data,
+        input,
+        options,
+        pinned.data.versionId
+      );
       if (!execution.success) return execution as any;
 
       // Start monitoring
-      this.startExecutionMonitoring(execution.data);
+      this.startExecutionMonitoring(execution.data, template.data);
 
       // Execute workflow in background
-      this.executeWorkflowAsync(execution.data).catch(error => {
-        console.error('Workflow execution failed:', error);
-      });
+      this.executeWorkflowAsync(execution.data, template.data);
 
       return {
         success: true,
@@ -115,10 +148,10 @@ export class WorkflowExecutionManager {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'EXECUTION_START_FAILED',
           `Failed to start execution: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'EXECUTION_START_FAILED'
         ),
       };
     }
@@ -148,8 +181,8 @@ export class WorkflowExecutionManager {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'EXECUTION_NOT_FOUND',
-            `Execution not found: ${runId}`
+            `Execution not found: ${runId}`,
+            'EXECUTION_NOT_FOUND'
           ),
         };
       }
@@ -160,10 +193,10 @@ export class WorkflowExecutionManager {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'EXECUTION_STATUS_FAILED',
           `Failed to get execution status: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'EXECUTION_STATUS_FAILED'
         ),
       };
     }
@@ -186,16 +219,17 @@ export class WorkflowExecutionManager {
 
       // Remove from active executions
       this.activeExecutions.delete(runId);
+      this.stopRequests.set(runId, 'paused');
 
       return { success: true, data: true };
     } catch (error) {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'EXECUTION_PAUSE_FAILED',
           `Failed to pause execution: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'EXECUTION_PAUSE_FAILED'
         ),
       };
     }
@@ -217,8 +251,8 @@ export class WorkflowExecutionManager {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'EXECUTION_NOT_FOUND',
-            `Execution not found: ${runId}`
+            `Execution not found: ${runId}`,
+            'EXECUTION_NOT_FOUND'
           ),
         };
       }
@@ -227,8 +261,8 @@ export class WorkflowExecutionManager {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'INVALID_STATUS',
-            'Execution is not paused'
+            'Execution is not paused',
+            'INVALID_STATUS'
           ),
         };
       }
@@ -241,21 +275,22 @@ export class WorkflowExecutionManager {
         },
       });
 
-      // Resume execution
-      const mappedExecution = mapPrismaToExecution(execution);
-      this.executeWorkflowAsync(mappedExecution).catch(error => {
-        console.error('Workflow resume failed:', error);
-      });
+      // Resume execution; a run still draining in-flight steps simply
+      // picks up scheduling again once the stop request is cleared
+      this.stopRequests.delete(runId);
+      if (!this.runningWorkflows.has(runId)) {
+        this.executeWorkflowAsync(mapPrismaToExecution(execution));
+      }
 
       return { success: true, data: true };
     } catch (error) {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'EXECUTION_RESUME_FAILED',
           `Failed to resume execution: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'EXECUTION_RESUME_FAILED'
         ),
       };
     }
@@ -281,16 +316,19 @@ export class WorkflowExecutionManager {
 
       // Remove from active executions
       this.activeExecutions.delete(runId);
+      if (this.runningWorkflows.has(runId)) {
+        this.stopRequests.set(runId, 'cancelled');
+      }
 
       return { success: true, data: true };
     } catch (error) {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'EXECUTION_CANCEL_FAILED',
           `Failed to cancel execution: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'EXECUTION_CANCEL_FAILED'
         ),
       };
     }
@@ -328,10 +366,10 @@ export class WorkflowExecutionManager {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'EXECUTION_HISTORY_FAILED',
           `Failed to get execution history: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'EXECUTION_HISTORY_FAILED'
         ),
       };
     }
@@ -365,17 +403,312 @@ export class WorkflowExecutionManager {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'ACTIVE_EXECUTIONS_FAILED',
           `Failed to get active executions: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'ACTIVE_EXECUTIONS_FAILED'
+        ),
+      };
+    }
+  }
+
+  /**
+   * Resume runs left pending or running by a previous process from their
+   * last persisted step state, variables and context
+   */
+  async recoverInterruptedExecutions(): Promise<
+    Result<RecoveryReport, WorkflowEngineError>
+  > {
+    try {
+      const recovered = await this.recovery.prepareInterruptedRuns(
+        Array.from(this.runningWorkflows.keys())
+      );
+      const report: RecoveryReport = {
+        recoveredRuns: [],
+        interruptedSteps: 0,
+        failedRuns: [],
+      };
+
+      for (const { execution, interruptedSteps } of recovered) {
+        const runId = execution.id || '';
+        const template = await this.getRecoveryTemplate(execution);
+        if (!template.success) {
+          await this.markExecutionFailed(runId, template.error);
+          report.failedRuns.push({ runId, error: template.error.message });
+          continue;
+        }
+
+        this.activeExecutions.set(runId, {
+          workflowId: execution.workflowId,
+          runId,
+          input: execution.input || {},
+          variables: execution.variables || {},
+          metadata: { recovered: true, interruptedSteps },
+        });
+        this.startExecutionMonitoring(execution, template.data);
+        this.executeWorkflowAsync(execution, template.data);
+
+        report.recoveredRuns.push(runId);
+        report.interruptedSteps += interruptedSteps.length;
+      }
+
+      return { success: true, data: report };
+    } catch (error) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Failed to recover interrupted executions: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+          'EXECUTION_RECOVERY_FAILED'
+        ),
+      };
+    }
+  }
+
+  /**
+   * Start a new attempt of a finished run that re-runs one step or resumes
+   * from a step, reusing the recorded outputs of the other steps
+   */
+  async replayExecution(
+    runId: string,
+    replay: RunReplay,
+    options: ReplayOptions = {}
+  ): Promise<Result<ExecutionResult, WorkflowEngineError>> {
+    try {
+      if (this.runningWorkflows.has(runId)) {
+        return {
+          success: false,
+          error: new WorkflowEngineError(
+            `Execution ${runId} is still running`,
+            'REPLAY_RUN_ACTIVE'
+          ),
+        };
+      }
+
+      const original = await this.replay.getReplayableRun(runId);
+      if (!original.success) return original;
+
+      const template = await this.getExecutionTemplate(
+        mapPrismaToExecution(original.data)
+      );
+      if (!template.success) return template;
+
+      const execution = await this.replay.createReplayRun(
+        original.data,
+        template.data,
+        replay,
+        options
+      );
+      if (!execution.success) return execution;
+
+      const replayRunId = execution.data.id || '';
+      this.activeExecutions.set(replayRunId, {
+        workflowId: execution.data.workflowId,
+        runId: replayRunId,
+        input: execution.data.input || {},
+        variables: execution.data.variables || {},
+        metadata: { parentRunId: runId, replay },
+      });
+      this.startExecutionMonitoring(execution.data, template.data);
+      this.executeWorkflowAsync(execution.data, template.data);
+
+      return {
+        success: true,
+        data: {
+          success: true,
+          executionId: replayRunId,
+          duration: 0,
+          completedSteps: 0,
+          totalSteps: template.data.steps?.length || 0,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Failed to replay execution: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+          'EXECUTION_REPLAY_FAILED'
         ),
       };
     }
   }
 
+  /**
+   * Get the original run and all replays linked to an execution
+   */
+  async getExecutionAttempts(
+    runId: string
+  ): Promise<Result<RunAttempt[], WorkflowEngineError>> {
+    try {
+      return await this.replay.listAttempts(runId);
+    } catch (error) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Failed to get execution attempts: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+          'EXECUTION_ATTEMPTS_FAILED'
+        ),
+      };
+    }
+  }
+
+  /**
+   * Move unfinished runs of a template to another published version. Runs
+   * driven by this process are paused at a step boundary, migrated and
+   * resumed on the new definition; incompatible runs are left untouched.
+   */
+  async migrateExecutions(
+    templateId: string,
+    version: string,
+    options: { runIds?: string[]; dryRun?: boolean } = {}
+  ): Promise<Result<MigrationReport, WorkflowEngineError>> {
+    try {
+      const plan = await this.versioning.planMigration(
+        templateId,
+        version,
+        options.runIds
+      );
+      if (!plan.success) return plan;
+
+      const report: MigrationReport = {
+        templateId,
+        toVersion: version,
+        dryRun: Boolean(options.dryRun),
+        migrated: [],
+        runs: plan.data.runs,
+      };
+      if (options.dryRun) return { success: true, data: report };
+
+      report.runs = [];
+      for (const check of plan.data.runs) {
+        const result = check.compatible
+          ? await this.migrateRun(check.runId, templateId, version)
+          : { success: true as const, data: check };
+        if (!result.success) {
+          report.runs.push({
+            ...check,
+            compatible: false,
+            errors: [result.error.message],
+          });
+          continue;
+        }
+
+        report.runs.push(result.data);
+        if (result.data.compatible) report.migrated.push(check.runId);
+      }
+
+      return { success: true, data: report };
+    } catch (error) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Failed to migrate executions: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+          'EXECUTION_MIGRATION_FAILED'
+        ),
+      };
+    }
+  }
+
+  /**
+   * Wait until the background run of an execution settles
+   */
+  async waitForCompletion(runId: string): Promise<void> {
+    await this.runningWorkflows.get(runId);
+  }
+
+  /**
+   * Check whether an execution is being driven by this process
+   */
+  isRunning(runId: string): boolean {
+    return this.runningWorkflows.has(runId);
+  }
+
   // Private helper methods for execution management
 
+  /**
+   * Pause a run driven by this process, re-pin it and resume it on the
+   * target version
+   */
+  private async migrateRun(
+    runId: string,
+    templateId: string,
+    version: string
+  ): Promise<Result<RunMigrationCheck, WorkflowEngineError>> {
+    const wasRunning = this.runningWorkflows.has(runId);
+    if (wasRunning) {
+      this.stopRequests.set(runId, 'paused');
+      await this.waitForCompletion(runId);
+    }
+
+    const result = await this.versioning.migrateRun(runId, templateId, version);
+
+    if (wasRunning) {
+      const run = await this.prisma.workflowRun.findUnique({
+        where: { id: runId },
+      });
+      if (run && run.status === 'running') {
+        const execution = mapPrismaToExecution(run);
+        this.activeExecutions.set(runId, {
+          workflowId: execution.workflowId,
+          runId,
+          input: execution.input || {},
+          variables: execution.variables || {},
+          metadata: { migratedTo: version },
+        });
+        this.executeWorkflowAsync(execution);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Template a run executes: its pinned version, or the current template
+   * for runs created before versioning
+   */
+  private async getExecutionTemplate(
+    execution: WorkflowExecution
+  ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
+    return execution.templateVersionId
+      ? this.versioning.getVersionTemplate(execution.templateVersionId)
+      : this.getWorkflowTemplate(execution.workflowId);
+  }
+
+  /**
+   * Template a recovered run continues on; steps that can no longer run
+   * (unknown handlers, broken dependencies) fail the run instead of
+   * resuming it
+   */
+  private async getRecoveryTemplate(
+    execution: WorkflowExecution
+  ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
+    const template = await this.getExecutionTemplate(execution);
+    if (!template.success) return template;
+
+    const validation = WorkflowValidator.validateSteps(
+      template.data.steps,
+      this.handlerRegistry.listWithInfo()
+    );
+    if (!validation.success) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          validation.errors.join(', '),
+          'VALIDATION_ERROR'
+        ),
+      };
+    }
+
+    return template;
+  }
+
   private async getWorkflowTemplate(
     templateId: string
   ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
@@ -392,8 +725,8 @@ export class WorkflowExecutionManager {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'TEMPLATE_NOT_FOUND',
-          `Template not found: ${templateId}`
+          `Template not found: ${templateId}`,
+          'TEMPLATE_NOT_FOUND'
         ),
       };
     }
@@ -420,8 +753,8 @@ export class WorkflowExecutionManager {
           return {
             success: false,
             error: new WorkflowEngineError(
-              'INPUT_VALIDATION_FAILED',
-              validation.errors.join(', ')
+              validation.errors.join(', '),
+              'INPUT_VALIDATION_FAILED'
             ),
           };
         }
@@ -432,10 +765,10 @@ export class WorkflowExecutionManager {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'INPUT_VALIDATION_ERROR',
           `Input validation error: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'INPUT_VALIDATION_ERROR'
         ),
       };
     }
@@ -443,19 +776,32 @@ export class WorkflowExecutionManager {
 
   private async createExecution(
     template: WorkflowTemplate,
-    input: any
+    input: any,
+    options: ExecutionOptions = {},
+    templateVersionId?: string
   ): Promise<Result<WorkflowExecution, WorkflowEngineError>> {
     try {
+      // Template variables may reference run input via {{ }} placeholders
+      const variables = interpolateValue(
+        template.variables || {},
+        createExpressionScope({ input, context: options.context })
+      );
       const executionData = executionToCreateData(
         template.id || '',
         input,
-        {},
-        {},
+        options.context,
+        variables,
         template.steps?.length || 0
       );
 
       const execution = await this.prisma.workflowRun.create({
-        data: executionData,
+        data: {
+          ...executionData,
+          templateVersionId,
+          priority: options.priority || template.priority || 'medium',
+          executor: options.executor,
+          executorType: options.executorType,
+        },
         include: {
           workflow: true,
           steps: true,
@@ -476,7 +822,10 @@ export class WorkflowExecutionManager {
         runId: execution.id,
         input,
         variables: (execution.variables as Record<string, any>) || {},
-        metadata: {},
+        metadata: {
+          executor: options.executor,
+          executorType: options.executorType,
+        },
       };
 
       this.activeExecutions.set(execution.id, context);
@@ -487,36 +836,87 @@ export class WorkflowExecutionManager {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'EXECUTION_CREATE_FAILED',
           `Failed to create execution: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'EXECUTION_CREATE_FAILED'
         ),
       };
     }
   }
 
-  private startExecutionMonitoring(execution: WorkflowExecution): void {
-    // Start monitoring with existing monitor
-    this.monitor.startMonitoring(execution as any);
+  private startExecutionMonitoring(
+    execution: WorkflowExecution,
+    template: WorkflowTemplate
+  ): void {
+    this.monitor.startMonitoring({
+      ...execution,
+      runId: execution.id || '',
+      templateId: template.id || execution.workflowId,
+      steps: template.steps,
+    });
   }
 
-  private async executeWorkflowAsync(
-    execution: WorkflowExecution
+  /**
+   * Run the workflow DAG in background, tracking the run promise
+   */
+  private executeWorkflowAsync(
+    execution: WorkflowExecution,
+    template?: WorkflowTemplate
+  ): void {
+    const runId = execution.id || '';
+    const runPromise = this.runWorkflow(execution, template)
+      .catch(async error => {
+        console.error('Workflow execution error:', error);
+        await this.markExecutionFailed(runId, error);
+      })
+      .finally(() => {
+        this.runningWorkflows.delete(runId);
+        this.stopRequests.delete(runId);
+        this.activeExecutions.delete(runId);
+      });
+
+    this.runningWorkflows.set(runId, runPromise);
+  }
+
+  private async runWorkflow(
+    execution: WorkflowExecution,
+    template?: WorkflowTemplate
+  ): Promise<void> {
+    let workflowTemplate = template;
+    if (!workflowTemplate) {
+      const templateResult = await this.getExecutionTemplate(execution);
+      if (!templateResult.success) throw templateResult.error;
+      workflowTemplate = templateResult.data;
+    }
+
+    const runId = execution.id || '';
+    await this.workflowExecutor.execute(workflowTemplate, execution, {
+      defaultStepTimeout: workflowTemplate.timeout,
+      getStopReason: () => this.stopRequests.get(runId),
+    });
+  }
+
+  private async markExecutionFailed(
+    runId: string,
+    error: unknown
   ): Promise<void> {
-    // This method will be implemented in workflow-executor.ts
-    // For now, just update status to completed
     try {
       await this.prisma.workflowRun.update({
-        where: { id: execution.id || '' },
+        where: { id: runId },
         data: {
-          status: 'completed',
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorCode:
+            error instanceof WorkflowEngineError
+              ? error.code
+              : 'WORKFLOW_EXECUTION_ERROR',
           endTime: new Date(),
           updatedAt: new Date(),
         },
       });
-    } catch (error) {
-      console.error('Workflow execution error:', error);
+    } catch (updateError) {
+      console.error('Failed to mark workflow run as failed:', updateError);
     }
   }
 }
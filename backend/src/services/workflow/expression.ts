@@ -0,0 +1,770 @@
+/**
+ * Workflow Expression Language
+ * Sandboxed expressions for step conditions, input/output mappings and
+ * template variables. Expressions are parsed into an AST and interpreted;
+ * nothing is handed to eval or Function, only own properties are readable and
+ * only the whitelisted functions below are callable.
+ *
+ * Syntax:
+ *   paths        steps.requirements.output.stories[0].title
+ *   literals     'api', "api", 42, 1.5, true, false, null, [1, 2]
+ *   comparison   == != === !== > >= < <= in
+ *   logic        && || ! and, or, not (looser than comparison), ??, a ? b : c
+ *   arithmetic   + - * / %
+ *   functions    lower(name), contains(tags, 'web'), len(items), ...
+ *
+ * Bare identifiers resolve against the scope roots (input, variables, steps,
+ * context), then workflow variables, then run input, so
+ * `projectType == 'api'` works without a prefix.
+ */
+
+import { WorkflowCondition } from './types';
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(
+      position === undefined ? message : `${message} at position ${position}`
+    );
+    this.name = 'ExpressionError';
+  }
+}
+
+export type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | {
+      type: 'binary';
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: 'conditional';
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    };
+
+export type ExpressionScope = Record<string, any>;
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+  value: any;
+  pos: number;
+}
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING_DEPTH = 32;
+const MAX_CACHED_EXPRESSIONS = 500;
+
+const OPERATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '>=',
+  '<=',
+  '&&',
+  '||',
+  '??',
+  '>',
+  '<',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '(',
+  ')',
+  '[',
+  ']',
+  ',',
+  '.',
+  '?',
+  ':',
+];
+
+const KEYWORD_OPERATORS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: 'not',
+  in: 'in',
+};
+
+const LITERALS: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '??': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '===': 3,
+  '!==': 3,
+  '<': 4,
+  '>': 4,
+  '<=': 4,
+  '>=': 4,
+  in: 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6,
+};
+
+const COMPARISON_PRECEDENCE = 3;
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype']);
+
+const MAPPING_PATTERN = /^(input|variables|steps|context|output)(\.|\[|$)/;
+const TEMPLATE_PATTERN = /\{\{([\s\S]+?)\}\}/g;
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+};
+
+/**
+ * Whitelisted expression functions
+ */
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  len: value =>
+    typeof value === 'string' || Array.isArray(value)
+      ? value.length
+      : isPlainObject(value)
+      ? Object.keys(value).length
+      : 0,
+  lower: value => toText(value).toLowerCase(),
+  upper: value => toText(value).toUpperCase(),
+  trim: value => toText(value).trim(),
+  contains: (haystack, needle) =>
+    Array.isArray(haystack)
+      ? haystack.includes(needle)
+      : toText(haystack).includes(toText(needle)),
+  startsWith: (value, prefix) => toText(value).startsWith(toText(prefix)),
+  endsWith: (value, suffix) => toText(value).endsWith(toText(suffix)),
+  split: (value, separator) => toText(value).split(toText(separator)),
+  join: (value, separator = ',') =>
+    Array.isArray(value) ? value.map(toText).join(toText(separator)) : '',
+  first: value => (Array.isArray(value) ? value[0] : undefined),
+  last: value => (Array.isArray(value) ? value[value.length - 1] : undefined),
+  keys: value => (isPlainObject(value) ? Object.keys(value) : []),
+  exists: value => value !== undefined && value !== null,
+  isEmpty: value =>
+    value === undefined ||
+    value === null ||
+    ((typeof value === 'string' || typeof value === 'object') &&
+      FUNCTIONS.len(value) === 0),
+  coalesce: (...values) =>
+    values.find(value => value !== undefined && value !== null),
+  number: value => Number(value),
+  string: value => toText(value),
+};
+
+const BINARY_OPERATORS: Record<string, (left: any, right: any) => any> = {
+  '==': (left, right) => left === right,
+  '===': (left, right) => left === right,
+  '!=': (left, right) => left !== right,
+  '!==': (left, right) => left !== right,
+  '<': (left, right) => left < right,
+  '>': (left, right) => left > right,
+  '<=': (left, right) => left <= right,
+  '>=': (left, right) => left >= right,
+  in: (left, right) =>
+    isPlainObject(right)
+      ? hasOwn(right, left)
+      : FUNCTIONS.contains(right, left),
+  '+': (left, right) => left + right,
+  '-': (left, right) => left - right,
+  '*': (left, right) => left * right,
+  '/': (left, right) => left / right,
+  '%': (left, right) => left % right,
+};
+
+const CONDITION_OPERATORS: Record<
+  string,
+  (actual: any, expected: any) => boolean
+> = {
+  equals: (actual, expected) => actual === expected,
+  not_equals: (actual, expected) => actual !== expected,
+  contains: (actual, expected) => FUNCTIONS.contains(actual, expected),
+  greater_than: (actual, expected) => actual > expected,
+  less_than: (actual, expected) => actual < expected,
+  exists: actual => FUNCTIONS.exists(actual),
+  not_exists: actual => !FUNCTIONS.exists(actual),
+};
+
+function hasOwn(object: object, key: PropertyKey): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Split source into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+    } else if (/[0-9]/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(source.slice(pos)) as RegExpExecArray;
+      tokens.push({ type: 'number', value: Number(match[0]), pos });
+      pos += match[0].length;
+    } else if (char === '"' || char === "'") {
+      const [value, end] = readString(source, pos);
+      tokens.push({ type: 'string', value, pos });
+      pos = end;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = (/^[A-Za-z_$][\w$]*/.exec(source.slice(pos)) as string[])[0];
+      tokens.push(
+        hasOwn(KEYWORD_OPERATORS, word)
+          ? { type: 'operator', value: KEYWORD_OPERATORS[word], pos }
+          : { type: 'identifier', value: word, pos }
+      );
+      pos += word.length;
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, pos));
+      if (!operator) {
+        throw new ExpressionError(`Unexpected character '${char}'`, pos);
+      }
+      tokens.push({ type: 'operator', value: operator, pos });
+      pos += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'eof', value: null, pos });
+  return tokens;
+}
+
+function readString(source: string, start: number): [string, number] {
+  const quote = source[start];
+  let value = '';
+  let pos = start + 1;
+
+  while (pos < source.length && source[pos] !== quote) {
+    if (source[pos] === '\\' && pos + 1 < source.length) {
+      const escaped = source[pos + 1];
+      value += STRING_ESCAPES[escaped] ?? escaped;
+      pos += 2;
+    } else {
+      value += source[pos++];
+    }
+  }
+
+  if (pos >= source.length) {
+    throw new ExpressionError('Unterminated string', start);
+  }
+
+  return [value, pos + 1];
+}
+
+/**
+ * Recursive descent parser producing an expression AST
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionError(`Unexpected token '${token.value}'`, token.pos);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply');
+    }
+
+    const test = this.parseBinary(1);
+    let node = test;
+    if (this.match('?')) {
+      const consequent = this.parseConditional();
+      this.expect(':');
+      node = {
+        type: 'conditional',
+        test,
+        consequent,
+        alternate: this.parseConditional(),
+      };
+    }
+
+    this.depth--;
+    return node;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    // `not` negates a whole comparison: not a == b is !(a == b)
+    let left: ExpressionNode =
+      minPrecedence <= COMPARISON_PRECEDENCE && this.match('not')
+        ? {
+            type: 'unary',
+            operator: '!',
+            argument: this.parseBinary(COMPARISON_PRECEDENCE),
+          }
+        : this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence =
+        token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (
+      token.type === 'operator' &&
+      (token.value === '!' || token.value === '-')
+    ) {
+      this.index++;
+      return {
+        type: 'unary',
+        operator: token.value,
+        argument: this.parseUnary(),
+      };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.match('.')) {
+        const token = this.next();
+        if (token.type !== 'identifier') {
+          throw new ExpressionError('Expected property name', token.pos);
+        }
+        node = {
+          type: 'member',
+          object: node,
+          property: { type: 'literal', value: token.value },
+        };
+      } else if (this.match('[')) {
+        const property = this.parseConditional();
+        this.expect(']');
+        node = { type: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      if (hasOwn(LITERALS, token.value)) {
+        return { type: 'literal', value: LITERALS[token.value] };
+      }
+      if (this.match('(')) {
+        return this.parseCall(token);
+      }
+      return { type: 'identifier', name: token.value };
+    }
+
+    if (token.type === 'operator' && token.value === '(') {
+      const node = this.parseConditional();
+      this.expect(')');
+      return node;
+    }
+
+    if (token.type === 'operator' && token.value === '[') {
+      return { type: 'array', elements: this.parseList(']') };
+    }
+
+    throw new ExpressionError(
+      token.type === 'eof'
+        ? 'Unexpected end of expression'
+        : `Unexpected token '${token.value}'`,
+      token.pos
+    );
+  }
+
+  private parseCall(token: Token): ExpressionNode {
+    if (!hasOwn(FUNCTIONS, token.value)) {
+      throw new ExpressionError(`Unknown function '${token.value}'`, token.pos);
+    }
+    return { type: 'call', name: token.value, args: this.parseList(')') };
+  }
+
+  private parseList(closing: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.match(closing)) return items;
+
+    do {
+      items.push(this.parseConditional());
+    } while (this.match(','));
+
+    this.expect(closing);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private match(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected '${operator}'`, token.pos);
+    }
+  }
+}
+
+const expressionCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parse an expression into its AST, caching parsed sources
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (typeof source !== 'string' || source.trim().length === 0) {
+    throw new ExpressionError('Expression is empty');
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(
+      `Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`
+    );
+  }
+
+  const cached = expressionCache.get(source);
+  if (cached) return cached;
+
+  const node = new Parser(tokenize(source)).parse();
+  if (expressionCache.size >= MAX_CACHED_EXPRESSIONS) {
+    expressionCache.clear();
+  }
+  expressionCache.set(source, node);
+  return node;
+}
+
+function readProperty(object: any, key: any): any {
+  if (BLOCKED_PROPERTIES.has(String(key))) {
+    throw new ExpressionError(`Access to '${key}' is not allowed`);
+  }
+  if (object === undefined || object === null) return undefined;
+  if (
+    key === 'length' &&
+    (typeof object === 'string' || Array.isArray(object))
+  ) {
+    return object.length;
+  }
+  if (typeof object !== 'object' && typeof object !== 'string') {
+    return undefined;
+  }
+  return hasOwn(Object(object), key) ? object[key] : undefined;
+}
+
+function resolveIdentifier(name: string, scope: ExpressionScope): any {
+  for (const source of [scope, scope.variables, scope.input]) {
+    if (isPlainObject(source) && hasOwn(source, name)) {
+      return readProperty(source, name);
+    }
+  }
+  return undefined;
+}
+
+function evaluateBinary(
+  node: Extract<ExpressionNode, { type: 'binary' }>,
+  scope: ExpressionScope
+): any {
+  const left = evaluateNode(node.left, scope);
+  if (node.operator === '&&') return left && evaluateNode(node.right, scope);
+  if (node.operator === '||') return left || evaluateNode(node.right, scope);
+  if (node.operator === '??') return left ?? evaluateNode(node.right, scope);
+  return BINARY_OPERATORS[node.operator](left, evaluateNode(node.right, scope));
+}
+
+const EVALUATORS: Record<
+  ExpressionNode['type'],
+  (node: any, scope: ExpressionScope) => any
+> = {
+  literal: node => node.value,
+  identifier: (node, scope) => resolveIdentifier(node.name, scope),
+  member: (node, scope) =>
+    readProperty(
+      evaluateNode(node.object, scope),
+      evaluateNode(node.property, scope)
+    ),
+  call: (node, scope) =>
+    FUNCTIONS[node.name](
+      ...node.args.map((arg: ExpressionNode) => evaluateNode(arg, scope))
+    ),
+  array: (node, scope) =>
+    node.elements.map((element: ExpressionNode) =>
+      evaluateNode(element, scope)
+    ),
+  unary: (node, scope) => {
+    const value = evaluateNode(node.argument, scope);
+    return node.operator === '!' ? !value : -value;
+  },
+  binary: evaluateBinary,
+  conditional: (node, scope) =>
+    evaluateNode(node.test, scope)
+      ? evaluateNode(node.consequent, scope)
+      : evaluateNode(node.alternate, scope),
+};
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope): any {
+  return EVALUATORS[node.type](node, scope);
+}
+
+/**
+ * Evaluate an expression against a scope
+ */
+export function evaluateExpression(
+  source: string,
+  scope: ExpressionScope
+): any {
+  return evaluateNode(parseExpression(source), scope);
+}
+
+/**
+ * Replace {{ expression }} placeholders in a string; a string consisting of a
+ * single placeholder yields the raw value instead of its text
+ */
+export function interpolate(template: string, scope: ExpressionScope): any {
+  const whole = /^\{\{([\s\S]+?)\}\}$/.exec(template.trim());
+  if (whole && !whole[1].includes('}}')) {
+    return evaluateExpression(whole[1].trim(), scope);
+  }
+
+  return template.replace(TEMPLATE_PATTERN, (_match, source: string) =>
+    toText(evaluateExpression(source.trim(), scope))
+  );
+}
+
+/**
+ * Interpolate placeholders throughout a value (used for template variables)
+ */
+export function interpolateValue(value: any, scope: ExpressionScope): any {
+  if (typeof value === 'string') {
+    return value.includes('{{') ? interpolate(value, scope) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateValue(item, scope));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolateValue(item, scope),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolve a mapping value: strings rooted at a scope path are expressions,
+ * strings with placeholders are interpolated, anything else is a literal
+ */
+export function resolveMappingValue(value: any, scope: ExpressionScope): any {
+  if (typeof value === 'string' && MAPPING_PATTERN.test(value.trim())) {
+    return evaluateExpression(value.trim(), scope);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveMappingValue(item, scope));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveMappingValue(item, scope),
+      ])
+    );
+  }
+  return interpolateValue(value, scope);
+}
+
+/**
+ * Collect expression sources embedded in a mapping or template value
+ */
+export function collectExpressions(
+  value: any,
+  mode: 'mapping' | 'template' = 'mapping'
+): string[] {
+  if (typeof value === 'string') {
+    if (mode === 'mapping' && MAPPING_PATTERN.test(value.trim())) {
+      return [value.trim()];
+    }
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), match =>
+      match[1].trim()
+    );
+  }
+  if (Array.isArray(value) || isPlainObject(value)) {
+    return Object.values(value).flatMap(item => collectExpressions(item, mode));
+  }
+  return [];
+}
+
+/**
+ * Check expression syntax without evaluating it
+ */
+export function validateExpression(source: string): string | null {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Step ids referenced through steps.<id> or steps['<id>']
+ */
+export function getStepReferences(source: string): string[] {
+  const references = new Set<string>();
+
+  const visit = (node: ExpressionNode): void => {
+    if (
+      node.type === 'member' &&
+      node.object.type === 'identifier' &&
+      node.object.name === 'steps' &&
+      node.property.type === 'literal'
+    ) {
+      references.add(String(node.property.value));
+    }
+    Object.values(node).forEach(child => {
+      if (Array.isArray(child)) child.forEach(visit);
+      else if (child && typeof child === 'object') visit(child);
+    });
+  };
+
+  visit(parseExpression(source));
+  return Array.from(references);
+}
+
+/**
+ * Build the standard scope from run state; step outputs are exposed as
+ * steps.<id>.output
+ */
+export function createExpressionScope(state: {
+  input?: any;
+  variables?: Record<string, any>;
+  outputs?: Record<string, any>;
+  context?: Record<string, any>;
+}): ExpressionScope {
+  return {
+    input: state.input ?? {},
+    variables: state.variables || {},
+    steps: Object.fromEntries(
+      Object.entries(state.outputs || {}).map(([stepId, output]) => [
+        stepId,
+        { output },
+      ])
+    ),
+    context: state.context || {},
+  };
+}
+
+/**
+ * Evaluate a single condition: an expression, or field/operator/value where
+ * field is a path expression
+ */
+export function evaluateCondition(
+  condition: WorkflowCondition,
+  scope: ExpressionScope
+): boolean {
+  if (condition.expression) {
+    return Boolean(evaluateExpression(condition.expression, scope));
+  }
+
+  const operator = isConditionOperator(condition.operator || '')
+    ? CONDITION_OPERATORS[condition.operator as string]
+    : undefined;
+  if (!operator || !condition.field) {
+    throw new ExpressionError(
+      `Invalid condition: ${condition.field || '(no field)'} ${
+        condition.operator || '(no operator)'
+      }`
+    );
+  }
+
+  return operator(
+    evaluateExpression(condition.field, scope),
+    interpolateValue(condition.value, scope)
+  );
+}
+
+/**
+ * Evaluate a condition list. Each condition's logicalOperator joins it to the
+ * previous one; AND binds tighter than OR, so [a, OR b, c] means a || (b && c)
+ */
+export function evaluateConditions(
+  conditions: WorkflowCondition[],
+  scope: ExpressionScope
+): boolean {
+  const groups: WorkflowCondition[][] = [];
+  conditions.forEach((condition, index) => {
+    if (index === 0 || condition.logicalOperator === 'OR') {
+      groups.push([condition]);
+    } else {
+      groups[groups.length - 1].push(condition);
+    }
+  });
+
+  return groups.some(group =>
+    group.every(condition => evaluateCondition(condition, scope))
+  );
+}
+
+export function isConditionOperator(operator: string): boolean {
+  return hasOwn(CONDITION_OPERATORS, operator);
+}
@@ -0,0 +1,146 @@
+/**
+ * Agent Catalog for Workflow Steps
+ * Maps agent types to their constructors and callable operations
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { IMLProvider } from '../../../providers/ml-provider.interface';
+import { UsageContext } from '../../../providers/usage-recording.provider';
+
+export interface AgentDefinition {
+  name: string;
+  requiresProvider: boolean;
+  create(
+    prisma: PrismaClient,
+    provider?: IMLProvider,
+    usage?: UsageContext
+  ): Promise<any>;
+  /** Operation name -> positional parameter names of the agent method */
+  operations: Record<string, string[]>;
+}
+
+export const AGENT_CATALOG: Record<string, AgentDefinition> = {
+  'business-analyst': {
+    name: 'Business Analyst',
+    requiresProvider: true,
+    create: async (prisma, provider) => {
+      const { BusinessAnalystAgent } = await import(
+        '../../../agents/business-analyst.agent'
+      );
+      return new BusinessAnalystAgent(prisma, provider as IMLProvider);
+    },
+    operations: {
+      analyzeRequirements: ['projectId', 'requirements', 'context'],
+      analyzeStakeholders: ['projectId', 'stakeholderInfo'],
+      generateUserStories: ['requirements', 'personas'],
+      developBusinessCase: ['projectInfo', 'alternatives', 'constraints'],
+      optimizeProcesses: ['currentProcess', 'painPoints', 'objectives'],
+      conductGapAnalysis: ['currentState', 'futureVision', 'capabilities'],
+      prioritizeRequirements: ['requirements', 'criteria', 'stakeholders'],
+    },
+  },
+  'system-architect': {
+    name: 'System Architect',
+    requiresProvider: false,
+    create: async (_prisma, _provider, usage) => {
+      const { SystemArchitectAgent } = await import(
+        '../../../agents/system-architect.agent'
+      );
+      return new SystemArchitectAgent(usage?.workflowRunId);
+    },
+    operations: {
+      designArchitecture: ['request'],
+      reviewArchitecture: ['architecture', 'requirements', 'constraints'],
+      generateDiagrams: ['architecture'],
+    },
+  },
+  'backend-developer': {
+    name: 'Backend Developer',
+    requiresProvider: true,
+    create: async (prisma, provider) => {
+      const { BackendDeveloperAgent } = await import(
+        '../../../agents/backend-developer.agent'
+      );
+      return new BackendDeveloperAgent(prisma, provider as IMLProvider);
+    },
+    operations: {
+      generateServiceCode: ['requirements', 'technology', 'constraints'],
+      designDatabase: ['requirements', 'dataModels', 'constraints'],
+      designAPI: ['functionality', 'requirements', 'constraints'],
+      optimizePerformance: ['currentMetrics', 'requirements', 'bottlenecks'],
+      assessSecurity: ['application', 'threats', 'compliance'],
+      designDeployment: ['application', 'environment', 'requirements'],
+      designMicroservices: ['requirements', 'services', 'constraints'],
+      reviewCode: ['codebase', 'standards', 'focus'],
+    },
+  },
+  'frontend-developer': {
+    name: 'Frontend Developer',
+    requiresProvider: true,
+    create: async (prisma, provider) => {
+      const { FrontendDeveloperAgent } = await import(
+        '../../../agents/frontend-developer.agent'
+      );
+      return new FrontendDeveloperAgent(prisma, provider as IMLProvider);
+    },
+    operations: {
+      generateComponent: ['componentName', 'requirements', 'designSystem'],
+      designFrontendArchitecture: ['projectId', 'requirements', 'constraints'],
+      optimizePerformance: ['componentCode', 'performanceMetrics'],
+      implementAccessibility: ['componentCode', 'accessibilityRequirements'],
+      analyzeComponent: ['componentCode', 'requirements'],
+      generateResponsiveDesign: ['designSpecs', 'breakpoints'],
+    },
+  },
+  'qa-engineer': {
+    name: 'QA Engineer',
+    requiresProvider: true,
+    create: async (prisma, provider) => {
+      const { QAEngineerAgent } = await import(
+        '../../../agents/qa-engineer.agent'
+      );
+      return new QAEngineerAgent(prisma, provider as IMLProvider);
+    },
+    operations: {
+      generateTestPlan: ['requirements', 'constraints'],
+      generateTestSuite: ['feature', 'specifications'],
+      generateAutomationCode: ['testCase', 'framework'],
+      assessQuality: ['metrics', 'codebase'],
+      analyzeDefects: ['defects', 'context'],
+      designPerformanceTests: ['requirements', 'environment'],
+      designSecurityTests: ['application', 'threats'],
+      analyzeCoverage: ['coverageData', 'requirements'],
+      validateTestResults: ['executionResults', 'expectedOutcomes'],
+    },
+  },
+  'microsoft-reviewer': {
+    name: 'Microsoft Reviewer',
+    requiresProvider: true,
+    create: async (_prisma, provider) => {
+      const { MicrosoftReviewerAgent } = await import(
+        '../../../agents/microsoft-reviewer.agent'
+      );
+      return new MicrosoftReviewerAgent(provider as IMLProvider);
+    },
+    operations: {
+      processRequest: ['request', 'context'],
+    },
+  },
+  'project-manager': {
+    name: 'Project Manager',
+    requiresProvider: true,
+    create: async (prisma, provider) => {
+      const { ProjectManagerAgent } = await import(
+        '../../../agents/project-manager.agent'
+      );
+      return new ProjectManagerAgent(prisma, provider);
+    },
+    operations: {
+      analyzeProject: ['input'],
+      coordinateTeam: ['projectId', 'agents', 'objectives'],
+      resolveConflict: ['conflict'],
+      makeStrategicDecision: ['projectId', 'decisionContext'],
+      monitorProjectProgress: ['projectId'],
+    },
+  },
+};
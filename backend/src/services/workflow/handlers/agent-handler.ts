@@ -0,0 +1,345 @@
+/**
+ * Agent Step Handler for Workflow Steps
+ * Invokes an agent operation and records the exchange on the step conversation
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { WorkflowEngineError } from '../errors';
+import { HandlerType } from '../types';
+import { AGENT_CATALOG, AgentDefinition } from './agent-catalog';
+import { IMLProvider, Result } from '../../../providers/ml-provider.interface';
+import {
+  createMLProvider,
+  getDefaultProviderConfigs,
+} from '../../../providers/ml-provider.factory';
+import { UsageRecordingProvider } from '../../../providers/usage-recording.provider';
+import { UsageLedgerService } from '../../usage-ledger.service';
+
+export interface AgentStepInput {
+  agentType: string;
+  operation: string;
+  [param: string]: any;
+}
+
+export interface AgentStepOutput {
+  agentType: string;
+  operation: string;
+  result: any;
+  duration: number;
+}
+
+export type AgentProviderResolver = (
+  agentType: string,
+  context: Record<string, any>
+) => Promise<IMLProvider>;
+
+/**
+ * Agent Step Handler
+ * Resolves agentType + operation against the agent catalog and maps named
+ * step input fields onto the operation's positional parameters; provider
+ * calls are budgeted and recorded on the usage ledger for the run's project
+ */
+export class AgentStepHandler {
+  readonly type = 'agent';
+  readonly version = '1.0.0';
+  readonly description = 'Invoke an agent operation as a workflow step';
+
+  private providers = new Map<string, IMLProvider>();
+
+  constructor(
+    private prisma: PrismaClient,
+    private resolveProvider: AgentProviderResolver = createDefaultAgentProvider,
+    private catalog: Record<string, AgentDefinition> = AGENT_CATALOG,
+    private ledger: UsageLedgerService = new UsageLedgerService(prisma)
+  ) {}
+
+  async execute(
+    input: AgentStepInput,
+    context: Record<string, any> = {}
+  ): Promise<Result<AgentStepOutput, WorkflowEngineError>> {
+    const definition = this.catalog[input?.agentType];
+    if (!definition) {
+      return this.failure(
+        `Unknown agent type: ${input?.agentType}. Must be one of: ${Object.keys(
+          this.catalog
+        ).join(', ')}`,
+        'INVALID_INPUT'
+      );
+    }
+
+    const params = definition.operations[input.operation];
+    if (!params) {
+      return this.failure(
+        `Unknown operation '${input.operation}' for agent ${
+          input.agentType
+        }. Must be one of: ${Object.keys(definition.operations).join(', ')}`,
+        'INVALID_INPUT'
+      );
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const agent = await this.getAgent(input.agentType, definition, context);
+      const args = this.buildArguments(params, input, context);
+      const result = this.normalizeResult(
+        await agent[input.operation](...args)
+      );
+
+      if (!result.success) {
+        return this.failure(
+          `Agent ${input.agentType}.${input.operation} failed: ${result.error.message}`,
+          'AGENT_OPERATION_FAILED',
+          { agentType: input.agentType, operation: input.operation }
+        );
+      }
+
+      const output: AgentStepOutput = {
+        agentType: input.agentType,
+        operation: input.operation,
+        result: result.data,
+        duration: Date.now() - startTime,
+      };
+
+      await this.recordConversation(input, params, output, context);
+
+      return { success: true, data: output };
+    } catch (error: any) {
+      return this.failure(
+        `Agent execution error: ${error?.message || 'Unknown error'}`,
+        'AGENT_EXECUTION_ERROR',
+        { agentType: input.agentType, operation: input.operation }
+      );
+    }
+  }
+
+  /**
+   * Create the agent for one step; its provider carries the run context
+   * so usage is attributed to the project, agent type and workflow run
+   */
+  private async getAgent(
+    agentType: string,
+    definition: AgentDefinition,
+    context: Record<string, any>
+  ): Promise<any> {
+    const usage = {
+      projectId: context.metadata?.projectId,
+      agentType,
+      workflowRunId: context.runId,
+    };
+    if (!definition.requiresProvider) {
+      return definition.create(this.prisma, undefined, usage);
+    }
+
+    const provider = new UsageRecordingProvider(
+      await this.getProvider(agentType, context),
+      this.ledger,
+      usage
+    );
+    return definition.create(this.prisma, provider, usage);
+  }
+
+  /**
+   * Get or resolve the provider for an agent type
+   */
+  private async getProvider(
+    agentType: string,
+    context: Record<string, any>
+  ): Promise<IMLProvider> {
+    const cached = this.providers.get(agentType);
+    if (cached) {
+      return cached;
+    }
+
+    const provider = await this.resolveProvider(agentType, context);
+    this.providers.set(agentType, provider);
+    return provider;
+  }
+
+  /**
+   * Map named input fields onto positional operation parameters;
+   * projectId falls back to the run's project
+   */
+  private buildArguments(
+    params: string[],
+    input: AgentStepInput,
+    context: Record<string, any>
+  ): any[] {
+    return params.map(param =>
+      param === 'projectId' && input.projectId === undefined
+        ? context.metadata?.projectId
+        : input[param]
+    );
+  }
+
+  /**
+   * Agents return either a Result or a plain value
+   */
+  private normalizeResult(value: any): Result<any, { message: string }> {
+    if (
+      value &&
+      typeof value === 'object' &&
+      typeof value.success === 'boolean'
+    ) {
+      return value.success
+        ? { success: true, data: value.data }
+        : {
+            success: false,
+            error: {
+              message:
+                value.error?.message || String(value.error || 'Unknown error'),
+            },
+          };
+    }
+
+    return { success: true, data: value };
+  }
+
+  /**
+   * Write the request and the agent's result to the step conversation
+   */
+  private async recordConversation(
+    input: AgentStepInput,
+    params: string[],
+    output: AgentStepOutput,
+    context: Record<string, any>
+  ): Promise<void> {
+    const projectId = context.metadata?.projectId;
+    if (!projectId || !context.runId || !context.stepId) {
+      context.logger?.warn(
+        'Skipping agent conversation record: run has no project'
+      );
+      return;
+    }
+
+    try {
+      const approval = await this.prisma.workflowStepApproval.upsert({
+        where: {
+          workflowRunId_stepId: {
+            workflowRunId: context.runId,
+            stepId: context.stepId,
+          },
+        },
+        create: {
+          projectId,
+          workflowRunId: context.runId,
+          stepId: context.stepId,
+          stepName: context.metadata?.stepName || context.stepId,
+        },
+        update: {},
+      });
+
+      const request = Object.fromEntries(
+        params.map(param => [param, input[param]])
+      );
+      const metadata = {
+        operation: output.operation,
+        attempt: context.metadata?.attempt,
+      };
+
+      await this.prisma.workflowStepConversation.create({
+        data: {
+          approvalId: approval.id,
+          role: 'system',
+          agentType: output.agentType,
+          content: JSON.stringify(request),
+          messageType: 'task',
+          metadata,
+        },
+      });
+
+      await this.prisma.workflowStepConversation.create({
+        data: {
+          approvalId: approval.id,
+          role: 'agent',
+          agentType: output.agentType,
+          content: JSON.stringify(output.result ?? null),
+          messageType: 'analysis',
+          metadata: { ...metadata, duration: output.duration },
+        },
+      });
+    } catch (error: any) {
+      // The step result stands even if the conversation cannot be written
+      context.logger?.error('Failed to record agent conversation', error);
+    }
+  }
+
+  private failure(
+    message: string,
+    code: string,
+    details?: Record<string, any>
+  ): Result<AgentStepOutput, WorkflowEngineError> {
+    return {
+      success: false,
+      error: new WorkflowEngineError(
+        message,
+        code,
+        undefined,
+        undefined,
+        details
+      ),
+    };
+  }
+
+  /**
+   * Get handler metadata
+   */
+  getMetadata() {
+    const agentProperties = {
+      agentType: { type: 'string', enum: Object.keys(this.catalog) },
+      operation: { type: 'string' },
+    };
+
+    return {
+      type: this.type,
+      version: this.version,
+      description: this.description,
+      category: 'agent',
+      handlerType: HandlerType.AGENT,
+      configSchema: {
+        type: 'object',
+        required: ['agentType', 'operation'],
+        properties: agentProperties,
+      },
+      inputSchema: {
+        type: 'object',
+        required: ['agentType', 'operation'],
+        properties: agentProperties,
+      },
+      outputSchema: {
+        type: 'object',
+        required: ['agentType', 'operation', 'result', 'duration'],
+        properties: {
+          ...agentProperties,
+          result: {},
+          duration: { type: 'number' },
+        },
+      },
+      agents: Object.fromEntries(
+        Object.entries(this.catalog).map(([agentType, definition]) => [
+          agentType,
+          Object.keys(definition.operations),
+        ])
+      ),
+    };
+  }
+}
+
+/**
+ * Create a provider from the first enabled default provider configuration
+ */
+async function createDefaultAgentProvider(): Promise<IMLProvider> {
+  const config = getDefaultProviderConfigs().find(
+    candidate => candidate.enabled
+  );
+  if (!config) {
+    throw new Error('No ML provider configured for agent steps');
+  }
+
+  const result = await createMLProvider(config);
+  if (!result.success) {
+    throw new Error(result.error.message);
+  }
+
+  return result.data;
+}
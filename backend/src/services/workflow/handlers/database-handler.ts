@@ -1,11 +1,15 @@
 /**
  * Database Query Handler for Workflow Steps
- * Executes database queries with connection management and error handling
+ * Executes parameterized queries against the application database; queries
+ * are read-only unless the step turns readOnly off
  */
 
-import { PrismaClient } from '@prisma/client';
-import { StepExecutionError } from '../errors';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { WorkflowEngineError } from '../errors';
 import { Result } from '../../../providers/ml-provider.interface';
+import { readOnlyQueryError } from '../../../utils/read-only-query';
+
+const DEFAULT_QUERY_TIMEOUT = 30000;
 
 // Step Handler Interface
 interface IWorkflowStepHandler<TInput = any, TOutput = any> {
@@ -15,16 +19,14 @@ interface IWorkflowStepHandler<TInput = any, TOutput = any> {
   execute(
     input: TInput,
     context: Record<string, any>
-  ): Promise<Result<TOutput, StepExecutionError>>;
+  ): Promise<Result<TOutput, WorkflowEngineError>>;
   getMetadata(): any;
 }
 
 export interface DatabaseQueryInput {
   query: string;
   parameters?: any[];
-  database?: string;
   timeout?: number;
-  transaction?: boolean;
   readOnly?: boolean;
 }
 
@@ -55,7 +57,7 @@ export class DatabaseQueryHandler
 
   async execute(
     input: DatabaseQueryInput
-  ): Promise<Result<DatabaseQueryOutput, StepExecutionError>> {
+  ): Promise<Result<DatabaseQueryOutput, WorkflowEngineError>> {
     const startTime = Date.now();
 
     try {
@@ -81,9 +83,11 @@ export class DatabaseQueryHandler
     } catch (error: any) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'DATABASE_QUERY_ERROR',
+        error: new WorkflowEngineError(
           `Database query execution error: ${error.message}`,
+          'DATABASE_QUERY_ERROR',
+          undefined,
+          undefined,
           {
             query: input.query,
             parameters: input.parameters,
@@ -95,101 +99,47 @@ export class DatabaseQueryHandler
   }
 
   /**
-   * Execute database query
+   * Execute the query with its parameters bound separately; it runs in a
+   * transaction so one that outlasts the timeout is rolled back
    */
   private async executeQuery(input: DatabaseQueryInput): Promise<{
     results: any[];
     rowCount: number;
     affectedRows?: number;
   }> {
-    const { query, timeout = 30000, transaction = false } = input;
-
-    // Set query timeout
-    if (timeout > 0) {
-      // Implementation depends on database driver
-      console.log(`Setting query timeout: ${timeout}ms`);
-    }
-
-    if (transaction) {
-      return await this.executeInTransaction(query);
-    } else {
-      return await this.executeSingleQuery(query);
-    }
-  }
-
-  /**
-   * Execute query in transaction
-   */
-  private async executeInTransaction(query: string): Promise<{
-    results: any[];
-    rowCount: number;
-    affectedRows?: number;
-  }> {
-    return await this.prisma.$transaction(async tx => {
-      // Use raw query execution
-      const results = await (tx as any).$queryRaw`${query}`;
-
-      return {
-        results: Array.isArray(results) ? results : [results],
-        rowCount: Array.isArray(results) ? results.length : 1,
-        affectedRows: this.getAffectedRows(results),
-      };
-    });
+    const query = this.normalizeQuery(input.query);
+    const parameters = input.parameters || [];
+    const timeout = input.timeout ?? DEFAULT_QUERY_TIMEOUT;
+
+    return await this.prisma.$transaction(
+      tx => this.runStatement(tx, query, parameters),
+      { timeout }
+    );
   }
 
   /**
-   * Execute single query
+   * Run a statement: queries return rows, other statements the number of
+   * rows they changed
    */
-  private async executeSingleQuery(query: string): Promise<{
-    results: any[];
-    rowCount: number;
-    affectedRows?: number;
-  }> {
-    // Determine query type
-    const queryType = this.getQueryType(query);
-
-    if (queryType === 'SELECT') {
-      const results = await this.prisma.$queryRaw`${query}`;
-      return {
-        results: Array.isArray(results) ? results : [results],
-        rowCount: Array.isArray(results) ? results.length : 1,
-      };
-    } else {
-      // INSERT, UPDATE, DELETE
-      const result = await this.prisma.$executeRaw`${query}`;
-      return {
-        results: [],
-        rowCount: 0,
-        affectedRows: result,
-      };
+  private async runStatement(
+    tx: Prisma.TransactionClient,
+    query: string,
+    parameters: any[]
+  ): Promise<{ results: any[]; rowCount: number; affectedRows?: number }> {
+    if (/^(select|with)\b/i.test(query)) {
+      const results = await tx.$queryRawUnsafe<any[]>(query, ...parameters);
+      return { results, rowCount: results.length };
     }
-  }
-
-  /**
-   * Determine query type from SQL
-   */
-  private getQueryType(
-    query: string
-  ): 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'OTHER' {
-    const normalizedQuery = query.trim().toUpperCase();
-
-    if (normalizedQuery.startsWith('SELECT')) return 'SELECT';
-    if (normalizedQuery.startsWith('INSERT')) return 'INSERT';
-    if (normalizedQuery.startsWith('UPDATE')) return 'UPDATE';
-    if (normalizedQuery.startsWith('DELETE')) return 'DELETE';
 
-    return 'OTHER';
+    const affectedRows = await tx.$executeRawUnsafe(query, ...parameters);
+    return { results: [], rowCount: 0, affectedRows };
   }
 
   /**
-   * Extract affected rows count from result
+   * Drop surrounding whitespace and a trailing semicolon
    */
-  private getAffectedRows(result: any): number | undefined {
-    if (typeof result === 'number') return result;
-    if (result && typeof result.count === 'number') return result.count;
-    if (result && typeof result.affectedRows === 'number')
-      return result.affectedRows;
-    return undefined;
+  private normalizeQuery(query: string): string {
+    return query.trim().replace(/;\s*$/, '');
   }
 
   /**
@@ -197,20 +147,23 @@ export class DatabaseQueryHandler
    */
   private validateInput(
     input: DatabaseQueryInput
-  ): Result<void, StepExecutionError> {
+  ): Result<void, WorkflowEngineError> {
     if (!input.query) {
       return {
         success: false,
-        error: new StepExecutionError('INVALID_INPUT', 'SQL query is required'),
+        error: new WorkflowEngineError(
+          'SQL query is required',
+          'INVALID_INPUT'
+        ),
       };
     }
 
     if (typeof input.query !== 'string') {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          'Query must be a string'
+        error: new WorkflowEngineError(
+          'Query must be a string',
+          'INVALID_INPUT'
         ),
       };
     }
@@ -228,9 +181,9 @@ export class DatabaseQueryHandler
       if (pattern.test(input.query)) {
         return {
           success: false,
-          error: new StepExecutionError(
-            'SECURITY_VIOLATION',
-            'Query contains potentially dangerous patterns'
+          error: new WorkflowEngineError(
+            'Query contains potentially dangerous patterns',
+            'SECURITY_VIOLATION'
           ),
         };
       }
@@ -239,22 +192,27 @@ export class DatabaseQueryHandler
     if (input.parameters && !Array.isArray(input.parameters)) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          'Parameters must be an array'
+        error: new WorkflowEngineError(
+          'Parameters must be an array',
+          'INVALID_INPUT'
         ),
       };
     }
 
+    const readOnlyError = this.checkReadOnly(input);
+    if (readOnlyError) {
+      return { success: false, error: readOnlyError };
+    }
+
     if (
       input.timeout &&
       (typeof input.timeout !== 'number' || input.timeout < 1000)
     ) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          'Timeout must be a number >= 1000ms'
+        error: new WorkflowEngineError(
+          'Timeout must be a number >= 1000ms',
+          'INVALID_INPUT'
         ),
       };
     }
@@ -262,6 +220,25 @@ export class DatabaseQueryHandler
     return { success: true, data: undefined };
   }
 
+  /**
+   * Refuse anything but a single SELECT unless readOnly is turned off
+   */
+  private checkReadOnly(
+    input: DatabaseQueryInput
+  ): WorkflowEngineError | undefined {
+    if (input.readOnly === false) {
+      return undefined;
+    }
+
+    const invalid = readOnlyQueryError(
+      this.normalizeQuery(input.query),
+      input.parameters || []
+    );
+    return invalid
+      ? new WorkflowEngineError(invalid, 'READ_ONLY_VIOLATION')
+      : undefined;
+  }
+
   /**
    * Serialize error for logging (avoid circular references)
    */
@@ -285,16 +262,22 @@ export class DatabaseQueryHandler
       type: this.type,
       version: this.version,
       description: this.description,
+      category: 'database',
+      configSchema: {
+        type: 'object',
+        properties: {
+          timeout: { type: 'number', minimum: 1000, maximum: 300000 },
+          readOnly: { type: 'boolean', default: true },
+        },
+      },
       inputSchema: {
         type: 'object',
         required: ['query'],
         properties: {
           query: { type: 'string', minLength: 1 },
           parameters: { type: 'array' },
-          database: { type: 'string' },
           timeout: { type: 'number', minimum: 1000, maximum: 300000 },
-          transaction: { type: 'boolean' },
-          readOnly: { type: 'boolean' },
+          readOnly: { type: 'boolean', default: true },
         },
       },
       outputSchema: {
@@ -3,7 +3,7 @@
  * Sends email notifications with templates and attachments
  */
 
-import { StepExecutionError } from '../errors';
+import { WorkflowEngineError } from '../errors';
 import { Result } from '../../../providers/ml-provider.interface';
 
 // Step Handler Interface
@@ -14,7 +14,7 @@ interface IWorkflowStepHandler<TInput = any, TOutput = any> {
   execute(
     input: TInput,
     context: Record<string, any>
-  ): Promise<Result<TOutput, StepExecutionError>>;
+  ): Promise<Result<TOutput, WorkflowEngineError>>;
   getMetadata(): any;
 }
 
@@ -46,6 +46,13 @@ export interface EmailNotificationOutput {
   status: 'sent' | 'queued' | 'failed';
 }
 
+const RECIPIENTS_SCHEMA = {
+  oneOf: [
+    { type: 'string', format: 'email' },
+    { type: 'array', items: { type: 'string', format: 'email' } },
+  ],
+};
+
 /**
  * Email Notification Handler
  * Sends emails with comprehensive template and attachment support
@@ -67,7 +74,7 @@ export class EmailNotificationHandler
 
   async execute(
     input: EmailNotificationInput
-  ): Promise<Result<EmailNotificationOutput, StepExecutionError>> {
+  ): Promise<Result<EmailNotificationOutput, WorkflowEngineError>> {
     const startTime = Date.now();
 
     try {
@@ -102,9 +109,11 @@ export class EmailNotificationHandler
     } catch (error: any) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'EMAIL_SEND_ERROR',
+        error: new WorkflowEngineError(
           `Email notification error: ${error.message}`,
+          'EMAIL_SEND_ERROR',
+          undefined,
+          undefined,
           {
             to: input.to,
             subject: input.subject,
@@ -262,13 +271,13 @@ export class EmailNotificationHandler
    */
   private validateInput(
     input: EmailNotificationInput
-  ): Result<void, StepExecutionError> {
+  ): Result<void, WorkflowEngineError> {
     if (!input.to) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          'Recipients (to) are required'
+        error: new WorkflowEngineError(
+          'Recipients (to) are required',
+          'INVALID_INPUT'
         ),
       };
     }
@@ -276,9 +285,9 @@ export class EmailNotificationHandler
     if (!input.subject) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          'Email subject is required'
+        error: new WorkflowEngineError(
+          'Email subject is required',
+          'INVALID_INPUT'
         ),
       };
     }
@@ -286,9 +295,9 @@ export class EmailNotificationHandler
     if (!input.body && !input.template) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          'Email body or template is required'
+        error: new WorkflowEngineError(
+          'Email body or template is required',
+          'INVALID_INPUT'
         ),
       };
     }
@@ -299,9 +308,9 @@ export class EmailNotificationHandler
       if (!this.isValidEmail(email)) {
         return {
           success: false,
-          error: new StepExecutionError(
-            'INVALID_INPUT',
-            `Invalid email address: ${email}`
+          error: new WorkflowEngineError(
+            `Invalid email address: ${email}`,
+            'INVALID_INPUT'
           ),
         };
       }
@@ -311,9 +320,9 @@ export class EmailNotificationHandler
     if (input.priority && !['low', 'normal', 'high'].includes(input.priority)) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          `Invalid priority: ${input.priority}. Must be 'low', 'normal', or 'high'`
+        error: new WorkflowEngineError(
+          `Invalid priority: ${input.priority}. Must be 'low', 'normal', or 'high'`,
+          'INVALID_INPUT'
         ),
       };
     }
@@ -351,28 +360,22 @@ export class EmailNotificationHandler
       type: this.type,
       version: this.version,
       description: this.description,
+      category: 'notification',
+      configSchema: {
+        type: 'object',
+        properties: {
+          isHtml: { type: 'boolean' },
+          priority: { type: 'string', enum: ['low', 'normal', 'high'] },
+          delay: { type: 'number', minimum: 0 },
+        },
+      },
       inputSchema: {
         type: 'object',
         required: ['to', 'subject'],
         properties: {
-          to: {
-            oneOf: [
-              { type: 'string', format: 'email' },
-              { type: 'array', items: { type: 'string', format: 'email' } },
-            ],
-          },
-          cc: {
-            oneOf: [
-              { type: 'string', format: 'email' },
-              { type: 'array', items: { type: 'string', format: 'email' } },
-            ],
-          },
-          bcc: {
-            oneOf: [
-              { type: 'string', format: 'email' },
-              { type: 'array', items: { type: 'string', format: 'email' } },
-            ],
-          },
+          to: RECIPIENTS_SCHEMA,
+          cc: RECIPIENTS_SCHEMA,
+          bcc: RECIPIENTS_SCHEMA,
           subject: { type: 'string', minLength: 1 },
           body: { type: 'string' },
           isHtml: { type: 'boolean' },
@@ -4,7 +4,7 @@
  */
 
 import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
-import { StepExecutionError } from '../errors';
+import { WorkflowEngineError } from '../errors';
 import { Result } from '../../../providers/ml-provider.interface';
 
 // Step Handler Interface
@@ -15,7 +15,7 @@ interface IWorkflowStepHandler<TInput = any, TOutput = any> {
   execute(
     input: TInput,
     context: Record<string, any>
-  ): Promise<Result<TOutput, StepExecutionError>>;
+  ): Promise<Result<TOutput, WorkflowEngineError>>;
   getMetadata(): any;
 }
 
@@ -50,7 +50,7 @@ export class HttpRequestHandler
 
   async execute(
     input: HttpRequestInput
-  ): Promise<Result<HttpRequestOutput, StepExecutionError>> {
+  ): Promise<Result<HttpRequestOutput, WorkflowEngineError>> {
     try {
       // Validate input
       const validation = this.validateInput(input);
@@ -64,9 +64,11 @@ export class HttpRequestHandler
     } catch (error: any) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'HTTP_REQUEST_ERROR',
+        error: new WorkflowEngineError(
           `HTTP request execution error: ${error.message}`,
+          'HTTP_REQUEST_ERROR',
+          undefined,
+          undefined,
           {
             url: input.url,
             method: input.method,
@@ -115,7 +117,7 @@ export class HttpRequestHandler
   private async executeRequestWithRetries(
     config: AxiosRequestConfig,
     input: HttpRequestInput
-  ): Promise<Result<HttpRequestOutput, StepExecutionError>> {
+  ): Promise<Result<HttpRequestOutput, WorkflowEngineError>> {
     const startTime = Date.now();
     let lastError: any;
     const maxRetries = Math.max(0, input.retries || 0);
@@ -157,11 +159,13 @@ export class HttpRequestHandler
     // All retries failed
     return {
       success: false,
-      error: new StepExecutionError(
-        'HTTP_REQUEST_FAILED',
+      error: new WorkflowEngineError(
         `HTTP request failed after ${
           maxRetries + 1
         } attempts: ${this.getErrorMessage(lastError)}`,
+        'HTTP_REQUEST_FAILED',
+        undefined,
+        undefined,
         {
           url: input.url,
           method: input.method,
@@ -177,20 +181,20 @@ export class HttpRequestHandler
    */
   private validateInput(
     input: HttpRequestInput
-  ): Result<void, StepExecutionError> {
+  ): Result<void, WorkflowEngineError> {
     if (!input.url) {
       return {
         success: false,
-        error: new StepExecutionError('INVALID_INPUT', 'URL is required'),
+        error: new WorkflowEngineError('URL is required', 'INVALID_INPUT'),
       };
     }
 
     if (!input.method) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          'HTTP method is required'
+        error: new WorkflowEngineError(
+          'HTTP method is required',
+          'INVALID_INPUT'
         ),
       };
     }
@@ -199,11 +203,11 @@ export class HttpRequestHandler
     if (!validMethods.includes(input.method)) {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
+        error: new WorkflowEngineError(
           `Invalid HTTP method: ${
             input.method
-          }. Must be one of: ${validMethods.join(', ')}`
+          }. Must be one of: ${validMethods.join(', ')}`,
+          'INVALID_INPUT'
         ),
       };
     }
@@ -214,9 +218,9 @@ export class HttpRequestHandler
     } catch {
       return {
         success: false,
-        error: new StepExecutionError(
-          'INVALID_INPUT',
-          `Invalid URL format: ${input.url}`
+        error: new WorkflowEngineError(
+          `Invalid URL format: ${input.url}`,
+          'INVALID_INPUT'
         ),
       };
     }
@@ -261,6 +265,15 @@ export class HttpRequestHandler
       type: this.type,
       version: this.version,
       description: this.description,
+      category: 'api',
+      configSchema: {
+        type: 'object',
+        properties: {
+          headers: { type: 'object' },
+          timeout: { type: 'number', minimum: 1000, maximum: 300000 },
+          retries: { type: 'number', minimum: 0, maximum: 10 },
+        },
+      },
       inputSchema: {
         type: 'object',
         required: ['url', 'method'],
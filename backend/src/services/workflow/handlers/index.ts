@@ -18,61 +18,177 @@ export type {
   EmailNotificationOutput,
 } from './email-handler';
 
+export { AgentStepHandler } from './agent-handler';
+export type {
+  AgentStepInput,
+  AgentStepOutput,
+  AgentProviderResolver,
+} from './agent-handler';
+export { AGENT_CATALOG } from './agent-catalog';
+export type { AgentDefinition } from './agent-catalog';
+
 // Handler registry helper
 import { PrismaClient } from '@prisma/client';
-import { HandlerRegistry } from '../registry';
+import { BaseHandler, HandlerInfo, HandlerRegistry } from '../registry';
+import { HandlerType, WorkflowExecutionContext } from '../types';
+import { WorkflowEngineError } from '../errors';
+import { WorkflowValidator } from '../validator';
+import { Result } from '../../../providers/ml-provider.interface';
+import { HttpRequestHandler } from './http-handler';
+import { DatabaseQueryHandler } from './database-handler';
+import { EmailNotificationHandler } from './email-handler';
+import { AgentStepHandler } from './agent-handler';
+
+/**
+ * Step handler shape shared by the built-in handler classes
+ */
+export interface WorkflowStepHandler {
+  readonly type: string;
+  readonly version: string;
+  readonly description: string;
+  execute(
+    input: any,
+    context: Record<string, any>
+  ): Promise<Result<any, WorkflowEngineError>>;
+  getMetadata(): Record<string, any>;
+}
 
 /**
- * Register all default handlers
+ * Wrap a step handler as a registry handler
+ */
+export function createRegistryHandler(
+  stepHandler: WorkflowStepHandler
+): BaseHandler {
+  const metadata = stepHandler.getMetadata();
+
+  return {
+    name: stepHandler.type,
+    version: stepHandler.version,
+    description: stepHandler.description,
+    category: metadata.category,
+    handlerType: metadata.handlerType,
+    tags: metadata.category ? [metadata.category] : [],
+    configSchema: metadata.configSchema,
+    inputSchema: metadata.inputSchema,
+    outputSchema: metadata.outputSchema,
+    validate: metadata.inputSchema
+      ? (input: any) =>
+          WorkflowValidator.validateInput(input, metadata.inputSchema)
+      : undefined,
+    async execute(input: any, context: WorkflowExecutionContext) {
+      const result = await stepHandler.execute(input, context);
+      if (result.success) {
+        return { success: true, data: result.data };
+      }
+
+      return {
+        success: false,
+        error: `${result.error.message} (${result.error.code})`,
+      };
+    },
+  };
+}
+
+/**
+ * Create the built-in step handlers
+ */
+export function createDefaultStepHandlers(
+  prisma: PrismaClient,
+  emailProvider?: any
+): WorkflowStepHandler[] {
+  return [
+    new HttpRequestHandler(),
+    new DatabaseQueryHandler(prisma),
+    new EmailNotificationHandler(emailProvider),
+    new AgentStepHandler(prisma),
+  ];
+}
+
+/**
+ * Register the built-in step handlers with the registry
+ */
+export function registerStepHandlers(
+  registry: HandlerRegistry,
+  prisma: PrismaClient
+): void {
+  for (const stepHandler of createDefaultStepHandlers(prisma)) {
+    if (!registry.has(stepHandler.type)) {
+      registry.register(createRegistryHandler(stepHandler));
+    }
+  }
+}
+
+/**
+ * Persist definitions of every registered handler to the WorkflowHandler
+ * table; the enabled flag is left to administrators
+ */
+export async function persistHandlerDefinitions(
+  registry: HandlerRegistry,
+  prisma: PrismaClient
+): Promise<Result<number, WorkflowEngineError>> {
+  try {
+    const handlers = registry.listWithInfo();
+
+    for (const info of handlers) {
+      const definition = {
+        type: info.handlerType || HandlerType.BUILTIN,
+        category: info.category || 'general',
+        description: info.description,
+        configSchema: info.configSchema,
+        inputSchema: info.inputSchema,
+        outputSchema: info.outputSchema,
+        version: info.version,
+      };
+
+      await prisma.workflowHandler.upsert({
+        where: { name: info.name },
+        create: { name: info.name, ...definition },
+        update: definition,
+      });
+    }
+
+    return { success: true, data: handlers.length };
+  } catch (error) {
+    return {
+      success: false,
+      error: new WorkflowEngineError(
+        `Failed to persist handler definitions: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        'HANDLER_PERSIST_FAILED'
+      ),
+    };
+  }
+}
+
+/**
+ * Register all default handlers and persist their definitions
  */
 export async function registerDefaultHandlers(
   registry: HandlerRegistry,
   prisma: PrismaClient
 ): Promise<void> {
-  // Note: HandlerRegistry expects BaseHandler objects, which have different structure
-  // This is a mock implementation - actual integration would need BaseHandler wrappers
-  console.log('Mock registration of workflow step handlers', {
-    httpHandler: 'http-request',
-    dbHandler: 'database-query',
-    emailHandler: 'email-notification',
-    registry: registry.constructor.name,
-    prisma: !!prisma,
-  });
+  registerStepHandlers(registry, prisma);
+
+  const persisted = await persistHandlerDefinitions(registry, prisma);
+  if (!persisted.success) {
+    console.error(persisted.error.message);
+  }
 }
 
 /**
  * Get list of all available handler types
  */
 export function getAvailableHandlerTypes(): string[] {
-  return ['http-request', 'database-query', 'email-notification'];
+  return ['http-request', 'database-query', 'email-notification', 'agent'];
 }
 
 /**
- * Get handler metadata by type (mock implementation)
+ * Get registered handler metadata by type, including schemas
  */
-export function getHandlerMetadata(type: string): any {
-  // Mock metadata - actual implementation would create handler instances
-  const metadata = {
-    'http-request': {
-      type: 'http-request',
-      version: '1.0.0',
-      description: 'Execute HTTP requests with comprehensive error handling',
-    },
-    'database-query': {
-      type: 'database-query',
-      version: '1.0.0',
-      description: 'Execute database queries with comprehensive error handling',
-    },
-    'email-notification': {
-      type: 'email-notification',
-      version: '1.0.0',
-      description: 'Send email notifications with templates and attachments',
-    },
-  };
-
-  if (!metadata[type as keyof typeof metadata]) {
-    throw new Error(`Unknown handler type: ${type}`);
-  }
-
-  return metadata[type as keyof typeof metadata];
+export function getHandlerMetadata(
+  registry: HandlerRegistry,
+  type: string
+): HandlerInfo {
+  return registry.getInfo(type);
 }
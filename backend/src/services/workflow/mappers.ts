@@ -3,7 +3,7 @@
  * Handles mapping between Prisma models and workflow types
  */
 
-import { WorkflowTemplate, WorkflowExecution } from './types';
+import { WorkflowTemplate, WorkflowExecution, WorkflowStep } from './types';
 
 /**
  * Map Prisma WorkflowTemplate to WorkflowTemplate type
@@ -20,20 +20,29 @@ export function mapPrismaToTemplate(prismaTemplate: any): WorkflowTemplate {
     inputSchema: prismaTemplate.inputSchema || {},
     outputSchema: prismaTemplate.outputSchema || {},
     steps:
-      prismaTemplate.stepTemplates?.map((step: any) => ({
-        id: step.id,
-        stepId: step.stepId,
-        name: step.name,
-        description: step.description,
-        type: step.type,
-        handler: step.handler,
-        conditions: step.conditions || [],
-        dependencies: step.dependencies || [],
-        order: step.order,
-        timeout: step.timeout,
-        retries: step.retries || 0,
-        retryDelay: step.retryDelay || 1000,
-      })) || [],
+      prismaTemplate.stepTemplates
+        ?.filter((step: any) => !step.retiredAt)
+        .map((step: any) => ({
+          id: step.id,
+          stepId: step.stepId,
+          name: step.name,
+          description: step.description,
+          type: step.type,
+          category: step.category || undefined,
+          handler: step.handler,
+          handlerConfig: step.handlerConfig || {},
+          conditions: step.conditions || [],
+          dependencies: step.dependencies || [],
+          order: step.order,
+          timeout: step.timeout,
+          retries: step.retries || 0,
+          retryDelay: step.retryDelay || 1000,
+          inputMapping: step.inputMapping || undefined,
+          outputMapping: step.outputMapping || undefined,
+          onError: step.onError || undefined,
+          errorHandler: step.errorHandler || undefined,
+          ...(step.control || {}),
+        })) || [],
     tags: prismaTemplate.tags || [],
     timeout: prismaTemplate.timeout,
     retryPolicy: prismaTemplate.retryPolicy || {},
@@ -50,6 +59,7 @@ export function mapPrismaToExecution(prismaExecution: any): WorkflowExecution {
   return {
     id: prismaExecution.id,
     workflowId: prismaExecution.workflowId,
+    templateVersionId: prismaExecution.templateVersionId || undefined,
     projectId: prismaExecution.projectId,
     status: prismaExecution.status,
     currentStep: prismaExecution.currentStep,
@@ -70,6 +80,14 @@ export function mapPrismaToExecution(prismaExecution: any): WorkflowExecution {
     priority: prismaExecution.priority || 'medium',
     executor: prismaExecution.executor,
     executorType: prismaExecution.executorType,
+    parentRunId: prismaExecution.parentRunId || undefined,
+    replay: prismaExecution.replayMode
+      ? {
+          mode: prismaExecution.replayMode,
+          stepId: prismaExecution.replayStepId,
+          input: prismaExecution.replayInput || undefined,
+        }
+      : undefined,
   };
 }
 
@@ -126,6 +144,52 @@ export function stepsToCreateData(
   }));
 }
 
+/**
+ * Convert a template step to Prisma WorkflowStepTemplate create data
+ */
+export function stepToStepTemplateData(
+  step: WorkflowStep,
+  workflowId: string,
+  order: number
+) {
+  return {
+    workflowId,
+    stepId: step.stepId,
+    name: step.name,
+    description: step.description,
+    type: step.type,
+    category: step.category,
+    handler: step.handler || step.type,
+    handlerConfig: step.handlerConfig as any,
+    dependencies: step.dependencies as any,
+    timeout: step.timeout,
+    retries: step.retries || 0,
+    retryDelay: step.retryDelay || 1000,
+    conditions: step.conditions as any,
+    inputMapping: step.inputMapping as any,
+    outputMapping: step.outputMapping as any,
+    onError: step.onError,
+    errorHandler: step.errorHandler,
+    control: stepControlData(step) as any,
+    order,
+  };
+}
+
+/**
+ * Collect control step settings stored in the WorkflowStepTemplate.control
+ * column
+ */
+export function stepControlData(
+  step: WorkflowStep
+): Pick<WorkflowStep, 'loop' | 'parallel' | 'delay' | 'branch'> | undefined {
+  const { loop, parallel, delay, branch } = step;
+  const control = { loop, parallel, delay, branch };
+
+  return Object.values(control).some(value => value !== undefined)
+    ? control
+    : undefined;
+}
+
 /**
  * Convert execution input to Prisma WorkflowRun create data
  */
@@ -159,8 +223,8 @@ export function stepsToExecutionData(steps: any[] | undefined, runId: string) {
     stepTemplateId: step.id || '',
     stepId: step.stepId,
     status: 'pending',
-    order: step.order,
+    maxAttempts: (step.retries || 0) + 1,
+    timeout: step.timeout,
     input: step.input || {},
-    retries: 0,
   }));
 }
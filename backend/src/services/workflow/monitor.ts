@@ -369,6 +369,7 @@ export class WorkflowMonitor {
 
       case EventType.PAUSED:
       case EventType.RESUMED:
+      case EventType.STEP_INTERRUPTED:
         return EventLevel.WARN;
 
       case EventType.FAILED:
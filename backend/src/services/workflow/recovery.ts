@@ -0,0 +1,103 @@
+/**
+ * Workflow Recovery Module
+ * Reloads workflow runs left non-terminal by a process restart
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { WorkflowExecution, StepStatus, EventType } from './types';
+import { EventLevel } from './monitor';
+import { mapPrismaToExecution } from './mappers';
+
+/**
+ * Run statuses that mean the previous process was still driving the run
+ */
+export const RECOVERABLE_RUN_STATUSES = ['pending', 'running'];
+
+export interface RecoveredRun {
+  execution: WorkflowExecution;
+  interruptedSteps: string[];
+}
+
+export interface RecoveryReport {
+  recoveredRuns: string[];
+  interruptedSteps: number;
+  failedRuns: { runId: string; error: string }[];
+}
+
+/**
+ * Workflow recovery service
+ */
+export class WorkflowRecovery {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Find runs that were in flight and mark their running steps interrupted.
+   * Runs already driven by this process are excluded.
+   */
+  async prepareInterruptedRuns(
+    excludeRunIds: string[] = []
+  ): Promise<RecoveredRun[]> {
+    const runs = await this.prisma.workflowRun.findMany({
+      where: {
+        status: { in: RECOVERABLE_RUN_STATUSES },
+        id: { notIn: excludeRunIds },
+      },
+      include: {
+        steps: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const recovered: RecoveredRun[] = [];
+    for (const run of runs) {
+      const interruptedSteps = run.steps
+        .filter((step: any) => step.status === StepStatus.RUNNING)
+        .map((step: any) => step.stepId);
+
+      await this.markStepsInterrupted(run.id, interruptedSteps);
+      recovered.push({
+        execution: mapPrismaToExecution(run),
+        interruptedSteps,
+      });
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Mark in-flight steps as interrupted so the executor runs them again
+   */
+  private async markStepsInterrupted(
+    runId: string,
+    stepIds: string[]
+  ): Promise<void> {
+    if (stepIds.length === 0) return;
+
+    const now = new Date();
+    await this.prisma.workflowStepExecution.updateMany({
+      where: { workflowRunId: runId, stepId: { in: stepIds } },
+      data: {
+        status: StepStatus.INTERRUPTED,
+        endTime: now,
+        error: 'Step interrupted by backend restart',
+        retryReason: 'process_restart',
+        updatedAt: now,
+      },
+    });
+
+    await this.prisma.workflowExecutionEvent.createMany({
+      data: stepIds.map(stepId => ({
+        workflowRunId: runId,
+        type: EventType.STEP_INTERRUPTED,
+        level: EventLevel.WARN,
+        message: `Step ${stepId} interrupted by backend restart`,
+        stepId,
+        source: 'system',
+      })),
+    });
+  }
+}
@@ -49,6 +49,11 @@ export interface BaseHandler {
   readonly timeout?: number;
   readonly retries?: number;
   readonly tags?: string[];
+  readonly category?: string;
+  readonly handlerType?: string;
+  readonly configSchema?: Record<string, any>;
+  readonly inputSchema?: Record<string, any>;
+  readonly outputSchema?: Record<string, any>;
   validate?(input: any): ValidationResult;
   execute(
     input: any,
@@ -143,6 +148,11 @@ export class HandlerRegistry {
       retries: handler.retries,
       tags: handler.tags || [],
       hasValidator: typeof handler.validate === 'function',
+      category: handler.category,
+      handlerType: handler.handlerType,
+      configSchema: handler.configSchema,
+      inputSchema: handler.inputSchema,
+      outputSchema: handler.outputSchema,
     };
   }
 
@@ -318,6 +328,11 @@ export interface HandlerInfo {
   retries?: number;
   tags: string[];
   hasValidator: boolean;
+  category?: string;
+  handlerType?: string;
+  configSchema?: Record<string, any>;
+  inputSchema?: Record<string, any>;
+  outputSchema?: Record<string, any>;
 }
 
 /**
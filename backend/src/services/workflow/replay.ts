@@ -0,0 +1,457 @@
+/**
+ * Workflow Replay Module
+ * Creates new attempts of finished runs that re-run one step or resume from
+ * a step, reusing recorded outputs of the steps that are not re-run
+ */
+
+import { PrismaClient, WorkflowRun } from '@prisma/client';
+import {
+  WorkflowTemplate,
+  WorkflowStep,
+  WorkflowExecution,
+  WorkflowEngineError,
+  StepStatus,
+  EventType,
+  RunReplay,
+} from './types';
+import { Result } from '../../providers/ml-provider.interface';
+import { EventLevel } from './monitor';
+import { executionToCreateData, mapPrismaToExecution } from './mappers';
+
+/**
+ * Run statuses a replay can start from
+ */
+export const REPLAYABLE_RUN_STATUSES = [
+  'completed',
+  'failed',
+  'cancelled',
+  'timeout',
+];
+
+const SATISFIED_STEP_STATUSES: string[] = [
+  StepStatus.COMPLETED,
+  StepStatus.SKIPPED,
+];
+
+const TERMINAL_STEP_STATUSES: string[] = [
+  ...SATISFIED_STEP_STATUSES,
+  StepStatus.FAILED,
+  StepStatus.TIMEOUT,
+  StepStatus.CANCELLED,
+];
+
+/**
+ * What a replay does with each step: copy the recorded result, execute it
+ * again, or leave it out
+ */
+export type ReplayStepAction = 'reuse' | 'rerun' | 'skip';
+
+export interface ReplayOptions {
+  executor?: string;
+  executorType?: 'user' | 'system' | 'schedule' | 'webhook';
+}
+
+export interface RunAttempt {
+  id: string;
+  attempt: number;
+  parentRunId?: string;
+  replayMode?: string;
+  replayStepId?: string;
+  status: string;
+  startTime?: Date;
+  endTime?: Date;
+  error?: string;
+  createdAt: Date;
+}
+
+/**
+ * Attempt of a project's workflow run, with the workflow and who started it
+ */
+export interface ProjectRunAttempt extends RunAttempt {
+  workflowId: string;
+  workflowName: string;
+  executor?: string;
+  executorType?: string;
+}
+
+/**
+ * Steps that transitively depend on the given step
+ */
+export function collectDownstreamSteps(
+  stepId: string,
+  steps: WorkflowStep[]
+): Set<string> {
+  const downstream = new Set<string>();
+  let frontier = [stepId];
+
+  while (frontier.length > 0) {
+    const next = steps
+      .filter(
+        step =>
+          !downstream.has(step.stepId) &&
+          (step.dependencies || []).some(dep => frontier.includes(dep))
+      )
+      .map(step => step.stepId);
+    next.forEach(id => downstream.add(id));
+    frontier = next;
+  }
+
+  return downstream;
+}
+
+/**
+ * Decide per template step whether a replay reuses, re-runs or skips it.
+ * 'from' re-runs the step, everything downstream of it and every step that
+ * did not finish; 'step' re-runs the step alone and needs its dependencies
+ * to have finished.
+ */
+export function planReplaySteps(
+  steps: WorkflowStep[],
+  records: Map<string, any>,
+  replay: RunReplay
+): Result<Map<string, ReplayStepAction>, WorkflowEngineError> {
+  const target = steps.find(step => step.stepId === replay.stepId);
+  if (!target) {
+    return {
+      success: false,
+      error: new WorkflowEngineError(
+        `Step not found in workflow: ${replay.stepId}`,
+        'REPLAY_STEP_NOT_FOUND',
+        replay.stepId
+      ),
+    };
+  }
+
+  const statusOf = (stepId: string) => records.get(stepId)?.status;
+  const plan = new Map<string, ReplayStepAction>();
+
+  if (replay.mode === 'step') {
+    const { stepId } = target;
+    const unfinished = (target.dependencies || []).filter(
+      dep => !SATISFIED_STEP_STATUSES.includes(statusOf(dep))
+    );
+    if (unfinished.length > 0) {
+      const names = unfinished.join(', ');
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Step ${stepId} cannot be re-run alone; unfinished dependencies: ${names}`,
+          'REPLAY_DEPENDENCIES_INCOMPLETE',
+          stepId
+        ),
+      };
+    }
+
+    for (const step of steps) {
+      const finished = TERMINAL_STEP_STATUSES.includes(statusOf(step.stepId));
+      if (step.stepId === stepId) {
+        plan.set(step.stepId, 'rerun');
+      } else {
+        plan.set(step.stepId, finished ? 'reuse' : 'skip');
+      }
+    }
+    return { success: true, data: plan };
+  }
+
+  const downstream = collectDownstreamSteps(target.stepId, steps);
+  for (const step of steps) {
+    const rerun =
+      step.stepId === target.stepId ||
+      downstream.has(step.stepId) ||
+      !SATISFIED_STEP_STATUSES.includes(statusOf(step.stepId));
+    plan.set(step.stepId, rerun ? 'rerun' : 'reuse');
+  }
+  return { success: true, data: plan };
+}
+
+/**
+ * Workflow replay service
+ */
+export class WorkflowReplay {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Load a finished run together with its step executions
+   */
+  async getReplayableRun(
+    runId: string
+  ): Promise<Result<any, WorkflowEngineError>> {
+    const run = await this.prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: { steps: true },
+    });
+
+    if (!run) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Execution not found: ${runId}`,
+          'EXECUTION_NOT_FOUND'
+        ),
+      };
+    }
+
+    if (!REPLAYABLE_RUN_STATUSES.includes(run.status)) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Execution ${runId} is ${run.status}; only finished runs can be replayed`,
+          'REPLAY_RUN_ACTIVE'
+        ),
+      };
+    }
+
+    return { success: true, data: run };
+  }
+
+  /**
+   * Create the replay run linked to the original one, copying the step
+   * executions it reuses
+   */
+  async createReplayRun(
+    original: any,
+    template: WorkflowTemplate,
+    replay: RunReplay,
+    options: ReplayOptions = {}
+  ): Promise<Result<WorkflowExecution, WorkflowEngineError>> {
+    const steps = template.steps || [];
+    const records = new Map<string, any>(
+      (original.steps || []).map((record: any) => [record.stepId, record])
+    );
+    const plan = planReplaySteps(steps, records, replay);
+    if (!plan.success) return plan;
+
+    const run = await this.prisma.workflowRun.create({
+      data: {
+        ...executionToCreateData(
+          original.workflowId,
+          original.input || {},
+          original.context || {},
+          original.variables || {},
+          steps.length
+        ),
+        projectId: original.projectId,
+        priority: original.priority,
+        executor: options.executor,
+        executorType: options.executorType,
+        parentRunId: original.id,
+        templateVersionId: original.templateVersionId,
+        replayMode: replay.mode,
+        replayStepId: replay.stepId,
+        replayInput: replay.input as any,
+      },
+    });
+
+    await this.prisma.workflowStepExecution.createMany({
+      data: steps.map(step =>
+        this.replayStepData(
+          step,
+          run.id,
+          records.get(step.stepId),
+          plan.data.get(step.stepId) || 'rerun'
+        )
+      ),
+    });
+
+    await this.recordReplayEvents(original.id, run.id, replay);
+    return { success: true, data: mapPrismaToExecution(run) };
+  }
+
+  /**
+   * All attempts linked to a run: the original run and every replay of it
+   * or of its replays, oldest first
+   */
+  async listAttempts(
+    runId: string
+  ): Promise<Result<RunAttempt[], WorkflowEngineError>> {
+    const run = await this.prisma.workflowRun.findUnique({
+      where: { id: runId },
+    });
+    if (!run) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Execution not found: ${runId}`,
+          'EXECUTION_NOT_FOUND'
+        ),
+      };
+    }
+
+    const root = await this.findRootRun(run);
+    const runs: WorkflowRun[] = [root];
+    let frontier = [root.id];
+    while (frontier.length > 0) {
+      const replays = await this.prisma.workflowRun.findMany({
+        where: { parentRunId: { in: frontier } },
+      });
+      runs.push(...replays);
+      frontier = replays.map(replayRun => replayRun.id);
+    }
+
+    const attempts = runs
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((attemptRun, index) => this.toAttempt(attemptRun, index + 1));
+
+    return { success: true, data: attempts };
+  }
+
+  /**
+   * Every workflow run of a project, oldest first, numbered as attempts
+   * within the lineage of the run they replay
+   */
+  async listProjectAttempts(projectId: string): Promise<ProjectRunAttempt[]> {
+    const runs = await this.prisma.workflowRun.findMany({
+      where: { projectId },
+      include: { workflow: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const parents = new Map(runs.map(run => [run.id, run.parentRunId]));
+    const rootOf = (runId: string) => {
+      const seen = new Set<string>([runId]);
+      let root = runId;
+      let parentId = parents.get(root);
+      while (parentId && parents.has(parentId) && !seen.has(parentId)) {
+        seen.add(parentId);
+        root = parentId;
+        parentId = parents.get(root);
+      }
+      return root;
+    };
+
+    const attemptCounts = new Map<string, number>();
+    return runs.map(run => {
+      const root = rootOf(run.id);
+      const attempt = (attemptCounts.get(root) || 0) + 1;
+      attemptCounts.set(root, attempt);
+
+      return {
+        ...this.toAttempt(run, attempt),
+        workflowId: run.workflowId,
+        workflowName: run.workflow.name,
+        executor: run.executor || undefined,
+        executorType: run.executorType || undefined,
+      };
+    });
+  }
+
+  private toAttempt(run: WorkflowRun, attempt: number): RunAttempt {
+    return {
+      id: run.id,
+      attempt,
+      parentRunId: run.parentRunId || undefined,
+      replayMode: run.replayMode || undefined,
+      replayStepId: run.replayStepId || undefined,
+      status: run.status,
+      startTime: run.startTime || undefined,
+      endTime: run.endTime || undefined,
+      error: run.error || undefined,
+      createdAt: run.createdAt,
+    };
+  }
+
+  /**
+   * Follow parentRunId links up to the first attempt
+   */
+  private async findRootRun(run: WorkflowRun): Promise<WorkflowRun> {
+    const seen = new Set<string>([run.id]);
+    let root = run;
+    while (root.parentRunId && !seen.has(root.parentRunId)) {
+      const parent: WorkflowRun | null =
+        await this.prisma.workflowRun.findUnique({
+          where: { id: root.parentRunId },
+        });
+      if (!parent) break;
+      seen.add(parent.id);
+      root = parent;
+    }
+    return root;
+  }
+
+  private replayStepData(
+    step: WorkflowStep,
+    runId: string,
+    record: any,
+    action: ReplayStepAction
+  ) {
+    const base = {
+      workflowRunId: runId,
+      stepTemplateId: record?.stepTemplateId || step.id || '',
+      stepId: step.stepId,
+      maxAttempts: (step.retries || 0) + 1,
+      timeout: step.timeout,
+    };
+
+    if (action === 'rerun' || !record) {
+      return { ...base, status: StepStatus.PENDING, input: {} };
+    }
+
+    if (action === 'skip') {
+      return {
+        ...base,
+        status: StepStatus.SKIPPED,
+        input: {},
+        error: 'Not selected for step re-run',
+      };
+    }
+
+    return {
+      ...base,
+      status: record.status,
+      attempt: record.attempt,
+      maxAttempts: record.maxAttempts,
+      input: record.input ?? {},
+      output: record.output ?? undefined,
+      startTime: record.startTime,
+      endTime: record.endTime,
+      duration: record.duration,
+      error: record.error,
+      errorCode: record.errorCode,
+      retryCount: record.retryCount,
+    };
+  }
+
+  private async recordReplayEvents(
+    originalRunId: string,
+    replayRunId: string,
+    replay: RunReplay
+  ): Promise<void> {
+    const details = {
+      originalRunId,
+      replayRunId,
+      mode: replay.mode,
+      stepId: replay.stepId,
+    };
+    const action =
+      replay.mode === 'step'
+        ? `re-running step ${replay.stepId}`
+        : `resuming from step ${replay.stepId}`;
+
+    await this.prisma.workflowExecutionEvent.createMany({
+      data: [
+        {
+          workflowRunId: originalRunId,
+          type: EventType.REPLAYED,
+          level: EventLevel.INFO,
+          message: `Run replayed as ${replayRunId}, ${action}`,
+          details,
+          stepId: replay.stepId,
+          source: 'user',
+        },
+        {
+          workflowRunId: replayRunId,
+          type: EventType.REPLAYED,
+          level: EventLevel.INFO,
+          message: `Replay of run ${originalRunId}, ${action}`,
+          details,
+          stepId: replay.stepId,
+          source: 'user',
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,580 @@
+/**
+ * Workflow Scheduler Module
+ * Triggers workflow runs from persisted cron, interval and one-time schedules
+ */
+
+import { PrismaClient, WorkflowSchedule } from '@prisma/client';
+import { WorkflowEngineError, WorkflowStatus } from './types';
+import { Result } from '../../providers/ml-provider.interface';
+import { ExecutionOptions } from './execution-manager';
+import { getNextCronRun, isValidCronExpression } from './cron';
+
+export type ScheduleType = 'cron' | 'interval' | 'once' | 'manual';
+
+export interface ScheduleConfig {
+  workflowId: string;
+  name: string;
+  description?: string;
+  enabled?: boolean;
+  scheduleType: ScheduleType;
+  cronExpression?: string;
+  interval?: number;
+  scheduledAt?: Date | string;
+  input?: Record<string, any>;
+  context?: Record<string, any>;
+  priority?: ExecutionOptions['priority'];
+}
+
+export interface ScheduleFilters {
+  workflowId?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Launches runs on behalf of the scheduler
+ */
+export interface ScheduleRunner {
+  startExecution(
+    templateId: string,
+    input: Record<string, any>,
+    options?: ExecutionOptions
+  ): Promise<Result<string, WorkflowEngineError>>;
+  waitForExecution(executionId: string): Promise<void>;
+}
+
+export interface SchedulerOptions {
+  pollInterval?: number;
+}
+
+const MIN_INTERVAL_MS = 1000;
+const TIMING_FIELDS = [
+  'enabled',
+  'scheduleType',
+  'cronExpression',
+  'interval',
+  'scheduledAt',
+];
+
+/**
+ * Workflow scheduler service
+ */
+export class WorkflowScheduler {
+  private prisma: PrismaClient;
+  private runner: ScheduleRunner;
+  private pollInterval: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private polling = false;
+
+  constructor(
+    prisma: PrismaClient,
+    runner: ScheduleRunner,
+    options: SchedulerOptions = {}
+  ) {
+    this.prisma = prisma;
+    this.runner = runner;
+    this.pollInterval = options.pollInterval || 30000;
+  }
+
+  /**
+   * Start polling for due schedules
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.pollInterval);
+    this.timer.unref?.();
+    void this.tick();
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Create schedule
+   */
+  async createSchedule(
+    config: ScheduleConfig
+  ): Promise<Result<WorkflowSchedule, WorkflowEngineError>> {
+    try {
+      const validation = this.validateConfig(config);
+      if (!validation.success) return validation;
+
+      const template = await this.prisma.workflowTemplate.findUnique({
+        where: { id: config.workflowId },
+        select: { id: true },
+      });
+      if (!template) {
+        return {
+          success: false,
+          error: new WorkflowEngineError(
+            `Template not found: ${config.workflowId}`,
+            'TEMPLATE_NOT_FOUND'
+          ),
+        };
+      }
+
+      const enabled = config.enabled ?? true;
+      const schedule = await this.prisma.workflowSchedule.create({
+        data: {
+          workflowId: config.workflowId,
+          name: config.name,
+          description: config.description,
+          enabled,
+          scheduleType: config.scheduleType,
+          cronExpression: config.cronExpression,
+          interval: config.interval,
+          scheduledAt: config.scheduledAt
+            ? new Date(config.scheduledAt)
+            : undefined,
+          input: config.input || {},
+          context: config.context || {},
+          priority: config.priority || 'medium',
+          nextRun: enabled ? this.computeNextRun(config) : null,
+        },
+      });
+
+      return { success: true, data: schedule };
+    } catch (error) {
+      return this.failure(
+        'Failed to create schedule',
+        'SCHEDULE_CREATE_FAILED',
+        error
+      );
+    }
+  }
+
+  /**
+   * Update schedule; timing changes recompute the next run
+   */
+  async updateSchedule(
+    id: string,
+    updates: Partial<Omit<ScheduleConfig, 'workflowId'>>
+  ): Promise<Result<WorkflowSchedule, WorkflowEngineError>> {
+    try {
+      const existing = await this.getSchedule(id);
+      if (!existing.success) return existing;
+
+      const merged: ScheduleConfig = {
+        ...this.toConfig(existing.data),
+        ...updates,
+      };
+      const validation = this.validateConfig(merged);
+      if (!validation.success) return validation;
+
+      const enabled = merged.enabled ?? true;
+      const nextRun = this.nextRunAfterUpdate(existing.data, merged, updates);
+      if (!nextRun.success) return nextRun;
+
+      const schedule = await this.prisma.workflowSchedule.update({
+        where: { id },
+        data: {
+          name: merged.name,
+          description: merged.description,
+          enabled,
+          scheduleType: merged.scheduleType,
+          cronExpression: merged.cronExpression ?? null,
+          interval: merged.interval ?? null,
+          scheduledAt: merged.scheduledAt ? new Date(merged.scheduledAt) : null,
+          input: merged.input || {},
+          context: merged.context || {},
+          priority: merged.priority || 'medium',
+          nextRun: nextRun.data,
+        },
+      });
+
+      return { success: true, data: schedule };
+    } catch (error) {
+      return this.failure(
+        'Failed to update schedule',
+        'SCHEDULE_UPDATE_FAILED',
+        error
+      );
+    }
+  }
+
+  /**
+   * Delete schedule
+   */
+  async deleteSchedule(
+    id: string
+  ): Promise<Result<boolean, WorkflowEngineError>> {
+    try {
+      const existing = await this.getSchedule(id);
+      if (!existing.success) return existing;
+
+      await this.prisma.workflowSchedule.delete({ where: { id } });
+      return { success: true, data: true };
+    } catch (error) {
+      return this.failure(
+        'Failed to delete schedule',
+        'SCHEDULE_DELETE_FAILED',
+        error
+      );
+    }
+  }
+
+  /**
+   * Get schedule by ID
+   */
+  async getSchedule(
+    id: string
+  ): Promise<Result<WorkflowSchedule, WorkflowEngineError>> {
+    try {
+      const schedule = await this.prisma.workflowSchedule.findUnique({
+        where: { id },
+      });
+
+      if (!schedule) {
+        return {
+          success: false,
+          error: new WorkflowEngineError(
+            `Schedule not found: ${id}`,
+            'SCHEDULE_NOT_FOUND'
+          ),
+        };
+      }
+
+      return { success: true, data: schedule };
+    } catch (error) {
+      return this.failure(
+        'Failed to get schedule',
+        'SCHEDULE_GET_FAILED',
+        error
+      );
+    }
+  }
+
+  /**
+   * List schedules
+   */
+  async listSchedules(
+    filters: ScheduleFilters = {}
+  ): Promise<Result<WorkflowSchedule[], WorkflowEngineError>> {
+    try {
+      const schedules = await this.prisma.workflowSchedule.findMany({
+        where: {
+          ...(filters.workflowId && { workflowId: filters.workflowId }),
+          ...(filters.enabled !== undefined && { enabled: filters.enabled }),
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return { success: true, data: schedules };
+    } catch (error) {
+      return this.failure(
+        'Failed to list schedules',
+        'SCHEDULE_LIST_FAILED',
+        error
+      );
+    }
+  }
+
+  /**
+   * Pause schedule without deleting it
+   */
+  async pauseSchedule(
+    id: string
+  ): Promise<Result<WorkflowSchedule, WorkflowEngineError>> {
+    return this.updateSchedule(id, { enabled: false });
+  }
+
+  /**
+   * Resume paused schedule from now; a one-time schedule whose time has
+   * passed is refused instead of firing again
+   */
+  async resumeSchedule(
+    id: string
+  ): Promise<Result<WorkflowSchedule, WorkflowEngineError>> {
+    return this.updateSchedule(id, { enabled: true });
+  }
+
+  /**
+   * Trigger schedule immediately without moving its next run
+   */
+  async runNow(id: string): Promise<Result<string, WorkflowEngineError>> {
+    const schedule = await this.getSchedule(id);
+    if (!schedule.success) return schedule;
+
+    try {
+      await this.prisma.workflowSchedule.update({
+        where: { id },
+        data: { lastRun: new Date(), runCount: { increment: 1 } },
+      });
+    } catch (error) {
+      return this.failure(
+        'Failed to run schedule',
+        'SCHEDULE_RUN_FAILED',
+        error
+      );
+    }
+
+    return this.launch(schedule.data);
+  }
+
+  /**
+   * Fire every enabled schedule whose next run is due. Each schedule is
+   * claimed with a conditional update so a run fires at most once even
+   * when several processes poll the same database; runs missed while the
+   * backend was down fire once and the schedule continues from now.
+   */
+  async processDueSchedules(now: Date = new Date()): Promise<string[]> {
+    const due = await this.prisma.workflowSchedule.findMany({
+      where: { enabled: true, nextRun: { lte: now } },
+      orderBy: { nextRun: 'asc' },
+    });
+
+    const started: string[] = [];
+    for (const schedule of due) {
+      const config = this.toConfig(schedule);
+      const recurring =
+        config.scheduleType === 'cron' || config.scheduleType === 'interval';
+
+      const claim = await this.prisma.workflowSchedule.updateMany({
+        where: { id: schedule.id, enabled: true, nextRun: schedule.nextRun },
+        data: {
+          lastRun: now,
+          nextRun: recurring ? this.computeNextRun(config, now) : null,
+          enabled: recurring,
+          runCount: { increment: 1 },
+        },
+      });
+      if (claim.count === 0) continue;
+
+      const result = await this.launch(schedule);
+      if (result.success) started.push(result.data);
+    }
+
+    return started;
+  }
+
+  /**
+   * Compute next run after the given time
+   */
+  computeNextRun(
+    config: ScheduleConfig,
+    after: Date = new Date()
+  ): Date | null {
+    switch (config.scheduleType) {
+      case 'cron':
+        return getNextCronRun(config.cronExpression || '', after);
+      case 'interval':
+        return new Date(after.getTime() + (config.interval || 0));
+      case 'once': {
+        const scheduledAt = config.scheduledAt
+          ? new Date(config.scheduledAt)
+          : null;
+        return scheduledAt && scheduledAt > after ? scheduledAt : after;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Private helper methods
+
+  private async tick(): Promise<void> {
+    if (this.polling) return;
+
+    this.polling = true;
+    try {
+      await this.processDueSchedules();
+    } catch (error) {
+      console.error('Workflow scheduler poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async launch(
+    schedule: WorkflowSchedule
+  ): Promise<Result<string, WorkflowEngineError>> {
+    const result = await this.runner.startExecution(
+      schedule.workflowId,
+      (schedule.input as Record<string, any>) || {},
+      {
+        priority: schedule.priority as ExecutionOptions['priority'],
+        context: (schedule.context as Record<string, any>) || {},
+        executor: schedule.id,
+        executorType: 'schedule',
+      }
+    );
+
+    if (!result.success) {
+      await this.recordOutcome(schedule.id, false);
+      return result;
+    }
+
+    void this.trackOutcome(schedule.id, result.data);
+    return result;
+  }
+
+  private async trackOutcome(
+    scheduleId: string,
+    executionId: string
+  ): Promise<void> {
+    try {
+      await this.runner.waitForExecution(executionId);
+      const run = await this.prisma.workflowRun.findUnique({
+        where: { id: executionId },
+        select: { status: true },
+      });
+      await this.recordOutcome(
+        scheduleId,
+        run?.status === WorkflowStatus.COMPLETED
+      );
+    } catch (error) {
+      console.error(`Failed to track scheduled run ${executionId}:`, error);
+    }
+  }
+
+  private async recordOutcome(
+    scheduleId: string,
+    succeeded: boolean
+  ): Promise<void> {
+    try {
+      await this.prisma.workflowSchedule.update({
+        where: { id: scheduleId },
+        data: succeeded
+          ? { successCount: { increment: 1 } }
+          : { failureCount: { increment: 1 } },
+      });
+    } catch (error) {
+      console.error(
+        `Failed to record outcome for schedule ${scheduleId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Next run of an updated schedule: timing changes recompute it, and a
+   * one-time schedule whose time has passed is refused instead of being
+   * due again at once
+   */
+  private nextRunAfterUpdate(
+    existing: WorkflowSchedule,
+    merged: ScheduleConfig,
+    updates: Partial<ScheduleConfig>
+  ): Result<Date | null, WorkflowEngineError> {
+    if (!(merged.enabled ?? true)) {
+      return { success: true, data: null };
+    }
+
+    const timingChanged = TIMING_FIELDS.some(field => field in updates);
+    if (!timingChanged && existing.nextRun) {
+      return { success: true, data: existing.nextRun };
+    }
+
+    const scheduledAt = merged.scheduledAt && new Date(merged.scheduledAt);
+    if (
+      merged.scheduleType === 'once' &&
+      scheduledAt &&
+      scheduledAt <= new Date()
+    ) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `One-time schedule ${
+            existing.id
+          } was due at ${scheduledAt.toISOString()}; set a later scheduledAt to run it again`,
+          'SCHEDULE_EXPIRED'
+        ),
+      };
+    }
+
+    return { success: true, data: this.computeNextRun(merged) };
+  }
+
+  private validateConfig(
+    config: ScheduleConfig
+  ): Result<true, WorkflowEngineError> {
+    const errors: string[] = [];
+
+    if (!config.name) errors.push('Schedule name is required');
+
+    switch (config.scheduleType) {
+      case 'cron':
+        if (!config.cronExpression) {
+          errors.push('cronExpression is required for cron schedules');
+        } else if (!isValidCronExpression(config.cronExpression)) {
+          errors.push(`Invalid cron expression: ${config.cronExpression}`);
+        }
+        break;
+      case 'interval':
+        if (!config.interval || config.interval < MIN_INTERVAL_MS) {
+          errors.push(`interval must be at least ${MIN_INTERVAL_MS}ms`);
+        }
+        break;
+      case 'once':
+        if (!config.scheduledAt) {
+          errors.push('scheduledAt is required for one-time schedules');
+        } else if (isNaN(new Date(config.scheduledAt).getTime())) {
+          errors.push(`Invalid scheduledAt: ${config.scheduledAt}`);
+        }
+        break;
+      case 'manual':
+        break;
+      default:
+        errors.push(`Unknown schedule type: ${config.scheduleType}`);
+    }
+
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          errors.join(', '),
+          'SCHEDULE_VALIDATION_FAILED',
+          undefined,
+          { errors }
+        ),
+      };
+    }
+
+    return { success: true, data: true };
+  }
+
+  private toConfig(schedule: WorkflowSchedule): ScheduleConfig {
+    return {
+      workflowId: schedule.workflowId,
+      name: schedule.name,
+      description: schedule.description ?? undefined,
+      enabled: schedule.enabled,
+      scheduleType: schedule.scheduleType as ScheduleType,
+      cronExpression: schedule.cronExpression ?? undefined,
+      interval: schedule.interval ?? undefined,
+      scheduledAt: schedule.scheduledAt ?? undefined,
+      input: (schedule.input as Record<string, any>) || {},
+      context: (schedule.context as Record<string, any>) || {},
+      priority: schedule.priority as ExecutionOptions['priority'],
+    };
+  }
+
+  private failure(
+    message: string,
+    code: string,
+    error: unknown
+  ): { success: false; error: WorkflowEngineError } {
+    return {
+      success: false,
+      error: new WorkflowEngineError(
+        `${message}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        code
+      ),
+    };
+  }
+}
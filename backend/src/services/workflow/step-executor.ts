@@ -8,10 +8,19 @@ import {
   StepExecution,
   StepStatus,
   WorkflowEngineError,
+  WorkflowExecutionContext,
 } from './types';
 import { Result } from '../../providers/ml-provider.interface';
 import { HandlerRegistry } from './registry';
 import { WorkflowMonitor } from './monitor';
+import { evaluateConditions } from './expression';
+import type { RunStopReason } from './workflow-executor';
+import {
+  ControlStepExecutor,
+  StepBodyResult,
+  createStepScope,
+  isControlStep,
+} from './control-steps';
 
 export interface StepExecutionContext {
   stepId: string;
@@ -31,13 +40,24 @@ export interface StepExecutionResult {
   nextStepId?: string;
   shouldContinue: boolean;
   updatedVariables?: Record<string, any>;
+  /** The failure was the step timeout */
+  timedOut?: boolean;
 }
 
 export interface StepExecutorOptions {
   timeout?: number;
   retryDelay?: number;
+  backoffMultiplier?: number;
+  maxRetryDelay?: number;
   continueOnError?: boolean;
   skipDependencyCheck?: boolean;
+  /**
+   * Variables from the output of a successful attempt, resolved before the
+   * step is recorded as completed; a throw fails the attempt
+   */
+  mapOutput?: (output: any) => Record<string, any>;
+  /** Polled by long-running steps such as delays; a value ends them early */
+  getStopReason?: () => RunStopReason | undefined;
 }
 
 /**
@@ -47,6 +67,7 @@ export class WorkflowStepExecutor {
   private prisma: PrismaClient;
   private handlerRegistry: HandlerRegistry;
   private monitor: WorkflowMonitor;
+  private controlSteps: ControlStepExecutor;
   private activeSteps = new Map<string, StepExecutionContext>();
 
   constructor(
@@ -57,6 +78,13 @@ export class WorkflowStepExecutor {
     this.prisma = prisma;
     this.handlerRegistry = handlerRegistry;
     this.monitor = monitor;
+    this.controlSteps = new ControlStepExecutor(
+      prisma,
+      (step, context, options) =>
+        this.executeStepHandler(step, context, options),
+      (step, context, options, nested) =>
+        this.executeStepBody(step, context, options, nested)
+    );
   }
 
   /**
@@ -83,10 +111,10 @@ export class WorkflowStepExecutor {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'STEP_EXECUTION_ERROR',
           `Critical error executing step ${step.stepId}: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'STEP_EXECUTION_ERROR'
         ),
       };
     } finally {
@@ -111,15 +139,22 @@ export class WorkflowStepExecutor {
       if (!depCheck.success) return depCheck;
     }
 
-    // Check conditions
+    // Check conditions; evaluation errors fail the step instead of skipping it
     const conditionCheck = await this.evaluateConditions(step, context);
+    if (
+      !conditionCheck.success &&
+      conditionCheck.error.code === 'CONDITION_EVALUATION_ERROR'
+    ) {
+      return conditionCheck;
+    }
     if (!conditionCheck.success) {
       // Conditions not met, skip step
       return {
         success: false,
         error: new WorkflowEngineError(
+          'Step conditions not met',
           'STEP_SKIPPED',
-          'Step conditions not met'
+          step.stepId
         ),
       };
     }
@@ -149,18 +184,24 @@ export class WorkflowStepExecutor {
           attempt
         );
 
-        if (result.success) {
+        // A step interrupted by a run stop is neither retried nor failed
+        if (result.success || result.error.code === 'STEP_INTERRUPTED') {
           return result;
-        } else {
-          lastError = new Error('Step execution failed');
         }
+        lastError = result.error;
       } catch (error) {
         lastError =
           error instanceof Error ? error : new Error('Unknown step error');
+      }
 
-        if (attempt < maxAttempts) {
-          await this.handleRetryDelay(step, options);
-        }
+      if (attempt < maxAttempts) {
+        this.monitor.recordStepRetry(
+          context.workflowRunId,
+          step.stepId,
+          attempt,
+          lastError.message
+        );
+        await this.handleRetryDelay(step, options, attempt);
       }
     }
 
@@ -193,20 +234,58 @@ export class WorkflowStepExecutor {
     });
 
     // Execute the actual step
-    const result = await this.executeStepHandler(step, context, options);
+    const result = await this.executeStepBody(step, context, options, false);
 
     if (result.success) {
+      const mapped = this.mapStepOutput(step, result.data, options);
+      if (!mapped.success) {
+        return mapped;
+      }
       return await this.handleStepSuccess(
         step,
         context,
         startTime,
-        result.data
+        mapped.data
       );
     }
 
     return result as Result<StepExecutionResult, WorkflowEngineError>;
   }
 
+  /**
+   * Add the variables of the step's output mapping to its result
+   */
+  private mapStepOutput(
+    step: WorkflowStep,
+    body: StepBodyResult,
+    options: StepExecutorOptions
+  ): Result<StepBodyResult, WorkflowEngineError> {
+    if (!options.mapOutput) {
+      return { success: true, data: body };
+    }
+
+    try {
+      return {
+        success: true,
+        data: {
+          ...body,
+          variables: { ...body.variables, ...options.mapOutput(body.output) },
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Output mapping failed: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+          'OUTPUT_MAPPING_ERROR',
+          step.stepId
+        ),
+      };
+    }
+  }
+
   /**
    * Execute multiple steps in parallel
    */
@@ -249,8 +328,8 @@ export class WorkflowStepExecutor {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'PARALLEL_EXECUTION_FAILED',
-            'One or more parallel steps failed'
+            'One or more parallel steps failed',
+            'PARALLEL_EXECUTION_FAILED'
           ),
         };
       }
@@ -260,10 +339,10 @@ export class WorkflowStepExecutor {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'PARALLEL_EXECUTION_ERROR',
           `Failed to execute steps in parallel: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'PARALLEL_EXECUTION_ERROR'
         ),
       };
     }
@@ -288,8 +367,8 @@ export class WorkflowStepExecutor {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'STEP_EXECUTION_NOT_FOUND',
-            `Step execution not found: ${stepId}`
+            `Step execution not found: ${stepId}`,
+            'STEP_EXECUTION_NOT_FOUND'
           ),
         };
       }
@@ -315,10 +394,10 @@ export class WorkflowStepExecutor {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'STEP_STATUS_ERROR',
           `Failed to get step status: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'STEP_STATUS_ERROR'
         ),
       };
     }
@@ -364,9 +443,12 @@ export class WorkflowStepExecutor {
   ): Promise<Result<StepExecutionResult, WorkflowEngineError>> {
     const endTime = new Date();
     const duration = endTime.getTime() - startTime.getTime();
+    const timedOut =
+      lastError instanceof WorkflowEngineError &&
+      lastError.code === 'STEP_TIMEOUT';
 
     await this.updateStepExecution(context.stepId, context.workflowRunId, {
-      status: 'failed',
+      status: timedOut ? 'timeout' : 'failed',
       endTime,
       duration,
       error:
@@ -383,6 +465,7 @@ export class WorkflowStepExecutor {
           error: lastError?.message || 'Step execution failed',
           duration,
           shouldContinue,
+          timedOut,
           nextStepId: this.getNextStepId(step),
         },
       };
@@ -390,8 +473,8 @@ export class WorkflowStepExecutor {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'STEP_EXECUTION_FAILED',
-          lastError?.message || 'Step execution failed'
+          lastError?.message || 'Step execution failed',
+          timedOut ? 'STEP_TIMEOUT' : 'STEP_EXECUTION_FAILED'
         ),
       };
     }
@@ -402,10 +485,15 @@ export class WorkflowStepExecutor {
    */
   private async handleRetryDelay(
     step: WorkflowStep,
-    options: StepExecutorOptions
+    options: StepExecutorOptions,
+    attempt: number = 1
   ): Promise<void> {
-    const delay = options.retryDelay || step.retryDelay || 1000;
-    await this.sleep(delay);
+    const baseDelay = options.retryDelay || step.retryDelay || 1000;
+    const multiplier = options.backoffMultiplier || 1;
+    const delay = baseDelay * Math.pow(multiplier, attempt - 1);
+    await this.sleep(
+      options.maxRetryDelay ? Math.min(delay, options.maxRetryDelay) : delay
+    );
   }
 
   private async checkDependencies(
@@ -436,10 +524,10 @@ export class WorkflowStepExecutor {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'DEPENDENCY_NOT_MET',
             `Step dependencies not satisfied. Missing: ${missingDeps.join(
               ', '
-            )}`
+            )}`,
+            'DEPENDENCY_NOT_MET'
           ),
         };
       }
@@ -449,10 +537,10 @@ export class WorkflowStepExecutor {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'DEPENDENCY_CHECK_ERROR',
           `Failed to check dependencies: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'DEPENDENCY_CHECK_ERROR'
         ),
       };
     }
@@ -467,24 +555,15 @@ export class WorkflowStepExecutor {
     }
 
     try {
-      // Simple condition evaluation - can be extended with more complex logic
-      for (const condition of step.conditions) {
-        const fieldValue = this.getValueFromContext(condition.field, context);
-        const conditionMet = this.evaluateCondition(
-          fieldValue,
-          condition.operator,
-          condition.value
-        );
-
-        if (!conditionMet) {
-          return {
-            success: false,
-            error: new WorkflowEngineError(
-              'CONDITION_NOT_MET',
-              `Condition not met for field ${condition.field}`
-            ),
-          };
-        }
+      if (!evaluateConditions(step.conditions, createStepScope(context))) {
+        return {
+          success: false,
+          error: new WorkflowEngineError(
+            `Conditions not met for step ${step.stepId}`,
+            'CONDITION_NOT_MET',
+            step.stepId
+          ),
+        };
       }
 
       return { success: true, data: true };
@@ -492,15 +571,30 @@ export class WorkflowStepExecutor {
       return {
         success: false,
         error: new WorkflowEngineError(
-          'CONDITION_EVALUATION_ERROR',
           `Failed to evaluate conditions: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'CONDITION_EVALUATION_ERROR'
         ),
       };
     }
   }
 
+  /**
+   * Dispatch on step type: control steps are run by the control step
+   * executor, everything else is a single handler call
+   */
+  private async executeStepBody(
+    step: WorkflowStep,
+    context: StepExecutionContext,
+    options: StepExecutorOptions,
+    nested: boolean
+  ): Promise<Result<StepBodyResult, WorkflowEngineError>> {
+    return isControlStep(step)
+      ? this.controlSteps.execute(step, context, options, nested)
+      : this.executeStepHandler(step, context, options);
+  }
+
   private async executeStepHandler(
     step: WorkflowStep,
     context: StepExecutionContext,
@@ -512,55 +606,101 @@ export class WorkflowStepExecutor {
     >
   > {
     try {
-      // Get handler from registry
-      let handler: any;
-      try {
-        handler = this.handlerRegistry.get(step.handler);
-      } catch {
+      if (!this.handlerRegistry.has(step.handler)) {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'HANDLER_NOT_FOUND',
-            `Handler not found: ${step.handler}`
+            `Handler not found: ${step.handler}`,
+            'HANDLER_NOT_FOUND'
           ),
         };
       }
 
-      // Prepare handler input
-      const handlerInput = {
-        stepConfig: step.handlerConfig || {},
-        input: context.input,
-        variables: context.variables,
-        metadata: context.metadata,
-      };
+      // Static handlerConfig is overridden by the resolved step input
+      const inputIsObject =
+        typeof context.input === 'object' &&
+        context.input !== null &&
+        !Array.isArray(context.input);
+      const handlerInput = inputIsObject
+        ? { ...(step.handlerConfig || {}), ...context.input }
+        : context.input ?? step.handlerConfig ?? {};
 
       // Execute handler with timeout
       const timeout = options.timeout || step.timeout || 30000;
       const result = await this.executeWithTimeout(
-        () => handler.execute(handlerInput),
-        timeout
+        () =>
+          this.handlerRegistry.executeHandler(
+            step.handler,
+            handlerInput,
+            this.createHandlerContext(step, context)
+          ),
+        timeout,
+        step.stepId
       );
 
+      if (!result.success) {
+        return {
+          success: false,
+          error: new WorkflowEngineError(
+            `Handler execution failed: ${result.error || 'Unknown error'}`,
+            'HANDLER_EXECUTION_ERROR',
+            step.stepId
+          ),
+        };
+      }
+
       return {
         success: true,
-        data: {
-          output: (result as any)?.data || result,
-          variables: (result as any)?.variables || {},
-        },
+        data: { output: result.output, variables: {} },
       };
     } catch (error) {
+      if (error instanceof WorkflowEngineError) {
+        return { success: false, error };
+      }
       return {
         success: false,
         error: new WorkflowEngineError(
-          'HANDLER_EXECUTION_ERROR',
           `Handler execution failed: ${
             error instanceof Error ? error.message : 'Unknown error'
-          }`
+          }`,
+          'HANDLER_EXECUTION_ERROR'
         ),
       };
     }
   }
 
+  /**
+   * Build the execution context passed to registry handlers
+   */
+  private createHandlerContext(
+    step: WorkflowStep,
+    context: StepExecutionContext
+  ): WorkflowExecutionContext {
+    const prefix = `[workflow:${context.workflowRunId}:${step.stepId}]`;
+
+    return {
+      workflowId: context.metadata?.workflowId || '',
+      runId: context.workflowRunId,
+      stepId: step.stepId,
+      variables: context.variables,
+      input: context.input,
+      output: context.metadata?.steps || {},
+      metadata: {
+        ...context.metadata,
+        stepName: step.name,
+        stepConfig: step.handlerConfig || {},
+        attempt: context.attempt,
+      },
+      logger: {
+        debug: (message, data) => console.debug(prefix, message, data ?? ''),
+        info: (message, data) => console.info(prefix, message, data ?? ''),
+        warn: (message, data) => console.warn(prefix, message, data ?? ''),
+        error: (message, error) => console.error(prefix, message, error ?? ''),
+      },
+      services: { prisma: this.prisma },
+    };
+  }
+
   private async updateStepExecution(
     stepId: string,
     workflowRunId: string,
@@ -590,49 +730,20 @@ export class WorkflowStepExecutor {
     return options.continueOnError || step.onError === 'continue';
   }
 
-  private getValueFromContext(
-    field: string,
-    context: StepExecutionContext
-  ): any {
-    const parts = field.split('.');
-    let value: any = {
-      input: context.input,
-      variables: context.variables,
-      metadata: context.metadata,
-    };
-
-    for (const part of parts) {
-      value = value?.[part];
-    }
-
-    return value;
-  }
-
-  private evaluateCondition(
-    fieldValue: any,
-    operator: string,
-    expectedValue: any
-  ): boolean {
-    const ops: Record<string, (f: any, e: any) => boolean> = {
-      eq: (f, e) => f === e,
-      ne: (f, e) => f !== e,
-      gt: (f, e) => f > e,
-      lt: (f, e) => f < e,
-      gte: (f, e) => f >= e,
-      lte: (f, e) => f <= e,
-      contains: (f, e) => String(f).includes(String(e)),
-      exists: f => f !== undefined && f !== null,
-    };
-    return ops[operator]?.(fieldValue, expectedValue) ?? true;
-  }
-
   private async executeWithTimeout<T>(
     fn: () => Promise<T>,
-    timeout: number
+    timeout: number,
+    stepId?: string
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       const timeoutId = setTimeout(() => {
-        reject(new Error(`Operation timed out after ${timeout}ms`));
+        reject(
+          new WorkflowEngineError(
+            `Operation timed out after ${timeout}ms`,
+            'STEP_TIMEOUT',
+            stepId
+          )
+        );
       }, timeout);
 
       fn()
@@ -0,0 +1,157 @@
+/**
+ * Workflow Template Diff
+ * Structural comparison of two template versions
+ */
+
+import { WorkflowTemplate, WorkflowStep } from './types';
+
+export type DiffKind = 'condition' | 'mapping' | 'config';
+
+export interface FieldChange {
+  field: string;
+  kind: DiffKind;
+  before: any;
+  after: any;
+}
+
+export interface StepDiff {
+  stepId: string;
+  changes: FieldChange[];
+}
+
+export interface TemplateDiff {
+  fromVersion: string;
+  toVersion: string;
+  steps: {
+    added: string[];
+    removed: string[];
+    changed: StepDiff[];
+  };
+  template: FieldChange[];
+}
+
+/**
+ * Step fields that change run behavior; name and description do not
+ */
+const STEP_DIFF_FIELDS: (keyof WorkflowStep)[] = [
+  'type',
+  'handler',
+  'handlerConfig',
+  'dependencies',
+  'conditions',
+  'inputMapping',
+  'outputMapping',
+  'onError',
+  'errorHandler',
+  'timeout',
+  'retries',
+  'retryDelay',
+  'loop',
+  'parallel',
+  'delay',
+  'branch',
+];
+
+const TEMPLATE_DIFF_FIELDS: (keyof WorkflowTemplate)[] = [
+  'conditions',
+  'variables',
+  'timeout',
+  'retryPolicy',
+  'inputSchema',
+  'outputSchema',
+];
+
+function fieldKind(field: string): DiffKind {
+  if (field === 'conditions' || field === 'branch') return 'condition';
+  if (field === 'inputMapping' || field === 'outputMapping') return 'mapping';
+  return 'config';
+}
+
+/**
+ * JSON serialization with sorted object keys, for order-insensitive
+ * comparison of stored definitions
+ */
+export function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function isEmptyValue(value: any): boolean {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return typeof value === 'object' && Object.keys(value).length === 0;
+}
+
+function sameValue(before: any, after: any): boolean {
+  if (isEmptyValue(before) && isEmptyValue(after)) return true;
+  return stableStringify(before) === stableStringify(after);
+}
+
+function diffFields<T>(before: T, after: T, fields: (keyof T)[]) {
+  return fields
+    .filter(field => !sameValue(before[field], after[field]))
+    .map(field => ({
+      field: String(field),
+      kind: fieldKind(String(field)),
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+}
+
+/**
+ * Behavior-relevant field changes between two definitions of a step
+ */
+export function diffSteps(
+  before: WorkflowStep,
+  after: WorkflowStep
+): FieldChange[] {
+  return diffFields(before, after, STEP_DIFF_FIELDS);
+}
+
+/**
+ * Steps added, removed and changed between two template versions, plus
+ * template-level condition, variable and schema changes
+ */
+export function diffTemplates(
+  from: WorkflowTemplate,
+  to: WorkflowTemplate
+): TemplateDiff {
+  const fromSteps = new Map(from.steps.map(step => [step.stepId, step]));
+  const toSteps = new Map(to.steps.map(step => [step.stepId, step]));
+
+  const changed: StepDiff[] = [];
+  for (const [stepId, step] of toSteps) {
+    const previous = fromSteps.get(stepId);
+    const changes = previous ? diffSteps(previous, step) : [];
+    if (changes.length > 0) changed.push({ stepId, changes });
+  }
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    steps: {
+      added: [...toSteps.keys()].filter(stepId => !fromSteps.has(stepId)),
+      removed: [...fromSteps.keys()].filter(stepId => !toSteps.has(stepId)),
+      changed,
+    },
+    template: diffFields(from, to, TEMPLATE_DIFF_FIELDS),
+  };
+}
+
+export function hasDefinitionChanges(diff: TemplateDiff): boolean {
+  return (
+    diff.steps.added.length > 0 ||
+    diff.steps.removed.length > 0 ||
+    diff.steps.changed.length > 0 ||
+    diff.template.length > 0
+  );
+}
@@ -0,0 +1,288 @@
+/**
+ * Workflow Template File Schema
+ * Portable YAML/JSON format for engine templates (WorkflowTemplate) and
+ * enhanced templates (WorkflowTemplateEnhanced)
+ */
+
+import { z } from 'zod';
+import { StepType } from './types';
+
+export const TEMPLATE_FILE_SCHEMA_VERSION = 1;
+
+const record = z.record(z.string(), z.any());
+
+const conditionSchema = z
+  .object({
+    expression: z.string().optional(),
+    field: z.string().optional(),
+    operator: z
+      .enum([
+        'equals',
+        'not_equals',
+        'contains',
+        'greater_than',
+        'less_than',
+        'exists',
+        'not_exists',
+      ])
+      .optional(),
+    value: z.any().optional(),
+    logicalOperator: z.enum(['AND', 'OR']).optional(),
+  })
+  .strict();
+
+const retryPolicySchema = z
+  .object({
+    maxAttempts: z.number().int().min(1),
+    delay: z.number().min(0),
+    backoffMultiplier: z.number().positive().optional(),
+    maxDelay: z.number().positive().optional(),
+  })
+  .strict();
+
+const stepFields = {
+  stepId: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  type: z.enum(StepType),
+  category: z.string().optional(),
+  handler: z.string().min(1),
+  handlerConfig: record.optional(),
+  order: z.number().int().min(0).optional(),
+  dependencies: z.array(z.string()).optional(),
+  conditions: z.array(conditionSchema).optional(),
+  timeout: z.number().int().positive().optional(),
+  retries: z.number().int().min(0).optional(),
+  retryDelay: z.number().int().positive().optional(),
+  inputMapping: record.optional(),
+  outputMapping: record.optional(),
+  onError: z.enum(['continue', 'halt', 'retry', 'skip']).optional(),
+  errorHandler: z.string().optional(),
+  loop: z
+    .object({
+      items: z.string().min(1),
+      itemVariable: z.string().optional(),
+      indexVariable: z.string().optional(),
+      concurrency: z.number().int().min(1).optional(),
+      inputMapping: record.optional(),
+      continueOnItemError: z.boolean().optional(),
+    })
+    .strict()
+    .optional(),
+  delay: z
+    .object({
+      duration: z.number().int().positive().optional(),
+      until: z.string().optional(),
+    })
+    .strict()
+    .optional(),
+  branch: z
+    .object({
+      expression: z.string().min(1),
+      then: z.array(z.string()),
+      else: z.array(z.string()).optional(),
+    })
+    .strict()
+    .optional(),
+};
+
+/**
+ * Parallel steps nest child steps; children cannot nest further
+ */
+const childStepSchema = z.object(stepFields).strict();
+
+export const templateStepFileSchema = z
+  .object({
+    ...stepFields,
+    parallel: z
+      .object({
+        steps: z.array(childStepSchema).min(1),
+        join: z.enum(['all', 'any', 'first-success']).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export const workflowTemplateFileSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    version: z.string().min(1),
+    type: z.string().min(1),
+    category: z.string().optional(),
+    priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+    steps: z.array(templateStepFileSchema).min(1),
+    conditions: z.array(conditionSchema).optional(),
+    variables: record.optional(),
+    metadata: record.optional(),
+    timeout: z.number().int().positive().optional(),
+    retryPolicy: retryPolicySchema.optional(),
+    inputSchema: record.optional(),
+    outputSchema: record.optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const approverTypeSchema = z.enum([
+  'user',
+  'stakeholder',
+  'tech_lead',
+  'product_owner',
+]);
+
+const reviewCriteriaSchema = z
+  .object({
+    technical: z.array(z.string()).optional(),
+    business: z.array(z.string()).optional(),
+    design: z.array(z.string()).optional(),
+    security: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const enhancedStepFileSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string(),
+    type: z.enum([
+      'ai_generation',
+      'human_review',
+      'approval_gate',
+      'iteration_point',
+      'validation',
+      'integration',
+      'mockup_generation',
+    ]),
+    provider: z.string().optional(),
+    dependencies: z.array(z.string()),
+    configuration: z
+      .object({
+        prompt: z.string().optional(),
+        model: z.string().optional(),
+        temperature: z.number().min(0).max(2).optional(),
+        maxTokens: z.number().int().positive().optional(),
+        contextRequired: z.boolean().optional(),
+        workspaceAccess: z.boolean().optional(),
+        fallbackProviders: z.array(z.string()).optional(),
+        approvalRequired: z.boolean().optional(),
+        approverType: approverTypeSchema.optional(),
+        reviewCriteria: reviewCriteriaSchema.optional(),
+        allowIterations: z.boolean().optional(),
+        maxIterations: z.number().int().min(1).optional(),
+        iterationPrompt: z.string().optional(),
+        mockupType: z
+          .enum(['wireframe', 'prototype', 'final_design'])
+          .optional(),
+        designTools: z.array(z.string()).optional(),
+        responsiveBreakpoints: z.array(z.string()).optional(),
+      })
+      .strict(),
+    maxRetries: z.number().int().min(0),
+  })
+  .strict();
+
+export const enhancedTemplateFileSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string(),
+    category: z.enum([
+      'new_project',
+      'existing_project',
+      'maintenance',
+      'analysis',
+    ]),
+    projectType: z.enum(['web_app', 'mobile_app', 'api', 'desktop', 'generic']),
+    complexity: z.enum(['simple', 'medium', 'complex', 'enterprise']),
+    approvals: z.array(
+      z
+        .object({
+          id: z.string().min(1),
+          stepName: z.string().min(1),
+          approverType: approverTypeSchema,
+          approvalRequired: z.boolean(),
+          timeoutMinutes: z.number().int().positive().optional(),
+          fallbackAction: z
+            .enum(['auto_approve', 'auto_reject', 'escalate'])
+            .optional(),
+          reviewCriteria: reviewCriteriaSchema,
+        })
+        .strict()
+    ),
+    iterations: z
+      .object({
+        maxIterations: z.number().int().min(0),
+        iterationTriggers: z.array(
+          z.enum(['user_feedback', 'validation_failed', 'approval_rejected'])
+        ),
+        iterationScope: z.enum([
+          'full_workflow',
+          'current_step',
+          'from_specific_step',
+        ]),
+        fallbackStepId: z.string().optional(),
+      })
+      .strict(),
+    checkpoints: z.array(z.string()),
+    steps: z.array(enhancedStepFileSchema).min(1),
+    providerStrategy: z
+      .object({
+        primary: z.string().min(1),
+        fallbacks: z.array(z.string()),
+        loadBalancing: z.boolean().optional(),
+        costOptimization: z.boolean().optional(),
+        contextAffinity: z.boolean().optional(),
+      })
+      .strict(),
+    estimatedDuration: z.number().min(0),
+    requirements: z
+      .object({
+        minimumProviders: z.array(z.string()),
+        optionalProviders: z.array(z.string()),
+        contextRequired: z.boolean(),
+        workspaceAccess: z.boolean(),
+        stakeholderApproval: z.boolean().optional(),
+      })
+      .strict(),
+    frontendIntegration: z
+      .object({
+        showProgress: z.boolean(),
+        allowUserInteraction: z.boolean(),
+        notificationEndpoints: z.array(z.string()).optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+/**
+ * Top-level document: a schema version, the template kind and the template
+ */
+export const templateFileSchema = z.discriminatedUnion('kind', [
+  z
+    .object({
+      schemaVersion: z.literal(TEMPLATE_FILE_SCHEMA_VERSION),
+      kind: z.literal('workflow'),
+      template: workflowTemplateFileSchema,
+    })
+    .strict(),
+  z
+    .object({
+      schemaVersion: z.literal(TEMPLATE_FILE_SCHEMA_VERSION),
+      kind: z.literal('enhanced'),
+      template: enhancedTemplateFileSchema,
+    })
+    .strict(),
+]);
+
+export type TemplateFile = z.infer<typeof templateFileSchema>;
+export type TemplateFileKind = TemplateFile['kind'];
+
+/**
+ * Published JSON Schema of the template file format, for editors and CI
+ */
+export function getTemplateFileJsonSchema(): Record<string, unknown> {
+  return {
+    ...z.toJSONSchema(templateFileSchema, { io: 'input' }),
+    title: 'ThinkCode workflow template',
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * Workflow Template Files
+ * Import and export of templates as YAML or JSON documents; validation
+ * problems point to the line and column of the offending value
+ */
+
+import {
+  Document,
+  LineCounter,
+  Node,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+  stringify,
+} from 'yaml';
+import { WorkflowTemplate, WorkflowEngineError } from './types';
+import { Result } from '../../providers/ml-provider.interface';
+import { WorkflowValidator } from './validator';
+import { HandlerInfo } from './registry';
+import { WorkflowTemplateEnhanced } from '../workflow-templates/types/workflow-template.types';
+import { TemplateValidationUtils } from '../workflow-templates/utils/template.utils';
+import {
+  TEMPLATE_FILE_SCHEMA_VERSION,
+  TemplateFileKind,
+  templateFileSchema,
+} from './template-file-schema';
+
+export type TemplateFileFormat = 'yaml' | 'json';
+
+export interface TemplateFileIssue {
+  /** Dotted path of the value, e.g. template.steps[2].type */
+  path: string;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export type ImportedTemplate =
+  | { kind: 'workflow'; template: WorkflowTemplate; warnings: string[] }
+  | {
+      kind: 'enhanced';
+      template: WorkflowTemplateEnhanced;
+      warnings: string[];
+    };
+
+type PathSegment = string | number | symbol;
+
+/**
+ * Engine template fields written to files; runtime and audit fields such
+ * as id, active and createdBy stay in the database
+ */
+const WORKFLOW_FILE_FIELDS: (keyof WorkflowTemplate)[] = [
+  'name',
+  'description',
+  'version',
+  'type',
+  'category',
+  'priority',
+  'steps',
+  'conditions',
+  'variables',
+  'metadata',
+  'timeout',
+  'retryPolicy',
+  'inputSchema',
+  'outputSchema',
+  'tags',
+];
+
+const STEP_FILE_OMIT = new Set(['id']);
+
+function formatPath(path: PathSegment[]): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return result ? `${result}.${String(segment)}` : String(segment);
+  }, '');
+}
+
+/**
+ * Source node for a path; missing keys resolve to the closest existing
+ * ancestor so the problem still points into the document
+ */
+function findNode(doc: Document, path: PathSegment[]): Node | undefined {
+  let node = doc.contents as Node | null;
+  let found: Node | undefined = node || undefined;
+
+  for (const segment of path) {
+    if (isMap(node)) {
+      const pair = node.items.find(
+        item => isScalar(item.key) && item.key.value === segment
+      );
+      if (!pair) break;
+      node = (pair.value as Node) || (pair.key as Node);
+    } else if (isSeq(node) && typeof segment === 'number') {
+      node = (node.items[segment] as Node) || null;
+    } else {
+      break;
+    }
+    if (!node) break;
+    found = node;
+  }
+
+  return found;
+}
+
+function toIssue(
+  doc: Document,
+  lineCounter: LineCounter,
+  path: PathSegment[],
+  message: string
+): TemplateFileIssue {
+  const offset = findNode(doc, path)?.range?.[0] ?? 0;
+  const { line, col } = lineCounter.linePos(offset);
+  return { path: formatPath(path), message, line, column: col };
+}
+
+/**
+ * Path of the step a semantic validation message is about, matched by
+ * its stepId (engine templates) or name (enhanced templates)
+ */
+function stepPathForMessage(message: string, keys: string[]): PathSegment[] {
+  const index = keys.findIndex(key =>
+    new RegExp(
+      `(^|Step |Krok )${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(:| )`
+    ).test(message)
+  );
+  return index >= 0 ? ['template', 'steps', index] : ['template'];
+}
+
+function invalidFile(
+  issues: TemplateFileIssue[]
+): Result<never, WorkflowEngineError> {
+  const [first] = issues;
+  return {
+    success: false,
+    error: new WorkflowEngineError(
+      `Invalid template file at line ${first.line}, column ${first.column}: ${first.message}`,
+      'TEMPLATE_FILE_INVALID',
+      undefined,
+      { issues }
+    ),
+  };
+}
+
+/**
+ * Parse and validate a YAML or JSON template document (JSON is parsed as
+ * YAML 1.2, of which it is a subset)
+ */
+export function parseTemplateFile(
+  content: string,
+  handlers?: HandlerInfo[]
+): Result<ImportedTemplate, WorkflowEngineError> {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, prettyErrors: false });
+
+  if (doc.errors.length > 0) {
+    return invalidFile(
+      doc.errors.map(error => {
+        const { line, col } = lineCounter.linePos(error.pos[0]);
+        return { path: '', message: error.message, line, column: col };
+      })
+    );
+  }
+
+  const parsed = templateFileSchema.safeParse(doc.toJS());
+  if (!parsed.success) {
+    return invalidFile(
+      parsed.error.issues.map(issue => {
+        const path =
+          issue.code === 'unrecognized_keys'
+            ? [...issue.path, issue.keys[0]]
+            : issue.path;
+        return toIssue(doc, lineCounter, path, issue.message);
+      })
+    );
+  }
+
+  const file = parsed.data;
+  const locate = (messages: string[], keys: string[]) =>
+    messages.map(message =>
+      toIssue(doc, lineCounter, stepPathForMessage(message, keys), message)
+    );
+
+  if (file.kind === 'enhanced') {
+    const template = file.template as WorkflowTemplateEnhanced;
+    const validation = TemplateValidationUtils.validateTemplate(template);
+    if (!validation.success) {
+      return invalidFile(
+        locate(
+          validation.errors,
+          template.steps.map(step => step.name)
+        )
+      );
+    }
+    return {
+      success: true,
+      data: { kind: 'enhanced', template, warnings: validation.warnings },
+    };
+  }
+
+  const template = {
+    ...file.template,
+    steps: file.template.steps.map((step, index) => ({
+      ...step,
+      order: step.order ?? index,
+    })),
+  } as WorkflowTemplate;
+  const validation = WorkflowValidator.validateTemplate(template, handlers);
+  if (!validation.success) {
+    return invalidFile(
+      locate(
+        validation.errors,
+        template.steps.map(step => step.stepId)
+      )
+    );
+  }
+
+  return {
+    success: true,
+    data: {
+      kind: 'workflow',
+      template,
+      warnings: validation.warnings,
+    },
+  };
+}
+
+function pickDefined(source: Record<string, any>, fields: string[]) {
+  return Object.fromEntries(
+    fields
+      .filter(field => source[field] !== undefined && source[field] !== null)
+      .map(field => [field, source[field]])
+  );
+}
+
+function stripEmpty(step: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(step).filter(
+      ([key, value]) =>
+        !STEP_FILE_OMIT.has(key) &&
+        value !== undefined &&
+        value !== null &&
+        !(Array.isArray(value) && value.length === 0) &&
+        !(
+          typeof value === 'object' &&
+          !Array.isArray(value) &&
+          Object.keys(value).length === 0
+        )
+    )
+  );
+}
+
+/**
+ * Serialize a template document; YAML output keeps the field order of the
+ * schema so diffs in pull requests stay small
+ */
+export function serializeTemplateFile(
+  kind: TemplateFileKind,
+  template: Record<string, any>,
+  format: TemplateFileFormat = 'yaml'
+): string {
+  const document = {
+    schemaVersion: TEMPLATE_FILE_SCHEMA_VERSION,
+    kind,
+    template,
+  };
+
+  return format === 'json'
+    ? `${JSON.stringify(document, null, 2)}\n`
+    : stringify(document, { lineWidth: 0 });
+}
+
+export function exportWorkflowTemplate(
+  template: WorkflowTemplate,
+  format: TemplateFileFormat = 'yaml'
+): string {
+  const fields = pickDefined(template, WORKFLOW_FILE_FIELDS as string[]);
+  const steps = template.steps.map(step => {
+    const { parallel, ...rest } = stripEmpty(step);
+    return parallel
+      ? {
+          ...rest,
+          parallel: {
+            ...parallel,
+            steps: parallel.steps.map(stripEmpty),
+          },
+        }
+      : rest;
+  });
+
+  return serializeTemplateFile(
+    'workflow',
+    stripEmpty({ ...fields, steps }),
+    format
+  );
+}
+
+export function exportEnhancedTemplate(
+  template: WorkflowTemplateEnhanced,
+  format: TemplateFileFormat = 'yaml'
+): string {
+  return serializeTemplateFile('enhanced', { ...template }, format);
+}
@@ -5,16 +5,26 @@
  */
 import { PrismaClient } from '@prisma/client';
 import { Result } from '../../providers/ml-provider.interface';
-import { WorkflowTemplate, WorkflowEngineError } from './types';
+import { WorkflowTemplate, WorkflowStep, WorkflowEngineError } from './types';
 import { WorkflowValidator } from './validator';
-import { mapPrismaToTemplate, templateToCreateData } from './mappers';
+import { HandlerRegistry } from './registry';
+import { TemplateVersioning, PublishOptions } from './versioning';
+import {
+  mapPrismaToTemplate,
+  templateToCreateData,
+  stepToStepTemplateData,
+} from './mappers';
 export class TemplateManager {
   private prisma: PrismaClient;
   private validator: WorkflowValidator;
+  private handlerRegistry?: HandlerRegistry;
+  private versioning: TemplateVersioning;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, handlerRegistry?: HandlerRegistry) {
     this.prisma = prisma;
     this.validator = new WorkflowValidator();
+    this.handlerRegistry = handlerRegistry;
+    this.versioning = new TemplateVersioning(prisma);
   }
 
   /**
@@ -25,13 +35,13 @@ export class TemplateManager {
   ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
     try {
       // Validate template structure
-      const validation = WorkflowValidator.validateTemplate(template);
+      const validation = this.validateTemplate(template);
       if (!validation.success) {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'VALIDATION_ERROR',
-            validation.errors.join(', ')
+            validation.errors.join(', '),
+            'VALIDATION_ERROR'
           ),
         };
       }
@@ -50,20 +60,7 @@ export class TemplateManager {
         await Promise.all(
           template.steps.map((step, index) =>
             this.prisma.workflowStepTemplate.create({
-              data: {
-                workflowId: created.id,
-                stepId: step.stepId,
-                name: step.name,
-                description: step.description,
-                type: step.type,
-                handler: step.handler,
-                handlerConfig: step.handlerConfig,
-                dependencies: step.dependencies as any,
-                timeout: step.timeout,
-                retries: step.retries || 0,
-                conditions: step.conditions as any,
-                order: index,
-              },
+              data: stepToStepTemplateData(step, created.id, index),
             })
           )
         );
@@ -83,12 +80,11 @@ export class TemplateManager {
         throw new Error('Failed to retrieve created template');
       }
 
-      const result = mapPrismaToTemplate(completeTemplate);
-
-      return {
-        success: true,
-        data: result,
-      };
+      // Publish the initial immutable version
+      return await this.versioning.publishIfChanged(
+        mapPrismaToTemplate(completeTemplate),
+        { changelog: 'Initial version', createdBy: template.createdBy }
+      );
     } catch (error: any) {
       return {
         success: false,
@@ -101,11 +97,13 @@ export class TemplateManager {
   }
 
   /**
-   * Update existing workflow template
+   * Update existing workflow template and publish a new version when the
+   * definition changed
    */
   async updateWorkflowTemplate(
     templateId: string,
-    updates: Partial<WorkflowTemplate>
+    updates: Partial<WorkflowTemplate>,
+    options: PublishOptions = {}
   ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
     try {
       // Get existing template
@@ -128,6 +126,12 @@ export class TemplateManager {
         };
       }
 
+      const conflict = await this.checkVersionConflict(
+        templateId,
+        options.version
+      );
+      if (conflict) return { success: false, error: conflict };
+
       // Merge updates with existing template
       const existingTemplate = mapPrismaToTemplate(existing);
       const mergedTemplate: WorkflowTemplate = {
@@ -137,63 +141,27 @@ export class TemplateManager {
       };
 
       // Validate merged template
-      const validation = WorkflowValidator.validateTemplate(mergedTemplate);
+      const validation = this.validateTemplate(mergedTemplate);
       if (!validation.success) {
         return {
           success: false,
           error: new WorkflowEngineError(
-            'VALIDATION_ERROR',
-            validation.errors.join(', ')
+            validation.errors.join(', '),
+            'VALIDATION_ERROR'
           ),
         };
       }
 
-      // Update template in database
+      // Update template in database; the version is set on publish
       const prismaData = templateToCreateData(mergedTemplate);
       await this.prisma.workflowTemplate.update({
         where: { id: templateId },
-        data: {
-          name: prismaData.name,
-          description: prismaData.description,
-          type: prismaData.type,
-          metadata: prismaData.metadata,
-          active: prismaData.active,
-        },
-        include: {
-          stepTemplates: {
-            orderBy: { order: 'asc' },
-          },
-        },
+        data: { ...prismaData, version: existing.version },
       });
 
       // Update step templates if provided
       if (updates.steps) {
-        // Delete existing step templates
-        await this.prisma.workflowStepTemplate.deleteMany({
-          where: { workflowId: templateId },
-        });
-
-        // Create new step templates
-        await Promise.all(
-          updates.steps.map((step, index) =>
-            this.prisma.workflowStepTemplate.create({
-              data: {
-                workflowId: templateId,
-                stepId: step.stepId,
-                name: step.name,
-                description: step.description,
-                type: step.type,
-                handler: step.handler,
-                handlerConfig: step.handlerConfig,
-                dependencies: step.dependencies as any,
-                timeout: step.timeout,
-                retries: step.retries || 0,
-                conditions: step.conditions as any,
-                order: index,
-              },
-            })
-          )
-        );
+        await this.replaceStepTemplates(templateId, updates.steps);
       }
 
       // Fetch updated template with steps
@@ -210,12 +178,10 @@ export class TemplateManager {
         throw new Error('Failed to retrieve updated template');
       }
 
-      const result = mapPrismaToTemplate(finalTemplate);
-
-      return {
-        success: true,
-        data: result,
-      };
+      return await this.versioning.publishIfChanged(
+        mapPrismaToTemplate(finalTemplate),
+        { ...options, version: options.version || updates.version }
+      );
     } catch (error: any) {
       return {
         success: false,
@@ -441,7 +407,7 @@ export class TemplateManager {
     Result<{ success: boolean; errors: string[] }, WorkflowEngineError>
   > {
     try {
-      const validation = WorkflowValidator.validateTemplate(template);
+      const validation = this.validateTemplate(template);
 
       return {
         success: true,
@@ -528,4 +494,63 @@ export class TemplateManager {
       };
     }
   }
+
+  /**
+   * Error when an explicitly requested version is already published
+   */
+  private async checkVersionConflict(
+    templateId: string,
+    version?: string
+  ): Promise<WorkflowEngineError | undefined> {
+    if (!version || !(await this.versioning.hasVersion(templateId, version))) {
+      return undefined;
+    }
+
+    return new WorkflowEngineError(
+      `Version ${version} of template ${templateId} already exists`,
+      'TEMPLATE_VERSION_EXISTS'
+    );
+  }
+
+  /**
+   * Replace the step templates of a workflow. Rows of removed steps that
+   * executions still reference are retired instead of deleted.
+   */
+  private async replaceStepTemplates(
+    workflowId: string,
+    steps: WorkflowStep[]
+  ): Promise<void> {
+    await Promise.all(
+      steps.map((step, index) => {
+        const data = stepToStepTemplateData(step, workflowId, index);
+        return this.prisma.workflowStepTemplate.upsert({
+          where: { workflowId_stepId: { workflowId, stepId: step.stepId } },
+          create: data,
+          update: { ...data, retiredAt: null },
+        });
+      })
+    );
+
+    const removed = {
+      workflowId,
+      stepId: { notIn: steps.map(step => step.stepId) },
+    };
+    await this.prisma.workflowStepTemplate.deleteMany({
+      where: { ...removed, executions: { none: {} } },
+    });
+    await this.prisma.workflowStepTemplate.updateMany({
+      where: { ...removed, retiredAt: null },
+      data: { retiredAt: new Date() },
+    });
+  }
+
+  /**
+   * Validate template, including handler references when a registry is set
+   */
+  private validateTemplate(template: WorkflowTemplate) {
+    return WorkflowValidator.validateTemplate(
+      template,
+      this.handlerRegistry?.listWithInfo()
+    );
+  }
 }
@@ -22,6 +22,7 @@ export enum StepStatus {
   SKIPPED = 'skipped',
   TIMEOUT = 'timeout',
   CANCELLED = 'cancelled',
+  INTERRUPTED = 'interrupted',
 }
 
 export enum EventType {
@@ -29,6 +30,9 @@ export enum EventType {
   STEP_STARTED = 'step_started',
   STEP_COMPLETED = 'step_completed',
   STEP_FAILED = 'step_failed',
+  STEP_INTERRUPTED = 'step_interrupted',
+  REPLAYED = 'replayed',
+  MIGRATED = 'migrated',
   PAUSED = 'paused',
   RESUMED = 'resumed',
   COMPLETED = 'completed',
@@ -77,6 +81,8 @@ export interface WorkflowTemplate {
 }
 
 export interface WorkflowStep {
+  /** WorkflowStepTemplate id once the template is persisted */
+  id?: string;
   stepId: string;
   name: string;
   description?: string;
@@ -94,11 +100,60 @@ export interface WorkflowStep {
   outputMapping?: Record<string, any>;
   onError?: 'continue' | 'halt' | 'retry' | 'skip';
   errorHandler?: string;
+  loop?: LoopStepConfig;
+  parallel?: ParallelStepConfig;
+  delay?: DelayStepConfig;
+  branch?: BranchStepConfig;
+}
+
+/**
+ * LOOP: run the step handler once per item of an array expression
+ */
+export interface LoopStepConfig {
+  /** Expression yielding the array to iterate, e.g. steps.ba.output.stories */
+  items: string;
+  itemVariable?: string;
+  indexVariable?: string;
+  /** Maximum items in flight at once (default 1) */
+  concurrency?: number;
+  /** Per-item input; use {{ item }} placeholders to reference the item */
+  inputMapping?: Record<string, any>;
+  continueOnItemError?: boolean;
+}
+
+/**
+ * PARALLEL: fan out nested child steps and join their results
+ */
+export interface ParallelStepConfig {
+  steps: WorkflowStep[];
+  join?: 'all' | 'any' | 'first-success';
+}
+
+/**
+ * DELAY: durable timer; the wake-up time is persisted so restarts resume it
+ */
+export interface DelayStepConfig {
+  /** Milliseconds to wait */
+  duration?: number;
+  /** Expression yielding a date or timestamp to wait until */
+  until?: string;
+}
+
+/**
+ * CONDITION: select a branch; steps of the branch not taken are skipped
+ */
+export interface BranchStepConfig {
+  expression: string;
+  then: string[];
+  else?: string[];
 }
 
 export interface WorkflowCondition {
-  field: string;
-  operator:
+  /** Boolean expression; when set, field/operator/value are ignored */
+  expression?: string;
+  /** Path expression, e.g. steps.requirements.output.stories[0].title */
+  field?: string;
+  operator?:
     | 'equals'
     | 'not_equals'
     | 'contains'
@@ -106,7 +161,7 @@ export interface WorkflowCondition {
     | 'less_than'
     | 'exists'
     | 'not_exists';
-  value: any;
+  value?: any;
   logicalOperator?: 'AND' | 'OR';
 }
 
@@ -120,6 +175,7 @@ export interface RetryPolicy {
 export interface WorkflowExecution {
   id?: string;
   workflowId: string;
+  templateVersionId?: string;
   projectId?: string;
   status: WorkflowStatus;
   currentStep: number;
@@ -140,6 +196,21 @@ export interface WorkflowExecution {
   priority: string;
   executor?: string;
   executorType?: string;
+  parentRunId?: string;
+  replay?: RunReplay;
+}
+
+/**
+ * Replay modes: re-run a single step, or resume the run from a step and
+ * re-run everything downstream of it
+ */
+export type ReplayMode = 'step' | 'from';
+
+export interface RunReplay {
+  mode: ReplayMode;
+  stepId: string;
+  /** Merged over the replayed step's resolved input */
+  input?: Record<string, any>;
 }
 
 export interface StepExecution {
@@ -10,6 +10,14 @@ import {
   WorkflowCondition,
   StepType,
 } from './types';
+import { HandlerInfo } from './registry';
+import {
+  collectExpressions,
+  getStepReferences,
+  isConditionOperator,
+  validateExpression,
+} from './expression';
+import { HANDLERLESS_STEP_TYPES } from './control-steps';
 
 /**
  * Workflow validation service
@@ -18,7 +26,10 @@ export class WorkflowValidator {
   /**
    * Validate complete workflow template
    */
-  static validateTemplate(template: WorkflowTemplate): ValidationResult {
+  static validateTemplate(
+    template: WorkflowTemplate,
+    handlers?: HandlerInfo[]
+  ): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
@@ -39,7 +50,7 @@ export class WorkflowValidator {
     if (!template.steps || template.steps.length === 0) {
       errors.push('Template must have at least one step');
     } else {
-      const stepValidation = this.validateSteps(template.steps);
+      const stepValidation = this.validateSteps(template.steps, handlers);
       errors.push(...stepValidation.errors);
       warnings.push(...stepValidation.warnings);
     }
@@ -92,7 +103,10 @@ export class WorkflowValidator {
   /**
    * Validate workflow steps
    */
-  static validateSteps(steps: WorkflowStep[]): ValidationResult {
+  static validateSteps(
+    steps: WorkflowStep[],
+    handlers?: HandlerInfo[]
+  ): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
     const stepIds = new Set<string>();
@@ -116,6 +130,16 @@ export class WorkflowValidator {
       errors.push(`Circular dependencies detected: ${circularDeps.join(', ')}`);
     }
 
+    const expressionValidation = this.validateExpressions(steps);
+    errors.push(...expressionValidation.errors);
+    warnings.push(...expressionValidation.warnings);
+
+    if (handlers) {
+      const handlerValidation = this.validateHandlerReferences(steps, handlers);
+      errors.push(...handlerValidation.errors);
+      warnings.push(...handlerValidation.warnings);
+    }
+
     return {
       success: errors.length === 0,
       errors,
@@ -160,6 +184,11 @@ export class WorkflowValidator {
     errors.push(...depsValidation.errors);
     warnings.push(...depsValidation.warnings);
 
+    // Control step configuration
+    const controlValidation = this.validateControlStep(step, allSteps);
+    errors.push(...controlValidation.errors);
+    warnings.push(...controlValidation.warnings);
+
     // Conditions validation
     if (step.conditions) {
       const conditionValidation = this.validateConditions(
@@ -202,8 +231,11 @@ export class WorkflowValidator {
       errors.push(`Step ${step.stepId}: name is required`);
     }
 
-    // Handler validation
-    if (!step.handler || step.handler.trim().length === 0) {
+    // Handler validation; parallel, delay and condition steps have none
+    if (
+      !HANDLERLESS_STEP_TYPES.includes(step.type) &&
+      (!step.handler || step.handler.trim().length === 0)
+    ) {
       errors.push(`Step ${step.stepId}: handler is required`);
     }
 
@@ -299,6 +331,98 @@ export class WorkflowValidator {
     };
   }
 
+  /**
+   * Validate LOOP, PARALLEL, DELAY and CONDITION step configuration
+   */
+  private static validateControlStep(
+    step: WorkflowStep,
+    allSteps: WorkflowStep[]
+  ): ValidationResult {
+    const validators: Partial<Record<StepType, () => string[]>> = {
+      [StepType.LOOP]: () =>
+        step.loop?.items
+          ? this.expressionErrors(`${step.stepId}.loop.items`, step.loop.items)
+          : [`Step ${step.stepId}: loop.items is required`],
+      [StepType.PARALLEL]: () => this.validateParallelStep(step),
+      [StepType.DELAY]: () => {
+        if (step.delay?.until) {
+          return this.expressionErrors(
+            `${step.stepId}.delay.until`,
+            step.delay.until
+          );
+        }
+        return typeof step.delay?.duration === 'number' &&
+          step.delay.duration >= 0
+          ? []
+          : [`Step ${step.stepId}: delay requires a duration or until`];
+      },
+      [StepType.CONDITION]: () =>
+        step.branch?.expression
+          ? [
+              ...this.expressionErrors(
+                `${step.stepId}.branch.expression`,
+                step.branch.expression
+              ),
+              ...[...step.branch.then, ...(step.branch.else || [])]
+                .filter(id => !allSteps.some(other => other.stepId === id))
+                .map(
+                  id => `Step ${step.stepId}: branch step '${id}' not found`
+                ),
+            ]
+          : [`Step ${step.stepId}: branch.expression is required`],
+    };
+
+    const errors = validators[step.type]?.() || [];
+    const warnings =
+      step.type === StepType.CONDITION && step.branch
+        ? [...step.branch.then, ...(step.branch.else || [])]
+            .filter(
+              id =>
+                allSteps.some(other => other.stepId === id) &&
+                !this.collectUpstreamSteps(id, allSteps).has(step.stepId)
+            )
+            .map(
+              id =>
+                `Step '${id}' is a branch of '${step.stepId}' but does not depend on it`
+            )
+        : [];
+
+    return { success: errors.length === 0, errors, warnings };
+  }
+
+  private static validateParallelStep(step: WorkflowStep): string[] {
+    const children = step.parallel?.steps || [];
+    if (children.length === 0) {
+      return [`Step ${step.stepId}: parallel.steps must not be empty`];
+    }
+
+    const join = step.parallel?.join;
+    const errors =
+      join && !['all', 'any', 'first-success'].includes(join)
+        ? [`Step ${step.stepId}: invalid parallel join '${join}'`]
+        : [];
+
+    const childValidation = this.validateSteps(
+      children.map((child, index) => ({
+        ...child,
+        order: child.order ?? index,
+      }))
+    );
+    return [
+      ...errors,
+      ...childValidation.errors.map(
+        error => `${step.stepId}.parallel: ${error}`
+      ),
+    ];
+  }
+
+  private static expressionErrors(path: string, source: string): string[] {
+    const expressionError = validateExpression(source);
+    return expressionError
+      ? [`${path}: invalid expression '${source}': ${expressionError}`]
+      : [];
+  }
+
   /**
    * Validate workflow conditions
    */
@@ -310,43 +434,17 @@ export class WorkflowValidator {
     const warnings: string[] = [];
 
     conditions.forEach((condition, index) => {
-      if (!condition.field || condition.field.trim().length === 0) {
-        errors.push(`${context} condition ${index + 1}: field is required`);
-      }
-
-      const validOperators = [
-        'equals',
-        'not_equals',
-        'contains',
-        'greater_than',
-        'less_than',
-        'exists',
-        'not_exists',
-      ];
-
-      if (!validOperators.includes(condition.operator)) {
-        errors.push(
-          `${context} condition ${index + 1}: invalid operator '${
-            condition.operator
-          }'`
-        );
-      }
-
-      if (
-        condition.value === undefined &&
-        !['exists', 'not_exists'].includes(condition.operator)
-      ) {
-        warnings.push(`${context} condition ${index + 1}: value is undefined`);
-      }
+      const label = `${context} condition ${index + 1}`;
+      const clauseValidation = this.validateConditionClause(condition, label);
+      errors.push(...clauseValidation.errors);
+      warnings.push(...clauseValidation.warnings);
 
       if (
         condition.logicalOperator &&
         !['AND', 'OR'].includes(condition.logicalOperator)
       ) {
         errors.push(
-          `${context} condition ${index + 1}: invalid logical operator '${
-            condition.logicalOperator
-          }'`
+          `${label}: invalid logical operator '${condition.logicalOperator}'`
         );
       }
     });
@@ -358,6 +456,139 @@ export class WorkflowValidator {
     };
   }
 
+  /**
+   * Validate a condition's expression or field/operator/value clause
+   */
+  private static validateConditionClause(
+    condition: WorkflowCondition,
+    label: string
+  ): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (condition.expression !== undefined) {
+      const expressionError = validateExpression(condition.expression);
+      if (expressionError) {
+        errors.push(`${label}: invalid expression: ${expressionError}`);
+      }
+      return { success: errors.length === 0, errors, warnings };
+    }
+
+    if (!condition.field || condition.field.trim().length === 0) {
+      errors.push(`${label}: field is required`);
+    } else {
+      const fieldError = validateExpression(condition.field);
+      if (fieldError) {
+        errors.push(`${label}: invalid field: ${fieldError}`);
+      }
+    }
+
+    if (!condition.operator || !isConditionOperator(condition.operator)) {
+      errors.push(`${label}: invalid operator '${condition.operator}'`);
+    }
+
+    if (
+      condition.value === undefined &&
+      !['exists', 'not_exists'].includes(condition.operator || '')
+    ) {
+      warnings.push(`${label}: value is undefined`);
+    }
+
+    return { success: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Validate mapping expressions and the step outputs they read; reading a
+   * step that is not upstream may see no output yet
+   */
+  static validateExpressions(steps: WorkflowStep[]): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const stepIds = new Set(steps.map(step => step.stepId));
+
+    for (const step of steps) {
+      const upstream = this.collectUpstreamSteps(step.stepId, steps);
+      const sources = [
+        ...collectExpressions(step.inputMapping).map(source => ({
+          source,
+          path: `${step.stepId}.inputMapping`,
+        })),
+        ...collectExpressions(step.loop?.inputMapping).map(source => ({
+          source,
+          path: `${step.stepId}.loop.inputMapping`,
+        })),
+        ...Object.values(step.outputMapping || {}).flatMap(value =>
+          (typeof value === 'string' ? [value] : collectExpressions(value)).map(
+            source => ({ source, path: `${step.stepId}.outputMapping` })
+          )
+        ),
+      ];
+
+      for (const { source, path } of sources) {
+        const expressionError = validateExpression(source);
+        if (expressionError) {
+          errors.push(
+            `${path}: invalid expression '${source}': ${expressionError}`
+          );
+        }
+      }
+
+      const conditionSources = [
+        ...(step.conditions || []).map(
+          condition => condition.expression ?? condition.field
+        ),
+        step.loop?.items,
+        step.delay?.until,
+        step.branch?.expression,
+      ].filter((source): source is string => !!source);
+
+      for (const source of [
+        ...sources.map(entry => entry.source),
+        ...conditionSources,
+      ]) {
+        if (validateExpression(source)) continue;
+
+        for (const referenced of getStepReferences(source)) {
+          if (referenced === step.stepId) continue;
+          if (!stepIds.has(referenced)) {
+            errors.push(
+              `Step '${step.stepId}' references unknown step '${referenced}'`
+            );
+          } else if (!upstream.has(referenced)) {
+            warnings.push(
+              `Step '${step.stepId}' reads output of '${referenced}' which is not one of its dependencies`
+            );
+          }
+        }
+      }
+    }
+
+    return { success: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * All transitive dependencies of a step
+   */
+  private static collectUpstreamSteps(
+    stepId: string,
+    steps: WorkflowStep[]
+  ): Set<string> {
+    const upstream = new Set<string>();
+    const pending = [stepId];
+
+    while (pending.length > 0) {
+      const current = steps.find(step => step.stepId === pending.pop());
+      for (const depId of current?.dependencies || []) {
+        if (!upstream.has(depId)) {
+          upstream.add(depId);
+          pending.push(depId);
+        }
+      }
+    }
+
+    return upstream;
+  }
+
   /**
    * Validate variables
    */
@@ -379,6 +610,15 @@ export class WorkflowValidator {
       if (typeof value === 'function') {
         errors.push(`Variable '${key}' cannot be a function`);
       }
+
+      for (const source of collectExpressions(value, 'template')) {
+        const expressionError = validateExpression(source);
+        if (expressionError) {
+          errors.push(
+            `Variable '${key}': invalid expression '${source}': ${expressionError}`
+          );
+        }
+      }
     });
 
     return {
@@ -605,6 +845,72 @@ export class WorkflowValidator {
     };
   }
 
+  /**
+   * Validate that steps reference registered handlers and that their
+   * handlerConfig matches the handler config/input schemas
+   */
+  static validateHandlerReferences(
+    steps: WorkflowStep[],
+    handlers: HandlerInfo[]
+  ): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const handlersByName = new Map(handlers.map(info => [info.name, info]));
+
+    for (const step of steps) {
+      if (HANDLERLESS_STEP_TYPES.includes(step.type)) continue;
+
+      const handler = handlersByName.get(step.handler);
+      if (!handler) {
+        errors.push(
+          `Step '${step.stepId}' references unknown handler '${step.handler}'`
+        );
+        continue;
+      }
+
+      const config = step.handlerConfig || {};
+      const configSchema = {
+        type: 'object',
+        properties: {
+          ...(handler.inputSchema?.properties || {}),
+          ...(handler.configSchema?.properties || {}),
+        },
+      };
+      const configValidation = this.validateValueAgainstSchema(
+        config,
+        configSchema,
+        `${step.stepId}.handlerConfig`
+      );
+      errors.push(...configValidation.errors);
+
+      // Required inputs may be supplied by handlerConfig or inputMapping;
+      // without a mapping they can still arrive with the run input
+      const provided = new Set([
+        ...Object.keys(config),
+        ...Object.keys(step.inputMapping || {}),
+      ]);
+      const missing = (handler.inputSchema?.required || []).filter(
+        (field: string) => !provided.has(field)
+      );
+      if (missing.length > 0) {
+        const message = `Step '${step.stepId}' does not provide required ${
+          handler.name
+        } input: ${missing.join(', ')}`;
+        if (step.inputMapping) {
+          errors.push(message);
+        } else {
+          warnings.push(message);
+        }
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
   /**
    * Quick validation for step execution
    */
@@ -0,0 +1,567 @@
+/**
+ * Workflow Template Versioning
+ * Immutable published template versions, run pinning and migration of
+ * in-flight runs between versions
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  WorkflowTemplate,
+  WorkflowEngineError,
+  StepStatus,
+  EventType,
+} from './types';
+import { Result } from '../../providers/ml-provider.interface';
+import { EventLevel } from './monitor';
+import { mapPrismaToTemplate } from './mappers';
+import {
+  TemplateDiff,
+  diffSteps,
+  diffTemplates,
+  hasDefinitionChanges,
+} from './template-diff';
+
+/**
+ * Run statuses that can be moved to another template version
+ */
+export const MIGRATABLE_RUN_STATUSES = ['pending', 'running', 'paused'];
+
+export interface TemplateVersionInfo {
+  id: string;
+  workflowId: string;
+  version: string;
+  changelog?: string;
+  createdBy?: string;
+  createdAt: Date;
+  stepCount: number;
+}
+
+export interface PinnedTemplate {
+  versionId: string;
+  template: WorkflowTemplate;
+}
+
+export interface PublishOptions {
+  /** Explicit version; defaults to a patch bump of the latest version */
+  version?: string;
+  changelog?: string;
+  createdBy?: string;
+}
+
+export interface MigrationCompatibility {
+  compatible: boolean;
+  errors: string[];
+  warnings: string[];
+  /** Steps of the target version the run has no execution record for */
+  addedSteps: string[];
+  /** Pending steps the target version no longer has */
+  removedSteps: string[];
+}
+
+export interface RunMigrationCheck extends MigrationCompatibility {
+  runId: string;
+  status: string;
+  fromVersion?: string;
+}
+
+export interface MigrationPlan {
+  target: TemplateVersionInfo;
+  runs: RunMigrationCheck[];
+}
+
+export interface MigrationReport {
+  templateId: string;
+  toVersion: string;
+  dryRun: boolean;
+  migrated: string[];
+  runs: RunMigrationCheck[];
+}
+
+/**
+ * Next free version: a patch bump for semantic versions, a ".1" suffix
+ * otherwise
+ */
+export function nextVersion(current: string, existing: string[]): string {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(current);
+  const candidate = match
+    ? `${match[1]}.${match[2]}.${Number(match[3]) + 1}`
+    : `${current}.1`;
+  return existing.includes(candidate)
+    ? nextVersion(candidate, existing)
+    : candidate;
+}
+
+/**
+ * The part of a template that is frozen into a published version
+ */
+export function templateDefinition(template: WorkflowTemplate) {
+  return {
+    name: template.name,
+    description: template.description,
+    version: template.version,
+    type: template.type,
+    category: template.category,
+    priority: template.priority,
+    steps: template.steps,
+    conditions: template.conditions,
+    variables: template.variables,
+    metadata: template.metadata,
+    timeout: template.timeout,
+    retryPolicy: template.retryPolicy,
+    inputSchema: template.inputSchema,
+    outputSchema: template.outputSchema,
+    tags: template.tags,
+  };
+}
+
+function versionToTemplate(record: any): WorkflowTemplate {
+  return {
+    ...(record.definition as WorkflowTemplate),
+    id: record.workflowId,
+    version: record.version,
+  };
+}
+
+function versionToInfo(record: any): TemplateVersionInfo {
+  return {
+    id: record.id,
+    workflowId: record.workflowId,
+    version: record.version,
+    changelog: record.changelog || undefined,
+    createdBy: record.createdBy || undefined,
+    createdAt: record.createdAt,
+    stepCount: (record.definition?.steps || []).length,
+  };
+}
+
+/**
+ * Check whether a run with the given step records can continue on the
+ * target version. Steps that already ran must still exist and must not
+ * depend on steps that have not run; changed definitions of steps that
+ * already ran only produce warnings.
+ */
+export function checkMigrationCompatibility(
+  records: { stepId: string; status: string }[],
+  from: WorkflowTemplate,
+  to: WorkflowTemplate,
+  stepTemplateIds: Map<string, string>
+): MigrationCompatibility {
+  const statuses = new Map(
+    records.map(record => [record.stepId, record.status])
+  );
+  const toSteps = new Map(to.steps.map(step => [step.stepId, step]));
+  const hasRun = (stepId: string) =>
+    statuses.has(stepId) && statuses.get(stepId) !== StepStatus.PENDING;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const [stepId, status] of statuses) {
+    if (status === StepStatus.PENDING) continue;
+
+    const target = toSteps.get(stepId);
+    if (!target) {
+      errors.push(
+        `Step ${stepId} is ${status} but version ${to.version} removes it`
+      );
+      continue;
+    }
+
+    const notRun = (target.dependencies || []).filter(dep => !hasRun(dep));
+    if (notRun.length > 0) {
+      errors.push(
+        `Step ${stepId} is ${status} but version ${
+          to.version
+        } makes it depend on steps that have not run: ${notRun.join(', ')}`
+      );
+    }
+
+    const previous = from.steps.find(step => step.stepId === stepId);
+    if (previous && diffSteps(previous, target).length > 0) {
+      warnings.push(
+        status === StepStatus.RUNNING
+          ? `Step ${stepId} is running and finishes with its version ${from.version} definition`
+          : `Step ${stepId} is ${status}; its version ${to.version} changes only apply to re-runs`
+      );
+    }
+  }
+
+  const addedSteps = to.steps
+    .map(step => step.stepId)
+    .filter(stepId => !statuses.has(stepId));
+  for (const stepId of addedSteps) {
+    if (!stepTemplateIds.has(stepId)) {
+      errors.push(
+        `Step ${stepId} of version ${to.version} was removed from the template later`
+      );
+    }
+  }
+
+  const removedSteps = records
+    .filter(
+      record =>
+        record.status === StepStatus.PENDING && !toSteps.has(record.stepId)
+    )
+    .map(record => record.stepId);
+
+  return {
+    compatible: errors.length === 0,
+    errors,
+    warnings,
+    addedSteps,
+    removedSteps,
+  };
+}
+
+/**
+ * Template versioning service
+ */
+export class TemplateVersioning {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Publish the template as a new immutable version unless its definition
+   * equals the latest version; returns the template with its version set
+   */
+  async publishIfChanged(
+    template: WorkflowTemplate,
+    options: PublishOptions = {}
+  ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
+    const workflowId = template.id || '';
+    const versions = await this.prisma.workflowTemplateVersion.findMany({
+      where: { workflowId },
+      orderBy: { createdAt: 'desc' },
+    });
+    const latest = versions[0];
+
+    if (
+      latest &&
+      !options.version &&
+      !hasDefinitionChanges(diffTemplates(versionToTemplate(latest), template))
+    ) {
+      return { success: true, data: { ...template, version: latest.version } };
+    }
+
+    const existing = versions.map(record => record.version);
+    const version =
+      options.version ||
+      (latest ? nextVersion(latest.version, existing) : template.version);
+    if (existing.includes(version)) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Version ${version} of template ${workflowId} already exists`,
+          'TEMPLATE_VERSION_EXISTS'
+        ),
+      };
+    }
+
+    const published = { ...template, version };
+    await this.prisma.workflowTemplateVersion.create({
+      data: {
+        workflowId,
+        version,
+        definition: templateDefinition(published) as any,
+        changelog: options.changelog,
+        createdBy: options.createdBy,
+      },
+    });
+    if (template.version !== version) {
+      await this.prisma.workflowTemplate.update({
+        where: { id: workflowId },
+        data: { version },
+      });
+    }
+
+    return { success: true, data: published };
+  }
+
+  async hasVersion(workflowId: string, version: string): Promise<boolean> {
+    const record = await this.prisma.workflowTemplateVersion.findUnique({
+      where: { workflowId_version: { workflowId, version } },
+    });
+    return Boolean(record);
+  }
+
+  /**
+   * Latest published version new runs are pinned to; templates created
+   * before versioning get their current definition published first
+   */
+  async getLatestVersion(
+    workflowId: string
+  ): Promise<Result<PinnedTemplate, WorkflowEngineError>> {
+    let latest = await this.prisma.workflowTemplateVersion.findFirst({
+      where: { workflowId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!latest) {
+      const head = await this.prisma.workflowTemplate.findUnique({
+        where: { id: workflowId },
+        include: { stepTemplates: { orderBy: { order: 'asc' } } },
+      });
+      if (!head) {
+        return {
+          success: false,
+          error: new WorkflowEngineError(
+            `Template not found: ${workflowId}`,
+            'TEMPLATE_NOT_FOUND'
+          ),
+        };
+      }
+
+      const template = mapPrismaToTemplate(head);
+      latest = await this.prisma.workflowTemplateVersion.create({
+        data: {
+          workflowId,
+          version: template.version,
+          definition: templateDefinition(template) as any,
+          changelog: 'Initial version',
+        },
+      });
+    }
+
+    return {
+      success: true,
+      data: { versionId: latest.id, template: versionToTemplate(latest) },
+    };
+  }
+
+  /**
+   * Template definition a pinned run executes
+   */
+  async getVersionTemplate(
+    versionId: string
+  ): Promise<Result<WorkflowTemplate, WorkflowEngineError>> {
+    const record = await this.prisma.workflowTemplateVersion.findUnique({
+      where: { id: versionId },
+    });
+    if (!record) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Template version not found: ${versionId}`,
+          'TEMPLATE_VERSION_NOT_FOUND'
+        ),
+      };
+    }
+
+    return { success: true, data: versionToTemplate(record) };
+  }
+
+  async listVersions(
+    workflowId: string
+  ): Promise<Result<TemplateVersionInfo[], WorkflowEngineError>> {
+    const records = await this.prisma.workflowTemplateVersion.findMany({
+      where: { workflowId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return { success: true, data: records.map(versionToInfo) };
+  }
+
+  async getVersion(
+    workflowId: string,
+    version: string
+  ): Promise<
+    Result<
+      { info: TemplateVersionInfo; template: WorkflowTemplate },
+      WorkflowEngineError
+    >
+  > {
+    const record = await this.prisma.workflowTemplateVersion.findUnique({
+      where: { workflowId_version: { workflowId, version } },
+    });
+    if (!record) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Version ${version} of template ${workflowId} not found`,
+          'TEMPLATE_VERSION_NOT_FOUND'
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        info: versionToInfo(record),
+        template: versionToTemplate(record),
+      },
+    };
+  }
+
+  /**
+   * Structural diff between two published versions
+   */
+  async diffVersions(
+    workflowId: string,
+    fromVersion: string,
+    toVersion: string
+  ): Promise<Result<TemplateDiff, WorkflowEngineError>> {
+    const from = await this.getVersion(workflowId, fromVersion);
+    if (!from.success) return from;
+    const to = await this.getVersion(workflowId, toVersion);
+    if (!to.success) return to;
+
+    return {
+      success: true,
+      data: diffTemplates(from.data.template, to.data.template),
+    };
+  }
+
+  /**
+   * Compatibility of unfinished runs (optionally limited to runIds) with
+   * the target version; runs already on it are left out
+   */
+  async planMigration(
+    workflowId: string,
+    version: string,
+    runIds?: string[]
+  ): Promise<Result<MigrationPlan, WorkflowEngineError>> {
+    const target = await this.getVersion(workflowId, version);
+    if (!target.success) return target;
+
+    const runs = await this.prisma.workflowRun.findMany({
+      where: {
+        workflowId,
+        status: { in: MIGRATABLE_RUN_STATUSES },
+        ...(runIds && { id: { in: runIds } }),
+      },
+      include: { steps: true, templateVersion: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    const stepTemplateIds = await this.getStepTemplateIds(workflowId);
+
+    const checks = runs
+      .filter(run => run.templateVersionId !== target.data.info.id)
+      .map(run => {
+        const from = run.templateVersion
+          ? versionToTemplate(run.templateVersion)
+          : target.data.template;
+        return {
+          runId: run.id,
+          status: run.status,
+          fromVersion: run.templateVersion?.version,
+          ...checkMigrationCompatibility(
+            run.steps,
+            from,
+            target.data.template,
+            stepTemplateIds
+          ),
+        };
+      });
+
+    return { success: true, data: { target: target.data.info, runs: checks } };
+  }
+
+  /**
+   * Re-pin a single run to the target version if it is compatible: create
+   * records for added steps and skip pending steps the version removed
+   */
+  async migrateRun(
+    runId: string,
+    workflowId: string,
+    version: string
+  ): Promise<Result<RunMigrationCheck, WorkflowEngineError>> {
+    const plan = await this.planMigration(workflowId, version, [runId]);
+    if (!plan.success) return plan;
+
+    const check = plan.data.runs[0];
+    if (!check) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Execution ${runId} is finished or already on version ${version}`,
+          'RUN_NOT_MIGRATABLE'
+        ),
+      };
+    }
+    if (!check.compatible) return { success: true, data: check };
+
+    const target = await this.getVersion(workflowId, version);
+    if (!target.success) return target;
+    await this.applyMigration(check, target.data, workflowId);
+
+    return { success: true, data: check };
+  }
+
+  private async applyMigration(
+    check: RunMigrationCheck,
+    target: { info: TemplateVersionInfo; template: WorkflowTemplate },
+    workflowId: string
+  ): Promise<void> {
+    const { runId } = check;
+    const stepTemplateIds = await this.getStepTemplateIds(workflowId);
+    const added = target.template.steps.filter(step =>
+      check.addedSteps.includes(step.stepId)
+    );
+
+    if (added.length > 0) {
+      await this.prisma.workflowStepExecution.createMany({
+        data: added.map(step => ({
+          workflowRunId: runId,
+          stepTemplateId: stepTemplateIds.get(step.stepId) || '',
+          stepId: step.stepId,
+          status: StepStatus.PENDING,
+          maxAttempts: (step.retries || 0) + 1,
+          timeout: step.timeout,
+          input: {},
+        })),
+      });
+    }
+
+    if (check.removedSteps.length > 0) {
+      await this.prisma.workflowStepExecution.updateMany({
+        where: { workflowRunId: runId, stepId: { in: check.removedSteps } },
+        data: {
+          status: StepStatus.SKIPPED,
+          endTime: new Date(),
+          error: `Removed in template version ${target.info.version}`,
+        },
+      });
+    }
+
+    await this.prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        templateVersionId: target.info.id,
+        totalSteps: target.template.steps.length,
+      },
+    });
+
+    await this.prisma.workflowExecutionEvent.create({
+      data: {
+        workflowRunId: runId,
+        type: EventType.MIGRATED,
+        level: EventLevel.INFO,
+        message: `Run migrated from version ${
+          check.fromVersion || 'unversioned'
+        } to ${target.info.version}`,
+        details: {
+          fromVersion: check.fromVersion,
+          toVersion: target.info.version,
+          addedSteps: check.addedSteps,
+          removedSteps: check.removedSteps,
+          warnings: check.warnings,
+        },
+        source: 'user',
+      },
+    });
+  }
+
+  /**
+   * WorkflowStepTemplate row ids by stepId; step executions reference them
+   */
+  private async getStepTemplateIds(
+    workflowId: string
+  ): Promise<Map<string, string>> {
+    const rows = await this.prisma.workflowStepTemplate.findMany({
+      where: { workflowId },
+      select: { id: true, stepId: true },
+    });
+    return new Map(rows.map(row => [row.stepId, row.id]));
+  }
+}
@@ -0,0 +1,756 @@
+/**
+ * Workflow DAG Executor
+ * Walks the template step graph, runs independent branches concurrently
+ * and persists every step and run transition
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  WorkflowTemplate,
+  WorkflowStep,
+  WorkflowExecution,
+  WorkflowStatus,
+  StepStatus,
+  StepType,
+  EventType,
+  WorkflowEngineError,
+} from './types';
+import { WorkflowStepExecutor, StepExecutionResult } from './step-executor';
+import { collectDownstreamSteps } from './replay';
+import { WorkflowMonitor, ExecutionStatus, EventLevel } from './monitor';
+import { Result } from '../../providers/ml-provider.interface';
+import {
+  createExpressionScope,
+  evaluateExpression,
+  resolveMappingValue,
+} from './expression';
+
+export type RunStopReason = 'paused' | 'cancelled';
+
+export interface DagExecutionOptions {
+  maxConcurrentSteps?: number;
+  defaultStepTimeout?: number;
+  /** Polled before scheduling new steps; a value stops the run */
+  getStopReason?: () => RunStopReason | undefined;
+}
+
+export interface WorkflowRunSummary {
+  runId: string;
+  status: WorkflowStatus;
+  output: Record<string, any>;
+  completedSteps: number;
+  failedSteps: number;
+  skippedSteps: number;
+  totalSteps: number;
+  duration: number;
+  error?: string;
+}
+
+interface DagState {
+  statuses: Map<string, StepStatus>;
+  outputs: Record<string, any>;
+  variables: Record<string, any>;
+  haltError?: WorkflowEngineError;
+}
+
+const TERMINAL_STEP_STATUSES = new Set<StepStatus>([
+  StepStatus.COMPLETED,
+  StepStatus.FAILED,
+  StepStatus.SKIPPED,
+  StepStatus.TIMEOUT,
+  StepStatus.CANCELLED,
+]);
+
+/**
+ * Workflow DAG Executor
+ * Dispatches ready steps through WorkflowStepExecutor honoring onError
+ */
+export class WorkflowExecutor {
+  private prisma: PrismaClient;
+  private stepExecutor: WorkflowStepExecutor;
+  private monitor: WorkflowMonitor;
+
+  constructor(
+    prisma: PrismaClient,
+    stepExecutor: WorkflowStepExecutor,
+    monitor: WorkflowMonitor
+  ) {
+    this.prisma = prisma;
+    this.stepExecutor = stepExecutor;
+    this.monitor = monitor;
+  }
+
+  /**
+   * Execute workflow run until every step reached a terminal state,
+   * the run halted on error or a stop was requested
+   */
+  async execute(
+    template: WorkflowTemplate,
+    execution: WorkflowExecution,
+    options: DagExecutionOptions = {}
+  ): Promise<WorkflowRunSummary> {
+    const runId = execution.id || '';
+    const steps = [...(template.steps || [])].sort((a, b) => a.order - b.order);
+    const startTime = execution.startTime || new Date();
+    const state = await this.loadState(runId, steps, execution);
+    const maxConcurrent = options.maxConcurrentSteps || 10;
+    const running = new Map<string, Promise<void>>();
+
+    await this.markRunStarted(runId, startTime, execution.status);
+
+    let stopReason: RunStopReason | undefined;
+    for (;;) {
+      stopReason = options.getStopReason?.();
+      if (!state.haltError && !stopReason) {
+        for (const step of this.findReadySteps(steps, state, running)) {
+          if (running.size >= maxConcurrent) break;
+          state.statuses.set(step.stepId, StepStatus.RUNNING);
+          const promise = this.runStep(
+            template,
+            execution,
+            step,
+            state,
+            options
+          )
+            .catch(error => this.haltOnUnexpectedError(step, state, error))
+            .finally(() => running.delete(step.stepId));
+          running.set(step.stepId, promise);
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    return this.finalizeRun(runId, steps, state, startTime, stopReason);
+  }
+
+  /**
+   * Restore step state from persisted step executions so that already
+   * finished steps are not executed again on resume
+   */
+  private async loadState(
+    runId: string,
+    steps: WorkflowStep[],
+    execution: WorkflowExecution
+  ): Promise<DagState> {
+    const state: DagState = {
+      statuses: new Map(),
+      outputs: {},
+      variables: { ...(execution.variables || {}) },
+    };
+
+    const records = await this.prisma.workflowStepExecution.findMany({
+      where: { workflowRunId: runId },
+    });
+    const recordsByStep = new Map<string, any>(
+      records.map((record: any) => [record.stepId, record])
+    );
+
+    for (const step of steps) {
+      const record = recordsByStep.get(step.stepId);
+      const status = record?.status as StepStatus | undefined;
+
+      if (status && TERMINAL_STEP_STATUSES.has(status)) {
+        state.statuses.set(step.stepId, status);
+        if (status === StepStatus.COMPLETED) {
+          state.outputs[step.stepId] = record.output ?? null;
+        }
+      } else {
+        state.statuses.set(step.stepId, StepStatus.PENDING);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Steps whose dependencies are all settled and satisfied
+   */
+  private findReadySteps(
+    steps: WorkflowStep[],
+    state: DagState,
+    running: Map<string, Promise<void>>
+  ): WorkflowStep[] {
+    return steps.filter(step => {
+      if (state.statuses.get(step.stepId) !== StepStatus.PENDING) return false;
+      if (running.has(step.stepId)) return false;
+
+      return (step.dependencies || []).every(depId =>
+        this.isDependencySatisfied(depId, steps, state)
+      );
+    });
+  }
+
+  /**
+   * A dependency is satisfied once it completed, was skipped, or failed
+   * with onError 'continue'
+   */
+  private isDependencySatisfied(
+    depId: string,
+    steps: WorkflowStep[],
+    state: DagState
+  ): boolean {
+    const status = state.statuses.get(depId);
+    if (status === StepStatus.COMPLETED || status === StepStatus.SKIPPED) {
+      return true;
+    }
+
+    const depStep = steps.find(s => s.stepId === depId);
+    return (
+      (status === StepStatus.FAILED || status === StepStatus.TIMEOUT) &&
+      depStep?.onError === 'continue'
+    );
+  }
+
+  /**
+   * Run single step and apply its onError policy
+   */
+  private async runStep(
+    template: WorkflowTemplate,
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    state: DagState,
+    options: DagExecutionOptions
+  ): Promise<void> {
+    const runId = execution.id || '';
+    const retryPolicy = template.retryPolicy;
+    const baseAttempts = (step.retries || 0) + 1;
+    const maxAttempts =
+      step.onError === 'retry'
+        ? Math.max(baseAttempts, retryPolicy?.maxAttempts || 3)
+        : baseAttempts;
+
+    await this.recordEvent(
+      runId,
+      EventType.STEP_STARTED,
+      `Step ${step.stepId} started`,
+      { name: step.name, handler: step.handler },
+      step.stepId
+    );
+    await this.updateRunProgress(runId, state, step.stepId);
+
+    const input = this.resolveStepInput(step, execution, state);
+    if (!input.success) {
+      await this.applyStepResult(runId, template, step, state, input);
+      await this.updateRunProgress(runId, state);
+      return;
+    }
+
+    const replay = execution.replay;
+    const stepInput =
+      replay?.input && replay.stepId === step.stepId
+        ? { ...input.data, ...replay.input }
+        : input.data;
+
+    const result = await this.stepExecutor.executeStep(
+      step,
+      {
+        stepId: step.stepId,
+        workflowRunId: runId,
+        input: stepInput,
+        variables: state.variables,
+        metadata: {
+          workflowId: execution.workflowId,
+          projectId: execution.projectId,
+          context: execution.context || {},
+          steps: state.outputs,
+        },
+        attempt: 1,
+        maxAttempts,
+      },
+      {
+        timeout: step.timeout || options.defaultStepTimeout,
+        retryDelay: step.retryDelay || retryPolicy?.delay,
+        backoffMultiplier:
+          step.onError === 'retry' ? retryPolicy?.backoffMultiplier : undefined,
+        maxRetryDelay: retryPolicy?.maxDelay,
+        skipDependencyCheck: true,
+        mapOutput: output => this.resolveStepOutput(step, output, state),
+        getStopReason: options.getStopReason,
+      }
+    );
+
+    await this.applyStepResult(runId, template, step, state, result);
+    await this.updateRunProgress(runId, state);
+  }
+
+  /**
+   * Translate step executor result into DAG state transitions
+   */
+  private async applyStepResult(
+    runId: string,
+    template: WorkflowTemplate,
+    step: WorkflowStep,
+    state: DagState,
+    result: Result<StepExecutionResult, WorkflowEngineError>
+  ): Promise<void> {
+    if (result.success && result.data.success) {
+      state.statuses.set(step.stepId, StepStatus.COMPLETED);
+      state.outputs[step.stepId] = result.data.output ?? null;
+      Object.assign(state.variables, result.data.updatedVariables || {});
+      this.monitor.recordStepCompletion(
+        runId,
+        step.stepId,
+        true,
+        result.data.duration
+      );
+      await this.recordEvent(
+        runId,
+        EventType.STEP_COMPLETED,
+        `Step ${step.stepId} completed`,
+        { duration: result.data.duration },
+        step.stepId
+      );
+      if (step.type === StepType.CONDITION) {
+        await this.skipUnselectedBranch(
+          runId,
+          step,
+          template.steps || [],
+          state,
+          result.data.output
+        );
+      }
+      return;
+    }
+
+    if (!result.success && result.error.code === 'STEP_INTERRUPTED') {
+      // Runs again when the paused run resumes, or is cancelled with the run
+      state.statuses.set(step.stepId, StepStatus.PENDING);
+      return;
+    }
+
+    if (!result.success && result.error.code === 'STEP_SKIPPED') {
+      await this.markStepSkipped(
+        runId,
+        step.stepId,
+        state,
+        result.error.message
+      );
+      return;
+    }
+
+    await this.applyStepFailure(runId, step, state, result);
+  }
+
+  /**
+   * Record a failed or timed out step and apply its onError policy
+   */
+  private async applyStepFailure(
+    runId: string,
+    step: WorkflowStep,
+    state: DagState,
+    result: Result<StepExecutionResult, WorkflowEngineError>
+  ): Promise<void> {
+    const message = result.success
+      ? result.data.error || 'Step execution failed'
+      : result.error.message;
+    const timedOut = result.success
+      ? result.data.timedOut
+      : result.error.code === 'STEP_TIMEOUT';
+    this.monitor.recordStepCompletion(runId, step.stepId, false, 0);
+
+    if (step.onError === 'skip') {
+      await this.markStepSkipped(runId, step.stepId, state, message);
+      return;
+    }
+
+    state.statuses.set(
+      step.stepId,
+      timedOut ? StepStatus.TIMEOUT : StepStatus.FAILED
+    );
+    await this.recordEvent(
+      runId,
+      EventType.STEP_FAILED,
+      `Step ${step.stepId} ${timedOut ? 'timed out' : 'failed'}: ${message}`,
+      { onError: step.onError || 'halt', timedOut: Boolean(timedOut) },
+      step.stepId
+    );
+
+    if (step.onError !== 'continue') {
+      state.haltError = new WorkflowEngineError(
+        message,
+        timedOut ? 'STEP_TIMEOUT' : 'STEP_EXECUTION_FAILED',
+        step.stepId
+      );
+    }
+  }
+
+  /**
+   * Skip pending steps of the branch a condition step did not take and
+   * everything downstream of them, except steps that also follow the taken
+   * branch such as joins
+   */
+  private async skipUnselectedBranch(
+    runId: string,
+    step: WorkflowStep,
+    steps: WorkflowStep[],
+    state: DagState,
+    output: any
+  ): Promise<void> {
+    const withDownstream = (stepIds: string[]) =>
+      new Set(
+        stepIds.flatMap(stepId => [
+          stepId,
+          ...collectDownstreamSteps(stepId, steps),
+        ])
+      );
+    const selected = withDownstream(output?.selected || []);
+    const skipped = withDownstream(output?.skipped || []);
+
+    for (const { stepId } of steps) {
+      if (
+        skipped.has(stepId) &&
+        !selected.has(stepId) &&
+        state.statuses.get(stepId) === StepStatus.PENDING
+      ) {
+        await this.markStepSkipped(
+          runId,
+          stepId,
+          state,
+          `branch not taken by condition step ${step.stepId}`
+        );
+      }
+    }
+  }
+
+  private async markStepSkipped(
+    runId: string,
+    stepId: string,
+    state: DagState,
+    reason: string
+  ): Promise<void> {
+    state.statuses.set(stepId, StepStatus.SKIPPED);
+    await this.updateStepRecord(runId, stepId, {
+      status: StepStatus.SKIPPED,
+      endTime: new Date(),
+      error: reason,
+    });
+    await this.recordEvent(
+      runId,
+      EventType.STEP_COMPLETED,
+      `Step ${stepId} skipped: ${reason}`,
+      { skipped: true },
+      stepId
+    );
+  }
+
+  private haltOnUnexpectedError(
+    step: WorkflowStep,
+    state: DagState,
+    error: unknown
+  ): void {
+    state.statuses.set(step.stepId, StepStatus.FAILED);
+    state.haltError = new WorkflowEngineError(
+      `Unexpected error in step ${step.stepId}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      'STEP_EXECUTION_ERROR',
+      step.stepId
+    );
+  }
+
+  /**
+   * Build step input from inputMapping, defaulting to the run input
+   */
+  private resolveStepInput(
+    step: WorkflowStep,
+    execution: WorkflowExecution,
+    state: DagState
+  ): Result<any, WorkflowEngineError> {
+    if (!step.inputMapping || Object.keys(step.inputMapping).length === 0) {
+      return { success: true, data: execution.input || {} };
+    }
+
+    const scope = createExpressionScope({
+      input: execution.input,
+      variables: state.variables,
+      outputs: state.outputs,
+      context: execution.context,
+    });
+
+    try {
+      return {
+        success: true,
+        data: resolveMappingValue(step.inputMapping, scope),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: new WorkflowEngineError(
+          `Input mapping failed: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+          'INPUT_MAPPING_ERROR',
+          step.stepId
+        ),
+      };
+    }
+  }
+
+  /**
+   * Map step output into workflow variables using outputMapping; string
+   * values are expressions over output plus the run scope
+   */
+  private resolveStepOutput(
+    step: WorkflowStep,
+    output: any,
+    state: DagState
+  ): Record<string, any> {
+    if (!step.outputMapping) return {};
+
+    const scope = {
+      ...createExpressionScope({
+        variables: state.variables,
+        outputs: state.outputs,
+      }),
+      output,
+    };
+
+    const variables: Record<string, any> = {};
+    for (const [variable, source] of Object.entries(step.outputMapping)) {
+      variables[variable] =
+        typeof source === 'string'
+          ? evaluateExpression(source, scope)
+          : resolveMappingValue(source, scope);
+    }
+    return variables;
+  }
+
+  /**
+   * Persist final run state and cancel steps that will never run. Steps
+   * left pending without a halt or stop had dependencies that can never be
+   * satisfied, which fails the run
+   */
+  private async finalizeRun(
+    runId: string,
+    steps: WorkflowStep[],
+    state: DagState,
+    startTime: Date,
+    stopReason?: RunStopReason
+  ): Promise<WorkflowRunSummary> {
+    const endTime = new Date();
+    const duration = endTime.getTime() - startTime.getTime();
+    const counts = this.countStatuses(state);
+    const output = { steps: state.outputs, variables: state.variables };
+    const summary: WorkflowRunSummary = {
+      runId,
+      status: WorkflowStatus.COMPLETED,
+      output,
+      ...counts,
+      totalSteps: steps.length,
+      duration,
+    };
+
+    if (stopReason === 'paused') {
+      summary.status = WorkflowStatus.PAUSED;
+      await this.updateRunProgress(runId, state);
+      return summary;
+    }
+
+    if (!stopReason)
+      state.haltError ??= this.findUnsatisfiedSteps(steps, state);
+    await this.cancelPendingSteps(runId, steps, state);
+
+    if (stopReason === 'cancelled') {
+      summary.status = WorkflowStatus.CANCELLED;
+      return summary;
+    }
+
+    summary.status = state.haltError
+      ? WorkflowStatus.FAILED
+      : WorkflowStatus.COMPLETED;
+    summary.error = state.haltError?.message;
+    Object.assign(summary, this.countStatuses(state));
+
+    await this.prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        status: summary.status,
+        output: output as any,
+        variables: state.variables as any,
+        completedSteps: summary.completedSteps,
+        failedSteps: summary.failedSteps,
+        skippedSteps: summary.skippedSteps,
+        endTime,
+        actualDuration: duration,
+        error: summary.error ?? null,
+        errorCode: state.haltError?.code ?? null,
+        errorDetails: state.haltError
+          ? ({
+              stepId: state.haltError.stepId,
+              ...state.haltError.details,
+            } as any)
+          : undefined,
+        updatedAt: endTime,
+      },
+    });
+
+    this.monitor.updateExecution(
+      runId,
+      state.haltError ? ExecutionStatus.FAILED : ExecutionStatus.COMPLETED,
+      { duration }
+    );
+    await this.recordEvent(
+      runId,
+      state.haltError ? EventType.FAILED : EventType.COMPLETED,
+      state.haltError
+        ? `Workflow failed: ${state.haltError.message}`
+        : 'Workflow completed',
+      counts
+    );
+
+    return summary;
+  }
+
+  /**
+   * Error for steps still pending once nothing is ready or running
+   */
+  private findUnsatisfiedSteps(
+    steps: WorkflowStep[],
+    state: DagState
+  ): WorkflowEngineError | undefined {
+    const stepIds = steps
+      .filter(step => state.statuses.get(step.stepId) === StepStatus.PENDING)
+      .map(step => step.stepId);
+    if (stepIds.length === 0) return undefined;
+
+    return new WorkflowEngineError(
+      `Steps with unsatisfied dependencies never ran: ${stepIds.join(', ')}`,
+      'DEPENDENCY_UNSATISFIED',
+      stepIds[0],
+      { stepIds }
+    );
+  }
+
+  private async cancelPendingSteps(
+    runId: string,
+    steps: WorkflowStep[],
+    state: DagState
+  ): Promise<void> {
+    for (const step of steps) {
+      if (state.statuses.get(step.stepId) !== StepStatus.PENDING) continue;
+      state.statuses.set(step.stepId, StepStatus.CANCELLED);
+      await this.updateStepRecord(runId, step.stepId, {
+        status: StepStatus.CANCELLED,
+        error: this.notExecutedReason(state),
+      });
+    }
+  }
+
+  private notExecutedReason(state: DagState): string {
+    if (state.haltError?.code === 'DEPENDENCY_UNSATISFIED') {
+      return 'Not executed: dependencies not satisfied';
+    }
+    return state.haltError
+      ? `Not executed: workflow halted at step ${state.haltError.stepId}`
+      : 'Not executed: workflow cancelled';
+  }
+
+  private countStatuses(state: DagState) {
+    const statuses = Array.from(state.statuses.values());
+    return {
+      completedSteps: statuses.filter(s => s === StepStatus.COMPLETED).length,
+      failedSteps: statuses.filter(
+        s => s === StepStatus.FAILED || s === StepStatus.TIMEOUT
+      ).length,
+      skippedSteps: statuses.filter(s => s === StepStatus.SKIPPED).length,
+    };
+  }
+
+  private async markRunStarted(
+    runId: string,
+    startTime: Date,
+    previousStatus: WorkflowStatus
+  ): Promise<void> {
+    await this.prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        status: WorkflowStatus.RUNNING,
+        startTime,
+        updatedAt: new Date(),
+      },
+    });
+
+    await this.recordEvent(
+      runId,
+      previousStatus === WorkflowStatus.PENDING
+        ? EventType.STARTED
+        : EventType.RESUMED,
+      previousStatus === WorkflowStatus.PENDING
+        ? 'Workflow execution started'
+        : 'Workflow execution resumed'
+    );
+  }
+
+  private async updateRunProgress(
+    runId: string,
+    state: DagState,
+    currentStepId?: string
+  ): Promise<void> {
+    await this.prisma.workflowRun.update({
+      where: { id: runId },
+      data: {
+        ...this.countStatuses(state),
+        ...(currentStepId && { currentStepId }),
+        variables: state.variables as any,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  private async updateStepRecord(
+    runId: string,
+    stepId: string,
+    data: Record<string, any>
+  ): Promise<void> {
+    await this.prisma.workflowStepExecution.updateMany({
+      where: { workflowRunId: runId, stepId },
+      data: { ...data, updatedAt: new Date() },
+    });
+  }
+
+  /**
+   * Record event in monitor and persist it; persistence failures are
+   * logged but never break the run
+   */
+  private async recordEvent(
+    runId: string,
+    type: EventType,
+    message: string,
+    details?: Record<string, any>,
+    stepId?: string
+  ): Promise<void> {
+    this.monitor.recordEvent(runId, type, message, { ...details, stepId });
+
+    try {
+      await this.prisma.workflowExecutionEvent.create({
+        data: {
+          workflowRunId: runId,
+          type,
+          level: this.getEventLevel(type),
+          message,
+          details: (details || {}) as any,
+          stepId,
+          source: 'system',
+        },
+      });
+    } catch (error) {
+      console.error('Failed to persist workflow event:', error);
+    }
+  }
+
+  private getEventLevel(type: EventType): EventLevel {
+    switch (type) {
+      case EventType.FAILED:
+      case EventType.STEP_FAILED:
+        return EventLevel.ERROR;
+      case EventType.PAUSED:
+      case EventType.CANCELLED:
+      case EventType.STEP_INTERRUPTED:
+        return EventLevel.WARN;
+      default:
+        return EventLevel.INFO;
+    }
+  }
+}
@@ -12,6 +12,7 @@ export interface AIProvider {
   // Core methods
   initialize(config: ProviderConfig): Promise<Result<boolean, ServiceError>>;
   chat(request: ChatRequest): Promise<Result<ChatResponse, ServiceError>>;
+  chatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent>;
   checkHealth(): Promise<Result<HealthStatus, ServiceError>>;
   getAvailableModels(): Promise<Result<ModelInfo[], ServiceError>>;
 }
@@ -22,6 +23,7 @@ export type ProviderType =
   | 'anthropic-claude'
   | 'deepseek'
   | 'openai'
+  | 'local'
   | 'custom';
 
 export interface ModelInfo {
@@ -86,18 +88,55 @@ export interface ChatRequest {
   stream?: boolean;
   systemPrompt?: string;
   context?: ChatContext;
+  /** Tools the model may call; results are sent back as tool messages */
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none' | 'required';
+  /** Ask for JSON output; providers with a native JSON mode enforce it */
+  responseFormat?: ResponseFormat;
+  /** false bypasses the response cache for this request */
+  cache?: boolean;
+}
+
+/**
+ * JSON output request; schema is a JSON Schema object that providers
+ * supporting structured outputs pass on, the others only get JSON mode
+ */
+export interface ResponseFormat {
+  type: 'json';
+  name?: string;
+  schema?: Record<string, any>;
 }
 
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  /** Calls requested by the model (assistant messages) */
+  toolCalls?: ToolCall[];
+  /** Call this message answers (tool messages) */
+  toolCallId?: string;
   metadata?: Record<string, any>;
 }
 
+/**
+ * Provider-neutral tool definition; inputSchema is a JSON Schema object
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
 export interface ChatContext {
   agentType: string;
   taskType: string;
   projectId?: string;
+  workflowRunId?: string;
   conversationId?: string;
   previousMessages?: ChatMessage[];
 }
@@ -106,6 +145,8 @@ export interface ChatResponse {
   content: string;
   model: string;
   provider: string;
+  /** Set when the model stopped to call tools */
+  toolCalls?: ToolCall[];
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -115,6 +156,15 @@ export interface ChatResponse {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Events yielded by AIProvider.chatStream: token deltas as they arrive,
+ * then exactly one terminal done (with the assembled response) or error
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'error'; error: ServiceError };
+
 export interface HealthStatus {
   status: 'healthy' | 'unhealthy' | 'degraded';
   provider: string;
@@ -136,6 +186,8 @@ export interface ServiceError {
   provider?: string;
   model?: string;
   details?: any;
+  /** Delay the provider asked for before retrying (429 Retry-After) */
+  retryAfterMs?: number;
 }
 
 export type Result<T, E = ServiceError> =
@@ -176,12 +228,26 @@ export interface AgentModelAssignmentEntity {
   primaryProvider: string;
   primaryModel: string;
   fallbackProviders: string; // JSON serialized array
-  specializedConfigs: string; // JSON serialized object
+  specializedConfigs: string | null; // JSON serialized object
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Audit record of a change to a global assignment or project override
+ */
+export interface AgentModelAssignmentChange {
+  id: string;
+  agentType: string;
+  projectId?: string;
+  action: 'update' | 'override' | 'remove-override';
+  previous?: AgentModelAssignment;
+  next?: AgentModelAssignment;
+  changedBy?: string;
+  createdAt: Date;
+}
+
 /**
  * Provider registry for managing all providers
  */
@@ -0,0 +1,50 @@
+/**
+ * Server-Sent Events
+ *
+ * Minimal text/event-stream writer for Express responses
+ */
+
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  /** True once the client disconnected or close() was called */
+  readonly closed: boolean;
+}
+
+/**
+ * Switch a response to an event stream; proxies are told not to buffer so
+ * each event reaches the browser as soon as it is written
+ */
+export function openEventStream(res: Response): EventStream {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // The request emits close once its body is read; the response closes
+  // when the client goes away
+  res.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    get closed() {
+      return closed;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Read-only Query Guard
+ *
+ * Checks raw SQL before it reaches the database from MCP tools and
+ * workflow steps
+ */
+
+/** Statements a read-only query refuses; values belong in parameters */
+const WRITE_STATEMENT =
+  /\b(insert|update|delete|replace|merge|upsert|create|alter|drop|truncate|attach|detach|pragma|vacuum|reindex|grant|revoke|begin|commit|rollback|savepoint|release)\b/i;
+
+/**
+ * Why a query is refused as read-only: it must be a single SELECT with
+ * plain values as parameters
+ */
+export function readOnlyQueryError(
+  query: string,
+  params: unknown[]
+): string | undefined {
+  if (!/^(select|with)\b/i.test(query)) {
+    return 'Only SELECT queries are allowed';
+  }
+  if (/;|--|\/\*/.test(query)) {
+    return 'Only a single statement without comments is allowed';
+  }
+  if (WRITE_STATEMENT.test(query)) {
+    return 'Only read-only queries are allowed; pass values as parameters';
+  }
+  if (
+    !Array.isArray(params) ||
+    params.some(value => value !== null && typeof value === 'object')
+  ) {
+    return 'Parameters must be an array of plain values';
+  }
+  return undefined;
+}
@@ -6,6 +6,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { MessageSquare, Bot, Clock, Send, FileText, Zap } from 'lucide-react';
 import styles from '../styles/enhanced-chat-dashboard.module.css';
+import { streamChat } from '../utils/chatStream';
 
 interface AgentMessage {
   id: string;
@@ -43,6 +44,9 @@ export const EnhancedChatDashboard: React.FC<EnhancedChatDashboardProps> = ({
   const [loading, setLoading] = useState(false);
   const [chatContext, setChatContext] = useState<ChatContext | null>(null);
   const [newMessage, setNewMessage] = useState('');
+  const [streamingMessage, setStreamingMessage] = useState<AgentMessage | null>(
+    null
+  );
   const [selectedAgent, setSelectedAgent] = useState<string>('all');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -78,30 +82,57 @@ export const EnhancedChatDashboard: React.FC<EnhancedChatDashboardProps> = ({
   ) => {
     if (!message.trim()) return;
 
+    const sentAt = new Date();
+    const reply: AgentMessage = {
+      id: `stream-${sentAt.getTime()}`,
+      role: 'agent',
+      agentType,
+      agentName,
+      content: '',
+      timestamp: sentAt,
+    };
+
+    setMessages(prev => [
+      ...prev,
+      {
+        id: `user-${sentAt.getTime()}`,
+        role: 'user',
+        content: message.trim(),
+        timestamp: sentAt,
+      },
+    ]);
+    setStreamingMessage(reply);
+    setNewMessage('');
+
+    // Tokens are appended as they arrive so long answers render
+    // progressively instead of after the whole response is ready
     try {
-      const response = await fetch(`/api/projects/${projectId}/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: message.trim(),
-          agentType,
-          agentName,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        // Refresh chat history to get the new message
-        await fetchChatHistory();
-        setNewMessage('');
-      } else {
-        console.error('Failed to send message:', data.error);
-      }
+      await streamChat<{ id: string; content: string; agentType?: string }>(
+        `/api/projects/${projectId}/chat/stream`,
+        { message: message.trim(), agentType, agentName },
+        {
+          onDelta: content =>
+            setStreamingMessage(prev =>
+              prev ? { ...prev, content: prev.content + content } : prev
+            ),
+          onDone: data => {
+            setMessages(prev => [
+              ...prev,
+              {
+                ...reply,
+                id: data.id,
+                agentType: data.agentType || agentType,
+                content: data.content,
+              },
+            ]);
+          },
+          onError: error => console.error('Failed to send message:', error),
+        }
+      );
     } catch (error) {
       console.error('Error sending message:', error);
+    } finally {
+      setStreamingMessage(null);
     }
   };
 
@@ -164,9 +195,11 @@ export const EnhancedChatDashboard: React.FC<EnhancedChatDashboardProps> = ({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingMessage]);
 
-  const filteredMessages = filterMessagesByAgent(messages);
+  const filteredMessages = filterMessagesByAgent(
+    streamingMessage ? [...messages, streamingMessage] : messages
+  );
   const uniqueAgents = Array.from(
     new Set(messages.map(m => m.agentType).filter(Boolean))
   );
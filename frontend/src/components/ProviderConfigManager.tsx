@@ -30,6 +30,8 @@ export const ProviderConfigManager: React.FC = () => {
     null
   );
   const [showApiKey, setShowApiKey] = useState<Record<string, boolean>>({});
+  const [discoveredModels, setDiscoveredModels] = useState<string[]>([]);
+  const [discoveryError, setDiscoveryError] = useState<string | null>(null);
 
   useEffect(() => {
     loadConfigs();
@@ -76,6 +78,37 @@ export const ProviderConfigManager: React.FC = () => {
     }
   };
 
+  // Lokalny serwer (Ollama, llama.cpp, vLLM) zwraca listę swoich modeli
+  const discoverModels = async (config: ProviderConfig) => {
+    setDiscoveryError(null);
+    try {
+      const response = await fetch('/api/provider-config/discover-models', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          apiUrl: config.apiUrl,
+          apiKey: config.apiKeyDecrypted,
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setDiscoveredModels(data.data);
+      } else {
+        setDiscoveredModels([]);
+        setDiscoveryError(data.error);
+      }
+    } catch (error) {
+      console.error('Error discovering models:', error);
+      setDiscoveryError('Nie udało się połączyć z serwerem');
+    }
+  };
+
+  const openEditor = (config: ProviderConfig) => {
+    setDiscoveredModels([]);
+    setDiscoveryError(null);
+    setEditingConfig(config);
+  };
+
   const toggleEnabled = async (config: ProviderConfig) => {
     await updateConfig({ ...config, isEnabled: !config.isEnabled });
   };
@@ -131,7 +164,7 @@ export const ProviderConfigManager: React.FC = () => {
                   </button>
                   <button
                     className={styles.editBtn}
-                    onClick={() => setEditingConfig(config)}
+                    onClick={() => openEditor(config)}
                   >
                     ⚙️ Edytuj
                   </button>
@@ -163,6 +196,13 @@ export const ProviderConfigManager: React.FC = () => {
                   </div>
                 )}
 
+                {config.providerId === 'local' && config.apiUrl && (
+                  <div className={styles.detail}>
+                    <label>Endpoint:</label>
+                    <span>{config.apiUrl}</span>
+                  </div>
+                )}
+
                 {config.modelName && (
                   <div className={styles.detail}>
                     <label>Model:</label>
@@ -223,19 +263,62 @@ export const ProviderConfigManager: React.FC = () => {
                 />
               </div>
 
+              {editingConfig.providerId === 'local' && (
+                <div className={styles.formGroup}>
+                  <label>Endpoint (OpenAI-compatible):</label>
+                  <input
+                    type="text"
+                    value={editingConfig.apiUrl || ''}
+                    onChange={e =>
+                      setEditingConfig({
+                        ...editingConfig,
+                        apiUrl: e.target.value,
+                      })
+                    }
+                    placeholder="np. http://localhost:11434/v1"
+                  />
+                  <button
+                    type="button"
+                    className={styles.editBtn}
+                    onClick={() => discoverModels(editingConfig)}
+                  >
+                    🔍 Wykryj modele
+                  </button>
+                  {discoveryError && <span>⚠️ {discoveryError}</span>}
+                </div>
+              )}
+
               <div className={styles.formGroup}>
                 <label>Model:</label>
-                <input
-                  type="text"
-                  value={editingConfig.modelName || ''}
-                  onChange={e =>
-                    setEditingConfig({
-                      ...editingConfig,
-                      modelName: e.target.value,
-                    })
-                  }
-                  placeholder="np. gpt-4o-mini"
-                />
+                {discoveredModels.length > 0 ? (
+                  <select
+                    value={editingConfig.modelName || ''}
+                    onChange={e =>
+                      setEditingConfig({
+                        ...editingConfig,
+                        modelName: e.target.value,
+                      })
+                    }
+                  >
+                    {discoveredModels.map(model => (
+                      <option key={model} value={model}>
+                        {model}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={editingConfig.modelName || ''}
+                    onChange={e =>
+                      setEditingConfig({
+                        ...editingConfig,
+                        modelName: e.target.value,
+                      })
+                    }
+                    placeholder="np. gpt-4o-mini"
+                  />
+                )}
               </div>
 
               <div className={styles.formGroup}>
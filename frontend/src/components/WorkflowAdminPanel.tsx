@@ -31,6 +31,7 @@ const WorkflowAdminPanel: React.FC = () => {
     activeSessionData,
     loading,
     error,
+    streamingReply,
     startNewSession,
     sendMessage,
     generateWorkflow,
@@ -192,6 +193,7 @@ const WorkflowAdminPanel: React.FC = () => {
                   <ChatInterface
                     session={activeSessionData}
                     onSendMessage={handleSendMessage}
+                    streamingReply={streamingReply}
                   />
                 </div>
               </div>
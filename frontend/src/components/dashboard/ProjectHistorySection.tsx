@@ -10,6 +10,7 @@ import {
   Settings,
   Play,
   CheckCircle,
+  RotateCcw,
 } from 'lucide-react';
 import styles from '../../styles/project-details-dashboard.module.css';
 
@@ -30,6 +31,13 @@ interface HistoryEvent {
     name: string;
     type: string;
   };
+  // Workflow run attempt replaying an earlier run
+  replay?: {
+    parentRunId: string;
+    mode: 'step' | 'from';
+    stepId: string;
+    attempt?: number;
+  };
 }
 
 interface ProjectHistorySectionProps {
@@ -313,6 +321,21 @@ export const ProjectHistorySection: React.FC<ProjectHistorySectionProps> = ({
 
                 <p className={styles.eventDescription}>{event.description}</p>
 
+                {event.replay && (
+                  <div className={styles.eventReplay}>
+                    <RotateCcw size={12} />
+                    <span>
+                      {event.replay.attempt
+                        ? `Próba ${event.replay.attempt}: `
+                        : ''}
+                      {event.replay.mode === 'step'
+                        ? `ponowienie kroku ${event.replay.stepId}`
+                        : `wznowienie od kroku ${event.replay.stepId}`}{' '}
+                      (przebieg {event.replay.parentRunId})
+                    </span>
+                  </div>
+                )}
+
                 {expandedEvents.has(event.id) && event.metadata && (
                   <div className={styles.eventDetails}>
                     <h5>Szczegóły:</h5>
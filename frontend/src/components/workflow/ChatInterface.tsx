@@ -37,14 +37,18 @@ interface WorkflowCreationSession {
 interface ChatInterfaceProps {
   session: WorkflowCreationSession | null;
   onSendMessage: (message: string) => void;
+  /** Partial assistant reply while it is being streamed, null otherwise */
+  streamingReply?: string | null;
 }
 
 export default function ChatInterface({
   session,
   onSendMessage,
+  streamingReply = null,
 }: ChatInterfaceProps) {
   const [message, setMessage] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
 
   // Update messages when session changes
   useEffect(() => {
@@ -67,11 +71,34 @@ export default function ChatInterface({
 
   const handleSend = () => {
     if (message.trim()) {
+      setPendingMessage(message);
       onSendMessage(message);
       setMessage('');
     }
   };
 
+  // Show the sent message and the reply as it streams in, until the
+  // session history catches up
+  const visibleMessages: ChatMessage[] =
+    streamingReply !== null && pendingMessage
+      ? [
+          ...messages,
+          {
+            id: 'pending-user',
+            content: pendingMessage,
+            sender: 'user',
+            timestamp: new Date(),
+          },
+          {
+            id: 'pending-assistant',
+            content: streamingReply || '…',
+            sender: 'assistant',
+            timestamp: new Date(),
+            type: 'suggestion',
+          },
+        ]
+      : messages;
+
   if (!session) {
     return (
       <Card className="h-full">
@@ -100,7 +127,7 @@ export default function ChatInterface({
       <CardContent className="flex-1 flex flex-col p-0">
         <ScrollArea className="flex-1 p-4">
           <div className="space-y-4">
-            {messages.map(msg => (
+            {visibleMessages.map(msg => (
               <div
                 key={msg.id}
                 className={`flex ${
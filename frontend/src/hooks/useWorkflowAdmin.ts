@@ -4,6 +4,7 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
+import { streamChat, ChatStreamHandlers } from '../utils/chatStream';
 
 // API Types
 interface WorkflowCreationSession {
@@ -155,6 +156,18 @@ class WorkflowAdminAPI {
     });
   }
 
+  async streamMessage(
+    sessionId: string,
+    message: string,
+    handlers: ChatStreamHandlers<ChatMessageResponse>
+  ): Promise<void> {
+    return streamChat(
+      `${this.baseUrl}/chat/message/stream`,
+      { sessionId, message },
+      handlers
+    );
+  }
+
   async generateWorkflow(
     sessionId: string
   ): Promise<ApiResponse<WorkflowTemplate>> {
@@ -196,6 +209,8 @@ export const useWorkflowAdmin = () => {
   const [activeSession, setActiveSession] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Assistant reply being streamed for the message in flight
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
 
   // Convert date strings to Date objects
   const convertSession = (session: any): WorkflowCreationSession => ({
@@ -257,41 +272,54 @@ export const useWorkflowAdmin = () => {
     async (sessionId: string, message: string): Promise<boolean> => {
       setLoading(true);
       setError(null);
+      setStreamingReply('');
 
-      try {
-        const result = await api.sendMessage(sessionId, message);
+      let result: ChatMessageResponse | null = null;
+      let streamError: string | null = null;
 
-        if (result.success) {
-          // Update local session with new conversation
-          setSessions(prev =>
-            prev.map(session => {
-              if (session.id === sessionId) {
-                return {
-                  ...session,
-                  conversationHistory: [
-                    ...session.conversationHistory,
-                    `User: ${message}`,
-                    `Assistant: ${result.data?.response || 'AI response'}`,
-                  ],
-                  updatedAt: new Date(),
-                  workflowProgress:
-                    result.data?.workflowProgress || session.workflowInProgress,
-                };
-              }
-              return session;
-            })
-          );
-          return true;
-        } else {
-          setError(result.error || 'Failed to send message');
-          return false;
-        }
+      try {
+        await api.streamMessage(sessionId, message, {
+          onDelta: content => setStreamingReply(prev => (prev || '') + content),
+          onDone: data => {
+            result = data;
+          },
+          onError: error => {
+            streamError = error;
+          },
+        });
       } catch {
-        setError('Failed to send message');
-        return false;
+        streamError = 'Failed to send message';
       } finally {
+        setStreamingReply(null);
         setLoading(false);
       }
+
+      const reply = result as ChatMessageResponse | null;
+      if (!reply) {
+        setError(streamError || 'Failed to send message');
+        return false;
+      }
+
+      // Update local session with new conversation
+      setSessions(prev =>
+        prev.map(session => {
+          if (session.id === sessionId) {
+            return {
+              ...session,
+              conversationHistory: [
+                ...session.conversationHistory,
+                `User: ${message}`,
+                `Assistant: ${reply.response || 'AI response'}`,
+              ],
+              updatedAt: new Date(),
+              workflowProgress:
+                reply.workflowProgress || session.workflowInProgress,
+            };
+          }
+          return session;
+        })
+      );
+      return true;
     },
     []
   );
@@ -457,6 +485,7 @@ export const useWorkflowAdmin = () => {
     completedSessions,
     loading,
     error,
+    streamingReply,
 
     // Actions
     startNewSession,
@@ -0,0 +1,74 @@
+// Client for the chat streaming endpoints (server-sent events over POST)
+
+export interface ChatStreamHandlers<T> {
+  onDelta: (content: string) => void;
+  onDone: (data: T) => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * POST a chat message and dispatch the streamed events as they arrive.
+ * EventSource only supports GET, so the body is read with fetch instead.
+ */
+export const streamChat = async <T>(
+  url: string,
+  body: Record<string, unknown>,
+  handlers: ChatStreamHandlers<T>,
+  signal?: AbortSignal
+): Promise<void> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    handlers.onError(data.error || `HTTP ${response.status}`);
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    events.forEach(raw => dispatchEvent(raw, handlers));
+  }
+};
+
+const dispatchEvent = <T>(raw: string, handlers: ChatStreamHandlers<T>) => {
+  let event = 'message';
+  let data = '';
+
+  raw.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    if (line.startsWith('data:')) data += line.slice(5).trim();
+  });
+
+  if (!data) return;
+  const payload = JSON.parse(data);
+
+  switch (event) {
+    case 'delta':
+      handlers.onDelta(payload.content);
+      break;
+    case 'done':
+      handlers.onDone(payload);
+      break;
+    case 'error':
+      handlers.onError(payload.error || 'Stream error');
+      break;
+  }
+};
@@ -1,6 +1,11 @@
 /**
  * Complete Workflow Integration Test
  * Tests the entire user journey from project creation to workflow completion
+ *
+ * Runs offline and repeatably against a backend started with
+ * AI_REPLAY_MODE=strict; record the AI fixtures once with AI_REPLAY_MODE=record.
+ * Agent chat and workflow agent steps both replay; agent steps still need
+ * OPENAI_API_KEY or LOCAL_LLM_ENDPOINT set, though no request reaches them
  */
 
 import { test, expect, Page } from '@playwright/test';
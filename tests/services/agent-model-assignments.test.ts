@@ -0,0 +1,290 @@
+/**
+ * Agent Model Assignment Tests
+ * Unit tests for persisted assignments, their history and project overrides
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { AgentModelAssignmentService } from '../../backend/src/services/agent-model-assignment.service';
+import { providerRegistry } from '../../backend/src/services/provider-registry.service';
+import { AIProvider } from '../../backend/src/types/ai-provider.types';
+
+function createPrisma(
+  stored: object[] = [],
+  overrides: object[] = [],
+  history: object[] = []
+) {
+  const prisma = {
+    agentModelAssignment: {
+      findMany: jest.fn().mockResolvedValue(stored),
+      upsert: jest.fn().mockResolvedValue({}),
+    },
+    projectAgentModelAssignment: {
+      findMany: jest.fn().mockResolvedValue(overrides),
+      upsert: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    agentModelAssignmentChange: {
+      create: jest.fn().mockResolvedValue({}),
+      findMany: jest.fn().mockResolvedValue(history),
+    },
+    $transaction: jest.fn((operations: Promise<unknown>[]) =>
+      Promise.all(operations)
+    ),
+  };
+  return prisma;
+}
+
+function createService(prisma: ReturnType<typeof createPrisma>) {
+  const service = new AgentModelAssignmentService();
+  service.configurePersistence(prisma as unknown as PrismaClient);
+  return service;
+}
+
+describe('AgentModelAssignmentService persistence', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(providerRegistry, 'getProvider').mockImplementation(async id =>
+      id === 'unknown'
+        ? {
+            success: false,
+            error: { code: 'PROVIDER_NOT_FOUND', message: id },
+          }
+        : { success: true, data: { id } as AIProvider }
+    );
+  });
+
+  it('should replace the default assignments with stored ones on startup', async () => {
+    // Arrange
+    const prisma = createPrisma([
+      {
+        agentType: 'system-architect',
+        primaryProvider: 'deepseek',
+        primaryModel: 'deepseek-chat',
+        fallbackProviders: JSON.stringify([
+          { provider: 'groq', model: 'llama', priority: 1 },
+        ]),
+        specializedConfigs: null,
+      },
+    ]);
+    const service = createService(prisma);
+
+    // Act
+    const architect = await service.getOptimalProviderForTask(
+      'system-architect',
+      'systemDesign'
+    );
+    const analyst = await service.getAssignmentForAgent('business-analyst');
+
+    // Assert
+    expect(prisma.agentModelAssignment.findMany).toHaveBeenCalledWith({
+      where: { isActive: true },
+    });
+    expect(architect).toEqual({
+      success: true,
+      data: { provider: 'deepseek', model: 'deepseek-chat' },
+    });
+    expect(analyst.success && analyst.data.primaryProvider).toBe(
+      'anthropic-claude'
+    );
+  });
+
+  it('should persist updates together with an audit entry', async () => {
+    // Arrange
+    const prisma = createPrisma();
+    const service = createService(prisma);
+    const assignment = {
+      agentType: 'qa-engineer',
+      primaryProvider: 'groq',
+      primaryModel: 'llama',
+      fallbackProviders: [
+        { provider: 'deepseek', model: 'coder', priority: 1 },
+      ],
+    };
+
+    // Act
+    const result = await service.updateAssignment(
+      'qa-engineer',
+      assignment,
+      'alice'
+    );
+    const rejected = await service.updateAssignment('qa-engineer', {
+      ...assignment,
+      primaryProvider: 'unknown',
+    });
+
+    // Assert
+    expect(result).toEqual({ success: true, data: true });
+    expect(!rejected.success && rejected.error.code).toBe('INVALID_PROVIDER');
+    expect(prisma.agentModelAssignment.upsert).toHaveBeenCalledTimes(1);
+    expect(prisma.agentModelAssignment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { agentType: 'qa-engineer' },
+        create: expect.objectContaining({
+          primaryProvider: 'groq',
+          fallbackProviders: JSON.stringify(assignment.fallbackProviders),
+          specializedConfigs: null,
+        }),
+      })
+    );
+    expect(prisma.agentModelAssignmentChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        agentType: 'qa-engineer',
+        action: 'update',
+        next: JSON.stringify(assignment),
+        changedBy: 'alice',
+        previous: expect.stringContaining('deepseek-coder-v3'),
+      }),
+    });
+  });
+
+  it('should let a project pin an agent while inheriting global fallbacks', async () => {
+    // Arrange
+    const prisma = createPrisma();
+    const service = createService(prisma);
+
+    // Act
+    await service.setProjectOverride('project-1', 'system-architect', {
+      agentType: 'system-architect',
+      primaryProvider: 'groq',
+      primaryModel: 'llama',
+      fallbackProviders: [],
+    });
+    const pinned = await service.getOptimalProviderForTask(
+      'system-architect',
+      'systemDesign',
+      'project-1'
+    );
+    const fallbacks = await service.getFallbackProvidersForAgent(
+      'system-architect',
+      'project-1'
+    );
+    const otherProject = await service.getOptimalProviderForTask(
+      'system-architect',
+      'general',
+      'project-2'
+    );
+
+    // Assert
+    expect(pinned.success && pinned.data).toEqual({
+      provider: 'groq',
+      model: 'llama',
+    });
+    expect(fallbacks.success && fallbacks.data.map(f => f.provider)).toEqual([
+      'azure-openai',
+      'deepseek',
+    ]);
+    expect(otherProject.success && otherProject.data.provider).toBe(
+      'anthropic-claude'
+    );
+    expect(prisma.projectAgentModelAssignment.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          projectId_agentType: {
+            projectId: 'project-1',
+            agentType: 'system-architect',
+          },
+        },
+      })
+    );
+  });
+
+  it('should load project overrides and drop them on removal', async () => {
+    // Arrange
+    const prisma = createPrisma(
+      [],
+      [
+        {
+          projectId: 'project-1',
+          agentType: 'qa-engineer',
+          primaryProvider: 'groq',
+          primaryModel: 'mixtral',
+          fallbackProviders: '[]',
+          specializedConfigs: null,
+        },
+      ]
+    );
+    const service = createService(prisma);
+
+    // Act
+    const overrides = await service.getProjectOverrides('project-1');
+    const removed = await service.removeProjectOverride(
+      'project-1',
+      'qa-engineer',
+      'bob'
+    );
+    const after = await service.getAssignmentForAgent(
+      'qa-engineer',
+      'project-1'
+    );
+
+    // Assert
+    expect(
+      overrides.success && overrides.data.map(o => o.primaryModel)
+    ).toEqual(['mixtral']);
+    expect(removed).toEqual({ success: true, data: true });
+    expect(prisma.agentModelAssignmentChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        projectId: 'project-1',
+        action: 'remove-override',
+        changedBy: 'bob',
+      }),
+    });
+    expect(after.success && after.data.primaryProvider).toBe('deepseek');
+  });
+
+  it('should return the change history with parsed assignments', async () => {
+    // Arrange
+    const createdAt = new Date('2026-10-18T12:00:00Z');
+    const next = {
+      agentType: 'qa-engineer',
+      primaryProvider: 'groq',
+      primaryModel: 'llama',
+      fallbackProviders: [],
+    };
+    const prisma = createPrisma(
+      [],
+      [],
+      [
+        {
+          id: 'change-1',
+          agentType: 'qa-engineer',
+          projectId: null,
+          action: 'update',
+          previous: null,
+          next: JSON.stringify(next),
+          changedBy: null,
+          createdAt,
+        },
+      ]
+    );
+    const service = createService(prisma);
+
+    // Act
+    const result = await service.getAssignmentHistory({
+      agentType: 'qa-engineer',
+    });
+
+    // Assert
+    expect(prisma.agentModelAssignmentChange.findMany).toHaveBeenCalledWith({
+      where: { agentType: 'qa-engineer', projectId: undefined },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+    expect(result).toEqual({
+      success: true,
+      data: [
+        {
+          id: 'change-1',
+          agentType: 'qa-engineer',
+          projectId: undefined,
+          action: 'update',
+          previous: undefined,
+          next,
+          changedBy: undefined,
+          createdAt,
+        },
+      ],
+    });
+  });
+});
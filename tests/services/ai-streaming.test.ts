@@ -0,0 +1,264 @@
+/**
+ * AI Streaming Tests
+ * Unit tests for provider token streams and streaming fallback routing
+ */
+
+import { ClaudeProvider } from '../../backend/src/providers/claude.provider';
+import { DeepSeekProvider } from '../../backend/src/providers/deepseek.provider';
+import { UnifiedAIChatService } from '../../backend/src/services/unified-ai-chat.service';
+import { providerRegistry } from '../../backend/src/services/provider-registry.service';
+import { agentModelAssignmentService } from '../../backend/src/services/agent-model-assignment.service';
+import {
+  AIProvider,
+  ChatStreamEvent,
+} from '../../backend/src/types/ai-provider.types';
+
+/**
+ * Response whose body delivers the given chunks one read at a time
+ */
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+async function collect(
+  stream: AsyncIterable<ChatStreamEvent>
+): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+function fakeProvider(
+  id: string,
+  events: ChatStreamEvent[]
+): AIProvider & { chatStream: jest.Mock } {
+  return {
+    id,
+    chatStream: jest.fn(async function* () {
+      yield* events;
+    }),
+  } as unknown as AIProvider & { chatStream: jest.Mock };
+}
+
+describe('AI streaming', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('should yield Claude text deltas split across reads', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":12}}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"text":"Lay',
+        'ered"}}\n\nevent: content_block_delta\ndata: {"type":"content_block_delta","delta":{"text":" design"}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":3}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ])
+    );
+    const provider = new ClaudeProvider();
+    Object.assign(provider, { apiKey: 'key', initialized: true });
+
+    // Act
+    const events = await collect(
+      provider.chatStream({ messages: [{ role: 'user', content: 'Hi' }] })
+    );
+
+    // Assert
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    expect(events.slice(0, 2)).toEqual([
+      { type: 'delta', content: 'Layered' },
+      { type: 'delta', content: ' design' },
+    ]);
+    expect(events[2]).toMatchObject({
+      type: 'done',
+      response: {
+        content: 'Layered design',
+        provider: 'anthropic-claude',
+        usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+      },
+    });
+  });
+
+  it('should stop OpenAI-compatible streams at [DONE] and keep usage', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        'data: {"choices":[{"delta":{"content":"const"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":" x"}}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":2}}\n\n',
+        'data: [DONE]\n\n',
+      ])
+    );
+    const provider = new DeepSeekProvider();
+    Object.assign(provider, { apiKey: 'key', initialized: true });
+
+    // Act
+    const events = await collect(
+      provider.chatStream({ messages: [{ role: 'user', content: 'Code' }] })
+    );
+
+    // Assert
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream_options).toEqual({
+      include_usage: true,
+    });
+    expect(events.map(event => event.type)).toEqual(['delta', 'delta', 'done']);
+    expect(events[2]).toMatchObject({
+      response: { content: 'const x', usage: { totalTokens: 7 } },
+    });
+  });
+
+  it('should cancel the response body when the consumer stops early', async () => {
+    // Arrange
+    const cancel = jest.fn();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          new TextEncoder().encode(
+            'data: {"choices":[{"delta":{"content":"const"}}]}\n\n'
+          )
+        );
+      },
+      cancel,
+    });
+    fetchMock.mockResolvedValue(new Response(body, { status: 200 }));
+    const provider = new DeepSeekProvider();
+    Object.assign(provider, { apiKey: 'key', initialized: true });
+
+    // Act
+    for await (const event of provider.chatStream({
+      messages: [{ role: 'user', content: 'Code' }],
+    })) {
+      if (event.type === 'delta') break;
+    }
+
+    // Assert
+    expect(cancel).toHaveBeenCalled();
+    expect(body.locked).toBe(false);
+  });
+
+  it('should report failed requests as a single error event', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(new Response('overloaded', { status: 529 }));
+    const provider = new DeepSeekProvider();
+    Object.assign(provider, { apiKey: 'key', initialized: true });
+
+    // Act
+    const events = await collect(
+      provider.chatStream({ messages: [{ role: 'user', content: 'Code' }] })
+    );
+
+    // Assert
+    expect(events).toEqual([
+      {
+        type: 'error',
+        error: expect.objectContaining({
+          code: 'API_REQUEST_FAILED',
+          details: 'overloaded',
+        }),
+      },
+    ]);
+  });
+
+  describe('UnifiedAIChatService.chatStreamForAgent', () => {
+    const request = [{ role: 'user' as const, content: 'Design it' }];
+
+    function route(providers: Record<string, AIProvider>) {
+      jest
+        .spyOn(agentModelAssignmentService, 'getOptimalProviderForTask')
+        .mockResolvedValue({
+          success: true,
+          data: { provider: 'primary', model: 'model-a' },
+        });
+      jest
+        .spyOn(agentModelAssignmentService, 'getFallbackProvidersForAgent')
+        .mockResolvedValue({
+          success: true,
+          data: [{ provider: 'backup', model: 'model-b' }],
+        });
+      jest
+        .spyOn(providerRegistry, 'getProvider')
+        .mockImplementation(async id => ({
+          success: true,
+          data: providers[id],
+        }));
+    }
+
+    it('should fall back when a provider fails before its first token', async () => {
+      // Arrange
+      const primary = fakeProvider('primary', [
+        {
+          type: 'error',
+          error: { code: 'API_REQUEST_FAILED', message: '500' },
+        },
+      ]);
+      const backup = fakeProvider('backup', [
+        { type: 'delta', content: 'Hello' },
+        {
+          type: 'done',
+          response: { content: 'Hello', model: 'model-b', provider: 'backup' },
+        },
+      ]);
+      route({ primary, backup });
+      const service = new UnifiedAIChatService();
+
+      // Act
+      const events = await collect(
+        service.chatStreamForAgent('system-architect', request)
+      );
+
+      // Assert
+      expect(backup.chatStream).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'model-b' })
+      );
+      expect(events).toEqual([
+        { type: 'delta', content: 'Hello' },
+        {
+          type: 'done',
+          response: expect.objectContaining({
+            metadata: expect.objectContaining({
+              routedProvider: 'backup',
+              attemptNumber: 2,
+            }),
+          }),
+        },
+      ]);
+    });
+
+    it('should end with the error once tokens have been delivered', async () => {
+      // Arrange
+      const primary = fakeProvider('primary', [
+        { type: 'delta', content: 'Partial' },
+        { type: 'error', error: { code: 'STREAM_ERROR', message: 'reset' } },
+      ]);
+      const backup = fakeProvider('backup', []);
+      route({ primary, backup });
+      const service = new UnifiedAIChatService();
+
+      // Act
+      const events = await collect(
+        service.chatStreamForAgent('system-architect', request)
+      );
+
+      // Assert
+      expect(backup.chatStream).not.toHaveBeenCalled();
+      expect(events.map(event => event.type)).toEqual(['delta', 'error']);
+    });
+  });
+});
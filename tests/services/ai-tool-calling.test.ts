@@ -0,0 +1,366 @@
+/**
+ * AI Tool Calling Tests
+ * Unit tests for provider tool-call mapping and the agent tool loop
+ */
+
+import { ClaudeProvider } from '../../backend/src/providers/claude.provider';
+import { DeepSeekProvider } from '../../backend/src/providers/deepseek.provider';
+import {
+  AgentToolLoop,
+  ToolSource,
+} from '../../backend/src/services/agent-tool-loop.service';
+import { CopilotTool } from '../../backend/src/mcp/mcp-server';
+import {
+  AIProvider,
+  ChatMessage,
+  ChatResponse,
+} from '../../backend/src/types/ai-provider.types';
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function tool(name: string, type: 'read' | 'execute' = 'read'): CopilotTool {
+  return {
+    name,
+    description: `${name} tool`,
+    category: 'workspace',
+    permissions: [{ type, resource: 'file' }],
+    inputSchema: { type: 'object', properties: { path: { type: 'string' } } },
+    handler: jest.fn(),
+  };
+}
+
+function toolSource(
+  tools: CopilotTool[],
+  executeTool: ToolSource['executeTool']
+): ToolSource & { executeTool: jest.Mock } {
+  return {
+    getToolsForAgent: () => tools,
+    executeTool: jest.fn(executeTool),
+  };
+}
+
+function scriptedProvider(
+  responses: Partial<ChatResponse>[]
+): AIProvider & { chat: jest.Mock } {
+  const chat = jest.fn();
+  responses.forEach(response =>
+    chat.mockResolvedValueOnce({
+      success: true,
+      data: { model: 'model-a', provider: 'primary', content: '', ...response },
+    })
+  );
+  return { id: 'primary', chat } as unknown as AIProvider & {
+    chat: jest.Mock;
+  };
+}
+
+const readFileCall = {
+  id: 'call-1',
+  name: 'read_workspace_file',
+  arguments: { path: 'src/app.ts' },
+};
+
+describe('AI tool calling', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('should map Claude tool_use blocks and send tool results back', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        content: [
+          { type: 'text', text: 'Reading.' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'read_workspace_file',
+            input: { path: 'a.ts' },
+          },
+        ],
+        usage: { input_tokens: 10, output_tokens: 5 },
+      })
+    );
+    const provider = new ClaudeProvider();
+    Object.assign(provider, { apiKey: 'key', initialized: true });
+
+    // Act
+    const result = await provider.chat({
+      messages: [
+        { role: 'system', content: 'You are an architect' },
+        { role: 'user', content: 'Review' },
+        { role: 'assistant', content: '', toolCalls: [readFileCall] },
+        { role: 'tool', toolCallId: 'call-1', content: 'export {}' },
+      ],
+      tools: [
+        { name: 'read_workspace_file', description: 'Read', inputSchema: {} },
+      ],
+    });
+
+    // Assert
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.system).toBe('You are an architect');
+    expect(body.tools[0]).toEqual({
+      name: 'read_workspace_file',
+      description: 'Read',
+      input_schema: {},
+    });
+    expect(body.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: [
+          {
+            type: 'tool_use',
+            id: 'call-1',
+            name: 'read_workspace_file',
+            input: { path: 'src/app.ts' },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call-1', content: 'export {}' },
+        ],
+      },
+    ]);
+    expect(result.success && result.data.content).toBe('Reading.');
+    expect(result.success && result.data.toolCalls).toEqual([
+      {
+        id: 'toolu_1',
+        name: 'read_workspace_file',
+        arguments: { path: 'a.ts' },
+      },
+    ]);
+  });
+
+  it('should map OpenAI-compatible tool calls and tolerate bad arguments', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_a',
+                  type: 'function',
+                  function: {
+                    name: 'read_workspace_file',
+                    arguments: '{"path":"b.ts"}',
+                  },
+                },
+                {
+                  id: 'call_b',
+                  type: 'function',
+                  function: {
+                    name: 'search_workspace_files',
+                    arguments: '{bad',
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      })
+    );
+    const provider = new DeepSeekProvider();
+    Object.assign(provider, { apiKey: 'key', initialized: true });
+
+    // Act
+    const result = await provider.chat({
+      messages: [{ role: 'user', content: 'Find it' }],
+      tools: [
+        { name: 'read_workspace_file', description: 'Read', inputSchema: {} },
+      ],
+    });
+
+    // Assert
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.tool_choice).toBe('auto');
+    expect(body.tools[0].function.name).toBe('read_workspace_file');
+    expect(result.success && result.data.content).toBe('');
+    expect(result.success && result.data.toolCalls).toEqual([
+      {
+        id: 'call_a',
+        name: 'read_workspace_file',
+        arguments: { path: 'b.ts' },
+      },
+      { id: 'call_b', name: 'search_workspace_files', arguments: {} },
+    ]);
+  });
+
+  describe('AgentToolLoop', () => {
+    const question: ChatMessage[] = [{ role: 'user', content: 'Review app' }];
+
+    it('should execute requested tools and feed the results back', async () => {
+      // Arrange
+      const source = toolSource([tool('read_workspace_file')], async () => ({
+        success: true,
+        data: { content: 'export const app = 1;' },
+      }));
+      const provider = scriptedProvider([
+        { toolCalls: [readFileCall] },
+        { content: 'The app exports one constant.' },
+      ]);
+      const loop = new AgentToolLoop(source);
+
+      // Act
+      const result = await loop.run(
+        provider,
+        {
+          messages: question,
+          context: {
+            agentType: 'system-architect',
+            taskType: 'general',
+            projectId: 'p1',
+          },
+        },
+        'system-architect'
+      );
+
+      // Assert
+      expect(source.executeTool).toHaveBeenCalledWith(
+        'read_workspace_file',
+        { path: 'src/app.ts' },
+        expect.objectContaining({
+          agentId: 'system-architect',
+          projectId: 'p1',
+        })
+      );
+      const secondTurn = provider.chat.mock.calls[1][0];
+      expect(secondTurn.messages.slice(1)).toEqual([
+        { role: 'assistant', content: '', toolCalls: [readFileCall] },
+        {
+          role: 'tool',
+          toolCallId: 'call-1',
+          content: '{"content":"export const app = 1;"}',
+        },
+      ]);
+      expect(result.success && result.data.content).toBe(
+        'The app exports one constant.'
+      );
+      expect(result.success && result.data.metadata?.toolsUsed).toEqual([
+        'read_workspace_file',
+      ]);
+    });
+
+    it('should only offer and run tools the agent is permitted to use', async () => {
+      // Arrange
+      const source = toolSource(
+        [
+          tool('read_workspace_file'),
+          tool('execute_terminal_command', 'execute'),
+        ],
+        async () => ({ success: true, data: 'ran' })
+      );
+      const provider = scriptedProvider([
+        {
+          toolCalls: [
+            { id: 'call-2', name: 'execute_terminal_command', arguments: {} },
+          ],
+        },
+        { content: 'Done' },
+      ]);
+      const loop = new AgentToolLoop(source);
+
+      // Act
+      await loop.run(provider, { messages: question }, 'system-architect');
+
+      // Assert
+      const firstTurn = provider.chat.mock.calls[0][0];
+      expect(firstTurn.tools.map((t: { name: string }) => t.name)).toEqual([
+        'read_workspace_file',
+      ]);
+      expect(source.executeTool).not.toHaveBeenCalled();
+      expect(provider.chat.mock.calls[1][0].messages[2].content).toBe(
+        'Error: Tool execute_terminal_command is not available for agent system-architect'
+      );
+    });
+
+    it('should limit concurrency and time out slow tools', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      let running = 0;
+      let peak = 0;
+      const source = toolSource(
+        [tool('read_workspace_file')],
+        async (_name, input) => {
+          running++;
+          peak = Math.max(peak, running);
+          await new Promise(resolve =>
+            setTimeout(resolve, input.path === 'slow.ts' ? 60000 : 10)
+          );
+          running--;
+          return { success: true, data: input.path };
+        }
+      );
+      const calls = ['a.ts', 'b.ts', 'c.ts', 'd.ts', 'slow.ts'].map(
+        (path, index) => ({
+          id: `call-${index}`,
+          name: 'read_workspace_file',
+          arguments: { path },
+        })
+      );
+      const provider = scriptedProvider([
+        { toolCalls: calls },
+        { content: 'Ok' },
+      ]);
+      const loop = new AgentToolLoop(source);
+
+      // Act
+      const pending = loop.run(
+        provider,
+        { messages: question },
+        'system-architect'
+      );
+      await jest.advanceTimersByTimeAsync(60000);
+      await pending;
+      jest.useRealTimers();
+
+      // Assert
+      expect(peak).toBe(3);
+      const results = provider.chat.mock.calls[1][0].messages.slice(2);
+      expect(results.map((m: ChatMessage) => m.content)).toEqual([
+        '"a.ts"',
+        '"b.ts"',
+        '"c.ts"',
+        '"d.ts"',
+        'Error: Tool read_workspace_file timed out after 45000ms',
+      ]);
+    });
+
+    it('should force a text answer after the maximum tool turns', async () => {
+      // Arrange
+      const source = toolSource([tool('read_workspace_file')], async () => ({
+        success: true,
+        data: 'x',
+      }));
+      const provider = scriptedProvider([
+        ...Array.from({ length: 6 }, () => ({ toolCalls: [readFileCall] })),
+      ]);
+      const loop = new AgentToolLoop(source);
+
+      // Act
+      const result = await loop.run(
+        provider,
+        { messages: question },
+        'system-architect'
+      );
+
+      // Assert
+      expect(provider.chat).toHaveBeenCalledTimes(6);
+      expect(provider.chat.mock.calls[5][0].toolChoice).toBe('none');
+      expect(result.success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Code Analyzer Tests
+ * Unit tests for the static analysis behind the analyze_code MCP tool
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import {
+  CodeAnalyzer,
+  formatAnalysisReport,
+} from '../../backend/src/mcp/code-analyzer';
+import { MCPServer } from '../../backend/src/mcp/mcp-server';
+
+const mathSource = `
+export function classify(value: number, strict?: boolean): string {
+  if (value > 10 && strict) {
+    return 'big';
+  }
+  for (const step of [1, 2]) {
+    if (step === value) return 'step';
+  }
+  return value ? 'small' : 'zero';
+}
+
+export const double = (value: number) => value * 2;
+
+export interface Shape {
+  sides: number;
+}
+`;
+
+const appSource = `
+import { classify } from './math';
+import { leftPad } from 'left-pad';
+
+export class Report {
+  constructor(private readonly name: string) {}
+
+  render(): string {
+    const size: number = 'large';
+    return leftPad(this.name + classify(size));
+  }
+}
+`;
+
+describe('CodeAnalyzer', () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-'))
+    );
+    await fs.mkdir(path.join(workspace, 'src'));
+    await fs.writeFile(path.join(workspace, 'src', 'math.ts'), mathSource);
+    await fs.writeFile(path.join(workspace, 'src', 'app.ts'), appSource);
+    await fs.writeFile(
+      path.join(workspace, 'tsconfig.json'),
+      JSON.stringify({ compilerOptions: { strict: true, types: [] } })
+    );
+    await fs.mkdir(path.join(workspace, 'node_modules', 'left-pad'), {
+      recursive: true,
+    });
+    await fs.writeFile(
+      path.join(workspace, 'node_modules', 'left-pad', 'index.d.ts'),
+      'export declare function leftPad(value: string): string;'
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should report diagnostics, complexity, exports, imports and dead exports for a directory', async () => {
+    // Arrange
+    const analyzer = new CodeAnalyzer({
+      workspaceRoot: workspace,
+      complexityThreshold: 4,
+      eslint: false,
+    });
+
+    // Act
+    const result = await analyzer.analyze({ path: 'src' });
+
+    // Assert
+    expect(result.success).toBe(true);
+    const report = result.success ? result.data : undefined;
+    const app = report?.files.find(file => file.path === 'src/app.ts');
+    const math = report?.files.find(file => file.path === 'src/math.ts');
+    expect(app?.diagnostics).toEqual([
+      expect.objectContaining({
+        source: 'typescript',
+        severity: 'error',
+        code: 'TS2322',
+        line: 9,
+      }),
+    ]);
+    expect(math?.functions).toEqual([
+      { name: 'classify', line: 2, complexity: 6 },
+      { name: 'double', line: 12, complexity: 1 },
+    ]);
+    expect(math?.exports).toEqual(
+      expect.arrayContaining([
+        { name: 'classify', kind: 'function', line: 2 },
+        { name: 'double', kind: 'variable', line: 12 },
+        { name: 'Shape', kind: 'interface', line: 14 },
+      ])
+    );
+    expect(report?.imports).toEqual([
+      {
+        from: 'src/app.ts',
+        to: 'src/math.ts',
+        external: false,
+        names: ['classify'],
+      },
+      {
+        from: 'src/app.ts',
+        to: 'left-pad',
+        external: true,
+        names: ['leftPad'],
+      },
+    ]);
+    expect(report?.deadExports.map(dead => dead.name).sort()).toEqual([
+      'Report',
+      'Shape',
+      'double',
+    ]);
+    expect(report?.summary).toMatchObject({
+      files: 2,
+      errors: 1,
+      maxComplexity: 6,
+      complexFunctions: [
+        { file: 'src/math.ts', name: 'classify', complexity: 6 },
+      ],
+    });
+  });
+
+  it('should analyze inline code and stay inside the workspace', async () => {
+    // Arrange
+    const analyzer = new CodeAnalyzer({
+      workspaceRoot: workspace,
+      eslint: false,
+    });
+
+    // Act
+    const inline = await analyzer.analyze({
+      code: 'export function f(a: number) { return a ?? 1; }',
+    });
+    const outside = await analyzer.analyze({ path: '../' });
+    const missing = await analyzer.analyze({});
+    await fs.mkdir(path.join(workspace, '..dotted'));
+    await fs.writeFile(
+      path.join(workspace, '..dotted', 'util.ts'),
+      'export const one = 1;'
+    );
+    const dotted = await analyzer.analyze({ path: '..dotted' });
+
+    // Assert
+    expect(inline.success && inline.data.files[0].functions).toEqual([
+      { name: 'f', line: 1, complexity: 2 },
+    ]);
+    expect(!outside.success && outside.error.message).toBe(
+      'Access denied: Path is outside workspace'
+    );
+    expect(!missing.success && missing.error.code).toBe(
+      'INVALID_ANALYSIS_TARGET'
+    );
+    expect(dotted.success && dotted.data.files).toHaveLength(1);
+  });
+
+  it('should reject symlinks that lead outside the workspace', async () => {
+    // Arrange
+    const outsideDir = await fs.mkdtemp(path.join(os.tmpdir(), 'outside-'));
+    await fs.writeFile(path.join(outsideDir, 'secret.ts'), mathSource);
+    await fs.symlink(outsideDir, path.join(workspace, 'linked-dir'));
+    await fs.symlink(
+      path.join(outsideDir, 'secret.ts'),
+      path.join(workspace, 'src', 'linked.ts')
+    );
+    const analyzer = new CodeAnalyzer({
+      workspaceRoot: workspace,
+      eslint: false,
+    });
+
+    // Act
+    const results = await Promise.all([
+      analyzer.analyze({ path: 'linked-dir' }),
+      analyzer.analyze({ path: 'src/linked.ts' }),
+    ]);
+    await fs.rm(outsideDir, { recursive: true, force: true });
+
+    // Assert
+    for (const result of results) {
+      expect(!result.success && result.error.message).toBe(
+        'Access denied: Path is outside workspace'
+      );
+    }
+  });
+
+  it('should include ESLint findings when the workspace configures ESLint', async () => {
+    // Arrange
+    await fs.writeFile(
+      path.join(workspace, '.eslintrc.json'),
+      JSON.stringify({
+        root: true,
+        parserOptions: { ecmaVersion: 2020 },
+        rules: { 'no-var': 'error' },
+      })
+    );
+    await fs.writeFile(path.join(workspace, 'legacy.js'), 'var x = 1;\n');
+    const analyzer = new CodeAnalyzer({ workspaceRoot: workspace });
+
+    // Act
+    const result = await analyzer.analyze({ path: 'legacy.js' });
+
+    // Assert
+    expect(result.success && result.data.lint).toEqual({ enabled: true });
+    expect(result.success && result.data.files[0].diagnostics).toEqual([
+      expect.objectContaining({ source: 'eslint', code: 'no-var', line: 1 }),
+    ]);
+    expect(result.success && formatAnalysisReport(result.data)).toContain(
+      'legacy.js:1:1 error'
+    );
+  });
+
+  it('should return the report from the analyze_code tool', async () => {
+    // Arrange
+    const analyzer = new CodeAnalyzer({
+      workspaceRoot: workspace,
+      eslint: false,
+    });
+    const server = new MCPServer({} as unknown as PrismaClient, {
+      codeAnalyzer: analyzer,
+    });
+
+    // Act
+    const result = await server.executeTool(
+      'analyze_code',
+      { filePath: 'src/math.ts' },
+      { agentId: 'microsoft-reviewer' }
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data.summary).toMatchObject({ files: 1, errors: 0 });
+    expect(result.content?.[0]).toMatchObject({
+      type: 'text',
+      text: expect.stringContaining('Analyzed 1 file(s) in src/math.ts'),
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Local Provider Tests
+ * Unit tests for the self-hosted OpenAI-compatible provider
+ */
+
+import { LocalProvider } from '../../backend/src/providers/local.provider';
+import { createMLProvider } from '../../backend/src/providers/ml-provider.factory';
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: jest.fn().mockResolvedValue(body),
+    text: jest.fn().mockResolvedValue(JSON.stringify(body)),
+  } as unknown as Response;
+}
+
+const modelList = jsonResponse({
+  data: [
+    { id: 'qwen2.5-coder:7b' },
+    { id: 'nomic-embed-text' },
+    { id: 'llama3.1' },
+  ],
+});
+
+describe('LocalProvider', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  it('should discover chat models on initialize and leave out embedding models', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(modelList);
+    const provider = new LocalProvider({
+      endpoint: 'http://gpu-box:8000/v1/',
+    });
+
+    // Act
+    const result = await provider.initialize({ enabled: true });
+
+    // Assert
+    expect(result).toEqual({ success: true, data: true });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://gpu-box:8000/v1/models',
+      expect.objectContaining({ method: 'GET' })
+    );
+    expect(provider.supportedModels.map(model => model.id)).toEqual([
+      'llama3.1',
+      'qwen2.5-coder:7b',
+    ]);
+    expect(provider.supportedModels[1].capabilities).toContain(
+      'code-completion'
+    );
+    expect(provider.supportedModels[0].costPer1kTokens).toEqual({
+      input: 0,
+      output: 0,
+    });
+  });
+
+  it('should send chat completions to the local endpoint at no cost', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        choices: [{ message: { content: 'Hello from llama' } }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      })
+    );
+    const provider = new LocalProvider({ model: 'llama3.1', apiKey: 'proxy' });
+
+    // Act
+    const result = await provider.chat({
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    // Assert
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer proxy');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: false,
+    });
+    expect(result).toEqual({
+      success: true,
+      data: {
+        content: 'Hello from llama',
+        model: 'llama3.1',
+        provider: 'local',
+        toolCalls: undefined,
+        usage: {
+          promptTokens: 5,
+          completionTokens: 3,
+          totalTokens: 8,
+          cost: 0,
+        },
+      },
+    });
+  });
+
+  it('should create embeddings with the configured embedding model', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        data: [{ embedding: [0.1, 0.2, 0.3] }],
+        usage: { total_tokens: 4 },
+      })
+    );
+    const provider = new LocalProvider({ embeddingModel: 'nomic-embed-text' });
+
+    // Act
+    const result = await provider.generateEmbedding('some code');
+
+    // Assert
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      model: 'nomic-embed-text',
+      input: 'some code',
+    });
+    expect(result).toEqual({
+      success: true,
+      data: {
+        embedding: [0.1, 0.2, 0.3],
+        usage: { tokens: 4 },
+        metadata: { model: 'nomic-embed-text' },
+      },
+    });
+  });
+
+  it('should report an unreachable server as a retryable connection error', async () => {
+    // Arrange
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const provider = new LocalProvider();
+
+    // Act
+    const models = await provider.getSupportedModels();
+    const health = await provider.checkHealth();
+
+    // Assert
+    expect(models).toMatchObject({
+      success: false,
+      error: { code: 'CONNECTION_ERROR', retryable: true },
+    });
+    expect(health.success && health.data.status).toBe('unhealthy');
+  });
+
+  it('should be created by the ML provider factory for the local type', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(modelList);
+
+    // Act
+    const result = await createMLProvider({
+      name: 'local-test',
+      type: 'local',
+      endpoint: 'http://localhost:8080/v1',
+      enabled: true,
+      priority: 1,
+      retryAttempts: 1,
+      timeoutMs: 5000,
+    });
+
+    // Assert
+    expect(result.success && result.data).toBeInstanceOf(LocalProvider);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/models');
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * MCP HTTP Transport Tests
+ * Unit tests for remote MCP sessions with per-client API key auth
+ */
+
+import { createHash } from 'crypto';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { PrismaClient } from '@prisma/client';
+import { MCPServer } from '../../backend/src/mcp/mcp-server';
+import { MCPResourceProvider } from '../../backend/src/mcp/mcp-resources';
+import { CommandSandbox } from '../../backend/src/mcp/command-sandbox';
+import {
+  MCPHttpSessions,
+  mcpHttpOptionsFromEnv,
+} from '../../backend/src/mcp/mcp-http';
+import { createMCPRoutes } from '../../backend/src/routes/mcp.routes';
+import { requireAdminApiKey } from '../../backend/src/middleware/api-key-auth';
+
+const REVIEWER_KEY = 'reviewer-key';
+const QA_KEY = 'qa-key';
+const ADMIN_KEY = 'admin-key';
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function mockStore() {
+  return {
+    projectFile: {
+      findMany: jest.fn().mockResolvedValue([
+        {
+          id: 'file-1',
+          projectId: 'proj-1',
+          originalName: 'brief.md',
+          category: 'input',
+          mimeType: 'text/markdown',
+        },
+        {
+          id: 'file-2',
+          projectId: 'proj-2',
+          originalName: 'secret.md',
+          category: 'input',
+          mimeType: 'text/markdown',
+        },
+      ]),
+      findFirst: jest.fn().mockResolvedValue(null),
+    },
+    workflowStepApproval: { findMany: jest.fn().mockResolvedValue([]) },
+    mockupApproval: { findMany: jest.fn().mockResolvedValue([]) },
+    knowledgeEntry: { findMany: jest.fn().mockResolvedValue([]) },
+  };
+}
+
+describe('MCP HTTP transport', () => {
+  let httpServer: Server;
+  let sessions: MCPHttpSessions;
+  let url: URL;
+  let store: ReturnType<typeof mockStore>;
+  let clients: Client[];
+  let root: string;
+
+  beforeEach(async () => {
+    store = mockStore();
+    clients = [];
+    root = mkdtempSync(path.join(tmpdir(), 'mcp-http-'));
+    const projectsRoot = path.join(root, 'projects');
+    mkdirSync(path.join(projectsRoot, 'proj-1'), { recursive: true });
+    mkdirSync(path.join(projectsRoot, 'proj-10'));
+    writeFileSync(path.join(root, '.env'), 'DATABASE_URL=secret');
+    writeFileSync(path.join(projectsRoot, 'proj-1', 'README.md'), '# Proj 1');
+    writeFileSync(path.join(projectsRoot, 'proj-10', 'notes.md'), 'private');
+    symlinkSync(
+      path.join(root, '.env'),
+      path.join(projectsRoot, 'proj-1', 'env-link')
+    );
+    const mcpServer = new MCPServer({} as unknown as PrismaClient, {
+      resourceProvider: new MCPResourceProvider(
+        store as unknown as PrismaClient
+      ),
+      commandSandbox: new CommandSandbox(
+        { auditLog: { create: jest.fn() } } as unknown as PrismaClient,
+        { workspaceRoot: root, projectsRoot }
+      ),
+    });
+    mcpServer.registerTool({
+      name: 'qa_checklist',
+      description: 'QA only',
+      category: 'analysis',
+      agentTypes: ['qa-engineer'],
+      permissions: [],
+      inputSchema: { type: 'object', properties: {} },
+      handler: async (_, context) => ({ success: true, data: context }),
+    });
+    sessions = new MCPHttpSessions(() => mcpServer.createProtocolServer(), {
+      maxSessions: 2,
+      clients: [
+        {
+          name: 'anna-ide',
+          agentType: 'microsoft-reviewer',
+          keyHash: sha256(REVIEWER_KEY),
+          userId: 'user-anna',
+          projectId: 'proj-1',
+        },
+        { name: 'qa-ide', agentType: 'qa-engineer', keyHash: sha256(QA_KEY) },
+        { name: 'ops', agentType: 'admin', keyHash: sha256(ADMIN_KEY) },
+      ],
+    });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/mcp/servers', requireAdminApiKey(sessions), (req, res) => {
+      res.json({ client: (req as { auth?: { clientId: string } }).auth });
+    });
+    app.use('/api/mcp', createMCPRoutes(sessions));
+    httpServer = app.listen(0);
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    const { port } = httpServer.address() as AddressInfo;
+    url = new URL(`http://127.0.0.1:${port}/api/mcp`);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await sessions.close();
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  async function connect(key: string) {
+    const client = new Client({ name: 'remote-ide', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${key}` } },
+    });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  it('should give a client only the tools and resources of its agent and project', async () => {
+    // Arrange
+    const { client } = await connect(REVIEWER_KEY);
+
+    // Act
+    const { tools } = await client.listTools();
+    const { resources } = await client.listResources();
+    const spoofed = await client.callTool({
+      name: 'execute_terminal_command',
+      arguments: { command: 'npm test', _agentId: 'senior-developer' },
+    });
+    const qaOnly = await client.callTool({
+      name: 'qa_checklist',
+      arguments: {},
+    });
+    const otherProject = client.readResource({
+      uri: 'thinkcode://projects/proj-2/files/file-2',
+    });
+    const { client: projectless } = await connect(QA_KEY);
+    const projectlessList = await projectless.listResources();
+    const projectlessRead = projectless.readResource({
+      uri: 'thinkcode://projects/proj-1/files/file-1',
+    });
+
+    // Assert
+    const names = tools.map(tool => tool.name);
+    expect(names).toEqual(
+      expect.arrayContaining(['read_workspace_file', 'analyze_code'])
+    );
+    expect(names).not.toContain('execute_terminal_command');
+    expect(names).not.toContain('qa_checklist');
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'thinkcode://projects/proj-1/files/file-1',
+    ]);
+    expect(spoofed).toMatchObject({
+      isError: true,
+      content: [
+        {
+          text: 'Tool execution failed: Tool execute_terminal_command not available for agent microsoft-reviewer',
+        },
+      ],
+    });
+    expect(qaOnly).toMatchObject({
+      isError: true,
+      content: [
+        {
+          text: 'Tool execution failed: Tool qa_checklist not available for agent microsoft-reviewer',
+        },
+      ],
+    });
+    await expect(otherProject).rejects.toThrow(/Resource not found/);
+    expect(projectlessList.resources).toEqual([]);
+    await expect(projectlessRead).rejects.toThrow(/Resource not found/);
+    expect(store.projectFile.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('should confine file tools to the project workspace and withhold query_database', async () => {
+    // Arrange
+    const { client } = await connect(REVIEWER_KEY);
+    const { client: projectless } = await connect(QA_KEY);
+    const text = (result: Awaited<ReturnType<Client['callTool']>>) =>
+      (result.content as { text: string }[])[0].text;
+
+    // Act
+    const { tools } = await client.listTools();
+    const readme = await client.callTool({
+      name: 'read_workspace_file',
+      arguments: { filePath: 'README.md' },
+    });
+    const escapes = await Promise.all(
+      ['../../.env', '../proj-10/notes.md', 'env-link'].map(filePath =>
+        client.callTool({
+          name: 'read_workspace_file',
+          arguments: { filePath },
+        })
+      )
+    );
+    const search = await client.callTool({
+      name: 'search_workspace_files',
+      arguments: { pattern: '../**/*' },
+    });
+    const query = await client.callTool({
+      name: 'query_database',
+      arguments: { query: 'SELECT 1' },
+    });
+    const noProject = await projectless.callTool({
+      name: 'read_workspace_file',
+      arguments: { filePath: 'README.md' },
+    });
+
+    // Assert
+    expect(tools.map(tool => tool.name)).not.toContain('query_database');
+    expect(readme.isError).toBe(false);
+    expect(text(readme)).toContain('# Proj 1');
+    for (const escape of escapes) {
+      expect(escape.isError).toBe(true);
+      expect(text(escape)).not.toContain('secret');
+    }
+    expect(text(search)).not.toMatch(/notes\.md|\.env/);
+    expect(text(query)).toBe(
+      'Tool execution failed: Tool query_database is not available to remote clients'
+    );
+    expect(noProject.isError).toBe(true);
+    expect(text(noProject)).toContain(
+      'remote clients need a project workspace'
+    );
+  });
+
+  it('should run only single read-only queries with bound parameters', async () => {
+    // Arrange
+    const prisma = { $queryRawUnsafe: jest.fn().mockResolvedValue([{ n: 1 }]) };
+    const mcpServer = new MCPServer(prisma as unknown as PrismaClient);
+    const run = (query: string, params?: unknown[]) =>
+      mcpServer.executeTool('query_database', { query, params }, {});
+
+    // Act
+    const rows = await run('SELECT name FROM projects WHERE id = ?;', [
+      'proj-1',
+    ]);
+    const refused = await Promise.all([
+      run('DELETE FROM projects'),
+      run('SELECT 1; DROP TABLE projects'),
+      run("WITH x AS (SELECT 1) UPDATE projects SET name = 'x'"),
+      run('SELECT 1 -- comment'),
+      run('SELECT ?', [{ raw: 'x' }]),
+    ]);
+
+    // Assert
+    expect(rows).toMatchObject({ success: true, data: { result: [{ n: 1 }] } });
+    expect(prisma.$queryRawUnsafe).toHaveBeenCalledTimes(1);
+    expect(prisma.$queryRawUnsafe).toHaveBeenCalledWith(
+      'SELECT * FROM (SELECT name FROM projects WHERE id = ?) LIMIT 100',
+      'proj-1'
+    );
+    expect(refused.map(result => result.success)).toEqual([
+      false,
+      false,
+      false,
+      false,
+      false,
+    ]);
+  });
+
+  it('should run tools with the execution context of the authenticated client', async () => {
+    // Arrange
+    const { client, transport } = await connect(QA_KEY);
+
+    // Act
+    const result = await client.callTool({
+      name: 'qa_checklist',
+      arguments: { _agentId: 'devops-engineer' },
+    });
+
+    // Assert
+    expect(result.isError).toBe(false);
+    expect(JSON.parse((result.content as { text: string }[])[0].text)).toEqual({
+      agentId: 'qa-engineer',
+      clientId: 'qa-ide',
+      sessionId: transport.sessionId,
+    });
+  });
+
+  it('should reject missing or unknown keys, foreign sessions and excess sessions', async () => {
+    // Arrange
+    const { transport } = await connect(QA_KEY);
+    await connect(QA_KEY);
+    const ping = { jsonrpc: '2.0', id: 1, method: 'ping' };
+    const post = (headers: Record<string, string>, body: unknown = ping) =>
+      fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...headers,
+        },
+        body: JSON.stringify(body),
+      });
+
+    // Act
+    const missing = await post({});
+    const unknown = await post({ 'X-API-Key': 'guess' });
+    const noSession = await post({ 'X-API-Key': QA_KEY });
+    const foreign = await post({
+      Authorization: `Bearer ${REVIEWER_KEY}`,
+      'Mcp-Session-Id': transport.sessionId as string,
+    });
+    const overLimit = await post(
+      { 'X-API-Key': REVIEWER_KEY },
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'third', version: '1.0.0' },
+        },
+      }
+    );
+
+    // Assert
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+    expect(unknown.status).toBe(401);
+    expect(noSession.status).toBe(400);
+    expect(foreign.status).toBe(404);
+    expect(overLimit.status).toBe(503);
+    expect(await overLimit.json()).toMatchObject({
+      jsonrpc: '2.0',
+      error: { data: { code: 'MCP_SESSION_LIMIT_REACHED' } },
+    });
+  });
+
+  it('should admit only admin keys to admin routes and keep them out of sessions', async () => {
+    // Arrange
+    const servers = new URL('servers', `${url.href}/`);
+    const get = (key: string) =>
+      fetch(servers, { headers: { 'X-API-Key': key } });
+
+    // Act
+    const anonymous = await fetch(servers);
+    const agent = await get(QA_KEY);
+    const admin = await get(ADMIN_KEY);
+    const adminSession = connect(ADMIN_KEY);
+
+    // Assert
+    expect(anonymous.status).toBe(401);
+    expect(agent.status).toBe(401);
+    expect(admin.status).toBe(200);
+    expect(await admin.json()).toMatchObject({ client: { clientId: 'ops' } });
+    await expect(adminSession).rejects.toThrow(/Invalid API key/);
+  });
+
+  it('should close sessions on DELETE and when idle', async () => {
+    // Arrange
+    const first = await connect(QA_KEY);
+    await connect(REVIEWER_KEY);
+
+    // Act
+    await first.transport.terminateSession();
+    const afterDelete = sessions.getSessionCount();
+    await sessions.sweep(Date.now() + 31 * 60 * 1000);
+
+    // Assert
+    expect(afterDelete).toBe(1);
+    expect(sessions.getSessionCount()).toBe(0);
+  });
+
+  it('should read clients from the environment and skip malformed ones', () => {
+    // Arrange
+    const previous = process.env.MCP_HTTP_CLIENTS;
+    process.env.MCP_HTTP_CLIENTS = [
+      `anna-ide=senior-developer,${sha256('a').toUpperCase()},user-anna,proj-1`,
+      `ci=qa-engineer,${sha256('b')}`,
+      'broken=qa-engineer,not-a-hash',
+    ].join(';');
+
+    // Act
+    const options = mcpHttpOptionsFromEnv();
+    process.env.MCP_HTTP_CLIENTS = previous;
+
+    // Assert
+    expect(options.clients).toEqual([
+      {
+        name: 'anna-ide',
+        agentType: 'senior-developer',
+        keyHash: sha256('a'),
+        userId: 'user-anna',
+        projectId: 'proj-1',
+      },
+      { name: 'ci', agentType: 'qa-engineer', keyHash: sha256('b') },
+    ]);
+  });
+});
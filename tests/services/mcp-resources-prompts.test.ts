@@ -0,0 +1,233 @@
+/**
+ * MCP Resources and Prompts Tests
+ * Unit tests for project context resources, subscriptions and prompts
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { PrismaClient } from '@prisma/client';
+import { MCPServer } from '../../backend/src/mcp/mcp-server';
+import {
+  MCPResourceProvider,
+  ResourceSubscriptions,
+  parseResourceUri,
+} from '../../backend/src/mcp/mcp-resources';
+import {
+  PROMPT_TEMPLATES,
+  renderPrompt,
+} from '../../backend/src/mcp/mcp-prompts';
+
+function mockStore() {
+  return {
+    projectFile: {
+      findMany: jest.fn().mockResolvedValue([
+        {
+          id: 'file-1',
+          projectId: 'proj-1',
+          originalName: 'brief.pdf',
+          category: 'input',
+          mimeType: 'application/pdf',
+        },
+      ]),
+      findFirst: jest.fn().mockResolvedValue(null),
+    },
+    workflowStepApproval: {
+      findMany: jest.fn().mockResolvedValue([
+        {
+          id: 'appr-1',
+          projectId: 'proj-1',
+          stepName: 'Architecture',
+          status: 'approved',
+        },
+      ]),
+      findFirst: jest.fn().mockResolvedValue({
+        id: 'appr-1',
+        projectId: 'proj-1',
+        workflowRunId: 'run-1',
+        stepId: 'architecture',
+        stepName: 'Architecture',
+        status: 'approved',
+        approvedBy: 'anna',
+        comments: 'Ship it',
+      }),
+    },
+    workflowStepExecution: {
+      findFirst: jest
+        .fn()
+        .mockResolvedValue({ output: { pattern: 'modular monolith' } }),
+    },
+    mockupApproval: { findMany: jest.fn().mockResolvedValue([]) },
+    knowledgeEntry: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findFirst: jest.fn().mockResolvedValue({
+        id: 'kb-1',
+        title: 'Caching',
+        content: 'Cache by prompt hash.',
+        url: 'https://example.com/caching',
+      }),
+    },
+  };
+}
+
+async function connect(store = mockStore()) {
+  const server = new MCPServer({} as unknown as PrismaClient, {
+    resourceProvider: new MCPResourceProvider(store as unknown as PrismaClient),
+  });
+  const client = new Client({ name: 'test-editor', version: '1.0.0' });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return { client, store };
+}
+
+describe('MCP resources and prompts', () => {
+  it('should list project context as thinkcode:// resources and read approved artifacts', async () => {
+    // Arrange
+    const { client, store } = await connect();
+
+    // Act
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+    const artifact = await client.readResource({
+      uri: 'thinkcode://projects/proj-1/artifacts/appr-1',
+    });
+    const knowledge = await client.readResource({
+      uri: 'thinkcode://knowledge/kb-1',
+    });
+
+    // Assert
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'thinkcode://projects/proj-1/files/file-1',
+      'thinkcode://projects/proj-1/steps/appr-1/conversation',
+      'thinkcode://projects/proj-1/artifacts/appr-1',
+    ]);
+    expect(resourceTemplates).toHaveLength(5);
+    expect(store.workflowStepApproval.findFirst).toHaveBeenCalledWith({
+      where: { id: 'appr-1', projectId: 'proj-1', status: 'approved' },
+    });
+    expect(JSON.parse(artifact.contents[0].text as string)).toMatchObject({
+      step: 'Architecture',
+      approvedBy: 'anna',
+      output: { pattern: 'modular monolith' },
+    });
+    expect(knowledge.contents[0]).toMatchObject({
+      mimeType: 'text/markdown',
+      text: expect.stringContaining('# Caching'),
+    });
+    await client.close();
+  });
+
+  it('should reject unknown resources', async () => {
+    // Arrange
+    const { client } = await connect();
+
+    // Act
+    const read = client.readResource({
+      uri: 'thinkcode://projects/proj-1/files/missing',
+    });
+
+    // Assert
+    await expect(read).rejects.toThrow(/Resource not found/);
+    expect(parseResourceUri('thinkcode://projects/p/steps/a')).toBeUndefined();
+    expect(parseResourceUri('file:///etc/passwd')).toBeUndefined();
+    await client.close();
+  });
+
+  it('should accept subscriptions and report changed or removed resources', async () => {
+    // Arrange
+    const { client } = await connect();
+    const versions: Record<string, (string | undefined)[]> = {
+      'thinkcode://knowledge/kb-1': ['v1', 'v1', 'v2'],
+      'thinkcode://knowledge/kb-2': ['v1', undefined],
+    };
+    const onUpdated = jest.fn();
+    const subscriptions = new ResourceSubscriptions(
+      async uri => versions[uri].shift(),
+      onUpdated
+    );
+
+    // Act
+    const subscribed = await client.subscribeResource({
+      uri: 'thinkcode://knowledge/kb-1',
+    });
+    await subscriptions.subscribe('thinkcode://knowledge/kb-1');
+    await subscriptions.subscribe('thinkcode://knowledge/kb-2');
+    await subscriptions.poll();
+    subscriptions.unsubscribe('thinkcode://knowledge/kb-2');
+    await subscriptions.poll();
+    subscriptions.stop();
+
+    // Assert
+    expect(subscribed).toEqual({});
+    expect(onUpdated.mock.calls).toEqual([
+      ['thinkcode://knowledge/kb-2'],
+      ['thinkcode://knowledge/kb-1'],
+    ]);
+    await client.close();
+  });
+
+  it('should expose agent prompt templates with arguments', async () => {
+    // Arrange
+    const { client } = await connect();
+
+    // Act
+    const { prompts } = await client.listPrompts();
+    const prompt = await client.getPrompt({
+      name: 'qa-engineer.test-suite',
+      arguments: {
+        feature: 'Checkout',
+        specifications: '{"paymentMethods": ["card"]}',
+      },
+    });
+    const missing = client.getPrompt({
+      name: 'qa-engineer.test-suite',
+      arguments: { feature: 'Checkout' },
+    });
+
+    // Assert
+    expect(prompts.find(p => p.name === 'qa-engineer.test-suite')).toEqual({
+      name: 'qa-engineer.test-suite',
+      description: 'Design a test suite for a feature',
+      arguments: [
+        { name: 'feature', description: 'Text', required: true },
+        {
+          name: 'specifications',
+          description: 'JSON object',
+          required: true,
+        },
+      ],
+    });
+    expect(prompt.messages[0].content).toMatchObject({
+      type: 'text',
+      text: expect.stringContaining('Checkout'),
+    });
+    await expect(missing).rejects.toThrow(/specifications/);
+    await client.close();
+  });
+
+  it('should render every prompt template from its required arguments', () => {
+    // Arrange
+    const samples = { text: 'Checkout', object: '{}', list: '[]' };
+
+    // Act
+    const rendered = PROMPT_TEMPLATES.map(prompt => ({
+      name: prompt.name,
+      result: renderPrompt(
+        prompt.name,
+        Object.fromEntries(
+          prompt.arguments.map(arg => [arg.name, samples[arg.kind]])
+        )
+      ),
+    }));
+
+    // Assert
+    expect(rendered).toHaveLength(39);
+    rendered.forEach(({ name, result }) =>
+      expect({ name, success: result.success }).toEqual({
+        name,
+        success: true,
+      })
+    );
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Provider Circuit Breaker Tests
+ * Unit tests for per provider/model breakers and health-aware routing
+ */
+
+import {
+  CircuitBreaker,
+  CircuitBreakingProvider,
+  ProviderCircuits,
+} from '../../backend/src/services/provider-circuit-breaker';
+import {
+  UniversalProviderRegistry,
+  providerRegistry,
+} from '../../backend/src/services/provider-registry.service';
+import { UnifiedAIChatService } from '../../backend/src/services/unified-ai-chat.service';
+import { agentModelAssignmentService } from '../../backend/src/services/agent-model-assignment.service';
+import {
+  AIProvider,
+  ModelInfo,
+  Result,
+} from '../../backend/src/types/ai-provider.types';
+
+const failure: Result<any> = {
+  success: false,
+  error: { code: 'HTTP_503', message: 'Service unavailable' },
+};
+
+function model(id: string, provider: string): ModelInfo {
+  return {
+    id,
+    name: id,
+    provider,
+    capabilities: ['chat'],
+    contextWindow: 8000,
+    maxTokens: 2048,
+    costPer1kTokens: { input: 1, output: 1 },
+    specializations: ['code-generation'],
+  };
+}
+
+function fakeProvider(
+  id: string,
+  results: Result<any>[] = []
+): AIProvider & { chat: jest.Mock } {
+  const chat = jest.fn();
+  results.forEach(result => chat.mockResolvedValueOnce(result));
+  chat.mockResolvedValue({
+    success: true,
+    data: { content: `from ${id}`, model: 'm', provider: id },
+  });
+  return {
+    id,
+    name: id,
+    type: 'custom',
+    supportedModels: [model('m', id)],
+    initialize: jest.fn().mockResolvedValue({ success: true, data: true }),
+    chat,
+    chatStream: jest.fn(),
+    checkHealth: jest.fn().mockResolvedValue({
+      success: true,
+      data: { status: 'healthy', provider: id, details: {} },
+    }),
+    getAvailableModels: jest
+      .fn()
+      .mockResolvedValue({ success: true, data: [model('m', id)] }),
+  } as unknown as AIProvider & { chat: jest.Mock };
+}
+
+const request = {
+  model: 'm',
+  messages: [{ role: 'user' as const, content: 'Hi' }],
+};
+
+describe('provider circuit breakers', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should open on a high error rate and fail fast while open', async () => {
+    // Arrange
+    const provider = fakeProvider('primary', [failure, failure]);
+    const registry = new UniversalProviderRegistry({ minimumCalls: 2 });
+    const changes: string[] = [];
+    registry.onCircuitStateChange(change =>
+      changes.push(`${change.provider}/${change.model}:${change.to}`)
+    );
+    await registry.registerProvider(provider);
+    const wrapped = await registry.getProvider('primary');
+    const breaking = wrapped.success ? wrapped.data : provider;
+
+    // Act
+    await breaking.chat(request);
+    await breaking.chat(request);
+    const rejected = await breaking.chat(request);
+
+    // Assert
+    expect(rejected).toMatchObject({
+      success: false,
+      error: { code: 'CIRCUIT_OPEN', provider: 'primary', model: 'm' },
+    });
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+    expect(changes).toEqual(['primary/m:open']);
+    expect(registry.isAvailable('primary', 'm')).toBe(false);
+    expect(registry.isAvailable('primary', 'other-model')).toBe(true);
+  });
+
+  it('should let one trial call through after the cool-down and close on success', () => {
+    // Arrange
+    let now = 0;
+    const breaker = new CircuitBreaker(
+      { minimumCalls: 1, openDurationMs: 1000 },
+      undefined,
+      () => now
+    );
+    breaker.recordFailure(10);
+
+    // Act
+    const whileOpen = breaker.tryAcquire();
+    now = 1000;
+    const trial = breaker.tryAcquire();
+    const secondTrial = breaker.tryAcquire();
+    breaker.recordSuccess(10);
+
+    // Assert
+    expect(whileOpen).toBe(false);
+    expect(trial).toBe(true);
+    expect(secondTrial).toBe(false);
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', calls: 0 });
+  });
+
+  it('should end half-open trials whose call throws or stream stops early', async () => {
+    // Arrange
+    let now = 0;
+    const provider = fakeProvider('primary');
+    provider.chat.mockRejectedValueOnce(new Error('socket hang up'));
+    (provider.chatStream as jest.Mock)
+      .mockImplementationOnce(async function* () {
+        throw new Error('stream reset');
+      })
+      .mockImplementationOnce(async function* () {
+        // Ends without an event
+      });
+    const circuits = new ProviderCircuits(
+      'primary',
+      { minimumCalls: 1, openDurationMs: 1000 },
+      undefined,
+      () => now
+    );
+    const breaking = new CircuitBreakingProvider(provider, circuits, () => now);
+    const breaker = circuits.get('m');
+    const drain = async () => {
+      for await (const event of breaking.chatStream(request)) {
+        expect(event).toBeUndefined();
+      }
+    };
+    breaker.recordFailure(10);
+
+    // Act
+    now = 1000;
+    const thrown = breaking.chat(request);
+    await expect(thrown).rejects.toThrow('socket hang up');
+    const afterChat = breaker.getStatus().state;
+    now = 2000;
+    await expect(drain()).rejects.toThrow('stream reset');
+    const afterStream = breaker.getStatus().state;
+    now = 3000;
+    await drain();
+
+    // Assert
+    expect(afterChat).toBe('open');
+    expect(afterStream).toBe('open');
+    expect(breaker.getStatus().state).toBe('half-open');
+    expect(breaker.isCallPermitted()).toBe(true);
+  });
+
+  it('should open when too many calls are slow', () => {
+    // Arrange
+    const breaker = new CircuitBreaker({
+      minimumCalls: 4,
+      slowCallThresholdMs: 5000,
+      slowCallRateThreshold: 0.5,
+    });
+
+    // Act
+    breaker.recordSuccess(100);
+    breaker.recordSuccess(100);
+    breaker.recordSuccess(6000);
+    const beforeThreshold = breaker.getStatus().state;
+    breaker.recordSuccess(7000);
+
+    // Assert
+    expect(beforeThreshold).toBe('closed');
+    expect(breaker.getStatus()).toMatchObject({
+      state: 'open',
+      slowCallRate: 0.5,
+      failureRate: 0,
+    });
+  });
+
+  it('should report breakers in stats and skip open circuits when picking a model', async () => {
+    // Arrange
+    const registry = new UniversalProviderRegistry({ minimumCalls: 1 });
+    const down = fakeProvider('down', [failure]);
+    await registry.registerProvider(down);
+    await registry.registerProvider(fakeProvider('backup'));
+    const wrapped = await registry.getProvider('down');
+    await (wrapped.success ? wrapped.data : down).chat(request);
+
+    // Act
+    const best = await registry.findBestProviderForTask('code-generation', {
+      preferredProvider: 'down',
+    });
+    const stats = await registry.getProviderStats();
+
+    // Assert
+    expect(best.success && best.data.provider.id).toBe('backup');
+    expect(stats.success && stats.data.circuitBreakers.down.m).toMatchObject({
+      state: 'open',
+      calls: 1,
+      failureRate: 1,
+    });
+  });
+
+  it('should fall back past agent fallbacks whose circuit is open', async () => {
+    // Arrange
+    const providers: Record<string, AIProvider & { chat: jest.Mock }> = {
+      primary: fakeProvider('primary', [failure]),
+      down: fakeProvider('down'),
+      backup: fakeProvider('backup'),
+    };
+    jest
+      .spyOn(providerRegistry, 'getProvider')
+      .mockImplementation(async id => ({ success: true, data: providers[id] }));
+    jest
+      .spyOn(providerRegistry, 'isAvailable')
+      .mockImplementation(id => id !== 'down');
+    jest
+      .spyOn(agentModelAssignmentService, 'getOptimalProviderForTask')
+      .mockResolvedValue({
+        success: true,
+        data: { provider: 'primary', model: 'm' },
+      });
+    jest
+      .spyOn(agentModelAssignmentService, 'getFallbackProvidersForAgent')
+      .mockResolvedValue({
+        success: true,
+        data: [
+          { provider: 'down', model: 'm' },
+          { provider: 'backup', model: 'm' },
+        ],
+      });
+    const service = new UnifiedAIChatService();
+
+    // Act
+    const result = await service.chatForAgent('qa-engineer', request.messages);
+
+    // Assert
+    expect(result.success && result.data.content).toBe('from backup');
+    expect(result.success && result.data.metadata?.attemptNumber).toBe(2);
+    expect(providers.down.chat).not.toHaveBeenCalled();
+  });
+});
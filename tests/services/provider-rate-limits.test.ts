@@ -0,0 +1,160 @@
+/**
+ * Provider Rate Limit Tests
+ * Unit tests for the token-bucket limiter and rate-limited registry providers
+ */
+
+import { UniversalProviderRegistry } from '../../backend/src/services/provider-registry.service';
+import { TokenBucketLimiter } from '../../backend/src/services/provider-rate-limiter';
+import { parseRetryAfter } from '../../backend/src/providers/rate-limit';
+import { AIProvider, Result } from '../../backend/src/types/ai-provider.types';
+
+function fakeProvider(
+  chatResults: Result<any>[] = []
+): AIProvider & { chat: jest.Mock } {
+  const chat = jest.fn();
+  chatResults.forEach(result => chat.mockResolvedValueOnce(result));
+  chat.mockResolvedValue({
+    success: true,
+    data: {
+      content: 'ok',
+      model: 'm',
+      provider: 'groq',
+      usage: { promptTokens: 5, completionTokens: 5, totalTokens: 10 },
+    },
+  });
+  return {
+    id: 'groq',
+    name: 'Groq',
+    type: 'custom',
+    supportedModels: [],
+    initialize: jest.fn().mockResolvedValue({ success: true, data: true }),
+    chat,
+    chatStream: jest.fn(),
+    checkHealth: jest.fn().mockResolvedValue({
+      success: true,
+      data: { status: 'healthy', provider: 'groq', details: {} },
+    }),
+    getAvailableModels: jest
+      .fn()
+      .mockResolvedValue({ success: true, data: [] }),
+  } as unknown as AIProvider & { chat: jest.Mock };
+}
+
+const request = { messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+describe('provider rate limits', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should queue requests until the request bucket refills', async () => {
+    // Arrange
+    const limiter = new TokenBucketLimiter(
+      { requestsPerMinute: 2, tokensPerMinute: 10000 },
+      60000
+    );
+    const started: number[] = [];
+
+    // Act
+    const pending = [1, 2, 3].map(index =>
+      limiter.acquire(100).then(() => started.push(index))
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    const startedImmediately = [...started];
+    const depth = limiter.getStatus().queueDepth;
+    await jest.advanceTimersByTimeAsync(30000);
+    await Promise.all(pending);
+
+    // Assert
+    expect(startedImmediately).toEqual([1, 2]);
+    expect(depth).toBe(1);
+    expect(started).toEqual([1, 2, 3]);
+    expect(limiter.getStatus().queueDepth).toBe(0);
+  });
+
+  it('should reject requests that would wait longer than allowed', async () => {
+    // Arrange
+    const limiter = new TokenBucketLimiter(
+      { requestsPerMinute: 60, tokensPerMinute: 1000 },
+      5000
+    );
+    await limiter.acquire(1000);
+
+    // Act
+    const admitted = await limiter.acquire(500);
+
+    // Assert
+    expect(admitted).toBe(false);
+    expect(limiter.getStatus().queueDepth).toBe(0);
+  });
+
+  it('should hold requests for the Retry-After of a throttled response', async () => {
+    // Arrange
+    const provider = fakeProvider([
+      {
+        success: false,
+        error: { code: 'HTTP_429', message: 'slow down', retryAfterMs: 20000 },
+      },
+    ]);
+    const registry = new UniversalProviderRegistry();
+    await registry.registerProvider(provider);
+    const limited = await registry.getProvider('groq');
+    const wrapped = limited.success ? limited.data : provider;
+
+    // Act
+    await wrapped.chat(request);
+    const retry = wrapped.chat(request);
+    await jest.advanceTimersByTimeAsync(19000);
+    const callsWhilePaused = provider.chat.mock.calls.length;
+    await jest.advanceTimersByTimeAsync(1000);
+    await retry;
+
+    // Assert
+    expect(callsWhilePaused).toBe(1);
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail fast with RATE_LIMITED and report queue depth in stats', async () => {
+    // Arrange
+    const provider = fakeProvider();
+    const registry = new UniversalProviderRegistry();
+    await registry.registerProvider(provider, {
+      rateLimits: { requestsPerMinute: 2, tokensPerMinute: 100000 },
+    });
+    const limited = await registry.getProvider('groq');
+    const wrapped = limited.success ? limited.data : provider;
+
+    // Act
+    await Promise.all([wrapped.chat(request), wrapped.chat(request)]);
+    const queued = wrapped.chat(request);
+    const rejected = await wrapped.chat(request);
+    const stats = await registry.getProviderStats();
+    await jest.advanceTimersByTimeAsync(30000);
+    await queued;
+
+    // Assert
+    expect(rejected).toMatchObject({
+      success: false,
+      error: { code: 'RATE_LIMITED', provider: 'groq' },
+    });
+    expect(stats.success && stats.data.rateLimits.groq.queueDepth).toBe(1);
+    expect(provider.chat).toHaveBeenCalledTimes(3);
+  });
+
+  it('should read Retry-After in seconds, ms and HTTP dates', () => {
+    // Act & Assert
+    expect(parseRetryAfter(new Headers({ 'retry-after': '7' }))).toBe(7000);
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '250' }))).toBe(250);
+    expect(
+      parseRetryAfter(
+        new Headers({ 'retry-after': 'Thu, 01 Jan 2026 00:00:10 GMT' }),
+        Date.parse('Thu, 01 Jan 2026 00:00:00 GMT')
+      )
+    ).toBe(10000);
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Record/Replay Provider Tests
+ * Unit tests for recording provider responses to fixtures and replaying them
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  RecordReplayMLProvider,
+  RecordReplayProvider,
+  ReplayMode,
+  fixtureKey,
+  mlFixtureKey,
+  recordReplayOptionsFromEnv,
+} from '../../backend/src/providers/record-replay.provider';
+import { MLProviderFactory } from '../../backend/src/providers/ml-provider.factory';
+import { IMLProvider } from '../../backend/src/providers/ml-provider.interface';
+import {
+  AIProvider,
+  ChatRequest,
+  ChatStreamEvent,
+} from '../../backend/src/types/ai-provider.types';
+
+function fakeProvider(): AIProvider & {
+  chat: jest.Mock;
+  initialize: jest.Mock;
+} {
+  return {
+    id: 'deepseek',
+    name: 'DeepSeek',
+    type: 'deepseek',
+    supportedModels: [],
+    initialize: jest.fn().mockResolvedValue({ success: true, data: true }),
+    chat: jest.fn().mockResolvedValue({
+      success: true,
+      data: {
+        content: 'Use PostgreSQL',
+        model: 'deepseek-chat',
+        provider: 'deepseek',
+      },
+    }),
+    chatStream: jest.fn(),
+    checkHealth: jest.fn(),
+    getAvailableModels: jest.fn(),
+  } as unknown as AIProvider & { chat: jest.Mock; initialize: jest.Mock };
+}
+
+const request: ChatRequest = {
+  model: 'deepseek-chat',
+  messages: [{ role: 'user', content: 'Which database   should we use?' }],
+};
+
+async function collect(stream: AsyncGenerator<ChatStreamEvent>) {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('RecordReplayProvider', () => {
+  let fixturesDir: string;
+
+  const create = (provider: AIProvider, mode: ReplayMode) =>
+    new RecordReplayProvider(provider, { mode, fixturesDir });
+
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('should record live responses and replay them without calling the provider', async () => {
+    // Arrange
+    const live = fakeProvider();
+    const recorder = create(live, 'record');
+    await recorder.initialize({ enabled: true });
+    await recorder.chat(request);
+    const offline = fakeProvider();
+    const replayer = create(offline, 'strict');
+    await replayer.initialize({ enabled: true });
+
+    // Act
+    const replayed = await replayer.chat({
+      ...request,
+      maxTokens: 500,
+      messages: [{ role: 'user', content: ' Which database should\nwe use? ' }],
+    });
+
+    // Assert
+    const files = await fs.readdir(path.join(fixturesDir, 'deepseek'));
+    expect(files).toEqual([`${fixtureKey('deepseek', request)}.json`]);
+    expect(replayed).toEqual({
+      success: true,
+      data: {
+        content: 'Use PostgreSQL',
+        model: 'deepseek-chat',
+        provider: 'deepseek',
+      },
+    });
+    expect(offline.initialize).not.toHaveBeenCalled();
+    expect(offline.chat).not.toHaveBeenCalled();
+  });
+
+  it('should fail unrecorded prompts in strict mode', async () => {
+    // Arrange
+    const provider = fakeProvider();
+    const replayer = create(provider, 'strict');
+
+    // Act
+    const result = await replayer.chat(request);
+    const events = await collect(replayer.chatStream(request));
+
+    // Assert
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: 'REPLAY_FIXTURE_MISSING', provider: 'deepseek' },
+    });
+    expect(events).toEqual([
+      {
+        type: 'error',
+        error: expect.objectContaining({ code: 'REPLAY_FIXTURE_MISSING' }),
+      },
+    ]);
+    expect(provider.chat).not.toHaveBeenCalled();
+  });
+
+  it('should record missing fixtures in replay mode and replay them afterwards', async () => {
+    // Arrange
+    const provider = fakeProvider();
+    const replayer = create(provider, 'replay');
+    await replayer.initialize({ enabled: true });
+
+    // Act
+    await replayer.chat(request);
+    const events = await collect(replayer.chatStream(request));
+
+    // Assert
+    expect(provider.initialize).toHaveBeenCalledTimes(1);
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+    expect(events.map(event => event.type)).toEqual(['delta', 'done']);
+    expect(events[0]).toEqual({ type: 'delta', content: 'Use PostgreSQL' });
+  });
+
+  it('should key fixtures independently of timestamps and ids in prompts', () => {
+    // Arrange
+    const at = (timestamp: string, id: string): ChatRequest => ({
+      ...request,
+      messages: [
+        { role: 'user', content: `Run ${id} started at ${timestamp}` },
+      ],
+    });
+
+    // Act
+    const first = fixtureKey(
+      'deepseek',
+      at('2026-10-18T10:00:00.000Z', '3f2b7c1e-8a4d-4e2f-9b6a-1c2d3e4f5a6b')
+    );
+    const second = fixtureKey(
+      'deepseek',
+      at('2026-10-19T08:30:12Z', 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d')
+    );
+    const otherProvider = fixtureKey(
+      'groq',
+      at('2026-10-18T10:00:00.000Z', '3f2b7c1e-8a4d-4e2f-9b6a-1c2d3e4f5a6b')
+    );
+
+    // Assert
+    expect(first).toBe(second);
+    expect(otherProvider).not.toBe(first);
+  });
+
+  it('should read the mode and fixture directory from the environment', () => {
+    // Arrange
+    const env = { ...process.env };
+    process.env.AI_REPLAY_MODE = 'strict';
+    process.env.AI_REPLAY_FIXTURES = 'fixtures/ai';
+
+    // Act
+    const options = recordReplayOptionsFromEnv();
+    process.env.AI_REPLAY_MODE = 'sometimes';
+    const invalid = recordReplayOptionsFromEnv();
+    process.env = env;
+
+    // Assert
+    expect(options).toEqual({
+      mode: 'strict',
+      fixturesDir: path.resolve('fixtures/ai'),
+    });
+    expect(invalid).toBeUndefined();
+  });
+
+  describe('RecordReplayMLProvider', () => {
+    const mlProvider = () =>
+      ({
+        name: 'openai',
+        version: '1.0.0',
+        isAvailable: jest.fn().mockResolvedValue(false),
+        generateText: jest.fn().mockResolvedValue({
+          success: true,
+          data: {
+            text: 'Three user stories',
+            usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
+          },
+        }),
+      } as unknown as IMLProvider & { generateText: jest.Mock });
+
+    afterEach(() => {
+      MLProviderFactory.getInstance().clearCache();
+    });
+
+    it('should record generated text and replay it offline', async () => {
+      // Arrange
+      const live = mlProvider();
+      await new RecordReplayMLProvider(live, {
+        mode: 'record',
+        fixturesDir,
+      }).generateText('Write  stories for\nlogin', { model: 'gpt-4' });
+      const offline = mlProvider();
+      const replayer = new RecordReplayMLProvider(offline, {
+        mode: 'strict',
+        fixturesDir,
+      });
+
+      // Act
+      const available = await replayer.isAvailable();
+      const replayed = await replayer.generateText('Write stories for login', {
+        model: 'gpt-4',
+      });
+      const missing = await replayer.generateText('Write tests', {
+        model: 'gpt-4',
+      });
+
+      // Assert
+      const files = await fs.readdir(path.join(fixturesDir, 'openai'));
+      expect(files).toEqual([
+        `${mlFixtureKey('openai', 'Write stories for login', 'gpt-4')}.json`,
+      ]);
+      expect(available).toBe(true);
+      expect(replayed).toEqual({
+        success: true,
+        data: expect.objectContaining({ text: 'Three user stories' }),
+      });
+      expect(!missing.success && missing.error.code).toBe(
+        'REPLAY_FIXTURE_MISSING'
+      );
+      expect(offline.generateText).not.toHaveBeenCalled();
+    });
+
+    it('should wrap factory providers when a replay mode is set', async () => {
+      // Arrange
+      const env = { ...process.env };
+      process.env.AI_REPLAY_MODE = 'strict';
+      process.env.AI_REPLAY_FIXTURES = fixturesDir;
+
+      // Act
+      const created = await MLProviderFactory.getInstance().createProvider({
+        name: 'openai-primary',
+        type: 'openai',
+        apiKey: 'unused',
+        enabled: true,
+        priority: 1,
+        retryAttempts: 1,
+        timeoutMs: 1000,
+      });
+      process.env = env;
+
+      // Assert
+      expect(created.success && created.data).toBeInstanceOf(
+        RecordReplayMLProvider
+      );
+    });
+  });
+});
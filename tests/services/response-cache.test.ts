@@ -0,0 +1,290 @@
+/**
+ * Response Cache Tests
+ * Unit tests for exact and semantic caching of provider responses
+ */
+
+import { ResponseCacheService } from '../../backend/src/services/response-cache.service';
+import { UnifiedAIChatService } from '../../backend/src/services/unified-ai-chat.service';
+import { providerRegistry } from '../../backend/src/services/provider-registry.service';
+import { agentModelAssignmentService } from '../../backend/src/services/agent-model-assignment.service';
+import {
+  AgentToolLoop,
+  ToolSource,
+} from '../../backend/src/services/agent-tool-loop.service';
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResponse,
+} from '../../backend/src/types/ai-provider.types';
+
+const response: ChatResponse = {
+  content: 'Looks good',
+  model: 'gpt-4o',
+  provider: 'azure-openai',
+  usage: {
+    promptTokens: 100,
+    completionTokens: 20,
+    totalTokens: 120,
+    cost: 0.02,
+  },
+};
+
+function review(
+  content: string,
+  systemPrompt = 'You review code'
+): ChatRequest {
+  return {
+    model: 'gpt-4o',
+    systemPrompt,
+    messages: [{ role: 'user', content }],
+    context: { agentType: 'microsoft-reviewer', taskType: 'codeReview' },
+  };
+}
+
+describe('ResponseCacheService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should serve exact prompt matches and count hits and misses', async () => {
+    // Arrange
+    const cache = new ResponseCacheService();
+    const miss = await cache.lookup(review('Review file a.ts'));
+    await cache.store(review('Review file a.ts'), response);
+
+    // Act
+    const hit = await cache.lookup(review('Review file a.ts'));
+    const otherFile = await cache.lookup(review('Review file b.ts'));
+
+    // Assert
+    expect(miss).toBeUndefined();
+    expect(otherFile).toBeUndefined();
+    expect(hit).toEqual({
+      ...response,
+      metadata: { cached: true, cacheMatch: 'exact' },
+    });
+    expect(cache.getStats()).toMatchObject({
+      entries: 1,
+      hits: 1,
+      misses: 2,
+      hitRate: 1 / 3,
+      savedCost: 0.02,
+      byAgent: { 'microsoft-reviewer': { hits: 1, misses: 2 } },
+    });
+  });
+
+  it('should only match the exact prompt within one project and settings', async () => {
+    // Arrange
+    const cache = new ResponseCacheService();
+    const prompt = 'Summarize run 0b9a7c3e-1d2f-4a5b-8c6d-7e8f9a0b1c2d';
+    const base = review(prompt);
+    await cache.store(
+      { ...base, context: { ...base.context, projectId: 'proj-1' } },
+      response
+    );
+    const variants: ChatRequest[] = [
+      review('Summarize run 5f4e3d2c-1b0a-4f9e-8d7c-6b5a4f3e2d1c'),
+      review(`  ${prompt}`),
+      { ...base, context: { ...base.context, projectId: 'proj-2' } },
+      {
+        ...base,
+        context: { ...base.context, projectId: 'proj-1' },
+        temperature: 0.9,
+      },
+      {
+        ...base,
+        context: { ...base.context, projectId: 'proj-1' },
+        maxTokens: 10,
+      },
+      {
+        ...base,
+        context: { ...base.context, projectId: 'proj-1' },
+        responseFormat: { type: 'json' },
+      },
+    ];
+
+    // Act
+    const hit = await cache.lookup({
+      ...base,
+      context: { ...base.context, projectId: 'proj-1' },
+    });
+    const misses = await Promise.all(
+      variants.map(variant => cache.lookup(variant))
+    );
+
+    // Assert
+    expect(hit?.metadata).toEqual({ cached: true, cacheMatch: 'exact' });
+    expect(misses).toEqual(variants.map(() => undefined));
+  });
+
+  it('should expire entries after the agent TTL and honour opt-outs', async () => {
+    // Arrange
+    let now = 0;
+    const cache = new ResponseCacheService(
+      { agentTtlMs: { 'microsoft-reviewer': 1000, 'qa-engineer': 0 } },
+      () => now
+    );
+    const qa = {
+      ...review('Write tests'),
+      context: { agentType: 'qa-engineer', taskType: 'general' },
+    };
+    await cache.store(review('Review file a.ts'), response);
+    await cache.store(qa, response);
+
+    // Act
+    now = 999;
+    const fresh = await cache.lookup(review('Review file a.ts'));
+    const optedOut = await cache.lookup({
+      ...review('Review file a.ts'),
+      cache: false,
+    });
+    now = 1000;
+    const expired = await cache.lookup(review('Review file a.ts'));
+    const disabledAgent = await cache.lookup(qa);
+
+    // Assert
+    expect(fresh).toBeDefined();
+    expect(optedOut).toBeUndefined();
+    expect(expired).toBeUndefined();
+    expect(disabledAgent).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ entries: 0, bypassed: 2 });
+  });
+
+  it('should match near-identical prompts by embedding similarity within one template', async () => {
+    // Arrange
+    const vectors: Record<string, number[]> = {
+      'user: Review file a.ts': [1, 0, 0],
+      'user: Review the file a.ts': [0.99, 0.05, 0],
+      'user: Summarize the release notes': [0, 1, 0],
+    };
+    const cache = new ResponseCacheService({ similarityThreshold: 0.95 });
+    cache.configureEmbeddings({
+      generateEmbedding: jest.fn(async (text: string) => ({
+        success: true as const,
+        data: { embedding: vectors[text] },
+      })),
+    });
+    await cache.store(review('Review file a.ts'), response);
+
+    // Act
+    const similar = await cache.lookup(review('Review the file a.ts'));
+    const unrelated = await cache.lookup(review('Summarize the release notes'));
+    const newTemplate = await cache.lookup(
+      review('Review the file a.ts', 'You review code for security issues')
+    );
+
+    // Assert
+    expect(similar?.metadata).toEqual({ cached: true, cacheMatch: 'semantic' });
+    expect(unrelated).toBeUndefined();
+    expect(newTemplate).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ semanticHits: 1, misses: 2 });
+  });
+
+  it('should not cache tool calls and should invalidate per agent', async () => {
+    // Arrange
+    const cache = new ResponseCacheService();
+    const withTools: ChatRequest = {
+      ...review('Read a.ts'),
+      tools: [{ name: 'read_file', description: 'Read', inputSchema: {} }],
+    };
+    await cache.store(review('Review file a.ts'), response);
+    await cache.store(review('Review file b.ts'), {
+      ...response,
+      toolCalls: [{ id: 'call-1', name: 'read_file', arguments: {} }],
+    });
+    await cache.store(withTools, response);
+    await cache.store(review('Review file c.ts'), {
+      ...response,
+      metadata: { toolsUsed: ['read_workspace_file'] },
+    });
+
+    // Act
+    const entriesBefore = cache.getStats().entries;
+    const removedOther = cache.invalidate({ agentType: 'qa-engineer' });
+    const removed = cache.invalidate({ agentType: 'microsoft-reviewer' });
+
+    // Assert
+    expect(entriesBefore).toBe(1);
+    expect(removedOther).toBe(0);
+    expect(removed).toBe(1);
+    expect(await cache.lookup(review('Review file a.ts'))).toBeUndefined();
+  });
+
+  it('should answer repeated agent chats without calling the provider again', async () => {
+    // Arrange
+    const provider = {
+      id: 'azure-openai',
+      chat: jest.fn().mockResolvedValue({ success: true, data: response }),
+    } as unknown as AIProvider & { chat: jest.Mock };
+    jest
+      .spyOn(providerRegistry, 'getProvider')
+      .mockResolvedValue({ success: true, data: provider });
+    jest
+      .spyOn(agentModelAssignmentService, 'getOptimalProviderForTask')
+      .mockResolvedValue({
+        success: true,
+        data: { provider: 'azure-openai', model: 'gpt-4o' },
+      });
+    const service = new UnifiedAIChatService();
+    service.configureResponseCache(new ResponseCacheService());
+    const messages = [{ role: 'user' as const, content: 'Review file a.ts' }];
+
+    // Act
+    const first = await service.chatForAgent('microsoft-reviewer', messages);
+    const second = await service.chatForAgent('microsoft-reviewer', messages);
+    const bypassed = await service.chatForAgent(
+      'microsoft-reviewer',
+      messages,
+      { cache: false }
+    );
+
+    // Assert
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+    expect(first.success && first.data.metadata?.cached).toBeUndefined();
+    expect(second.success && second.data.metadata?.cached).toBe(true);
+    expect(bypassed.success && bypassed.data.content).toBe('Looks good');
+  });
+
+  it('should bypass the cache for agents offered tools', async () => {
+    // Arrange
+    const provider = {
+      id: 'azure-openai',
+      chat: jest.fn().mockResolvedValue({ success: true, data: response }),
+    } as unknown as AIProvider & { chat: jest.Mock };
+    jest
+      .spyOn(providerRegistry, 'getProvider')
+      .mockResolvedValue({ success: true, data: provider });
+    jest
+      .spyOn(agentModelAssignmentService, 'getOptimalProviderForTask')
+      .mockResolvedValue({
+        success: true,
+        data: { provider: 'azure-openai', model: 'gpt-4o' },
+      });
+    const cache = new ResponseCacheService();
+    const service = new UnifiedAIChatService();
+    service.configureResponseCache(cache);
+    service.configureTools(
+      new AgentToolLoop({
+        getToolsForAgent: () => [
+          {
+            name: 'read_workspace_file',
+            description: 'Read a file',
+            inputSchema: { type: 'object', properties: {} },
+            permissions: [],
+          },
+        ],
+        executeTool: jest.fn(),
+      } as unknown as ToolSource)
+    );
+    const messages = [{ role: 'user' as const, content: 'Review file a.ts' }];
+
+    // Act
+    await service.chatForAgent('microsoft-reviewer', messages);
+    const second = await service.chatForAgent('microsoft-reviewer', messages);
+
+    // Assert
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+    expect(second.success && second.data.metadata?.cached).toBeUndefined();
+    expect(cache.getStats().entries).toBe(0);
+  });
+});
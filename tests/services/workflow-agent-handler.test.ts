@@ -0,0 +1,270 @@
+/**
+ * Agent Step Handler Tests
+ * Unit tests for agent operation dispatch and conversation recording
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { AgentStepHandler } from '../../backend/src/services/workflow/handlers/agent-handler';
+import { AgentDefinition } from '../../backend/src/services/workflow/handlers/agent-catalog';
+import { IMLProvider } from '../../backend/src/providers/ml-provider.interface';
+import { UsageRecordingProvider } from '../../backend/src/providers/usage-recording.provider';
+import { UsageLedgerService } from '../../backend/src/services/usage-ledger.service';
+
+const mockPrismaClient = {
+  workflowStepApproval: {
+    upsert: jest.fn(),
+  },
+  workflowStepConversation: {
+    create: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+const mockAgent = {
+  generateUserStories: jest.fn(),
+  analyzeRequirements: jest.fn(),
+};
+
+const mockProvider = {
+  name: 'openai',
+  generateText: jest.fn(),
+} as unknown as IMLProvider;
+
+const mockLedger = {
+  applyBudget: jest.fn(),
+  record: jest.fn(),
+} as unknown as UsageLedgerService;
+
+const catalog: Record<string, AgentDefinition> = {
+  'business-analyst': {
+    name: 'Business Analyst',
+    requiresProvider: true,
+    create: jest.fn(async () => mockAgent),
+    operations: {
+      generateUserStories: ['requirements', 'personas'],
+      analyzeRequirements: ['projectId', 'requirements', 'context'],
+    },
+  },
+};
+
+const context = {
+  runId: 'run-1',
+  stepId: 'stories',
+  metadata: { projectId: 'project-1', stepName: 'User Stories', attempt: 1 },
+  logger: { warn: jest.fn(), error: jest.fn() },
+};
+
+describe('AgentStepHandler', () => {
+  let resolveProvider: jest.Mock;
+  let handler: AgentStepHandler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolveProvider = jest.fn().mockResolvedValue(mockProvider);
+    handler = new AgentStepHandler(
+      mockPrismaClient,
+      resolveProvider,
+      catalog,
+      mockLedger
+    );
+    (mockLedger.applyBudget as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { provider: 'openai', model: 'gpt-4o' },
+    });
+    (mockLedger.record as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { cost: 0.01 },
+    });
+    (
+      mockPrismaClient.workflowStepApproval.upsert as jest.Mock
+    ).mockResolvedValue({ id: 'approval-1' });
+  });
+
+  it('should map named input onto the operation parameters', async () => {
+    // Arrange
+    mockAgent.generateUserStories.mockResolvedValue({
+      success: true,
+      data: [{ title: 'Login' }],
+    });
+
+    // Act
+    const result = await handler.execute(
+      {
+        agentType: 'business-analyst',
+        operation: 'generateUserStories',
+        requirements: ['auth'],
+        personas: ['admin'],
+      },
+      context
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.success && result.data.result).toEqual([{ title: 'Login' }]);
+    expect(mockAgent.generateUserStories).toHaveBeenCalledWith(
+      ['auth'],
+      ['admin']
+    );
+    expect(catalog['business-analyst'].create).toHaveBeenCalledWith(
+      mockPrismaClient,
+      expect.any(UsageRecordingProvider),
+      {
+        projectId: 'project-1',
+        agentType: 'business-analyst',
+        workflowRunId: 'run-1',
+      }
+    );
+  });
+
+  it('should budget and record provider calls for the run', async () => {
+    // Arrange
+    (mockProvider.generateText as jest.Mock).mockResolvedValue({
+      success: true,
+      data: {
+        text: 'As an admin...',
+        usage: { promptTokens: 120, completionTokens: 40, totalTokens: 160 },
+        metadata: { model: 'gpt-4o' },
+      },
+    });
+    const storyWriter = async (
+      _prisma: PrismaClient,
+      provider: IMLProvider
+    ) => ({
+      generateUserStories: async () =>
+        provider.generateText('Write stories', { model: 'gpt-4o' }),
+    });
+    (catalog['business-analyst'].create as jest.Mock)
+      .mockImplementationOnce(storyWriter)
+      .mockImplementationOnce(storyWriter);
+    (mockLedger.applyBudget as jest.Mock)
+      .mockResolvedValueOnce({ success: true, data: {} })
+      .mockResolvedValueOnce({
+        success: false,
+        error: {
+          code: 'BUDGET_EXCEEDED',
+          message: 'Spending cap of 5 USD reached for workflow-run run-1',
+        },
+      });
+    const input = {
+      agentType: 'business-analyst',
+      operation: 'generateUserStories',
+    };
+
+    // Act
+    const recorded = await handler.execute(input, context);
+    const capped = await handler.execute(input, context);
+
+    // Assert
+    expect(recorded.success).toBe(true);
+    expect(mockLedger.applyBudget).toHaveBeenCalledWith(
+      { provider: 'openai', model: 'gpt-4o' },
+      { projectId: 'project-1', workflowRunId: 'run-1' }
+    );
+    expect(mockLedger.record).toHaveBeenCalledTimes(1);
+    expect(mockLedger.record).toHaveBeenCalledWith({
+      projectId: 'project-1',
+      agentType: 'business-analyst',
+      workflowRunId: 'run-1',
+      provider: 'openai',
+      model: 'gpt-4o',
+      promptTokens: 120,
+      completionTokens: 40,
+    });
+    expect(!capped.success && capped.error.message).toContain(
+      'Spending cap of 5 USD reached'
+    );
+    expect(mockProvider.generateText).toHaveBeenCalledTimes(1);
+    expect(resolveProvider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should default projectId to the run project', async () => {
+    // Arrange
+    mockAgent.analyzeRequirements.mockResolvedValue({
+      success: true,
+      data: {},
+    });
+
+    // Act
+    await handler.execute(
+      {
+        agentType: 'business-analyst',
+        operation: 'analyzeRequirements',
+        requirements: 'Build a portal',
+      },
+      context
+    );
+
+    // Assert
+    expect(mockAgent.analyzeRequirements).toHaveBeenCalledWith(
+      'project-1',
+      'Build a portal',
+      undefined
+    );
+  });
+
+  it('should record the request and result on the step conversation', async () => {
+    // Arrange
+    mockAgent.generateUserStories.mockResolvedValue({
+      success: true,
+      data: [],
+    });
+
+    // Act
+    await handler.execute(
+      {
+        agentType: 'business-analyst',
+        operation: 'generateUserStories',
+        requirements: ['auth'],
+      },
+      context
+    );
+
+    // Assert
+    expect(mockPrismaClient.workflowStepApproval.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          workflowRunId_stepId: { workflowRunId: 'run-1', stepId: 'stories' },
+        },
+      })
+    );
+    expect(
+      mockPrismaClient.workflowStepConversation.create
+    ).toHaveBeenCalledTimes(2);
+    expect(
+      mockPrismaClient.workflowStepConversation.create
+    ).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({
+        approvalId: 'approval-1',
+        role: 'agent',
+        agentType: 'business-analyst',
+        content: '[]',
+        messageType: 'analysis',
+      }),
+    });
+  });
+
+  it('should fail for unknown operations and agent errors', async () => {
+    // Arrange
+    mockAgent.generateUserStories.mockResolvedValue({
+      success: false,
+      error: { code: 'AI_ERROR', message: 'quota exceeded' },
+    });
+
+    // Act
+    const unknown = await handler.execute(
+      { agentType: 'business-analyst', operation: 'deploy' },
+      context
+    );
+    const failed = await handler.execute(
+      { agentType: 'business-analyst', operation: 'generateUserStories' },
+      context
+    );
+
+    // Assert
+    expect(!unknown.success && unknown.error.code).toBe('INVALID_INPUT');
+    expect(!failed.success && failed.error.code).toBe('AGENT_OPERATION_FAILED');
+    expect(!failed.success && failed.error.message).toContain('quota exceeded');
+    expect(
+      mockPrismaClient.workflowStepConversation.create
+    ).not.toHaveBeenCalled();
+  });
+});
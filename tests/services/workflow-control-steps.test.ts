@@ -0,0 +1,266 @@
+/**
+ * Workflow Control Step Tests
+ * Unit tests for LOOP, PARALLEL, DELAY and CONDITION steps
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { WorkflowStepExecutor } from '../../backend/src/services/workflow/step-executor';
+import { WorkflowExecutor } from '../../backend/src/services/workflow/workflow-executor';
+import { HandlerRegistry } from '../../backend/src/services/workflow/registry';
+import { WorkflowMonitor } from '../../backend/src/services/workflow/monitor';
+import {
+  StepStatus,
+  StepType,
+  WorkflowStatus,
+  WorkflowStep,
+} from '../../backend/src/services/workflow/types';
+
+const mockPrismaClient = {
+  workflowRun: {
+    update: jest.fn(),
+  },
+  workflowStepExecution: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  workflowExecutionEvent: {
+    create: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+function createStep(overrides: Partial<WorkflowStep>): WorkflowStep {
+  return {
+    stepId: 'step',
+    name: 'Step',
+    type: StepType.ACTION,
+    handler: 'echo',
+    order: 0,
+    ...overrides,
+  };
+}
+
+function createContext(input: any = {}, steps: Record<string, any> = {}) {
+  return {
+    stepId: 'step',
+    workflowRunId: 'run-1',
+    input,
+    variables: {},
+    metadata: { steps },
+    attempt: 1,
+    maxAttempts: 1,
+  };
+}
+
+describe('workflow control steps', () => {
+  let registry: HandlerRegistry;
+  let stepExecutor: WorkflowStepExecutor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    registry = new HandlerRegistry();
+    registry.register({
+      name: 'echo',
+      version: '1.0.0',
+      async execute(input) {
+        if (input.fail) return { success: false, error: 'echo failed' };
+        await new Promise(resolve => setTimeout(resolve, input.wait || 0));
+        return { success: true, data: { echoed: input.title ?? input.item } };
+      },
+    });
+    stepExecutor = new WorkflowStepExecutor(
+      mockPrismaClient,
+      registry,
+      new WorkflowMonitor()
+    );
+  });
+
+  it('should run a loop step once per item and collect outputs', async () => {
+    // Arrange
+    const step = createStep({
+      type: StepType.LOOP,
+      loop: {
+        items: 'steps.analysis.output.stories',
+        concurrency: 2,
+        inputMapping: { title: '{{ upper(item.title) }}' },
+      },
+    });
+    const stories = [{ title: 'login' }, { title: 'search' }, { title: 'pay' }];
+
+    // Act
+    const result = await stepExecutor.executeStep(
+      step,
+      createContext({}, { analysis: { stories } }),
+      { skipDependencyCheck: true }
+    );
+
+    // Assert
+    expect(result.success && result.data.output).toEqual(
+      expect.objectContaining({
+        items: [{ echoed: 'LOGIN' }, { echoed: 'SEARCH' }, { echoed: 'PAY' }],
+        count: 3,
+        succeeded: 3,
+        failed: 0,
+      })
+    );
+  });
+
+  it('should join parallel children with all and first-success', async () => {
+    // Arrange
+    const children = [
+      createStep({ stepId: 'slow', handlerConfig: { wait: 20, title: 's' } }),
+      createStep({ stepId: 'fast', handlerConfig: { title: 'f' } }),
+      createStep({ stepId: 'broken', handlerConfig: { fail: true } }),
+    ];
+    const parallel = (join: 'all' | 'first-success') =>
+      createStep({
+        type: StepType.PARALLEL,
+        parallel: { steps: children, join },
+      });
+
+    // Act
+    const all = await stepExecutor.executeStep(
+      parallel('all'),
+      createContext(),
+      { skipDependencyCheck: true }
+    );
+    const first = await stepExecutor.executeStep(
+      parallel('first-success'),
+      createContext(),
+      { skipDependencyCheck: true }
+    );
+
+    // Assert
+    expect(!all.success && all.error.message).toContain('broken: ');
+    expect(first.success && first.data.output).toEqual(
+      expect.objectContaining({ winner: 'fast', completed: ['fast'] })
+    );
+  });
+
+  it('should persist the delay wake-up time and resume from it', async () => {
+    // Arrange
+    const step = createStep({ type: StepType.DELAY, delay: { duration: 5 } });
+    const findFirst = mockPrismaClient.workflowStepExecution
+      .findFirst as jest.Mock;
+    const past = new Date(Date.now() - 1000);
+
+    // Act
+    findFirst.mockResolvedValueOnce({ resumeAt: null });
+    const fresh = await stepExecutor.executeStep(step, createContext(), {
+      skipDependencyCheck: true,
+    });
+    findFirst.mockResolvedValueOnce({ resumeAt: past });
+    const resumed = await stepExecutor.executeStep(step, createContext(), {
+      skipDependencyCheck: true,
+    });
+
+    // Assert
+    expect(fresh.success).toBe(true);
+    expect(
+      mockPrismaClient.workflowStepExecution.updateMany
+    ).toHaveBeenCalledWith({
+      where: { workflowRunId: 'run-1', stepId: 'step' },
+      data: { resumeAt: expect.any(Date) },
+    });
+    expect(resumed.success && resumed.data.output.resumeAt).toBe(
+      past.toISOString()
+    );
+  });
+
+  it('should wait out long delays in chunks and stop when the run is paused', async () => {
+    // Arrange
+    const step = createStep({
+      type: StepType.DELAY,
+      delay: { duration: 2 ** 31 + 60 * 1000 },
+    });
+    (
+      mockPrismaClient.workflowStepExecution.findFirst as jest.Mock
+    ).mockResolvedValueOnce({ resumeAt: null });
+    let stopReason: 'paused' | undefined;
+    setTimeout(() => (stopReason = 'paused'), 10);
+
+    // Act
+    const result = await stepExecutor.executeStep(step, createContext(), {
+      skipDependencyCheck: true,
+      getStopReason: () => stopReason,
+    });
+
+    // Assert
+    expect(!result.success && result.error.code).toBe('STEP_INTERRUPTED');
+    expect(
+      mockPrismaClient.workflowStepExecution.updateMany
+    ).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: 'failed' }),
+      })
+    );
+  });
+
+  it('should skip the branch a condition step did not take and its dependents', async () => {
+    // Arrange
+    (
+      mockPrismaClient.workflowStepExecution.findMany as jest.Mock
+    ).mockResolvedValue([]);
+    const executor = new WorkflowExecutor(
+      mockPrismaClient,
+      stepExecutor,
+      new WorkflowMonitor()
+    );
+    const template = {
+      name: 'Branching',
+      version: '1.0.0',
+      type: 'custom',
+      steps: [
+        createStep({
+          stepId: 'route',
+          type: StepType.CONDITION,
+          branch: {
+            expression: "projectType == 'api'",
+            then: ['docs'],
+            else: ['mockups'],
+          },
+        }),
+        createStep({ stepId: 'mockups', dependencies: ['route'] }),
+        createStep({ stepId: 'frontend', dependencies: ['mockups'] }),
+        createStep({ stepId: 'docs', dependencies: ['route'] }),
+        createStep({ stepId: 'release', dependencies: ['frontend', 'docs'] }),
+      ],
+    };
+
+    // Act
+    const summary = await executor.execute(template, {
+      id: 'run-1',
+      workflowId: 'template-1',
+      status: WorkflowStatus.PENDING,
+      currentStep: 0,
+      totalSteps: 5,
+      completedSteps: 0,
+      failedSteps: 0,
+      skippedSteps: 0,
+      priority: 'medium',
+      input: { projectType: 'api' },
+    });
+
+    // Assert
+    expect(summary.status).toBe(WorkflowStatus.COMPLETED);
+    expect(summary.output.steps.route).toEqual(
+      expect.objectContaining({ branch: 'then', skipped: ['mockups'] })
+    );
+    expect(Object.keys(summary.output.steps).sort()).toEqual([
+      'docs',
+      'release',
+      'route',
+    ]);
+    expect(summary.skippedSteps).toBe(2);
+    for (const stepId of ['mockups', 'frontend']) {
+      expect(
+        mockPrismaClient.workflowStepExecution.updateMany
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { workflowRunId: 'run-1', stepId },
+          data: expect.objectContaining({ status: StepStatus.SKIPPED }),
+        })
+      );
+    }
+  });
+});
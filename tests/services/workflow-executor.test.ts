@@ -0,0 +1,335 @@
+/**
+ * Workflow DAG Executor Tests
+ * Unit tests for dependency ordering, concurrency and onError handling
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { WorkflowExecutor } from '../../backend/src/services/workflow/workflow-executor';
+import { WorkflowStepExecutor } from '../../backend/src/services/workflow/step-executor';
+import { WorkflowMonitor } from '../../backend/src/services/workflow/monitor';
+import { HandlerRegistry } from '../../backend/src/services/workflow/registry';
+import {
+  StepType,
+  WorkflowStatus,
+  WorkflowStep,
+  WorkflowTemplate,
+  WorkflowEngineError,
+} from '../../backend/src/services/workflow/types';
+
+const mockPrismaClient = {
+  workflowRun: {
+    update: jest.fn(),
+  },
+  workflowStepExecution: {
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  workflowExecutionEvent: {
+    create: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+function createStep(
+  stepId: string,
+  dependencies: string[] = [],
+  onError?: WorkflowStep['onError']
+): WorkflowStep {
+  return {
+    stepId,
+    name: stepId,
+    type: StepType.ACTION,
+    handler: 'log',
+    order: 0,
+    dependencies,
+    onError,
+  };
+}
+
+function createTemplate(steps: WorkflowStep[]): WorkflowTemplate {
+  return {
+    id: 'template-1',
+    name: 'Test Workflow',
+    version: '1.0.0',
+    type: 'custom',
+    steps,
+  };
+}
+
+const execution = {
+  id: 'run-1',
+  workflowId: 'template-1',
+  status: WorkflowStatus.PENDING,
+  currentStep: 0,
+  totalSteps: 0,
+  completedSteps: 0,
+  failedSteps: 0,
+  skippedSteps: 0,
+  priority: 'medium',
+  input: { projectType: 'web' },
+};
+
+describe('WorkflowExecutor', () => {
+  let executeStep: jest.Mock;
+  let executor: WorkflowExecutor;
+  let executionOrder: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executionOrder = [];
+    (
+      mockPrismaClient.workflowStepExecution.findMany as jest.Mock
+    ).mockResolvedValue([]);
+    executeStep = jest.fn(async (step: WorkflowStep) => {
+      executionOrder.push(step.stepId);
+      return {
+        success: true,
+        data: {
+          success: true,
+          output: { from: step.stepId },
+          duration: 1,
+          shouldContinue: true,
+        },
+      };
+    });
+    executor = new WorkflowExecutor(
+      mockPrismaClient,
+      { executeStep } as unknown as WorkflowStepExecutor,
+      new WorkflowMonitor()
+    );
+  });
+
+  it('should execute steps after their dependencies', async () => {
+    // Arrange
+    const template = createTemplate([
+      createStep('deploy', ['build', 'test']),
+      createStep('build'),
+      createStep('test', ['build']),
+    ]);
+
+    // Act
+    const summary = await executor.execute(template, execution);
+
+    // Assert
+    expect(summary.status).toBe(WorkflowStatus.COMPLETED);
+    expect(summary.completedSteps).toBe(3);
+    expect(executionOrder).toEqual(['build', 'test', 'deploy']);
+    expect(summary.output.steps.deploy).toEqual({ from: 'deploy' });
+  });
+
+  it('should run independent branches concurrently', async () => {
+    // Arrange
+    let inFlight = 0;
+    let maxInFlight = 0;
+    executeStep.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return {
+        success: true,
+        data: { success: true, output: {}, duration: 5, shouldContinue: true },
+      };
+    });
+    const template = createTemplate([
+      createStep('a'),
+      createStep('b'),
+      createStep('c', ['a', 'b']),
+    ]);
+
+    // Act
+    await executor.execute(template, execution);
+
+    // Assert
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should halt the run and cancel pending steps on failure', async () => {
+    // Arrange
+    executeStep.mockImplementation(async (step: WorkflowStep) =>
+      step.stepId === 'build'
+        ? {
+            success: false,
+            error: new WorkflowEngineError('boom', 'STEP_EXECUTION_FAILED'),
+          }
+        : { success: true, data: { success: true, duration: 1 } }
+    );
+    const template = createTemplate([
+      createStep('build'),
+      createStep('deploy', ['build']),
+    ]);
+
+    // Act
+    const summary = await executor.execute(template, execution);
+
+    // Assert
+    expect(summary.status).toBe(WorkflowStatus.FAILED);
+    expect(summary.error).toBe('boom');
+    expect(
+      mockPrismaClient.workflowStepExecution.updateMany
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { workflowRunId: 'run-1', stepId: 'deploy' },
+        data: expect.objectContaining({ status: 'cancelled' }),
+      })
+    );
+  });
+
+  it('should continue with dependents when onError is continue', async () => {
+    // Arrange
+    executeStep.mockImplementation(async (step: WorkflowStep) => {
+      executionOrder.push(step.stepId);
+      return step.stepId === 'lint'
+        ? {
+            success: true,
+            data: { success: false, error: 'lint failed', duration: 1 },
+          }
+        : { success: true, data: { success: true, duration: 1 } };
+    });
+    const template = createTemplate([
+      createStep('lint', [], 'continue'),
+      createStep('build', ['lint']),
+    ]);
+
+    // Act
+    const summary = await executor.execute(template, execution);
+
+    // Assert
+    expect(summary.status).toBe(WorkflowStatus.COMPLETED);
+    expect(summary.failedSteps).toBe(1);
+    expect(executionOrder).toEqual(['lint', 'build']);
+  });
+
+  it('should record skipped steps when onError is skip', async () => {
+    // Arrange
+    executeStep.mockImplementation(async (step: WorkflowStep) =>
+      step.stepId === 'mockups'
+        ? {
+            success: false,
+            error: new WorkflowEngineError(
+              'no designer',
+              'STEP_EXECUTION_FAILED'
+            ),
+          }
+        : { success: true, data: { success: true, duration: 1 } }
+    );
+    const template = createTemplate([
+      createStep('mockups', [], 'skip'),
+      createStep('frontend', ['mockups']),
+    ]);
+
+    // Act
+    const summary = await executor.execute(template, execution);
+
+    // Assert
+    expect(summary.status).toBe(WorkflowStatus.COMPLETED);
+    expect(summary.skippedSteps).toBe(1);
+    expect(summary.completedSteps).toBe(1);
+  });
+
+  it('should fail the run when pending steps can never become ready', async () => {
+    // Arrange
+    const template = createTemplate([
+      createStep('build'),
+      createStep('deploy', ['build', 'approve']),
+      createStep('notify', ['deploy']),
+    ]);
+
+    // Act
+    const summary = await executor.execute(template, execution);
+
+    // Assert
+    expect(summary.status).toBe(WorkflowStatus.FAILED);
+    expect(summary.error).toBe(
+      'Steps with unsatisfied dependencies never ran: deploy, notify'
+    );
+    expect(mockPrismaClient.workflowRun.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: WorkflowStatus.FAILED,
+          errorCode: 'DEPENDENCY_UNSATISFIED',
+          errorDetails: { stepId: 'deploy', stepIds: ['deploy', 'notify'] },
+        }),
+      })
+    );
+    expect(
+      mockPrismaClient.workflowStepExecution.updateMany
+    ).toHaveBeenCalledWith({
+      where: { workflowRunId: 'run-1', stepId: 'notify' },
+      data: expect.objectContaining({
+        status: 'cancelled',
+        error: 'Not executed: dependencies not satisfied',
+      }),
+    });
+  });
+
+  it('should record timeouts and output mapping failures before completion', async () => {
+    // Arrange
+    const registry = new HandlerRegistry();
+    registry.register({
+      name: 'log',
+      version: '1.0.0',
+      async execute(input) {
+        await new Promise(resolve => setTimeout(resolve, input.wait || 0));
+        return { success: true, data: { count: 2 } };
+      },
+    });
+    const realExecutor = new WorkflowExecutor(
+      mockPrismaClient,
+      new WorkflowStepExecutor(
+        mockPrismaClient,
+        registry,
+        new WorkflowMonitor()
+      ),
+      new WorkflowMonitor()
+    );
+    const slow = {
+      ...createStep('slow', [], 'continue'),
+      timeout: 10,
+      handlerConfig: { wait: 200 },
+    };
+    const mapped = {
+      ...createStep('mapped', ['slow']),
+      outputMapping: { total: 'sum(output.count)' },
+    };
+
+    // Act
+    const summary = await realExecutor.execute(
+      createTemplate([slow, mapped]),
+      execution
+    );
+
+    // Assert
+    const updates = (
+      mockPrismaClient.workflowStepExecution.updateMany as jest.Mock
+    ).mock.calls.map(([call]) => [call.where.stepId, call.data.status]);
+    expect(updates).toContainEqual(['slow', 'timeout']);
+    expect(updates).toContainEqual(['mapped', 'failed']);
+    expect(updates).not.toContainEqual(['mapped', 'completed']);
+    expect(summary.status).toBe(WorkflowStatus.FAILED);
+    expect(summary.error).toMatch(/^Output mapping failed/);
+    expect(summary.failedSteps).toBe(2);
+  });
+
+  it('should not re-execute steps completed before resume', async () => {
+    // Arrange
+    (
+      mockPrismaClient.workflowStepExecution.findMany as jest.Mock
+    ).mockResolvedValue([
+      { stepId: 'build', status: 'completed', output: { artifact: 'app.zip' } },
+    ]);
+    const template = createTemplate([
+      createStep('build'),
+      createStep('deploy', ['build']),
+    ]);
+
+    // Act
+    const summary = await executor.execute(template, {
+      ...execution,
+      status: WorkflowStatus.PAUSED,
+    });
+
+    // Assert
+    expect(executionOrder).toEqual(['deploy']);
+    expect(summary.output.steps.build).toEqual({ artifact: 'app.zip' });
+  });
+});
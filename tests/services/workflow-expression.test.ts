@@ -0,0 +1,150 @@
+/**
+ * Workflow Expression Language Tests
+ * Unit tests for expression evaluation, conditions, mappings and validation
+ */
+
+import {
+  createExpressionScope,
+  evaluateConditions,
+  evaluateExpression,
+  interpolate,
+  resolveMappingValue,
+} from '../../backend/src/services/workflow/expression';
+import { WorkflowValidator } from '../../backend/src/services/workflow/validator';
+import {
+  StepType,
+  WorkflowStep,
+} from '../../backend/src/services/workflow/types';
+
+const scope = createExpressionScope({
+  input: { projectType: 'api', tags: ['web', 'mobile'] },
+  variables: { threshold: 3 },
+  outputs: {
+    requirements: { stories: [{ title: 'Login', points: 5 }] },
+  },
+});
+
+function createStep(overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return {
+    stepId: 'mockups',
+    name: 'Mockups',
+    type: StepType.ACTION,
+    handler: 'log',
+    order: 1,
+    ...overrides,
+  };
+}
+
+describe('workflow expressions', () => {
+  it('should evaluate paths, comparisons, logic and functions', () => {
+    // Act & Assert
+    expect(
+      evaluateExpression('steps.requirements.output.stories[0].title', scope)
+    ).toBe('Login');
+    expect(evaluateExpression("projectType == 'api'", scope)).toBe(true);
+    expect(
+      evaluateExpression(
+        "(input.projectType == 'web' or contains(tags, 'mobile')) and not threshold > 10",
+        scope
+      )
+    ).toBe(true);
+    expect(
+      evaluateExpression(
+        "upper(join(input.tags, '+')) + ' ' + len(input.tags)",
+        scope
+      )
+    ).toBe('WEB+MOBILE 2');
+    expect(
+      evaluateExpression(
+        'steps.requirements.output.stories[0].points >= variables.threshold ? "big" : "small"',
+        scope
+      )
+    ).toBe('big');
+  });
+
+  it('should reject unsafe property access and unknown functions', () => {
+    // Act & Assert
+    expect(() => evaluateExpression('input.constructor', scope)).toThrow(
+      "Access to 'constructor' is not allowed"
+    );
+    expect(() => evaluateExpression('eval("1")', scope)).toThrow(
+      "Unknown function 'eval'"
+    );
+    expect(evaluateExpression('input.tags.push', scope)).toBeUndefined();
+    expect(evaluateExpression('toString', scope)).toBeUndefined();
+  });
+
+  it('should honor OR groups in condition lists', () => {
+    // Arrange
+    const conditions = [
+      { field: 'input.projectType', operator: 'equals' as const, value: 'web' },
+      {
+        expression: 'len(input.tags) > 1',
+        logicalOperator: 'OR' as const,
+      },
+      {
+        field: 'variables.threshold',
+        operator: 'less_than' as const,
+        value: 5,
+        logicalOperator: 'AND' as const,
+      },
+    ];
+
+    // Act & Assert
+    expect(evaluateConditions(conditions, scope)).toBe(true);
+    expect(
+      evaluateConditions([{ expression: "projectType != 'api'" }], scope)
+    ).toBe(false);
+  });
+
+  it('should resolve mappings and interpolate templates', () => {
+    // Act
+    const mapped = resolveMappingValue(
+      {
+        story: 'steps.requirements.output.stories[0]',
+        summary: 'Type: {{ upper(input.projectType) }}',
+        literal: 'draft',
+        nested: { tags: 'input.tags' },
+      },
+      scope
+    );
+
+    // Assert
+    expect(mapped).toEqual({
+      story: { title: 'Login', points: 5 },
+      summary: 'Type: API',
+      literal: 'draft',
+      nested: { tags: ['web', 'mobile'] },
+    });
+    expect(interpolate('{{ variables.threshold }}', scope)).toBe(3);
+  });
+
+  it('should report invalid expressions and step references at save time', () => {
+    // Arrange
+    const steps = [
+      createStep({ stepId: 'requirements', order: 0 }),
+      createStep({
+        stepId: 'review',
+        order: 2,
+        inputMapping: { stories: 'steps.requirements.output.stories' },
+      }),
+      createStep({
+        dependencies: ['requirements'],
+        conditions: [{ expression: "projectType == 'api' and" }],
+        inputMapping: { design: 'steps.design.output' },
+      }),
+    ];
+
+    // Act
+    const validation = WorkflowValidator.validateSteps(steps);
+
+    // Assert
+    expect(validation.errors).toEqual([
+      'mockups condition 1: invalid expression: Unexpected end of expression at position 24',
+      "Step 'mockups' references unknown step 'design'",
+    ]);
+    expect(validation.warnings).toContain(
+      "Step 'review' reads output of 'requirements' which is not one of its dependencies"
+    );
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Workflow Handler Registration Tests
+ * Unit tests for registry wrappers and handler reference validation
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { HandlerRegistry } from '../../backend/src/services/workflow/registry';
+import { WorkflowValidator } from '../../backend/src/services/workflow/validator';
+import {
+  DatabaseQueryHandler,
+  registerStepHandlers,
+  persistHandlerDefinitions,
+} from '../../backend/src/services/workflow/handlers';
+import {
+  StepType,
+  WorkflowExecutionContext,
+  WorkflowStep,
+} from '../../backend/src/services/workflow/types';
+
+const mockTransactionClient = {
+  $queryRawUnsafe: jest.fn(),
+  $executeRawUnsafe: jest.fn(),
+};
+
+const mockPrismaClient = {
+  workflowHandler: {
+    upsert: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as unknown as PrismaClient;
+
+function createStep(overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return {
+    stepId: 'notify',
+    name: 'Notify',
+    type: StepType.ACTION,
+    handler: 'http-request',
+    order: 0,
+    ...overrides,
+  };
+}
+
+describe('workflow handler registration', () => {
+  let registry: HandlerRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    registry = new HandlerRegistry();
+    registerStepHandlers(registry, mockPrismaClient);
+  });
+
+  it('should register the built-in step handlers with schemas', () => {
+    // Act
+    const info = registry.getInfo('http-request');
+
+    // Assert
+    expect(registry.list()).toEqual([
+      'http-request',
+      'database-query',
+      'email-notification',
+      'agent',
+    ]);
+    expect(info.category).toBe('api');
+    expect(info.inputSchema?.required).toEqual(['url', 'method']);
+    expect(info.hasValidator).toBe(true);
+  });
+
+  it('should reject input that violates the handler schema', async () => {
+    // Act
+    const result = await registry.executeHandler(
+      'http-request',
+      { method: 'GET' },
+      { stepId: 'notify' } as WorkflowExecutionContext
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('url is required');
+  });
+
+  it('should persist handler definitions', async () => {
+    // Act
+    const result = await persistHandlerDefinitions(registry, mockPrismaClient);
+
+    // Assert
+    expect(result).toEqual({ success: true, data: 4 });
+    expect(mockPrismaClient.workflowHandler.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { name: 'database-query' },
+        update: expect.objectContaining({ category: 'database' }),
+      })
+    );
+  });
+
+  it('should validate template handler references', () => {
+    // Arrange
+    const handlers = registry.listWithInfo();
+    const steps = [
+      createStep({ handlerConfig: { url: 'https://example.com' } }),
+      createStep({ stepId: 'audit', handler: 'npm-audit' }),
+      createStep({
+        stepId: 'query',
+        handler: 'database-query',
+        handlerConfig: { readOnly: 'yes' },
+        inputMapping: { parameters: 'input.params' },
+      }),
+    ];
+
+    // Act
+    const validation = WorkflowValidator.validateHandlerReferences(
+      steps,
+      handlers
+    );
+
+    // Assert
+    expect(validation.errors).toEqual([
+      "Step 'audit' references unknown handler 'npm-audit'",
+      'query.handlerConfig.readOnly: expected boolean, got string',
+      "Step 'query' does not provide required database-query input: query",
+    ]);
+    expect(validation.warnings).toEqual([
+      "Step 'notify' does not provide required http-request input: method",
+    ]);
+  });
+});
+
+describe('DatabaseQueryHandler', () => {
+  let handler: DatabaseQueryHandler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrismaClient.$transaction as jest.Mock).mockImplementation(
+      (run: (tx: typeof mockTransactionClient) => Promise<unknown>) =>
+        run(mockTransactionClient)
+    );
+    handler = new DatabaseQueryHandler(mockPrismaClient);
+  });
+
+  it('should run the query with its parameters bound separately', async () => {
+    // Arrange
+    mockTransactionClient.$queryRawUnsafe.mockResolvedValue([
+      { id: 'project-1', name: 'Demo' },
+    ]);
+
+    // Act
+    const result = await handler.execute({
+      query: 'SELECT id, name FROM projects WHERE id = ?;',
+      parameters: ['project-1'],
+      timeout: 5000,
+    });
+
+    // Assert
+    expect(result.success && result.data.results).toEqual([
+      { id: 'project-1', name: 'Demo' },
+    ]);
+    expect(result.success && result.data.rowCount).toBe(1);
+    expect(mockTransactionClient.$queryRawUnsafe).toHaveBeenCalledWith(
+      'SELECT id, name FROM projects WHERE id = ?',
+      'project-1'
+    );
+    expect(mockPrismaClient.$transaction).toHaveBeenCalledWith(
+      expect.any(Function),
+      { timeout: 5000 }
+    );
+  });
+
+  it('should reject writes unless the step turns readOnly off', async () => {
+    // Act
+    const result = await handler.execute({
+      query: "UPDATE projects SET name = 'x'",
+    });
+
+    // Assert
+    expect(!result.success && result.error.code).toBe('READ_ONLY_VIOLATION');
+    expect(mockPrismaClient.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should report affected rows for writes when readOnly is off', async () => {
+    // Arrange
+    mockTransactionClient.$executeRawUnsafe.mockResolvedValue(2);
+
+    // Act
+    const result = await handler.execute({
+      query: 'UPDATE projects SET status = ? WHERE status = ?',
+      parameters: ['archived', 'done'],
+      readOnly: false,
+    });
+
+    // Assert
+    expect(result.success && result.data.affectedRows).toBe(2);
+    expect(mockTransactionClient.$executeRawUnsafe).toHaveBeenCalledWith(
+      'UPDATE projects SET status = ? WHERE status = ?',
+      'archived',
+      'done'
+    );
+    expect(mockPrismaClient.$transaction).toHaveBeenCalledWith(
+      expect.any(Function),
+      { timeout: 30000 }
+    );
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Workflow Recovery Tests
+ * Unit tests for resuming runs left in flight by a backend restart
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { WorkflowRecovery } from '../../backend/src/services/workflow/recovery';
+import { WorkflowExecutionManager } from '../../backend/src/services/workflow/execution-manager';
+import { WorkflowStepExecutor } from '../../backend/src/services/workflow/step-executor';
+import { WorkflowMonitor } from '../../backend/src/services/workflow/monitor';
+import { HandlerRegistry } from '../../backend/src/services/workflow/registry';
+import {
+  EventType,
+  StepStatus,
+  StepType,
+} from '../../backend/src/services/workflow/types';
+
+const mockPrismaClient = {
+  workflowRun: {
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  workflowTemplate: {
+    findUnique: jest.fn(),
+  },
+  workflowStepExecution: {
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  workflowExecutionEvent: {
+    create: jest.fn(),
+    createMany: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+function record(stepId: string, status: string, output?: any) {
+  return { stepId, status, output, input: {} };
+}
+
+function stepTemplate(stepId: string, dependencies: string[] = []) {
+  return {
+    id: `tpl-${stepId}`,
+    stepId,
+    name: stepId,
+    type: StepType.ACTION,
+    handler: 'echo',
+    order: 0,
+    dependencies,
+  };
+}
+
+// Crashed while 'design' was running; 'requirements' had completed
+const interruptedRun = {
+  id: 'run-1',
+  workflowId: 'template-1',
+  status: 'running',
+  priority: 'medium',
+  input: { name: 'shop' },
+  variables: { stage: 'design' },
+  steps: [
+    record('requirements', StepStatus.COMPLETED, { stories: 3 }),
+    record('design', StepStatus.RUNNING),
+    record('review', StepStatus.PENDING),
+  ],
+};
+
+const templateRow = {
+  id: 'template-1',
+  name: 'Delivery',
+  version: '1.0.0',
+  type: 'custom',
+  stepTemplates: [
+    stepTemplate('requirements'),
+    stepTemplate('design', ['requirements']),
+    stepTemplate('review', ['design']),
+  ],
+};
+
+describe('WorkflowRecovery', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should mark steps that were running at the crash as interrupted', async () => {
+    // Arrange
+    (mockPrismaClient.workflowRun.findMany as jest.Mock).mockResolvedValue([
+      interruptedRun,
+    ]);
+
+    // Act
+    const recovered = await new WorkflowRecovery(
+      mockPrismaClient
+    ).prepareInterruptedRuns(['run-active']);
+
+    // Assert
+    expect(mockPrismaClient.workflowRun.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: { in: ['pending', 'running'] },
+          id: { notIn: ['run-active'] },
+        },
+      })
+    );
+    expect(recovered.map(run => run.interruptedSteps)).toEqual([['design']]);
+    expect(
+      mockPrismaClient.workflowStepExecution.updateMany
+    ).toHaveBeenCalledWith({
+      where: { workflowRunId: 'run-1', stepId: { in: ['design'] } },
+      data: expect.objectContaining({
+        status: StepStatus.INTERRUPTED,
+        retryReason: 'process_restart',
+      }),
+    });
+    expect(
+      mockPrismaClient.workflowExecutionEvent.createMany
+    ).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          workflowRunId: 'run-1',
+          type: EventType.STEP_INTERRUPTED,
+          stepId: 'design',
+        }),
+      ],
+    });
+  });
+});
+
+describe('WorkflowExecutionManager recovery', () => {
+  let executeStep: jest.Mock;
+  let manager: WorkflowExecutionManager;
+  let seenOutputs: Record<string, string[]>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrismaClient.workflowRun.findMany as jest.Mock).mockResolvedValue([
+      interruptedRun,
+    ]);
+    (
+      mockPrismaClient.workflowStepExecution.findMany as jest.Mock
+    ).mockResolvedValue([
+      record('requirements', StepStatus.COMPLETED, { stories: 3 }),
+      record('design', StepStatus.INTERRUPTED),
+      record('review', StepStatus.PENDING),
+    ]);
+    seenOutputs = {};
+    executeStep = jest.fn(async (step, context) => {
+      seenOutputs[step.stepId] = Object.keys(context.metadata.steps);
+      return {
+        success: true,
+        data: {
+          success: true,
+          output: { from: step.stepId },
+          duration: 1,
+          shouldContinue: true,
+        },
+      };
+    });
+
+    const registry = new HandlerRegistry();
+    registry.register({
+      name: 'echo',
+      version: '1.0.0',
+      async execute() {
+        return { success: true, data: {} };
+      },
+    });
+    manager = new WorkflowExecutionManager(
+      mockPrismaClient,
+      new WorkflowMonitor(),
+      registry,
+      { executeStep } as unknown as WorkflowStepExecutor
+    );
+  });
+
+  it('should resume from saved state without re-running completed steps', async () => {
+    // Arrange
+    (
+      mockPrismaClient.workflowTemplate.findUnique as jest.Mock
+    ).mockResolvedValue(templateRow);
+
+    // Act
+    const result = await manager.recoverInterruptedExecutions();
+    await manager.waitForCompletion('run-1');
+
+    // Assert
+    expect(result.success && result.data).toEqual({
+      recoveredRuns: ['run-1'],
+      interruptedSteps: 1,
+      failedRuns: [],
+    });
+    expect(executeStep.mock.calls.map(([step]) => step.stepId)).toEqual([
+      'design',
+      'review',
+    ]);
+    const [, context] = executeStep.mock.calls[0];
+    expect(context.variables).toEqual({ stage: 'design' });
+    expect(context.metadata.steps.requirements).toEqual({ stories: 3 });
+    expect(seenOutputs).toEqual({
+      design: ['requirements'],
+      review: ['requirements', 'design'],
+    });
+  });
+
+  it('should fail the run when its template is missing', async () => {
+    // Arrange
+    (
+      mockPrismaClient.workflowTemplate.findUnique as jest.Mock
+    ).mockResolvedValue(null);
+
+    // Act
+    const result = await manager.recoverInterruptedExecutions();
+
+    // Assert
+    expect(result.success && result.data.failedRuns).toEqual([
+      { runId: 'run-1', error: 'Template not found: template-1' },
+    ]);
+    expect(mockPrismaClient.workflowRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({
+        status: 'failed',
+        errorCode: 'TEMPLATE_NOT_FOUND',
+      }),
+    });
+    expect(executeStep).not.toHaveBeenCalled();
+    expect(manager.isRunning('run-1')).toBe(false);
+  });
+
+  it('should fail the run when its template no longer validates', async () => {
+    // Arrange
+    (
+      mockPrismaClient.workflowTemplate.findUnique as jest.Mock
+    ).mockResolvedValue({
+      ...templateRow,
+      stepTemplates: [
+        ...templateRow.stepTemplates,
+        stepTemplate('deploy', ['missing']),
+      ],
+    });
+
+    // Act
+    const result = await manager.recoverInterruptedExecutions();
+
+    // Assert
+    expect(result.success && result.data.recoveredRuns).toEqual([]);
+    expect(result.success && result.data.failedRuns[0].error).toContain(
+      'missing'
+    );
+    expect(mockPrismaClient.workflowRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({
+        status: 'failed',
+        errorCode: 'VALIDATION_ERROR',
+      }),
+    });
+    expect(executeStep).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Workflow Replay Tests
+ * Unit tests for step re-run and resume-from-step attempts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  WorkflowReplay,
+  planReplaySteps,
+} from '../../backend/src/services/workflow/replay';
+import { WorkflowStepExecutor } from '../../backend/src/services/workflow/step-executor';
+import { WorkflowExecutor } from '../../backend/src/services/workflow/workflow-executor';
+import { HandlerRegistry } from '../../backend/src/services/workflow/registry';
+import { WorkflowMonitor } from '../../backend/src/services/workflow/monitor';
+import {
+  StepType,
+  WorkflowStatus,
+  WorkflowStep,
+} from '../../backend/src/services/workflow/types';
+
+const mockPrismaClient = {
+  workflowRun: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  workflowStepExecution: {
+    createMany: jest.fn(),
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  workflowExecutionEvent: {
+    create: jest.fn(),
+    createMany: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+function createStep(stepId: string, dependencies: string[] = []): WorkflowStep {
+  return {
+    id: `tpl-${stepId}`,
+    stepId,
+    name: stepId,
+    type: StepType.ACTION,
+    handler: 'echo',
+    order: 0,
+    dependencies,
+  };
+}
+
+// requirements -> design -> (frontend, backend) -> review
+const steps = [
+  createStep('requirements'),
+  createStep('design', ['requirements']),
+  createStep('frontend', ['design']),
+  createStep('backend', ['design']),
+  createStep('review', ['frontend', 'backend']),
+];
+
+function record(stepId: string, status: string, output?: any) {
+  return {
+    stepId,
+    stepTemplateId: `tpl-${stepId}`,
+    status,
+    attempt: 1,
+    maxAttempts: 1,
+    input: {},
+    output,
+    retryCount: 0,
+  };
+}
+
+const failedRunRecords = [
+  record('requirements', 'completed', { stories: 3 }),
+  record('design', 'completed', { screens: 2 }),
+  record('frontend', 'completed', { pages: 2 }),
+  record('backend', 'failed'),
+  record('review', 'cancelled'),
+];
+
+describe('workflow replay', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should resume from a step re-running it, its dependents and unfinished steps', () => {
+    // Arrange
+    const records = new Map(failedRunRecords.map(r => [r.stepId, r]));
+
+    // Act
+    const plan = planReplaySteps(steps, records, {
+      mode: 'from',
+      stepId: 'frontend',
+    });
+
+    // Assert
+    expect(plan.success && Object.fromEntries(plan.data)).toEqual({
+      requirements: 'reuse',
+      design: 'reuse',
+      frontend: 'rerun',
+      backend: 'rerun',
+      review: 'rerun',
+    });
+  });
+
+  it('should re-run a single step only when its dependencies finished', () => {
+    // Arrange
+    const records = new Map(failedRunRecords.map(r => [r.stepId, r]));
+
+    // Act
+    const single = planReplaySteps(steps, records, {
+      mode: 'step',
+      stepId: 'backend',
+    });
+    const blocked = planReplaySteps(steps, records, {
+      mode: 'step',
+      stepId: 'review',
+    });
+
+    // Assert
+    expect(single.success && Object.fromEntries(single.data)).toEqual({
+      requirements: 'reuse',
+      design: 'reuse',
+      frontend: 'reuse',
+      backend: 'rerun',
+      review: 'reuse',
+    });
+    expect(!blocked.success && blocked.error.code).toBe(
+      'REPLAY_DEPENDENCIES_INCOMPLETE'
+    );
+  });
+
+  it('should create a linked run copying reused step executions', async () => {
+    // Arrange
+    (mockPrismaClient.workflowRun.create as jest.Mock).mockResolvedValue({
+      id: 'run-2',
+      workflowId: 'template-1',
+      status: 'pending',
+      parentRunId: 'run-1',
+      replayMode: 'from',
+      replayStepId: 'backend',
+      replayInput: { language: 'go' },
+    });
+    const replay = new WorkflowReplay(mockPrismaClient);
+
+    // Act
+    const result = await replay.createReplayRun(
+      {
+        id: 'run-1',
+        workflowId: 'template-1',
+        projectId: 'project-1',
+        priority: 'high',
+        input: { name: 'shop' },
+        variables: { stage: 'build' },
+        steps: failedRunRecords,
+      },
+      { name: 'Delivery', version: '1.0.0', type: 'custom', steps },
+      { mode: 'from', stepId: 'backend', input: { language: 'go' } }
+    );
+
+    // Assert
+    expect(result.success && result.data.replay).toEqual({
+      mode: 'from',
+      stepId: 'backend',
+      input: { language: 'go' },
+    });
+    expect(mockPrismaClient.workflowRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        parentRunId: 'run-1',
+        projectId: 'project-1',
+        variables: { stage: 'build' },
+        replayInput: { language: 'go' },
+      }),
+    });
+    const created = (
+      mockPrismaClient.workflowStepExecution.createMany as jest.Mock
+    ).mock.calls[0][0].data;
+    expect(created.map((step: any) => [step.stepId, step.status])).toEqual([
+      ['requirements', 'completed'],
+      ['design', 'completed'],
+      ['frontend', 'completed'],
+      ['backend', 'pending'],
+      ['review', 'pending'],
+    ]);
+    expect(created[2].output).toEqual({ pages: 2 });
+    expect(
+      mockPrismaClient.workflowExecutionEvent.createMany
+    ).toHaveBeenCalled();
+  });
+
+  it('should reuse recorded outputs and override the replayed step input', async () => {
+    // Arrange
+    const calls: Record<string, any> = {};
+    const registry = new HandlerRegistry();
+    registry.register({
+      name: 'echo',
+      version: '1.0.0',
+      async execute(input, context) {
+        calls[context.metadata.stepName] = input;
+        return { success: true, data: { ok: true } };
+      },
+    });
+    (
+      mockPrismaClient.workflowStepExecution.findMany as jest.Mock
+    ).mockResolvedValue([
+      ...failedRunRecords.slice(0, 3),
+      record('backend', 'pending'),
+      record('review', 'pending'),
+    ]);
+    const executor = new WorkflowExecutor(
+      mockPrismaClient,
+      new WorkflowStepExecutor(
+        mockPrismaClient,
+        registry,
+        new WorkflowMonitor()
+      ),
+      new WorkflowMonitor()
+    );
+
+    // Act
+    const summary = await executor.execute(
+      { name: 'Delivery', version: '1.0.0', type: 'custom', steps },
+      {
+        id: 'run-2',
+        workflowId: 'template-1',
+        status: WorkflowStatus.PENDING,
+        currentStep: 0,
+        totalSteps: 5,
+        completedSteps: 0,
+        failedSteps: 0,
+        skippedSteps: 0,
+        priority: 'medium',
+        input: { name: 'shop' },
+        parentRunId: 'run-1',
+        replay: { mode: 'from', stepId: 'backend', input: { language: 'go' } },
+      }
+    );
+
+    // Assert
+    expect(summary.status).toBe(WorkflowStatus.COMPLETED);
+    expect(Object.keys(calls).sort()).toEqual(['backend', 'review']);
+    expect(calls.backend).toEqual({ name: 'shop', language: 'go' });
+    expect(calls.review).toEqual({ name: 'shop' });
+    expect(summary.output.steps.frontend).toEqual({ pages: 2 });
+  });
+
+  it('should list the original run and its replays as numbered attempts', async () => {
+    // Arrange
+    const runs: Record<string, any> = {
+      'run-1': { id: 'run-1', status: 'failed', createdAt: new Date(1000) },
+      'run-2': {
+        id: 'run-2',
+        status: 'failed',
+        parentRunId: 'run-1',
+        replayMode: 'step',
+        replayStepId: 'backend',
+        createdAt: new Date(2000),
+      },
+      'run-3': {
+        id: 'run-3',
+        status: 'completed',
+        parentRunId: 'run-2',
+        replayMode: 'from',
+        replayStepId: 'backend',
+        createdAt: new Date(3000),
+      },
+    };
+    (mockPrismaClient.workflowRun.findUnique as jest.Mock).mockImplementation(
+      ({ where }) => Promise.resolve(runs[where.id] || null)
+    );
+    (mockPrismaClient.workflowRun.findMany as jest.Mock).mockImplementation(
+      ({ where }) =>
+        Promise.resolve(
+          Object.values(runs).filter(run =>
+            where.parentRunId.in.includes(run.parentRunId)
+          )
+        )
+    );
+
+    // Act
+    const result = await new WorkflowReplay(mockPrismaClient).listAttempts(
+      'run-2'
+    );
+
+    // Assert
+    expect(
+      result.success &&
+        result.data.map(attempt => [attempt.id, attempt.attempt])
+    ).toEqual([
+      ['run-1', 1],
+      ['run-2', 2],
+      ['run-3', 3],
+    ]);
+  });
+
+  it('should number project runs as attempts of the run they replay', async () => {
+    // Arrange
+    const run = (id: string, createdAt: number, parentRunId?: string) => ({
+      id,
+      workflowId: 'workflow-1',
+      workflow: { name: 'Delivery' },
+      status: 'completed',
+      parentRunId: parentRunId || null,
+      replayMode: parentRunId ? 'from' : null,
+      replayStepId: parentRunId ? 'backend' : null,
+      executor: 'anna',
+      executorType: 'user',
+      createdAt: new Date(createdAt),
+    });
+    (mockPrismaClient.workflowRun.findMany as jest.Mock).mockResolvedValue([
+      run('run-1', 1000),
+      run('run-2', 2000),
+      run('run-3', 3000, 'run-1'),
+      run('run-4', 4000, 'run-3'),
+    ]);
+
+    // Act
+    const attempts = await new WorkflowReplay(
+      mockPrismaClient
+    ).listProjectAttempts('project-1');
+
+    // Assert
+    expect(mockPrismaClient.workflowRun.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { projectId: 'project-1' } })
+    );
+    expect(
+      attempts.map(attempt => [
+        attempt.id,
+        attempt.attempt,
+        attempt.parentRunId,
+      ])
+    ).toEqual([
+      ['run-1', 1, undefined],
+      ['run-2', 1, undefined],
+      ['run-3', 2, 'run-1'],
+      ['run-4', 3, 'run-3'],
+    ]);
+    expect(attempts[3]).toMatchObject({
+      workflowName: 'Delivery',
+      replayMode: 'from',
+      replayStepId: 'backend',
+      executor: 'anna',
+    });
+  });
+});
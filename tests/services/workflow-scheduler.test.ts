@@ -0,0 +1,239 @@
+/**
+ * Workflow Scheduler Tests
+ * Unit tests for cron parsing and due schedule processing
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  WorkflowScheduler,
+  ScheduleRunner,
+} from '../../backend/src/services/workflow/scheduler';
+import {
+  getNextCronRun,
+  isValidCronExpression,
+} from '../../backend/src/services/workflow/cron';
+
+const mockPrismaClient = {
+  workflowSchedule: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+    update: jest.fn(),
+  },
+  workflowRun: {
+    findUnique: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+function createSchedule(overrides: Record<string, any> = {}) {
+  return {
+    id: 'schedule-1',
+    workflowId: 'template-1',
+    name: 'Nightly dependency audit',
+    description: null,
+    enabled: true,
+    scheduleType: 'cron',
+    cronExpression: '0 2 * * *',
+    interval: null,
+    scheduledAt: null,
+    input: { scope: 'all' },
+    context: { trigger: 'nightly' },
+    priority: 'medium',
+    lastRun: null,
+    nextRun: new Date(2026, 0, 5, 2, 0),
+    runCount: 0,
+    successCount: 0,
+    failureCount: 0,
+    ...overrides,
+  };
+}
+
+describe('cron expressions', () => {
+  it('should compute the next nightly run', () => {
+    // Arrange
+    const after = new Date(2026, 0, 5, 2, 0);
+
+    // Act
+    const next = getNextCronRun('0 2 * * *', after);
+
+    // Assert
+    expect(next).toEqual(new Date(2026, 0, 6, 2, 0));
+  });
+
+  it('should support weekly schedules with day names', () => {
+    // Arrange - Monday 5 Jan 2026
+    const after = new Date(2026, 0, 5, 12, 0);
+
+    // Act
+    const next = getNextCronRun('30 6 * * sun', after);
+
+    // Assert
+    expect(next).toEqual(new Date(2026, 0, 11, 6, 30));
+  });
+
+  it('should support steps, ranges and macros', () => {
+    // Arrange
+    const after = new Date(2026, 0, 5, 9, 7);
+
+    // Act & Assert
+    expect(getNextCronRun('*/15 9-17 * * 1-5', after)).toEqual(
+      new Date(2026, 0, 5, 9, 15)
+    );
+    expect(getNextCronRun('@monthly', after)).toEqual(
+      new Date(2026, 1, 1, 0, 0)
+    );
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(isValidCronExpression('0 2 * *')).toBe(false);
+    expect(isValidCronExpression('61 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 2 * * 1-')).toBe(false);
+    expect(isValidCronExpression('@weekly')).toBe(true);
+  });
+});
+
+describe('WorkflowScheduler', () => {
+  let runner: ScheduleRunner;
+  let scheduler: WorkflowScheduler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runner = {
+      startExecution: jest
+        .fn()
+        .mockResolvedValue({ success: true, data: 'run-1' }),
+      waitForExecution: jest.fn().mockResolvedValue(undefined),
+    };
+    (mockPrismaClient.workflowRun.findUnique as jest.Mock).mockResolvedValue({
+      status: 'completed',
+    });
+    scheduler = new WorkflowScheduler(mockPrismaClient, runner);
+  });
+
+  it('should start due schedules with stored input and context', async () => {
+    // Arrange
+    const now = new Date(2026, 0, 5, 2, 0, 10);
+    (mockPrismaClient.workflowSchedule.findMany as jest.Mock).mockResolvedValue(
+      [createSchedule()]
+    );
+    (
+      mockPrismaClient.workflowSchedule.updateMany as jest.Mock
+    ).mockResolvedValue({ count: 1 });
+
+    // Act
+    const started = await scheduler.processDueSchedules(now);
+
+    // Assert
+    expect(started).toEqual(['run-1']);
+    expect(runner.startExecution).toHaveBeenCalledWith(
+      'template-1',
+      { scope: 'all' },
+      expect.objectContaining({
+        context: { trigger: 'nightly' },
+        executor: 'schedule-1',
+        executorType: 'schedule',
+      })
+    );
+    expect(mockPrismaClient.workflowSchedule.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          lastRun: now,
+          nextRun: new Date(2026, 0, 6, 2, 0),
+          runCount: { increment: 1 },
+        }),
+      })
+    );
+  });
+
+  it('should not fire a schedule already claimed elsewhere', async () => {
+    // Arrange
+    (mockPrismaClient.workflowSchedule.findMany as jest.Mock).mockResolvedValue(
+      [createSchedule()]
+    );
+    (
+      mockPrismaClient.workflowSchedule.updateMany as jest.Mock
+    ).mockResolvedValue({ count: 0 });
+
+    // Act
+    const started = await scheduler.processDueSchedules(
+      new Date(2026, 0, 5, 2, 1)
+    );
+
+    // Assert
+    expect(started).toEqual([]);
+    expect(runner.startExecution).not.toHaveBeenCalled();
+  });
+
+  it('should disable one-time schedules after firing', async () => {
+    // Arrange
+    (mockPrismaClient.workflowSchedule.findMany as jest.Mock).mockResolvedValue(
+      [createSchedule({ scheduleType: 'once', cronExpression: null })]
+    );
+    (
+      mockPrismaClient.workflowSchedule.updateMany as jest.Mock
+    ).mockResolvedValue({ count: 1 });
+
+    // Act
+    await scheduler.processDueSchedules(new Date(2026, 0, 5, 2, 1));
+
+    // Assert
+    expect(mockPrismaClient.workflowSchedule.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ enabled: false, nextRun: null }),
+      })
+    );
+  });
+
+  it('should refuse to resume a one-time schedule whose time has passed', async () => {
+    // Arrange
+    (
+      mockPrismaClient.workflowSchedule.findUnique as jest.Mock
+    ).mockResolvedValue(
+      createSchedule({
+        scheduleType: 'once',
+        cronExpression: null,
+        scheduledAt: new Date(Date.now() - 60000),
+        enabled: false,
+        nextRun: null,
+        lastRun: new Date(Date.now() - 30000),
+      })
+    );
+
+    // Act
+    const result = await scheduler.resumeSchedule('schedule-1');
+
+    // Assert
+    expect(!result.success && result.error.code).toBe('SCHEDULE_EXPIRED');
+    expect(mockPrismaClient.workflowSchedule.update).not.toHaveBeenCalled();
+  });
+
+  it('should resume a one-time schedule at its scheduled time', async () => {
+    // Arrange
+    const scheduledAt = new Date(Date.now() + 3600000);
+    (
+      mockPrismaClient.workflowSchedule.findUnique as jest.Mock
+    ).mockResolvedValue(
+      createSchedule({
+        scheduleType: 'once',
+        cronExpression: null,
+        scheduledAt,
+        enabled: false,
+        nextRun: null,
+      })
+    );
+
+    // Act
+    await scheduler.resumeSchedule('schedule-1');
+
+    // Assert
+    expect(mockPrismaClient.workflowSchedule.update).toHaveBeenCalledWith({
+      where: { id: 'schedule-1' },
+      data: expect.objectContaining({
+        enabled: true,
+        scheduledAt,
+        nextRun: scheduledAt,
+        input: { scope: 'all' },
+      }),
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Workflow Template File Tests
+ * Unit tests for YAML/JSON template import, export and positioned errors
+ */
+
+import {
+  exportEnhancedTemplate,
+  exportWorkflowTemplate,
+  parseTemplateFile,
+} from '../../backend/src/services/workflow/template-file';
+import { getTemplateFileJsonSchema } from '../../backend/src/services/workflow/template-file-schema';
+import { EnhancedWorkflowTemplates } from '../../backend/src/services/workflow-templates/enhanced-workflow-templates';
+import {
+  StepType,
+  WorkflowTemplate,
+} from '../../backend/src/services/workflow/types';
+
+const template: WorkflowTemplate = {
+  id: 'template-1',
+  name: 'Delivery',
+  version: '1.2.0',
+  type: 'custom',
+  active: true,
+  createdBy: 'user-1',
+  retryPolicy: { maxAttempts: 2, delay: 1000 },
+  steps: [
+    {
+      id: 'row-build',
+      stepId: 'build',
+      name: 'Build',
+      type: StepType.ACTION,
+      handler: 'echo',
+      order: 0,
+      dependencies: [],
+      handlerConfig: {},
+      inputMapping: { branch: 'input.branch' },
+    },
+    {
+      id: 'row-test',
+      stepId: 'test',
+      name: 'Test',
+      type: StepType.ACTION,
+      handler: 'echo',
+      order: 1,
+      dependencies: ['build'],
+      conditions: [{ field: 'input.ci', operator: 'equals', value: true }],
+    },
+  ],
+};
+
+describe('workflow template files', () => {
+  it('should round-trip an engine template through YAML and JSON', () => {
+    // Act
+    const yaml = exportWorkflowTemplate(template);
+    const json = exportWorkflowTemplate(template, 'json');
+    const fromYaml = parseTemplateFile(yaml);
+    const fromJson = parseTemplateFile(json);
+
+    // Assert
+    expect(yaml).toContain('kind: workflow');
+    expect(yaml).not.toContain('row-build');
+    expect(yaml).not.toContain('createdBy');
+    expect(fromYaml.success && fromYaml.data.template).toEqual(
+      fromJson.success && fromJson.data.template
+    );
+    expect(fromYaml.success && fromYaml.data.template.steps[1]).toEqual({
+      stepId: 'test',
+      name: 'Test',
+      type: 'action',
+      handler: 'echo',
+      order: 1,
+      dependencies: ['build'],
+      conditions: [{ field: 'input.ci', operator: 'equals', value: true }],
+    });
+  });
+
+  it('should round-trip the built-in enhanced templates', () => {
+    // Arrange
+    const builtIn = EnhancedWorkflowTemplates.getAllTemplates();
+
+    // Act
+    const imported = builtIn.map(enhanced =>
+      parseTemplateFile(exportEnhancedTemplate(enhanced))
+    );
+
+    // Assert
+    imported.forEach((result, index) => {
+      expect(result.success && result.data.kind).toBe('enhanced');
+      expect(result.success && result.data.template).toEqual(builtIn[index]);
+    });
+  });
+
+  it('should point schema errors to the line and column of the value', () => {
+    // Arrange
+    const content = [
+      'schemaVersion: 1',
+      'kind: workflow',
+      'template:',
+      '  name: Delivery',
+      '  version: 1.0.0',
+      '  type: custom',
+      '  steps:',
+      '    - stepId: build',
+      '      name: Build',
+      '      type: script',
+      '      handler: echo',
+      '      retires: 2',
+    ].join('\n');
+
+    // Act
+    const result = parseTemplateFile(content);
+
+    // Assert
+    expect(!result.success && result.error.code).toBe('TEMPLATE_FILE_INVALID');
+    const issues = !result.success ? result.error.details.issues : [];
+    expect(
+      issues.map((issue: any) => [issue.path, issue.line, issue.column])
+    ).toEqual([
+      ['template.steps[0].type', 10, 13],
+      ['template.steps[0].retires', 12, 16],
+    ]);
+  });
+
+  it('should locate semantic errors at the step they concern', () => {
+    // Arrange
+    const content = JSON.stringify(
+      {
+        schemaVersion: 1,
+        kind: 'workflow',
+        template: {
+          name: 'Delivery',
+          version: '1.0.0',
+          type: 'custom',
+          steps: [
+            { stepId: 'build', name: 'Build', type: 'action', handler: 'echo' },
+            {
+              stepId: 'deploy',
+              name: 'Deploy',
+              type: 'action',
+              handler: 'echo',
+              dependencies: ['package'],
+            },
+          ],
+        },
+      },
+      null,
+      2
+    );
+
+    // Act
+    const result = parseTemplateFile(content);
+
+    // Assert
+    const issues = !result.success ? result.error.details.issues : [];
+    expect(issues).toEqual([
+      {
+        path: 'template.steps[1]',
+        message: "Step deploy: dependency 'package' not found",
+        line: 15,
+        column: 7,
+      },
+    ]);
+  });
+
+  it('should report YAML syntax errors with their position', () => {
+    // Act
+    const result = parseTemplateFile('kind: workflow\ntemplate: [unclosed\n');
+
+    // Assert
+    expect(!result.success && result.error.message).toMatch(
+      /^Invalid template file at line \d+, column \d+/
+    );
+  });
+
+  it('should publish a JSON Schema for both template kinds', () => {
+    // Act
+    const schema = getTemplateFileJsonSchema() as any;
+
+    // Assert
+    expect(schema.title).toBe('ThinkCode workflow template');
+    expect(
+      schema.oneOf.map((variant: any) => variant.properties.kind.const)
+    ).toEqual(['workflow', 'enhanced']);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Workflow Template Manager Tests
+ * Unit tests for template validation errors
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { TemplateManager } from '../../backend/src/services/workflow/template-manager';
+import {
+  StepType,
+  WorkflowStep,
+  WorkflowTemplate,
+} from '../../backend/src/services/workflow/types';
+
+const mockPrismaClient = {
+  workflowTemplate: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  workflowStepTemplate: {
+    create: jest.fn(),
+    upsert: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+function createStep(stepId: string, dependencies: string[] = []): WorkflowStep {
+  return {
+    stepId,
+    name: stepId,
+    type: StepType.ACTION,
+    handler: 'echo',
+    order: 0,
+    dependencies,
+  };
+}
+
+const template: WorkflowTemplate = {
+  id: 'template-1',
+  name: 'Delivery',
+  version: '1.0.0',
+  type: 'custom',
+  steps: [createStep('build'), createStep('test', ['build'])],
+};
+
+describe('TemplateManager', () => {
+  let manager: TemplateManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new TemplateManager(mockPrismaClient);
+  });
+
+  it('should report invalid templates as validation errors', async () => {
+    // Act
+    const result = await manager.createWorkflowTemplate({
+      ...template,
+      steps: [createStep('deploy', ['missing'])],
+    });
+
+    // Assert
+    expect(!result.success && result.error.code).toBe('VALIDATION_ERROR');
+    expect(!result.success && result.error.message).toContain('missing');
+    expect(mockPrismaClient.workflowTemplate.create).not.toHaveBeenCalled();
+  });
+
+  it('should report invalid step changes as validation errors', async () => {
+    // Arrange
+    (
+      mockPrismaClient.workflowTemplate.findUnique as jest.Mock
+    ).mockResolvedValue({
+      ...template,
+      stepTemplates: template.steps.map(step => ({
+        ...step,
+        id: `row-${step.stepId}`,
+      })),
+    });
+
+    // Act
+    const result = await manager.updateWorkflowTemplate('template-1', {
+      steps: [createStep('build', ['missing'])],
+    });
+
+    // Assert
+    expect(!result.success && result.error.code).toBe('VALIDATION_ERROR');
+    expect(!result.success && result.error.message).toContain('missing');
+    expect(mockPrismaClient.workflowTemplate.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Workflow Template Versioning Tests
+ * Unit tests for version diffs, publishing on update and run migration
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  TemplateVersioning,
+  checkMigrationCompatibility,
+  nextVersion,
+} from '../../backend/src/services/workflow/versioning';
+import { diffTemplates } from '../../backend/src/services/workflow/template-diff';
+import { TemplateManager } from '../../backend/src/services/workflow/template-manager';
+import {
+  StepType,
+  WorkflowStep,
+  WorkflowTemplate,
+} from '../../backend/src/services/workflow/types';
+
+const mockPrismaClient = {
+  workflowTemplate: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  workflowStepTemplate: {
+    upsert: jest.fn(),
+    deleteMany: jest.fn(),
+    updateMany: jest.fn(),
+    findMany: jest.fn(),
+  },
+  workflowTemplateVersion: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+  },
+  workflowRun: {
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  workflowStepExecution: {
+    createMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  workflowExecutionEvent: {
+    create: jest.fn(),
+  },
+} as unknown as PrismaClient;
+
+function createStep(
+  stepId: string,
+  dependencies: string[] = [],
+  overrides: Partial<WorkflowStep> = {}
+): WorkflowStep {
+  return {
+    stepId,
+    name: stepId,
+    type: StepType.ACTION,
+    handler: 'echo',
+    order: 0,
+    dependencies,
+    retries: 0,
+    retryDelay: 1000,
+    ...overrides,
+  };
+}
+
+function createTemplate(
+  version: string,
+  steps: WorkflowStep[]
+): WorkflowTemplate {
+  return {
+    id: 'template-1',
+    name: 'Delivery',
+    version,
+    type: 'custom',
+    steps,
+    retryPolicy: { maxAttempts: 2, delay: 1000 },
+  };
+}
+
+const v1 = createTemplate('1.0.0', [
+  createStep('build'),
+  createStep('test', ['build']),
+  createStep('deploy', ['test']),
+]);
+
+const v2 = createTemplate('1.0.1', [
+  createStep('build', [], { inputMapping: { branch: 'input.branch' } }),
+  createStep('test', ['build'], {
+    conditions: [{ field: 'input.ci', operator: 'equals', value: true }],
+  }),
+  createStep('scan', ['build']),
+  createStep('deploy', ['test', 'scan']),
+]);
+
+function templateRow(template: WorkflowTemplate) {
+  return {
+    ...template,
+    stepTemplates: template.steps.map(step => ({
+      ...step,
+      id: `row-${step.stepId}`,
+    })),
+  };
+}
+
+describe('workflow template versioning', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should diff added, removed and changed steps with change kinds', () => {
+    // Arrange
+    const from = createTemplate('1.0.0', [...v1.steps, createStep('notify')]);
+
+    // Act
+    const diff = diffTemplates(from, v2);
+
+    // Assert
+    expect(diff.steps.added).toEqual(['scan']);
+    expect(diff.steps.removed).toEqual(['notify']);
+    expect(
+      diff.steps.changed.map(step => [
+        step.stepId,
+        step.changes.map(change => `${change.field}:${change.kind}`),
+      ])
+    ).toEqual([
+      ['build', ['inputMapping:mapping']],
+      ['test', ['conditions:condition']],
+      ['deploy', ['dependencies:config']],
+    ]);
+  });
+
+  it('should bump the patch version past existing versions', () => {
+    // Act & Assert
+    expect(nextVersion('1.2.3', [])).toBe('1.2.4');
+    expect(nextVersion('1.2.3', ['1.2.4'])).toBe('1.2.5');
+    expect(nextVersion('draft', [])).toBe('draft.1');
+  });
+
+  it('should publish a new version only when the definition changes', async () => {
+    // Arrange
+    const head = { ...v1 };
+    (
+      mockPrismaClient.workflowTemplate.findUnique as jest.Mock
+    ).mockImplementation(() => Promise.resolve(templateRow(head)));
+    (
+      mockPrismaClient.workflowStepTemplate.upsert as jest.Mock
+    ).mockImplementation(() => {
+      head.steps = v2.steps;
+      return Promise.resolve({});
+    });
+    (
+      mockPrismaClient.workflowTemplateVersion.findMany as jest.Mock
+    ).mockResolvedValue([
+      {
+        id: 'version-1',
+        workflowId: 'template-1',
+        version: '1.0.0',
+        definition: v1,
+      },
+    ]);
+    const manager = new TemplateManager(mockPrismaClient);
+
+    // Act
+    const unchanged = await manager.updateWorkflowTemplate('template-1', {
+      description: 'Build and ship',
+    });
+    const changed = await manager.updateWorkflowTemplate(
+      'template-1',
+      { steps: v2.steps },
+      { changelog: 'Add security scan' }
+    );
+
+    // Assert
+    expect(unchanged.success && unchanged.data.version).toBe('1.0.0');
+    expect(changed.success && changed.data.version).toBe('1.0.1');
+    expect(
+      mockPrismaClient.workflowTemplateVersion.create
+    ).toHaveBeenCalledTimes(1);
+    expect(
+      mockPrismaClient.workflowTemplateVersion.create
+    ).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        version: '1.0.1',
+        changelog: 'Add security scan',
+      }),
+    });
+    expect(
+      mockPrismaClient.workflowStepTemplate.deleteMany
+    ).toHaveBeenCalledWith({
+      where: expect.objectContaining({ executions: { none: {} } }),
+    });
+  });
+
+  it('should reject migrations that orphan or reorder steps already run', () => {
+    // Arrange
+    const rows = new Map(v2.steps.map(step => [step.stepId, step.stepId]));
+    const records = [
+      { stepId: 'build', status: 'completed' },
+      { stepId: 'test', status: 'running' },
+      { stepId: 'deploy', status: 'pending' },
+    ];
+    const reordered = createTemplate('2.0.0', [
+      createStep('build'),
+      createStep('lint', ['build']),
+      createStep('test', ['lint']),
+    ]);
+
+    // Act
+    const compatible = checkMigrationCompatibility(records, v1, v2, rows);
+    const incompatible = checkMigrationCompatibility(
+      records,
+      v1,
+      reordered,
+      new Map([['lint', 'row-lint']])
+    );
+
+    // Assert
+    expect(compatible).toEqual({
+      compatible: true,
+      errors: [],
+      warnings: [
+        'Step build is completed; its version 1.0.1 changes only apply to re-runs',
+        'Step test is running and finishes with its version 1.0.0 definition',
+      ],
+      addedSteps: ['scan'],
+      removedSteps: [],
+    });
+    expect(incompatible.compatible).toBe(false);
+    expect(incompatible.errors).toEqual([
+      'Step test is running but version 2.0.0 makes it depend on steps that have not run: lint',
+    ]);
+    expect(incompatible.removedSteps).toEqual(['deploy']);
+  });
+
+  it('should re-pin a compatible run and create records for added steps', async () => {
+    // Arrange
+    (
+      mockPrismaClient.workflowTemplateVersion.findUnique as jest.Mock
+    ).mockResolvedValue({
+      id: 'version-2',
+      workflowId: 'template-1',
+      version: '1.0.1',
+      definition: v2,
+    });
+    (mockPrismaClient.workflowRun.findMany as jest.Mock).mockResolvedValue([
+      {
+        id: 'run-1',
+        status: 'running',
+        templateVersionId: 'version-1',
+        templateVersion: {
+          workflowId: 'template-1',
+          version: '1.0.0',
+          definition: v1,
+        },
+        steps: [
+          { stepId: 'build', status: 'completed' },
+          { stepId: 'test', status: 'pending' },
+          { stepId: 'deploy', status: 'pending' },
+        ],
+      },
+    ]);
+    (
+      mockPrismaClient.workflowStepTemplate.findMany as jest.Mock
+    ).mockResolvedValue(
+      v2.steps.map(step => ({ id: `row-${step.stepId}`, stepId: step.stepId }))
+    );
+
+    // Act
+    const result = await new TemplateVersioning(mockPrismaClient).migrateRun(
+      'run-1',
+      'template-1',
+      '1.0.1'
+    );
+
+    // Assert
+    expect(result.success && result.data.compatible).toBe(true);
+    expect(
+      mockPrismaClient.workflowStepExecution.createMany
+    ).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          workflowRunId: 'run-1',
+          stepId: 'scan',
+          stepTemplateId: 'row-scan',
+          status: 'pending',
+        }),
+      ],
+    });
+    expect(mockPrismaClient.workflowRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: { templateVersionId: 'version-2', totalSteps: 4 },
+    });
+    expect(mockPrismaClient.workflowExecutionEvent.create).toHaveBeenCalledWith(
+      { data: expect.objectContaining({ type: 'migrated' }) }
+    );
+  });
+});